@@ -0,0 +1,2 @@
+-- AlterEnum
+ALTER TYPE "public"."NotificationType" ADD VALUE 'APPLICATION_ACCEPTED';
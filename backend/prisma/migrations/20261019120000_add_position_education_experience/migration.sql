@@ -0,0 +1,5 @@
+-- AlterTable
+ALTER TABLE "public"."Education" ADD COLUMN     "position" INTEGER NOT NULL DEFAULT 0;
+
+-- AlterTable
+ALTER TABLE "public"."Experience" ADD COLUMN     "position" INTEGER NOT NULL DEFAULT 0;
@@ -0,0 +1,4 @@
+-- AlterTable
+ALTER TABLE "public"."Resume" ADD COLUMN     "extractedText" TEXT,
+ADD COLUMN     "parsedAt" TIMESTAMP(3),
+ADD COLUMN     "parsedData" JSONB;
@@ -0,0 +1,21 @@
+-- Full-text search for GET /jobs?q=. Prisma cannot model expression indexes,
+-- so the document function and GIN indexes are managed here by hand.
+
+-- CreateFunction
+CREATE OR REPLACE FUNCTION "public"."job_search_document"("title" TEXT, "skills" TEXT[], "location" TEXT, "description" TEXT)
+RETURNS tsvector
+LANGUAGE sql
+IMMUTABLE
+PARALLEL SAFE
+AS $$
+    SELECT setweight(to_tsvector('english'::regconfig, coalesce("title", '')), 'A')
+        || setweight(to_tsvector('english'::regconfig, coalesce(array_to_string("skills", ' '), '')), 'B')
+        || setweight(to_tsvector('english'::regconfig, coalesce("location", '')), 'C')
+        || setweight(to_tsvector('english'::regconfig, coalesce("description", '')), 'D')
+$$;
+
+-- CreateIndex
+CREATE INDEX "Job_search_document_idx" ON "public"."Job" USING GIN ("public"."job_search_document"("title", "skills", "location", "description"));
+
+-- CreateIndex
+CREATE INDEX "Company_name_search_idx" ON "public"."Company" USING GIN (to_tsvector('english'::regconfig, "name"));
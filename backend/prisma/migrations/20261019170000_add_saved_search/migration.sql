@@ -0,0 +1,36 @@
+-- CreateEnum
+CREATE TYPE "public"."DigestFrequency" AS ENUM ('DAILY', 'WEEKLY');
+
+-- AlterEnum
+ALTER TYPE "public"."NotificationType" ADD VALUE 'JOB_ALERT';
+
+-- CreateTable
+CREATE TABLE "public"."SavedSearch" (
+    "id" UUID NOT NULL,
+    "applicantId" UUID NOT NULL,
+    "name" TEXT NOT NULL,
+    "roles" "public"."JobRole"[],
+    "skills" TEXT[],
+    "jobTypes" "public"."JobType"[],
+    "locations" TEXT[],
+    "departments" "public"."Department"[],
+    "salaryMin" DOUBLE PRECISION,
+    "salaryMax" DOUBLE PRECISION,
+    "companyTypes" "public"."CompanyType"[],
+    "frequency" "public"."DigestFrequency" NOT NULL DEFAULT 'DAILY',
+    "isActive" BOOLEAN NOT NULL DEFAULT true,
+    "lastDigestAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "SavedSearch_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "SavedSearch_applicantId_name_key" ON "public"."SavedSearch"("applicantId", "name");
+
+-- CreateIndex
+CREATE INDEX "SavedSearch_isActive_lastDigestAt_idx" ON "public"."SavedSearch"("isActive", "lastDigestAt");
+
+-- AddForeignKey
+ALTER TABLE "public"."SavedSearch" ADD CONSTRAINT "SavedSearch_applicantId_fkey" FOREIGN KEY ("applicantId") REFERENCES "public"."Applicant"("id") ON DELETE CASCADE ON UPDATE CASCADE;
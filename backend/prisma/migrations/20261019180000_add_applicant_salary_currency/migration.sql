@@ -0,0 +1,2 @@
+-- AlterTable
+ALTER TABLE "public"."Applicant" ADD COLUMN     "salaryCurrency" "public"."Currency" NOT NULL DEFAULT 'INR';
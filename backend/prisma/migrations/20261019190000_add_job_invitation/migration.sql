@@ -0,0 +1,22 @@
+-- AlterEnum
+ALTER TYPE "public"."NotificationType" ADD VALUE 'JOB_INVITATION';
+
+-- CreateTable
+CREATE TABLE "public"."JobInvitation" (
+    "id" UUID NOT NULL,
+    "jobId" UUID NOT NULL,
+    "applicantId" UUID NOT NULL,
+    "message" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "JobInvitation_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "JobInvitation_jobId_applicantId_key" ON "public"."JobInvitation"("jobId", "applicantId");
+
+-- AddForeignKey
+ALTER TABLE "public"."JobInvitation" ADD CONSTRAINT "JobInvitation_jobId_fkey" FOREIGN KEY ("jobId") REFERENCES "public"."Job"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "public"."JobInvitation" ADD CONSTRAINT "JobInvitation_applicantId_fkey" FOREIGN KEY ("applicantId") REFERENCES "public"."Applicant"("id") ON DELETE CASCADE ON UPDATE CASCADE;
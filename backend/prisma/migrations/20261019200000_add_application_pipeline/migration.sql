@@ -0,0 +1,68 @@
+-- AlterTable
+ALTER TABLE "public"."Application" ADD COLUMN     "stageId" UUID;
+
+-- CreateTable
+CREATE TABLE "public"."PipelineStage" (
+    "id" UUID NOT NULL,
+    "jobId" UUID NOT NULL,
+    "name" TEXT NOT NULL,
+    "position" INTEGER NOT NULL,
+    "status" "public"."ApplicationStatus" NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "PipelineStage_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "public"."PipelineTransition" (
+    "fromStageId" UUID NOT NULL,
+    "toStageId" UUID NOT NULL,
+
+    CONSTRAINT "PipelineTransition_pkey" PRIMARY KEY ("fromStageId","toStageId")
+);
+
+-- CreateTable
+CREATE TABLE "public"."ApplicationStageMove" (
+    "id" UUID NOT NULL,
+    "applicationId" UUID NOT NULL,
+    "fromStageId" UUID,
+    "toStageId" UUID,
+    "fromStageName" TEXT,
+    "toStageName" TEXT NOT NULL,
+    "actorId" UUID NOT NULL,
+    "note" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "ApplicationStageMove_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "PipelineStage_jobId_name_key" ON "public"."PipelineStage"("jobId", "name");
+
+-- CreateIndex
+CREATE INDEX "ApplicationStageMove_applicationId_createdAt_idx" ON "public"."ApplicationStageMove"("applicationId", "createdAt");
+
+-- AddForeignKey
+ALTER TABLE "public"."Application" ADD CONSTRAINT "Application_stageId_fkey" FOREIGN KEY ("stageId") REFERENCES "public"."PipelineStage"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "public"."PipelineStage" ADD CONSTRAINT "PipelineStage_jobId_fkey" FOREIGN KEY ("jobId") REFERENCES "public"."Job"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "public"."PipelineTransition" ADD CONSTRAINT "PipelineTransition_fromStageId_fkey" FOREIGN KEY ("fromStageId") REFERENCES "public"."PipelineStage"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "public"."PipelineTransition" ADD CONSTRAINT "PipelineTransition_toStageId_fkey" FOREIGN KEY ("toStageId") REFERENCES "public"."PipelineStage"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "public"."ApplicationStageMove" ADD CONSTRAINT "ApplicationStageMove_applicationId_fkey" FOREIGN KEY ("applicationId") REFERENCES "public"."Application"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "public"."ApplicationStageMove" ADD CONSTRAINT "ApplicationStageMove_fromStageId_fkey" FOREIGN KEY ("fromStageId") REFERENCES "public"."PipelineStage"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "public"."ApplicationStageMove" ADD CONSTRAINT "ApplicationStageMove_toStageId_fkey" FOREIGN KEY ("toStageId") REFERENCES "public"."PipelineStage"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "public"."ApplicationStageMove" ADD CONSTRAINT "ApplicationStageMove_actorId_fkey" FOREIGN KEY ("actorId") REFERENCES "public"."User"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
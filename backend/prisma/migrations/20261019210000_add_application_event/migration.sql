@@ -0,0 +1,28 @@
+-- CreateTable
+CREATE TABLE "public"."ApplicationEvent" (
+    "id" UUID NOT NULL,
+    "applicationId" UUID NOT NULL,
+    "actorId" UUID NOT NULL,
+    "fromStatus" "public"."ApplicationStatus",
+    "toStatus" "public"."ApplicationStatus" NOT NULL,
+    "note" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "ApplicationEvent_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "ApplicationEvent_applicationId_createdAt_idx" ON "public"."ApplicationEvent"("applicationId", "createdAt");
+
+-- AddForeignKey
+ALTER TABLE "public"."ApplicationEvent" ADD CONSTRAINT "ApplicationEvent_applicationId_fkey" FOREIGN KEY ("applicationId") REFERENCES "public"."Application"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "public"."ApplicationEvent" ADD CONSTRAINT "ApplicationEvent_actorId_fkey" FOREIGN KEY ("actorId") REFERENCES "public"."User"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- Backfill the submission event for existing applications. Earlier status
+-- changes were not recorded, so they cannot be reconstructed.
+INSERT INTO "public"."ApplicationEvent" ("id", "applicationId", "actorId", "fromStatus", "toStatus", "createdAt")
+SELECT gen_random_uuid(), a."id", ap."userId", NULL, 'PENDING', a."appliedAt"
+FROM "public"."Application" a
+JOIN "public"."Applicant" ap ON ap."id" = a."applicantId";
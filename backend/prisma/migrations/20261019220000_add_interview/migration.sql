@@ -0,0 +1,57 @@
+-- CreateEnum
+CREATE TYPE "public"."InterviewMode" AS ENUM ('ONSITE', 'VIDEO', 'PHONE');
+
+-- CreateEnum
+CREATE TYPE "public"."InterviewStatus" AS ENUM ('SCHEDULED', 'CONFIRMED', 'CANCELLED');
+
+-- CreateTable
+CREATE TABLE "public"."Interview" (
+    "id" UUID NOT NULL,
+    "applicationId" UUID NOT NULL,
+    "round" INTEGER NOT NULL,
+    "title" TEXT,
+    "startsAt" TIMESTAMP(3) NOT NULL,
+    "endsAt" TIMESTAMP(3) NOT NULL,
+    "timezone" TEXT NOT NULL,
+    "mode" "public"."InterviewMode" NOT NULL,
+    "location" TEXT,
+    "meetingLink" TEXT,
+    "instructions" TEXT,
+    "status" "public"."InterviewStatus" NOT NULL DEFAULT 'SCHEDULED',
+    "confirmedAt" TIMESTAMP(3),
+    "cancelledAt" TIMESTAMP(3),
+    "cancellationReason" TEXT,
+    "scheduledById" UUID NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "Interview_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "public"."Interviewer" (
+    "id" UUID NOT NULL,
+    "interviewId" UUID NOT NULL,
+    "name" TEXT NOT NULL,
+    "email" TEXT NOT NULL,
+
+    CONSTRAINT "Interviewer_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "Interview_applicationId_idx" ON "public"."Interview"("applicationId");
+
+-- CreateIndex
+CREATE INDEX "Interview_startsAt_idx" ON "public"."Interview"("startsAt");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "Interviewer_interviewId_email_key" ON "public"."Interviewer"("interviewId", "email");
+
+-- AddForeignKey
+ALTER TABLE "public"."Interview" ADD CONSTRAINT "Interview_applicationId_fkey" FOREIGN KEY ("applicationId") REFERENCES "public"."Application"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "public"."Interview" ADD CONSTRAINT "Interview_scheduledById_fkey" FOREIGN KEY ("scheduledById") REFERENCES "public"."User"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "public"."Interviewer" ADD CONSTRAINT "Interviewer_interviewId_fkey" FOREIGN KEY ("interviewId") REFERENCES "public"."Interview"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,33 @@
+-- AlterTable
+ALTER TABLE "public"."Interview" ADD COLUMN     "slotId" UUID;
+
+-- CreateTable
+CREATE TABLE "public"."AvailabilitySlot" (
+    "id" UUID NOT NULL,
+    "recruiterId" UUID NOT NULL,
+    "jobId" UUID,
+    "startsAt" TIMESTAMP(3) NOT NULL,
+    "endsAt" TIMESTAMP(3) NOT NULL,
+    "timezone" TEXT NOT NULL,
+    "mode" "public"."InterviewMode" NOT NULL,
+    "location" TEXT,
+    "meetingLink" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "AvailabilitySlot_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "AvailabilitySlot_recruiterId_startsAt_idx" ON "public"."AvailabilitySlot"("recruiterId", "startsAt");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "Interview_slotId_key" ON "public"."Interview"("slotId");
+
+-- AddForeignKey
+ALTER TABLE "public"."Interview" ADD CONSTRAINT "Interview_slotId_fkey" FOREIGN KEY ("slotId") REFERENCES "public"."AvailabilitySlot"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "public"."AvailabilitySlot" ADD CONSTRAINT "AvailabilitySlot_recruiterId_fkey" FOREIGN KEY ("recruiterId") REFERENCES "public"."Recruiter"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "public"."AvailabilitySlot" ADD CONSTRAINT "AvailabilitySlot_jobId_fkey" FOREIGN KEY ("jobId") REFERENCES "public"."Job"("id") ON DELETE CASCADE ON UPDATE CASCADE;
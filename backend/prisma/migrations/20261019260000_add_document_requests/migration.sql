@@ -0,0 +1,55 @@
+-- CreateEnum
+CREATE TYPE "public"."DocumentType" AS ENUM ('ID_PROOF', 'TRANSCRIPT', 'PAYSLIP', 'PORTFOLIO', 'OTHER');
+
+-- CreateEnum
+CREATE TYPE "public"."DocumentRequestStatus" AS ENUM ('REQUESTED', 'SUBMITTED', 'ACCEPTED', 'RESUBMISSION_REQUIRED');
+
+-- CreateTable
+CREATE TABLE "public"."DocumentRequest" (
+    "id" UUID NOT NULL,
+    "applicationId" UUID NOT NULL,
+    "type" "public"."DocumentType" NOT NULL,
+    "title" TEXT,
+    "instructions" TEXT,
+    "dueAt" TIMESTAMP(3) NOT NULL,
+    "status" "public"."DocumentRequestStatus" NOT NULL DEFAULT 'REQUESTED',
+    "reviewNote" TEXT,
+    "reviewedAt" TIMESTAMP(3),
+    "requestedById" UUID NOT NULL,
+    "lastReminderAt" TIMESTAMP(3),
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "DocumentRequest_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "public"."DocumentUpload" (
+    "id" UUID NOT NULL,
+    "requestId" UUID NOT NULL,
+    "fileName" TEXT NOT NULL,
+    "mimeType" TEXT NOT NULL,
+    "size" INTEGER NOT NULL,
+    "storageKey" TEXT NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "DocumentUpload_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "DocumentRequest_applicationId_idx" ON "public"."DocumentRequest"("applicationId");
+
+-- CreateIndex
+CREATE INDEX "DocumentRequest_status_dueAt_idx" ON "public"."DocumentRequest"("status", "dueAt");
+
+-- CreateIndex
+CREATE INDEX "DocumentUpload_requestId_createdAt_idx" ON "public"."DocumentUpload"("requestId", "createdAt");
+
+-- AddForeignKey
+ALTER TABLE "public"."DocumentRequest" ADD CONSTRAINT "DocumentRequest_applicationId_fkey" FOREIGN KEY ("applicationId") REFERENCES "public"."Application"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "public"."DocumentRequest" ADD CONSTRAINT "DocumentRequest_requestedById_fkey" FOREIGN KEY ("requestedById") REFERENCES "public"."User"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "public"."DocumentUpload" ADD CONSTRAINT "DocumentUpload_requestId_fkey" FOREIGN KEY ("requestId") REFERENCES "public"."DocumentRequest"("id") ON DELETE CASCADE ON UPDATE CASCADE;
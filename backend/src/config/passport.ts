@@ -2,6 +2,7 @@ import passport from "passport";
 import { Strategy as GoogleStrategy, Profile } from "passport-google-oauth20";
 import { UserPayload } from "types/types";
 import { PrismaClient, Role } from "@prisma/client";
+import { ensureRoleProfile, roleProfileCreateInput } from "../services/roleProfileService";
 const prisma = new PrismaClient();
 
 const GOOGLE_CLIENT_ID = process.env.GOOGLE_CLIENT_ID!;
@@ -27,6 +28,7 @@ passport.use(new GoogleStrategy({
                         where: { id: user.id },
                         data: { googleId },
                     });
+                    await ensureRoleProfile(user.id, user.role);
                 }
             }
             if (!user) {
@@ -39,6 +41,7 @@ passport.use(new GoogleStrategy({
                         role: Role.APPLICANT,
                         isActive: true,
                         lastLogin: new Date(),
+                        ...roleProfileCreateInput(Role.APPLICANT),
                     },
                 });
             }
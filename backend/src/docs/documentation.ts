@@ -178,6 +178,7 @@ export class ZeroDocs {
         tags?: string[];
         requestBody?: SchemaObject;
         requestBodyDescription?: string;
+        requestBodyContentType?: string;
         parameters?: IRequestParameter[];
         description?: string;
         operationId?: string;
@@ -217,7 +218,7 @@ export class ZeroDocs {
                 tags: data.tags,
                 requestBody: data.requestBody
                 ? new RequestBody(
-                    { "application/json": { schema: data.requestBody } },
+                    { [data.requestBodyContentType ?? "application/json"]: { schema: data.requestBody } },
                     data.requestBodyDescription
                     )
                 : undefined,
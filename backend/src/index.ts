@@ -8,6 +8,8 @@ import rateLimit from 'express-rate-limit';
 import morgan from 'morgan';
 import session from 'express-session';
 import passport from 'passport';
+import { startJobAlertScheduler } from './services/jobAlertService';
+import { startDocumentReminderScheduler } from './services/documentRequestService';
 
 const app = express()
 const port = process.env.PORT || 8000
@@ -48,4 +50,6 @@ app.use((req, res, next) => {
 app.listen(port, () => {
   console.log(`Example app listening on port ${port}`)
   console.log(`Swagger docs available at http://localhost:${port}/api-docs`);
+  startJobAlertScheduler();
+  startDocumentReminderScheduler();
 })
@@ -0,0 +1,62 @@
+import { NextFunction, Request, Response } from "express";
+import multer from 'multer';
+import logger from "../utils/logger";
+
+export const DOCUMENT_MIME_TYPES = [
+    'application/pdf',
+    'image/png',
+    'image/jpeg',
+    'application/vnd.openxmlformats-officedocument.wordprocessingml.document'
+];
+
+export const DOCUMENT_MAX_SIZE_BYTES = (Number(process.env.DOCUMENT_MAX_SIZE_MB) || 10) * 1024 * 1024;
+
+const upload = multer({
+    storage: multer.memoryStorage(),
+    limits: { fileSize: DOCUMENT_MAX_SIZE_BYTES, files: 1 },
+    fileFilter: (req, file, cb) => {
+        cb(null, DOCUMENT_MIME_TYPES.includes(file.mimetype));
+    }
+}).single('document');
+
+const signatures: Record<string, number[]> = {
+    'application/pdf': [0x25, 0x50, 0x44, 0x46, 0x2d],
+    'image/png': [0x89, 0x50, 0x4e, 0x47],
+    'image/jpeg': [0xff, 0xd8, 0xff],
+    'application/vnd.openxmlformats-officedocument.wordprocessingml.document': [0x50, 0x4b, 0x03, 0x04]
+};
+
+// Same reasoning as for resumes: the declared MIME type comes from the client.
+function hasExpectedSignature(file: Express.Multer.File) {
+    const signature = signatures[file.mimetype];
+    return !!signature && file.buffer.subarray(0, signature.length).equals(Buffer.from(signature));
+}
+
+function documentUploadMiddleware(req: Request, res: Response, next: NextFunction){
+    upload(req, res, (err: unknown) => {
+        if (err instanceof multer.MulterError) {
+            logger.warn(`Document upload rejected - ${err.code} - ${req.method} ${req.originalUrl} - IP: ${req.ip}`);
+            if (err.code === 'LIMIT_FILE_SIZE') {
+                return res.status(413).json({ message: `Documents must be at most ${DOCUMENT_MAX_SIZE_BYTES / (1024 * 1024)} MB` });
+            }
+            return res.status(400).json({ message: "Invalid upload", error: err.message });
+        }
+        if (err) {
+            return next(err);
+        }
+
+        if (!req.file) {
+            logger.warn(`Document upload rejected - missing or unsupported file - ${req.method} ${req.originalUrl} - IP: ${req.ip}`);
+            return res.status(400).json({ message: "A PDF, PNG, JPEG or DOCX file is required in the 'document' field" });
+        }
+
+        if (!hasExpectedSignature(req.file)) {
+            logger.warn(`Document upload rejected - content does not match ${req.file.mimetype} - IP: ${req.ip}`);
+            return res.status(400).json({ message: "File content does not match its declared type" });
+        }
+
+        next();
+    });
+}
+
+export default documentUploadMiddleware;
@@ -0,0 +1,42 @@
+import { NextFunction, Request, Response } from "express";
+import { Role } from '@prisma/client';
+import logger from "../utils/logger";
+import { findApplicantId, findRecruiterId } from "../services/roleProfileService";
+
+// Must run after authMiddleware or roleMiddleware. Loads the role profile once
+// per request and exposes its id as req.user.applicantId / req.user.recruiterId.
+async function identityMiddleware(req: Request, res: Response, next: NextFunction){
+    const userId = req.user?.userId;
+
+    if (!userId) {
+        logger.warn(`Unauthorized access attempt: Missing user - ${req.method} ${req.originalUrl} - IP: ${req.ip}`);
+        return res.status(401).json({ message: "Unauthorized" });
+    }
+
+    try {
+        if (req.user!.role === Role.RECRUITER) {
+            const recruiterId = await findRecruiterId(userId);
+            if (!recruiterId) {
+                logger.warn(`Recruiter profile not found for userId: ${userId} - ${req.method} ${req.originalUrl}`);
+                return res.status(404).json({ message: "Recruiter profile not found" });
+            }
+            req.user!.recruiterId = recruiterId;
+        } else {
+            const applicantId = await findApplicantId(userId);
+            if (!applicantId) {
+                logger.warn(`Applicant profile not found for userId: ${userId} - ${req.method} ${req.originalUrl}`);
+                return res.status(404).json({ message: "Applicant profile not found" });
+            }
+            req.user!.applicantId = applicantId;
+        }
+        next();
+    } catch(err) {
+        logger.error(`Error resolving profile for userId: ${userId} - ${err instanceof Error ? err.message : 'Unknown error'}`);
+        return res.status(500).json({
+            message: "Internal server error",
+            error: err instanceof Error ? err.message : "Unknown error"
+        })
+    }
+}
+
+export default identityMiddleware;
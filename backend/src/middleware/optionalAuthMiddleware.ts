@@ -0,0 +1,31 @@
+import { NextFunction, Request, Response } from "express";
+import jwt, { JwtPayload } from 'jsonwebtoken';
+import logger from "../utils/logger";
+
+function optionalAuthMiddleware(req: Request, res: Response, next: NextFunction){
+    const token = req.cookies.token
+
+    if(!token){
+        return next();
+    }
+
+    try {
+        const JWT_SECRET = process.env.JWT_SECRET;
+        if(!JWT_SECRET){
+            throw new Error("JWT_SECRET not defined")
+        }
+        const decoded = jwt.verify(token, JWT_SECRET) as JwtPayload;
+
+        if (decoded?.userId) {
+            req.user = {
+                userId: decoded.userId,
+                role: decoded.role,
+            };
+        }
+    } catch(err) {
+        logger.debug(`Ignoring invalid token on public route - ${req.method} ${req.originalUrl} - IP: ${req.ip} - Error: ${err instanceof Error ? err.message : 'Unknown error'}`);
+    }
+    next();
+}
+
+export default optionalAuthMiddleware;
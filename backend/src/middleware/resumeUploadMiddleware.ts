@@ -0,0 +1,57 @@
+import { NextFunction, Request, Response } from "express";
+import multer from 'multer';
+import logger from "../utils/logger";
+
+export const RESUME_MIME_TYPES = [
+    'application/pdf',
+    'application/vnd.openxmlformats-officedocument.wordprocessingml.document'
+];
+
+export const RESUME_MAX_SIZE_BYTES = (Number(process.env.RESUME_MAX_SIZE_MB) || 5) * 1024 * 1024;
+
+const upload = multer({
+    storage: multer.memoryStorage(),
+    limits: { fileSize: RESUME_MAX_SIZE_BYTES, files: 1 },
+    fileFilter: (req, file, cb) => {
+        cb(null, RESUME_MIME_TYPES.includes(file.mimetype));
+    }
+}).single('resume');
+
+// The declared MIME type comes from the client, so also check the file
+// signature: PDFs start with "%PDF-" and DOCX files are ZIP archives.
+function hasExpectedSignature(file: Express.Multer.File) {
+    const header = file.buffer.subarray(0, 5);
+    if (file.mimetype === 'application/pdf') {
+        return header.toString('latin1') === '%PDF-';
+    }
+    return header.subarray(0, 4).equals(Buffer.from([0x50, 0x4b, 0x03, 0x04]));
+}
+
+function resumeUploadMiddleware(req: Request, res: Response, next: NextFunction){
+    upload(req, res, (err: unknown) => {
+        if (err instanceof multer.MulterError) {
+            logger.warn(`Resume upload rejected - ${err.code} - ${req.method} ${req.originalUrl} - IP: ${req.ip}`);
+            if (err.code === 'LIMIT_FILE_SIZE') {
+                return res.status(413).json({ message: `Resume must be at most ${RESUME_MAX_SIZE_BYTES / (1024 * 1024)} MB` });
+            }
+            return res.status(400).json({ message: "Invalid upload", error: err.message });
+        }
+        if (err) {
+            return next(err);
+        }
+
+        if (!req.file) {
+            logger.warn(`Resume upload rejected - missing or unsupported file - ${req.method} ${req.originalUrl} - IP: ${req.ip}`);
+            return res.status(400).json({ message: "A PDF or DOCX file is required in the 'resume' field" });
+        }
+
+        if (!hasExpectedSignature(req.file)) {
+            logger.warn(`Resume upload rejected - content does not match ${req.file.mimetype} - IP: ${req.ip}`);
+            return res.status(400).json({ message: "File content does not match its declared type" });
+        }
+
+        next();
+    });
+}
+
+export default resumeUploadMiddleware;
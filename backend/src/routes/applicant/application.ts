@@ -1,9 +1,14 @@
 import express, { Request, Response } from 'express';
 import roleMiddleware from '../../middleware/roleMiddleware';
+import identityMiddleware from '../../middleware/identityMiddleware';
 const router = express.Router();
+import zod from 'zod';
 import { ApplicationStatus, PrismaClient } from '@prisma/client';
 import { Documentation, Methods, SchemaObject } from '../../docs/documentation';
 import logger from '../../utils/logger';
+import { buildPage, pageArgs, paginationParameters, paginationSchema, parsePagination } from '../../utils/pagination';
+import { applicationEventSchema, applicationEventsInclude, isStatusConflict, statusChangeOperations } from '../../services/applicationHistoryService';
+import { notifyApplicationWithdrawn } from '../../services/applicationNotificationService';
 const prisma = new PrismaClient();
 
 class GetMyApplicationsResponse {
@@ -43,17 +48,7 @@ class GetMyApplicationsResponse {
           }
         }
       },
-      pagination: {
-        type: "object",
-        properties: {
-          total: { type: "number", example: 100 },
-          page: { type: "number", example: 1 },
-          limit: { type: "number", example: 10 },
-          totalPages: { type: "number", example: 10 },
-          hasNextPage: { type: "boolean", example: true },
-          hasPrevPage: { type: "boolean", example: false }
-        }
-      }
+      pagination: paginationSchema
     }
   }
 }
@@ -66,18 +61,7 @@ Documentation.addRoute({
   tags: ["Application - Applicant"],
   summary: "Get applications submitted by the logged-in applicant",
   parameters: [
-    {
-      in: "query",
-      name: "page",
-      required: false,
-      schema: { type: "integer", example: 1 }
-    },
-    {
-      in: "query",
-      name: "limit",
-      required: false,
-      schema: { type: "integer", example: 10 }
-    },
+    ...paginationParameters,
     {
       in: "query",
       name: "status",
@@ -94,6 +78,15 @@ Documentation.addRoute({
       description: "Applications fetched successfully",
       value: GetMyApplicationsResponse.schema
     },
+    "400": {
+      description: "Invalid cursor",
+      value: {
+        type: "object",
+        properties: {
+          message: { type: "string", example: "Invalid cursor" }
+        }
+      }
+    },
     "401": {
       description: "Unauthorized",
       value: {
@@ -116,8 +109,8 @@ Documentation.addRoute({
   }
 })();
 
-router.get('/me', roleMiddleware("APPLICANT"), async (req: Request, res: Response) => {
-    const applicantId = req.user?.userId;
+router.get('/me', roleMiddleware("APPLICANT"), identityMiddleware, async (req: Request, res: Response) => {
+    const applicantId = req.user?.applicantId;
     logger.info(`GET /me - Fetching applications for applicantId: ${applicantId}, IP: ${req.ip}`);
 
     if(!applicantId){
@@ -125,12 +118,15 @@ router.get('/me', roleMiddleware("APPLICANT"), async (req: Request, res: Respons
       return res.status(401).json({ message: "Unauthorized" })
     }
 
-    const page = parseInt(req.query.page as string) || 1;
-    const limit = parseInt(req.query.limit as string) || 10;
-    const skip = (page - 1) * limit;
+    const paginationResult = parsePagination(req.query);
+    if (!paginationResult.success) {
+      logger.warn(`Invalid pagination for applicantId: ${applicantId} - ${paginationResult.message}`);
+      return res.status(400).json({ message: paginationResult.message })
+    }
+    const pagination = paginationResult.data;
     const statusRaw = req.query.status as string | undefined;
     const validStatuses = Object.values(ApplicationStatus);
-    logger.debug(`Query params - page: ${page}, limit: ${limit}, statusRaw: ${statusRaw}`);
+    logger.debug(`Query params - mode: ${pagination.mode}, page: ${pagination.page}, limit: ${pagination.limit}, statusRaw: ${statusRaw}`);
 
     const status = statusRaw && validStatuses.includes(statusRaw as ApplicationStatus)
     ? (statusRaw as ApplicationStatus)
@@ -140,22 +136,19 @@ router.get('/me', roleMiddleware("APPLICANT"), async (req: Request, res: Respons
         logger.warn(`Invalid status filter provided: ${statusRaw}`);
     }
 
+    const where = {
+        applicantId,
+        ...(status ? { status } : {})
+    };
+
     try {
         logger.debug(`DB Query - Counting applications for applicantId: ${applicantId}, status: ${status}`);
-        const total = await prisma.application.count({
-            where: {
-                applicantId,
-                ...(status ? { status} : {})
-            }
-        })
-        logger.debug(`DB Result - Total applications found: ${total}`);
-
-        logger.debug(`DB Query - Fetching applications with pagination - skip: ${skip}, take: ${limit}`);
-        const applications = await prisma.application.findMany({
-            where: {
-                applicantId,
-                ...(status ? { status } : {})
-            },
+        const total = pagination.mode === 'page' ? await prisma.application.count({ where }) : null;
+        logger.debug(`DB Result - Total applications found: ${total ?? 'n/a'}`);
+
+        logger.debug(`DB Query - Fetching applications with pagination - skip: ${pagination.skip}, take: ${pagination.limit}`);
+        const rows = await prisma.application.findMany({
+            ...pageArgs(where, pagination),
             include: {
                 job: {
                     include: {
@@ -163,27 +156,16 @@ router.get('/me', roleMiddleware("APPLICANT"), async (req: Request, res: Respons
                         recruiter: true
                     }
                 }
-            },
-            orderBy: {
-                createdAt: 'desc'
-            },
-            skip,
-            take: limit
+            }
         })
+        const { items: applications, pagination: pageInfo } = buildPage(rows, pagination, total);
         logger.debug(`DB Result - Applications fetched: ${applications.length}`);
-        logger.info(`Applications fetched successfully for applicantId: ${applicantId}, page: ${page}, limit: ${limit}`);
+        logger.info(`Applications fetched successfully for applicantId: ${applicantId}, mode: ${pagination.mode}, limit: ${pagination.limit}`);
 
         return res.status(200).json({
             message: "Applications fetched successfully",
             data: applications,
-            pagination: {
-                total,
-                page,
-                limit,
-                totalPages: Math.ceil(total / limit),
-                hasNextPage: skip + limit < total,
-                hasPrevPage: page > 1
-            }
+            pagination: pageInfo
         });
     } catch(err) {
         logger.error(`Error fetching applications for applicantId: ${applicantId} - ${err instanceof Error ? err.message : "Unknown error"} - IP: ${req.ip}`);
@@ -195,4 +177,348 @@ router.get('/me', roleMiddleware("APPLICANT"), async (req: Request, res: Respons
     }
 })
 
+class GetMyApplicationResponse {
+  static schema: SchemaObject = {
+    type: "object",
+    properties: {
+      message: { type: "string", example: "Application fetched successfully" },
+      application: {
+        type: "object",
+        properties: {
+          id: { type: "string", example: "application-id-123" },
+          status: { type: "string", example: "REJECTED" },
+          coverLetter: { type: "string", nullable: true },
+          portfolioUrl: { type: "string", nullable: true },
+          appliedAt: { type: "string", format: "date-time" },
+          eviewedAt: { type: "string", format: "date-time", nullable: true, description: "First time the application moved past PENDING" },
+          acceptedAt: { type: "string", format: "date-time", nullable: true },
+          rejectedAt: { type: "string", format: "date-time", nullable: true },
+          job: {
+            type: "object",
+            properties: {
+              id: { type: "string", example: "job-id-456" },
+              title: { type: "string", example: "Frontend Developer" },
+              company: {
+                type: "object",
+                properties: {
+                  id: { type: "string", example: "company-id-789" },
+                  name: { type: "string", example: "Acme Corp" },
+                  logoUrl: { type: "string", example: "https://example.com/logo.png" }
+                }
+              }
+            }
+          },
+          events: {
+            type: "array",
+            description: "Status history, oldest first. Notes are only included on changes you made yourself.",
+            items: applicationEventSchema
+          }
+        }
+      }
+    }
+  }
+}
+
+Documentation.addSchema()(GetMyApplicationResponse);
+
+Documentation.addRoute({
+  path: "/applications/me/:id",
+  method: Methods.get,
+  tags: ["Application - Applicant"],
+  summary: "Get one of the logged-in applicant's applications with its status history",
+  parameters: [
+    {
+      in: "path",
+      name: "id",
+      required: true,
+      schema: { type: "string", example: "application-id-123" }
+    }
+  ],
+  responses: {
+    "200": {
+      description: "Application fetched successfully",
+      value: GetMyApplicationResponse.schema
+    },
+    "401": {
+      description: "Unauthorized",
+      value: {
+        type: "object",
+        properties: {
+          message: { type: "string", example: "Unauthorized" }
+        }
+      }
+    },
+    "404": {
+      description: "Application not found, or it belongs to another applicant",
+      value: {
+        type: "object",
+        properties: {
+          message: { type: "string", example: "Application not found" }
+        }
+      }
+    },
+    "500": {
+      description: "Internal server error",
+      value: {
+        type: "object",
+        properties: {
+          message: { type: "string", example: "Internal server error" },
+          error: { type: "string", example: "Unknown error" }
+        }
+      }
+    }
+  }
+})();
+
+router.get('/me/:id', roleMiddleware("APPLICANT"), identityMiddleware, async (req: Request, res: Response) => {
+    const { id } = req.params;
+    const userId = req.user?.userId;
+    const applicantId = req.user?.applicantId;
+    logger.info(`GET /me/${id} - Fetching application for applicantId: ${applicantId}, IP: ${req.ip}`);
+
+    if(!applicantId){
+      logger.warn(`Unauthorized access attempt - Missing applicantId. IP: ${req.ip}`);
+      return res.status(401).json({ message: "Unauthorized" })
+    }
+
+    try {
+        logger.debug(`DB Query - Fetching application ${id} for applicantId: ${applicantId}`);
+        const application = await prisma.application.findFirst({
+            where: { id, applicantId },
+            select: {
+                id: true,
+                status: true,
+                coverLetter: true,
+                portfolioUrl: true,
+                resumeId: true,
+                appliedAt: true,
+                eviewedAt: true,
+                acceptedAt: true,
+                rejectedAt: true,
+                createdAt: true,
+                updatedAt: true,
+                job: {
+                    select: {
+                        id: true,
+                        title: true,
+                        location: true,
+                        company: { select: { id: true, name: true, logoUrl: true } }
+                    }
+                },
+                events: applicationEventsInclude
+            }
+        })
+
+        if(!application){
+            logger.warn(`Application not found - applicationId: ${id}, applicantId: ${applicantId}`);
+            return res.status(404).json({ message: "Application not found" })
+        }
+
+        // Recruiter notes are internal; the applicant still sees who made each change and when.
+        const events = application.events.map(event => ({
+            ...event,
+            note: event.actorId === userId ? event.note : null
+        }));
+
+        logger.info(`Application ${id} fetched for applicantId: ${applicantId} with ${events.length} events`);
+        return res.status(200).json({
+            message: "Application fetched successfully",
+            application: { ...application, events }
+        });
+    } catch(err) {
+        logger.error(`Error fetching application ${id} for applicantId: ${applicantId} - ${err instanceof Error ? err.message : "Unknown error"} - IP: ${req.ip}`);
+        logger.debug(`Stack trace: ${err instanceof Error ? err.stack : "No stack trace"}`);
+        return res.status(500).json({
+            message: "Internal server error",
+            error: err instanceof Error ? err.message : "Unknown error"
+        })
+    }
+})
+
+const withdrawBody = zod.object({
+    reason: zod.string().trim().min(1).max(1000).optional()
+})
+
+class WithdrawApplicationRequest {
+  static schema: SchemaObject = {
+    type: "object",
+    properties: {
+      reason: { type: "string", example: "I accepted another offer" }
+    }
+  }
+}
+
+class WithdrawApplicationResponse {
+  static schema: SchemaObject = {
+    type: "object",
+    properties: {
+      message: { type: "string", example: "Application withdrawn successfully" },
+      application: {
+        type: "object",
+        properties: {
+          id: { type: "string", example: "application-id-123" },
+          status: { type: "string", example: "WITHDRAWN" },
+          updatedAt: { type: "string", format: "date-time" }
+        }
+      }
+    }
+  }
+}
+
+Documentation.addSchema()(WithdrawApplicationRequest);
+Documentation.addSchema()(WithdrawApplicationResponse);
+
+Documentation.addRoute({
+  path: "/applications/:id/withdraw",
+  method: Methods.post,
+  tags: ["Application - Applicant"],
+  summary: "Withdraw one of the logged-in applicant's applications",
+  description: "Not possible once the application has been accepted or rejected. The recruiter is notified and the reason is kept in the application's history.",
+  parameters: [
+    {
+      in: "path",
+      name: "id",
+      required: true,
+      schema: { type: "string", example: "application-id-123" }
+    }
+  ],
+  requestBody: WithdrawApplicationRequest.schema,
+  requestBodyDescription: "Optional reason for withdrawing",
+  responses: {
+    "200": {
+      description: "Application withdrawn successfully",
+      value: WithdrawApplicationResponse.schema
+    },
+    "400": {
+      description: "Invalid input",
+      value: {
+        type: "object",
+        properties: {
+          message: { type: "string", example: "Invalid input" }
+        }
+      }
+    },
+    "401": {
+      description: "Unauthorized",
+      value: {
+        type: "object",
+        properties: {
+          message: { type: "string", example: "Unauthorized" }
+        }
+      }
+    },
+    "403": {
+      description: "Application belongs to another applicant",
+      value: {
+        type: "object",
+        properties: {
+          message: { type: "string", example: "Forbidden: You can only withdraw your own applications." }
+        }
+      }
+    },
+    "404": {
+      description: "Application not found",
+      value: {
+        type: "object",
+        properties: {
+          message: { type: "string", example: "Application not found" }
+        }
+      }
+    },
+    "409": {
+      description: "Application already withdrawn, accepted or rejected, or its status changed while withdrawing",
+      value: {
+        type: "object",
+        properties: {
+          message: { type: "string", example: "Application has already been rejected and can no longer be withdrawn" }
+        }
+      }
+    },
+    "500": {
+      description: "Internal server error",
+      value: {
+        type: "object",
+        properties: {
+          message: { type: "string", example: "Internal server error" },
+          error: { type: "string", example: "Unknown error" }
+        }
+      }
+    }
+  }
+})();
+
+router.post('/:id/withdraw', roleMiddleware("APPLICANT"), identityMiddleware, async (req: Request, res: Response) => {
+    const { id } = req.params;
+    const userId = req.user?.userId;
+    const applicantId = req.user?.applicantId;
+    logger.info(`POST /${id}/withdraw - Withdrawal attempt by applicantId: ${applicantId}, IP: ${req.ip}`);
+
+    if(!userId || !applicantId){
+      logger.warn(`Unauthorized access attempt - Missing applicantId. IP: ${req.ip}`);
+      return res.status(401).json({ message: "Unauthorized" })
+    }
+
+    const response = withdrawBody.safeParse(req.body ?? {});
+    if(!response.success){
+        logger.warn(`Validation failed for withdrawal of applicationId: ${id} - ${JSON.stringify(req.body)}`);
+        return res.status(400).json({ message: "Invalid input" })
+    }
+    const { reason } = response.data;
+
+    try {
+        logger.debug(`DB Query - Fetching application ${id} for withdrawal`);
+        const application = await prisma.application.findUnique({
+            where: { id },
+            select: { id: true, applicantId: true, status: true, eviewedAt: true }
+        })
+
+        if(!application){
+            logger.warn(`Application not found - applicationId: ${id}`);
+            return res.status(404).json({ message: "Application not found" })
+        }
+
+        if(application.applicantId !== applicantId){
+            logger.warn(`Forbidden withdrawal attempt on applicationId: ${id} by applicantId: ${applicantId}`);
+            return res.status(403).json({ message: "Forbidden: You can only withdraw your own applications." })
+        }
+
+        if(application.status === "WITHDRAWN"){
+            logger.warn(`Application ${id} is already withdrawn`);
+            return res.status(409).json({ message: "Application has already been withdrawn" })
+        }
+
+        if(application.status === "ACCEPTED" || application.status === "REJECTED"){
+            logger.warn(`Withdrawal rejected for applicationId: ${id} - status is ${application.status}`);
+            return res.status(409).json({ message: `Application has already been ${application.status.toLowerCase()} and can no longer be withdrawn` })
+        }
+
+        // Leaving the pipeline stage frees it up for edits; the stage history stays.
+        logger.debug(`DB Write - Withdrawing applicationId: ${id}`);
+        await prisma.$transaction([
+            ...statusChangeOperations({ application, toStatus: "WITHDRAWN", actorId: userId, note: reason }),
+            prisma.application.update({ where: { id }, data: { stageId: null } })
+        ]);
+        const withdrawn = await prisma.application.findUniqueOrThrow({ where: { id } });
+
+        logger.info(`Application ${id} withdrawn by applicantId: ${applicantId}`);
+        await notifyApplicationWithdrawn(id, reason);
+
+        return res.status(200).json({
+            message: "Application withdrawn successfully",
+            application: withdrawn
+        });
+    } catch(err) {
+        if(isStatusConflict(err)){
+            logger.warn(`Withdrawal rejected - applicationId: ${id} changed status concurrently`);
+            return res.status(409).json({ message: "Application status changed, reload and retry" })
+        }
+        logger.error(`Error withdrawing application ${id} for applicantId: ${applicantId} - ${err instanceof Error ? err.message : "Unknown error"} - IP: ${req.ip}`);
+        logger.debug(`Stack trace: ${err instanceof Error ? err.stack : "No stack trace"}`);
+        return res.status(500).json({
+            message: "Internal server error",
+            error: err instanceof Error ? err.message : "Unknown error"
+        })
+    }
+})
+
 export default router;
\ No newline at end of file
@@ -4,6 +4,7 @@ import { PrismaClient } from '@prisma/client';
 import roleMiddleware from '../../middleware/roleMiddleware';
 import { Documentation, Methods, SchemaObject } from '../../docs/documentation';
 import logger from '../../utils/logger';
+import { buildPage, pageArgs, paginationParameters, paginationSchema, parsePagination } from '../../utils/pagination';
 const prisma = new PrismaClient();
 
 class GetCompaniesResponse {
@@ -28,15 +29,7 @@ class GetCompaniesResponse {
           }
         }
       },
-      meta: {
-        type: "object",
-        properties: {
-          total: { type: "integer", example: 100 },
-          page: { type: "integer", example: 1 },
-          limit: { type: "integer", example: 10 },
-          totalPages: { type: "integer", example: 10 }
-        }
-      }
+      pagination: paginationSchema
     }
   }
 }
@@ -53,16 +46,24 @@ Documentation.addRoute({
     { in: "query", name: "industry", schema: { type: "string" }, required: false },
     { in: "query", name: "location", schema: { type: "string" }, required: false },
     { in: "query", name: "size", schema: { type: "string" }, required: false },
-    { in: "query", name: "sortBy", schema: { type: "string", example: "createdAt" }, required: false },
+    { in: "query", name: "sortBy", schema: { type: "string", enum: ["createdAt", "name"], example: "createdAt" }, required: false, description: "Cursor pagination is only available when sorting by createdAt" },
     { in: "query", name: "order", schema: { type: "string", enum: ["asc", "desc"], example: "desc" }, required: false },
-    { in: "query", name: "page", schema: { type: "integer", example: 1 }, required: false },
-    { in: "query", name: "limit", schema: { type: "integer", example: 10 }, required: false }
+    ...paginationParameters
   ],
   responses: {
     "200": {
       description: "Companies fetched successfully",
       value: GetCompaniesResponse.schema
     },
+    "400": {
+      description: "Invalid cursor, or cursor used with sortBy=name",
+      value: {
+        type: "object",
+        properties: {
+          message: { type: "string", example: "Invalid cursor" }
+        }
+      }
+    },
     "401": {
       description: "Unauthorized",
       value: {
@@ -99,12 +100,23 @@ router.get('/', roleMiddleware("APPLICANT"), async (req: Request, res: Response)
     industry,
     location,
     size,
-    sortBy = 'createdAt',
-    order = 'desc',
-    page = 1,
-    limit = 10
+    sortBy,
+    order
   } = req.query;
-  logger.debug(`Query params received - name: ${name}, industry: ${industry}, location: ${location}, size: ${size}, sortBy: ${sortBy}, order: ${order}, page: ${page}, limit: ${limit}`);
+  const sortField = sortBy === 'name' ? 'name' : 'createdAt';
+  const sortOrder = order === 'asc' ? 'asc' : 'desc';
+
+  const paginationResult = parsePagination(req.query);
+  if (!paginationResult.success) {
+    logger.warn(`Invalid pagination for companies list - ${paginationResult.message}, applicantId: ${applicantId}`);
+    return res.status(400).json({ message: paginationResult.message })
+  }
+  const pagination = paginationResult.data;
+  if (pagination.cursor && sortField !== 'createdAt') {
+    logger.warn(`Cursor pagination requested with sortBy: ${sortField}, applicantId: ${applicantId}`);
+    return res.status(400).json({ message: "Cursor pagination is only available when sorting by createdAt" })
+  }
+  logger.debug(`Query params received - name: ${name}, industry: ${industry}, location: ${location}, size: ${size}, sortBy: ${sortField}, order: ${sortOrder}, mode: ${pagination.mode}, page: ${pagination.page}, limit: ${pagination.limit}`);
 
   const filters: any = {};
 
@@ -121,39 +133,32 @@ router.get('/', roleMiddleware("APPLICANT"), async (req: Request, res: Response)
     filters.size = size;
   }
   logger.debug(`Constructed filters: ${JSON.stringify(filters)}`);
-  const pageNumber = Number(page);
-  const limitNumber = Number(limit);
-  const skip = (pageNumber - 1) * limitNumber;
 
   try {
-    logger.debug(`DB Query - Fetching companies from DB with filters: ${JSON.stringify(filters)}, skip: ${skip}, take: ${limitNumber}, sortBy: ${sortBy}, order: ${order}`);
-    const companies = await prisma.company.findMany({
-      where: filters,
-      orderBy: {
-        [sortBy as string]: order
-      },
-      skip,
-      take: limitNumber
+    logger.debug(`DB Query - Fetching companies from DB with filters: ${JSON.stringify(filters)}, skip: ${pagination.skip}, take: ${pagination.limit}, sortBy: ${sortField}, order: ${sortOrder}`);
+    const args = pageArgs(filters, pagination, sortOrder);
+    const rows = await prisma.company.findMany({
+      ...args,
+      orderBy: sortField === 'name' ? [{ name: sortOrder }, { id: sortOrder }] : args.orderBy
     });
 
-    logger.debug(`DB Result - Companies fetched: ${companies.length}`);
+    logger.debug(`DB Result - Companies fetched: ${rows.length}`);
+
+    const total = pagination.mode === 'page' ? await prisma.company.count({ where: filters }) : null;
+    logger.debug(`DB Result - Total companies count: ${total ?? 'n/a'}`);
 
-    const total = await prisma.company.count({ where: filters });
-    logger.debug(`DB Result - Total companies count: ${total}`);
+    const { items: companies, pagination: pageInfo } = buildPage(rows, pagination, total);
+    // A createdAt cursor would not continue a name-ordered list.
+    if (sortField !== 'createdAt') {
+      pageInfo.nextCursor = null;
+    }
 
-    logger.info(`Companies fetched successfully for applicantId: ${applicantId}, page: ${pageNumber}, limit: ${limitNumber}`);
+    logger.info(`Companies fetched successfully for applicantId: ${applicantId}, mode: ${pagination.mode}, limit: ${pagination.limit}`);
 
     return res.status(200).json({
       message: "Companies fetched successfully",
       companies,
-      meta: {
-        total,
-        page: pageNumber,
-        limit: limitNumber,
-        totalPages: Math.ceil(total / limitNumber),
-        hasNextPage: skip + limitNumber < total,
-        hasPrevPage: pageNumber > 1
-      }
+      pagination: pageInfo
     });
   } catch (err) {
     logger.error(`Error fetching companies for applicantId: ${applicantId} - ${err instanceof Error ? err.message : "Unknown error"} - IP: ${req.ip}`);
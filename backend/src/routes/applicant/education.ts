@@ -0,0 +1,452 @@
+import express, { Request, Response } from 'express';
+const router = express.Router();
+import zod from 'zod';
+import { PrismaClient } from '@prisma/client';
+import roleMiddleware from '../../middleware/roleMiddleware';
+import identityMiddleware from '../../middleware/identityMiddleware';
+import { Documentation, Methods, SchemaObject } from '../../docs/documentation';
+import logger from '../../utils/logger';
+import { isValidDateRange } from '../../utils/dateRange';
+const prisma = new PrismaClient();
+
+router.use(roleMiddleware("APPLICANT"))
+router.use(identityMiddleware)
+
+const educationFields = zod.object({
+    schoolName: zod.string().trim().min(1),
+    degree: zod.string().trim().min(1),
+    fieldOfStudy: zod.string().trim().min(1),
+    startDate: zod.coerce.date(),
+    endDate: zod.coerce.date().nullable().optional(),
+    grade: zod.string().nullable().optional(),
+    description: zod.string().max(2000).nullable().optional(),
+})
+
+const educationBody = educationFields.refine(data => isValidDateRange(data.startDate, data.endDate), {
+    message: "endDate must be after startDate",
+    path: ["endDate"],
+})
+
+const educationPatchBody = educationFields.partial()
+
+const reorderBody = zod.object({
+    ids: zod.array(zod.string()).min(1)
+})
+
+class EducationRequest {
+    static schema: SchemaObject = {
+        type: "object",
+        required: ["schoolName", "degree", "fieldOfStudy", "startDate"],
+        properties: {
+            schoolName: { type: "string", example: "State University" },
+            degree: { type: "string", example: "Bachelor of Technology" },
+            fieldOfStudy: { type: "string", example: "Computer Science" },
+            startDate: { type: "string", format: "date", example: "2016-08-01" },
+            endDate: { type: "string", format: "date", nullable: true, example: "2020-05-31", description: "Leave empty while still studying" },
+            grade: { type: "string", nullable: true, example: "8.6 CGPA" },
+            description: { type: "string", nullable: true, example: "Final year project on distributed caching" },
+        }
+    }
+}
+
+class EducationResponse {
+    static schema: SchemaObject = {
+        type: "object",
+        properties: {
+            message: { type: "string", example: "Education added successfully" },
+            education: {
+                type: "object",
+                properties: {
+                    id: { type: "string", example: "education-id-123" },
+                    applicantId: { type: "string", example: "applicant-id-123" },
+                    position: { type: "integer", example: 0 },
+                    ...EducationRequest.schema.properties,
+                }
+            }
+        }
+    }
+}
+
+Documentation.addSchema()(EducationRequest);
+Documentation.addSchema()(EducationResponse);
+
+const educationErrorResponses = {
+    "400": {
+        description: "Validation error",
+        value: { type: "object", properties: { message: { type: "string", example: "Invalid input" } } }
+    },
+    "401": {
+        description: "Unauthorized",
+        value: { type: "object", properties: { message: { type: "string", example: "Unauthorized" } } }
+    },
+    "404": {
+        description: "Applicant profile or education entry not found",
+        value: { type: "object", properties: { message: { type: "string", example: "Education entry not found" } } }
+    },
+    "500": {
+        description: "Internal server error",
+        value: { type: "object", properties: { message: { type: "string", example: "Internal server error" }, error: { type: "string", example: "Unknown error" } } }
+    }
+};
+
+Documentation.addRoute({
+    path: "/applicants/me/education",
+    method: Methods.get,
+    tags: ["Profile - Applicant"],
+    summary: "List the logged-in applicant's education entries in display order",
+    responses: {
+        "200": {
+            description: "Education fetched successfully",
+            value: {
+                type: "object",
+                properties: {
+                    message: { type: "string", example: "Education fetched successfully" },
+                    education: { type: "array", items: EducationResponse.schema.properties!.education }
+                }
+            }
+        },
+        "401": educationErrorResponses["401"],
+        "404": educationErrorResponses["404"],
+        "500": educationErrorResponses["500"]
+    }
+})();
+
+router.get('/', async (req: Request, res: Response) => {
+    const userId = req.user?.userId;
+    const applicantId = req.user?.applicantId;
+    logger.info(`GET /me/education - Fetching education for userId: ${userId}, IP: ${req.ip}`);
+
+    if (!userId || !applicantId) {
+        logger.warn(`Unauthorized access attempt - Missing userId. IP: ${req.ip}`);
+        return res.status(401).json({ message: "Unauthorized" });
+    }
+
+    try {
+        logger.debug(`DB Query - Fetching education for applicantId: ${applicantId}`);
+        const education = await prisma.education.findMany({
+            where: { applicantId },
+            orderBy: [{ position: 'asc' }, { startDate: 'desc' }]
+        });
+
+        logger.info(`Education fetched successfully for applicantId: ${applicantId} (count: ${education.length})`);
+        return res.status(200).json({
+            message: "Education fetched successfully",
+            education
+        });
+    } catch (err) {
+        logger.error(`Error fetching education for userId: ${userId} - ${err instanceof Error ? err.message : "Unknown error"} - IP: ${req.ip}`);
+        logger.debug(`Stack trace: ${err instanceof Error ? err.stack : "No stack trace"}`);
+        return res.status(500).json({
+            message: "Internal server error",
+            error: err instanceof Error ? err.message : "Unknown error"
+        });
+    }
+})
+
+Documentation.addRoute({
+    path: "/applicants/me/education",
+    method: Methods.post,
+    tags: ["Profile - Applicant"],
+    summary: "Add an education entry",
+    requestBody: EducationRequest.schema,
+    requestBodyDescription: "Education entry to add",
+    responses: {
+        "201": {
+            description: "Education added successfully",
+            value: EducationResponse.schema
+        },
+        ...educationErrorResponses
+    }
+})();
+
+router.post('/', async (req: Request, res: Response) => {
+    const userId = req.user?.userId;
+    const applicantId = req.user?.applicantId;
+    logger.info(`POST /me/education - Adding education for userId: ${userId}, IP: ${req.ip}`);
+
+    if (!userId || !applicantId) {
+        logger.warn(`Unauthorized access attempt - Missing userId. IP: ${req.ip}`);
+        return res.status(401).json({ message: "Unauthorized" });
+    }
+
+    const response = educationBody.safeParse(req.body);
+    if (!response.success) {
+        logger.warn(`Validation failed for education creation - userId: ${userId}, Errors: ${JSON.stringify(response.error)}`);
+        return res.status(400).json({
+            message: "Invalid input",
+            errors: response.error
+        });
+    }
+
+    try {
+        const { _max } = await prisma.education.aggregate({
+            where: { applicantId },
+            _max: { position: true }
+        });
+
+        logger.debug(`DB Insert - Creating education for applicantId: ${applicantId}`);
+        const education = await prisma.education.create({
+            data: {
+                ...response.data,
+                applicantId,
+                position: _max.position === null ? 0 : _max.position + 1
+            }
+        });
+
+        logger.info(`Education added successfully - educationId: ${education.id}, applicantId: ${applicantId}`);
+        return res.status(201).json({
+            message: "Education added successfully",
+            education
+        });
+    } catch (err) {
+        logger.error(`Error adding education for userId: ${userId} - ${err instanceof Error ? err.message : "Unknown error"} - IP: ${req.ip}`);
+        logger.debug(`Stack trace: ${err instanceof Error ? err.stack : "No stack trace"}`);
+        return res.status(500).json({
+            message: "Internal server error",
+            error: err instanceof Error ? err.message : "Unknown error"
+        });
+    }
+})
+
+Documentation.addRoute({
+    path: "/applicants/me/education/order",
+    method: Methods.put,
+    tags: ["Profile - Applicant"],
+    summary: "Reorder education entries",
+    description: "ids must list every education entry of the applicant exactly once, in the new display order.",
+    requestBody: {
+        type: "object",
+        required: ["ids"],
+        properties: {
+            ids: { type: "array", items: { type: "string" }, example: ["education-id-2", "education-id-1"] }
+        }
+    },
+    requestBodyDescription: "Education ids in display order",
+    responses: {
+        "200": {
+            description: "Education reordered successfully",
+            value: {
+                type: "object",
+                properties: {
+                    message: { type: "string", example: "Education reordered successfully" },
+                    education: { type: "array", items: EducationResponse.schema.properties!.education }
+                }
+            }
+        },
+        ...educationErrorResponses
+    }
+})();
+
+router.put('/order', async (req: Request, res: Response) => {
+    const userId = req.user?.userId;
+    const applicantId = req.user?.applicantId;
+    logger.info(`PUT /me/education/order - Reordering education for userId: ${userId}, IP: ${req.ip}`);
+
+    if (!userId || !applicantId) {
+        logger.warn(`Unauthorized access attempt - Missing userId. IP: ${req.ip}`);
+        return res.status(401).json({ message: "Unauthorized" });
+    }
+
+    const response = reorderBody.safeParse(req.body);
+    if (!response.success) {
+        logger.warn(`Validation failed for education reorder - userId: ${userId}, Body: ${JSON.stringify(req.body)}`);
+        return res.status(400).json({ message: "Invalid input" });
+    }
+
+    const { ids } = response.data;
+
+    try {
+        const existing = await prisma.education.findMany({
+            where: { applicantId },
+            select: { id: true }
+        });
+        const existingIds = new Set(existing.map(entry => entry.id));
+
+        if (ids.length !== existingIds.size || new Set(ids).size !== ids.length || !ids.every(id => existingIds.has(id))) {
+            logger.warn(`Invalid education reorder for applicantId: ${applicantId} - ids do not match existing entries`);
+            return res.status(400).json({ message: "ids must contain each of your education entries exactly once" });
+        }
+
+        logger.debug(`DB Update - Reordering ${ids.length} education entries for applicantId: ${applicantId}`);
+        await prisma.$transaction(
+            ids.map((id, position) => prisma.education.update({
+                where: { id },
+                data: { position }
+            }))
+        );
+
+        const education = await prisma.education.findMany({
+            where: { applicantId },
+            orderBy: { position: 'asc' }
+        });
+
+        logger.info(`Education reordered successfully for applicantId: ${applicantId}`);
+        return res.status(200).json({
+            message: "Education reordered successfully",
+            education
+        });
+    } catch (err) {
+        logger.error(`Error reordering education for userId: ${userId} - ${err instanceof Error ? err.message : "Unknown error"} - IP: ${req.ip}`);
+        logger.debug(`Stack trace: ${err instanceof Error ? err.stack : "No stack trace"}`);
+        return res.status(500).json({
+            message: "Internal server error",
+            error: err instanceof Error ? err.message : "Unknown error"
+        });
+    }
+})
+
+Documentation.addRoute({
+    path: "/applicants/me/education/:id",
+    method: Methods.patch,
+    tags: ["Profile - Applicant"],
+    summary: "Update an education entry",
+    parameters: [
+        { in: "path", name: "id", required: true, schema: { type: "string", example: "education-id-123" } }
+    ],
+    requestBody: EducationRequest.schema,
+    requestBodyDescription: "Fields to update (all optional)",
+    responses: {
+        "200": {
+            description: "Education updated successfully",
+            value: EducationResponse.schema
+        },
+        ...educationErrorResponses,
+        "403": {
+            description: "Forbidden",
+            value: { type: "object", properties: { message: { type: "string", example: "Forbidden: You can only modify your own education entries" } } }
+        }
+    }
+})();
+
+router.patch('/:id', async (req: Request, res: Response) => {
+    const userId = req.user?.userId;
+    const { id } = req.params;
+    logger.info(`PATCH /me/education/:id - Updating education ${id} for userId: ${userId}, IP: ${req.ip}`);
+
+    if (!userId) {
+        logger.warn(`Unauthorized access attempt - Missing userId. IP: ${req.ip}`);
+        return res.status(401).json({ message: "Unauthorized" });
+    }
+
+    const response = educationPatchBody.safeParse(req.body);
+    if (!response.success || Object.keys(response.data).length === 0) {
+        logger.warn(`Validation failed for education update - educationId: ${id}, userId: ${userId}, Body: ${JSON.stringify(req.body)}`);
+        return res.status(400).json({
+            message: "Invalid input",
+            errors: response.error
+        });
+    }
+
+    const updates = response.data;
+
+    try {
+        const education = await prisma.education.findUnique({
+            where: { id },
+            include: { applicant: { select: { userId: true } } }
+        });
+
+        if (!education) {
+            logger.warn(`Education entry not found - educationId: ${id}`);
+            return res.status(404).json({ message: "Education entry not found" });
+        }
+
+        if (education.applicant.userId !== userId) {
+            logger.warn(`Forbidden education update attempt - educationId: ${id}, userId: ${userId}`);
+            return res.status(403).json({ message: "Forbidden: You can only modify your own education entries" });
+        }
+
+        const startDate = updates.startDate ?? education.startDate;
+        const endDate = updates.endDate !== undefined ? updates.endDate : education.endDate;
+        if (!isValidDateRange(startDate, endDate)) {
+            logger.warn(`Invalid date range for education update - educationId: ${id}, userId: ${userId}`);
+            return res.status(400).json({ message: "endDate must be after startDate" });
+        }
+
+        logger.debug(`DB Update - Updating education ${id}, fields: ${Object.keys(updates).join(', ')}`);
+        const updatedEducation = await prisma.education.update({
+            where: { id },
+            data: updates
+        });
+
+        logger.info(`Education updated successfully - educationId: ${id}, userId: ${userId}`);
+        return res.status(200).json({
+            message: "Education updated successfully",
+            education: updatedEducation
+        });
+    } catch (err) {
+        logger.error(`Error updating education ${id} for userId: ${userId} - ${err instanceof Error ? err.message : "Unknown error"} - IP: ${req.ip}`);
+        logger.debug(`Stack trace: ${err instanceof Error ? err.stack : "No stack trace"}`);
+        return res.status(500).json({
+            message: "Internal server error",
+            error: err instanceof Error ? err.message : "Unknown error"
+        });
+    }
+})
+
+Documentation.addRoute({
+    path: "/applicants/me/education/:id",
+    method: Methods.delete,
+    tags: ["Profile - Applicant"],
+    summary: "Delete an education entry",
+    parameters: [
+        { in: "path", name: "id", required: true, schema: { type: "string", example: "education-id-123" } }
+    ],
+    responses: {
+        "200": {
+            description: "Education deleted successfully",
+            value: { type: "object", properties: { message: { type: "string", example: "Education deleted successfully" } } }
+        },
+        "401": educationErrorResponses["401"],
+        "403": {
+            description: "Forbidden",
+            value: { type: "object", properties: { message: { type: "string", example: "Forbidden: You can only modify your own education entries" } } }
+        },
+        "404": educationErrorResponses["404"],
+        "500": educationErrorResponses["500"]
+    }
+})();
+
+router.delete('/:id', async (req: Request, res: Response) => {
+    const userId = req.user?.userId;
+    const { id } = req.params;
+    logger.info(`DELETE /me/education/:id - Deleting education ${id} for userId: ${userId}, IP: ${req.ip}`);
+
+    if (!userId) {
+        logger.warn(`Unauthorized access attempt - Missing userId. IP: ${req.ip}`);
+        return res.status(401).json({ message: "Unauthorized" });
+    }
+
+    try {
+        const education = await prisma.education.findUnique({
+            where: { id },
+            include: { applicant: { select: { userId: true } } }
+        });
+
+        if (!education) {
+            logger.warn(`Education entry not found - educationId: ${id}`);
+            return res.status(404).json({ message: "Education entry not found" });
+        }
+
+        if (education.applicant.userId !== userId) {
+            logger.warn(`Forbidden education delete attempt - educationId: ${id}, userId: ${userId}`);
+            return res.status(403).json({ message: "Forbidden: You can only modify your own education entries" });
+        }
+
+        logger.debug(`DB Delete - Deleting education ${id}`);
+        await prisma.education.delete({
+            where: { id }
+        });
+
+        logger.info(`Education deleted successfully - educationId: ${id}, userId: ${userId}`);
+        return res.status(200).json({ message: "Education deleted successfully" });
+    } catch (err) {
+        logger.error(`Error deleting education ${id} for userId: ${userId} - ${err instanceof Error ? err.message : "Unknown error"} - IP: ${req.ip}`);
+        logger.debug(`Stack trace: ${err instanceof Error ? err.stack : "No stack trace"}`);
+        return res.status(500).json({
+            message: "Internal server error",
+            error: err instanceof Error ? err.message : "Unknown error"
+        });
+    }
+})
+
+export default router;
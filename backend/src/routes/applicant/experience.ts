@@ -0,0 +1,450 @@
+import express, { Request, Response } from 'express';
+const router = express.Router();
+import zod from 'zod';
+import { PrismaClient } from '@prisma/client';
+import roleMiddleware from '../../middleware/roleMiddleware';
+import identityMiddleware from '../../middleware/identityMiddleware';
+import { Documentation, Methods, SchemaObject } from '../../docs/documentation';
+import logger from '../../utils/logger';
+import { isValidDateRange } from '../../utils/dateRange';
+const prisma = new PrismaClient();
+
+router.use(roleMiddleware("APPLICANT"))
+router.use(identityMiddleware)
+
+const experienceFields = zod.object({
+    jobTitle: zod.string().trim().min(1),
+    companyName: zod.string().trim().min(1),
+    startDate: zod.coerce.date(),
+    endDate: zod.coerce.date().nullable().optional(),
+    location: zod.string().nullable().optional(),
+    description: zod.string().max(2000).nullable().optional(),
+})
+
+const experienceBody = experienceFields.refine(data => isValidDateRange(data.startDate, data.endDate), {
+    message: "endDate must be after startDate",
+    path: ["endDate"],
+})
+
+const experiencePatchBody = experienceFields.partial()
+
+const reorderBody = zod.object({
+    ids: zod.array(zod.string()).min(1)
+})
+
+class ExperienceRequest {
+    static schema: SchemaObject = {
+        type: "object",
+        required: ["jobTitle", "companyName", "startDate"],
+        properties: {
+            jobTitle: { type: "string", example: "Software Engineer" },
+            companyName: { type: "string", example: "Acme Corp" },
+            startDate: { type: "string", format: "date", example: "2020-07-01" },
+            endDate: { type: "string", format: "date", nullable: true, example: "2023-03-31", description: "Leave empty for a current role" },
+            location: { type: "string", nullable: true, example: "Bangalore, India" },
+            description: { type: "string", nullable: true, example: "Built the payments dashboard in React" },
+        }
+    }
+}
+
+class ExperienceResponse {
+    static schema: SchemaObject = {
+        type: "object",
+        properties: {
+            message: { type: "string", example: "Experience added successfully" },
+            experience: {
+                type: "object",
+                properties: {
+                    id: { type: "string", example: "experience-id-123" },
+                    applicantId: { type: "string", example: "applicant-id-123" },
+                    position: { type: "integer", example: 0 },
+                    ...ExperienceRequest.schema.properties,
+                }
+            }
+        }
+    }
+}
+
+Documentation.addSchema()(ExperienceRequest);
+Documentation.addSchema()(ExperienceResponse);
+
+const experienceErrorResponses = {
+    "400": {
+        description: "Validation error",
+        value: { type: "object", properties: { message: { type: "string", example: "Invalid input" } } }
+    },
+    "401": {
+        description: "Unauthorized",
+        value: { type: "object", properties: { message: { type: "string", example: "Unauthorized" } } }
+    },
+    "404": {
+        description: "Applicant profile or experience entry not found",
+        value: { type: "object", properties: { message: { type: "string", example: "Experience entry not found" } } }
+    },
+    "500": {
+        description: "Internal server error",
+        value: { type: "object", properties: { message: { type: "string", example: "Internal server error" }, error: { type: "string", example: "Unknown error" } } }
+    }
+};
+
+Documentation.addRoute({
+    path: "/applicants/me/experience",
+    method: Methods.get,
+    tags: ["Profile - Applicant"],
+    summary: "List the logged-in applicant's experience entries in display order",
+    responses: {
+        "200": {
+            description: "Experience fetched successfully",
+            value: {
+                type: "object",
+                properties: {
+                    message: { type: "string", example: "Experience fetched successfully" },
+                    experience: { type: "array", items: ExperienceResponse.schema.properties!.experience }
+                }
+            }
+        },
+        "401": experienceErrorResponses["401"],
+        "404": experienceErrorResponses["404"],
+        "500": experienceErrorResponses["500"]
+    }
+})();
+
+router.get('/', async (req: Request, res: Response) => {
+    const userId = req.user?.userId;
+    const applicantId = req.user?.applicantId;
+    logger.info(`GET /me/experience - Fetching experience for userId: ${userId}, IP: ${req.ip}`);
+
+    if (!userId || !applicantId) {
+        logger.warn(`Unauthorized access attempt - Missing userId. IP: ${req.ip}`);
+        return res.status(401).json({ message: "Unauthorized" });
+    }
+
+    try {
+        logger.debug(`DB Query - Fetching experience for applicantId: ${applicantId}`);
+        const experience = await prisma.experience.findMany({
+            where: { applicantId },
+            orderBy: [{ position: 'asc' }, { startDate: 'desc' }]
+        });
+
+        logger.info(`Experience fetched successfully for applicantId: ${applicantId} (count: ${experience.length})`);
+        return res.status(200).json({
+            message: "Experience fetched successfully",
+            experience
+        });
+    } catch (err) {
+        logger.error(`Error fetching experience for userId: ${userId} - ${err instanceof Error ? err.message : "Unknown error"} - IP: ${req.ip}`);
+        logger.debug(`Stack trace: ${err instanceof Error ? err.stack : "No stack trace"}`);
+        return res.status(500).json({
+            message: "Internal server error",
+            error: err instanceof Error ? err.message : "Unknown error"
+        });
+    }
+})
+
+Documentation.addRoute({
+    path: "/applicants/me/experience",
+    method: Methods.post,
+    tags: ["Profile - Applicant"],
+    summary: "Add an experience entry",
+    requestBody: ExperienceRequest.schema,
+    requestBodyDescription: "Experience entry to add",
+    responses: {
+        "201": {
+            description: "Experience added successfully",
+            value: ExperienceResponse.schema
+        },
+        ...experienceErrorResponses
+    }
+})();
+
+router.post('/', async (req: Request, res: Response) => {
+    const userId = req.user?.userId;
+    const applicantId = req.user?.applicantId;
+    logger.info(`POST /me/experience - Adding experience for userId: ${userId}, IP: ${req.ip}`);
+
+    if (!userId || !applicantId) {
+        logger.warn(`Unauthorized access attempt - Missing userId. IP: ${req.ip}`);
+        return res.status(401).json({ message: "Unauthorized" });
+    }
+
+    const response = experienceBody.safeParse(req.body);
+    if (!response.success) {
+        logger.warn(`Validation failed for experience creation - userId: ${userId}, Errors: ${JSON.stringify(response.error)}`);
+        return res.status(400).json({
+            message: "Invalid input",
+            errors: response.error
+        });
+    }
+
+    try {
+        const { _max } = await prisma.experience.aggregate({
+            where: { applicantId },
+            _max: { position: true }
+        });
+
+        logger.debug(`DB Insert - Creating experience for applicantId: ${applicantId}`);
+        const experience = await prisma.experience.create({
+            data: {
+                ...response.data,
+                applicantId,
+                position: _max.position === null ? 0 : _max.position + 1
+            }
+        });
+
+        logger.info(`Experience added successfully - experienceId: ${experience.id}, applicantId: ${applicantId}`);
+        return res.status(201).json({
+            message: "Experience added successfully",
+            experience
+        });
+    } catch (err) {
+        logger.error(`Error adding experience for userId: ${userId} - ${err instanceof Error ? err.message : "Unknown error"} - IP: ${req.ip}`);
+        logger.debug(`Stack trace: ${err instanceof Error ? err.stack : "No stack trace"}`);
+        return res.status(500).json({
+            message: "Internal server error",
+            error: err instanceof Error ? err.message : "Unknown error"
+        });
+    }
+})
+
+Documentation.addRoute({
+    path: "/applicants/me/experience/order",
+    method: Methods.put,
+    tags: ["Profile - Applicant"],
+    summary: "Reorder experience entries",
+    description: "ids must list every experience entry of the applicant exactly once, in the new display order.",
+    requestBody: {
+        type: "object",
+        required: ["ids"],
+        properties: {
+            ids: { type: "array", items: { type: "string" }, example: ["experience-id-2", "experience-id-1"] }
+        }
+    },
+    requestBodyDescription: "Experience ids in display order",
+    responses: {
+        "200": {
+            description: "Experience reordered successfully",
+            value: {
+                type: "object",
+                properties: {
+                    message: { type: "string", example: "Experience reordered successfully" },
+                    experience: { type: "array", items: ExperienceResponse.schema.properties!.experience }
+                }
+            }
+        },
+        ...experienceErrorResponses
+    }
+})();
+
+router.put('/order', async (req: Request, res: Response) => {
+    const userId = req.user?.userId;
+    const applicantId = req.user?.applicantId;
+    logger.info(`PUT /me/experience/order - Reordering experience for userId: ${userId}, IP: ${req.ip}`);
+
+    if (!userId || !applicantId) {
+        logger.warn(`Unauthorized access attempt - Missing userId. IP: ${req.ip}`);
+        return res.status(401).json({ message: "Unauthorized" });
+    }
+
+    const response = reorderBody.safeParse(req.body);
+    if (!response.success) {
+        logger.warn(`Validation failed for experience reorder - userId: ${userId}, Body: ${JSON.stringify(req.body)}`);
+        return res.status(400).json({ message: "Invalid input" });
+    }
+
+    const { ids } = response.data;
+
+    try {
+        const existing = await prisma.experience.findMany({
+            where: { applicantId },
+            select: { id: true }
+        });
+        const existingIds = new Set(existing.map(entry => entry.id));
+
+        if (ids.length !== existingIds.size || new Set(ids).size !== ids.length || !ids.every(id => existingIds.has(id))) {
+            logger.warn(`Invalid experience reorder for applicantId: ${applicantId} - ids do not match existing entries`);
+            return res.status(400).json({ message: "ids must contain each of your experience entries exactly once" });
+        }
+
+        logger.debug(`DB Update - Reordering ${ids.length} experience entries for applicantId: ${applicantId}`);
+        await prisma.$transaction(
+            ids.map((id, position) => prisma.experience.update({
+                where: { id },
+                data: { position }
+            }))
+        );
+
+        const experience = await prisma.experience.findMany({
+            where: { applicantId },
+            orderBy: { position: 'asc' }
+        });
+
+        logger.info(`Experience reordered successfully for applicantId: ${applicantId}`);
+        return res.status(200).json({
+            message: "Experience reordered successfully",
+            experience
+        });
+    } catch (err) {
+        logger.error(`Error reordering experience for userId: ${userId} - ${err instanceof Error ? err.message : "Unknown error"} - IP: ${req.ip}`);
+        logger.debug(`Stack trace: ${err instanceof Error ? err.stack : "No stack trace"}`);
+        return res.status(500).json({
+            message: "Internal server error",
+            error: err instanceof Error ? err.message : "Unknown error"
+        });
+    }
+})
+
+Documentation.addRoute({
+    path: "/applicants/me/experience/:id",
+    method: Methods.patch,
+    tags: ["Profile - Applicant"],
+    summary: "Update an experience entry",
+    parameters: [
+        { in: "path", name: "id", required: true, schema: { type: "string", example: "experience-id-123" } }
+    ],
+    requestBody: ExperienceRequest.schema,
+    requestBodyDescription: "Fields to update (all optional)",
+    responses: {
+        "200": {
+            description: "Experience updated successfully",
+            value: ExperienceResponse.schema
+        },
+        ...experienceErrorResponses,
+        "403": {
+            description: "Forbidden",
+            value: { type: "object", properties: { message: { type: "string", example: "Forbidden: You can only modify your own experience entries" } } }
+        }
+    }
+})();
+
+router.patch('/:id', async (req: Request, res: Response) => {
+    const userId = req.user?.userId;
+    const { id } = req.params;
+    logger.info(`PATCH /me/experience/:id - Updating experience ${id} for userId: ${userId}, IP: ${req.ip}`);
+
+    if (!userId) {
+        logger.warn(`Unauthorized access attempt - Missing userId. IP: ${req.ip}`);
+        return res.status(401).json({ message: "Unauthorized" });
+    }
+
+    const response = experiencePatchBody.safeParse(req.body);
+    if (!response.success || Object.keys(response.data).length === 0) {
+        logger.warn(`Validation failed for experience update - experienceId: ${id}, userId: ${userId}, Body: ${JSON.stringify(req.body)}`);
+        return res.status(400).json({
+            message: "Invalid input",
+            errors: response.error
+        });
+    }
+
+    const updates = response.data;
+
+    try {
+        const experience = await prisma.experience.findUnique({
+            where: { id },
+            include: { applicant: { select: { userId: true } } }
+        });
+
+        if (!experience) {
+            logger.warn(`Experience entry not found - experienceId: ${id}`);
+            return res.status(404).json({ message: "Experience entry not found" });
+        }
+
+        if (experience.applicant.userId !== userId) {
+            logger.warn(`Forbidden experience update attempt - experienceId: ${id}, userId: ${userId}`);
+            return res.status(403).json({ message: "Forbidden: You can only modify your own experience entries" });
+        }
+
+        const startDate = updates.startDate ?? experience.startDate;
+        const endDate = updates.endDate !== undefined ? updates.endDate : experience.endDate;
+        if (!isValidDateRange(startDate, endDate)) {
+            logger.warn(`Invalid date range for experience update - experienceId: ${id}, userId: ${userId}`);
+            return res.status(400).json({ message: "endDate must be after startDate" });
+        }
+
+        logger.debug(`DB Update - Updating experience ${id}, fields: ${Object.keys(updates).join(', ')}`);
+        const updatedExperience = await prisma.experience.update({
+            where: { id },
+            data: updates
+        });
+
+        logger.info(`Experience updated successfully - experienceId: ${id}, userId: ${userId}`);
+        return res.status(200).json({
+            message: "Experience updated successfully",
+            experience: updatedExperience
+        });
+    } catch (err) {
+        logger.error(`Error updating experience ${id} for userId: ${userId} - ${err instanceof Error ? err.message : "Unknown error"} - IP: ${req.ip}`);
+        logger.debug(`Stack trace: ${err instanceof Error ? err.stack : "No stack trace"}`);
+        return res.status(500).json({
+            message: "Internal server error",
+            error: err instanceof Error ? err.message : "Unknown error"
+        });
+    }
+})
+
+Documentation.addRoute({
+    path: "/applicants/me/experience/:id",
+    method: Methods.delete,
+    tags: ["Profile - Applicant"],
+    summary: "Delete an experience entry",
+    parameters: [
+        { in: "path", name: "id", required: true, schema: { type: "string", example: "experience-id-123" } }
+    ],
+    responses: {
+        "200": {
+            description: "Experience deleted successfully",
+            value: { type: "object", properties: { message: { type: "string", example: "Experience deleted successfully" } } }
+        },
+        "401": experienceErrorResponses["401"],
+        "403": {
+            description: "Forbidden",
+            value: { type: "object", properties: { message: { type: "string", example: "Forbidden: You can only modify your own experience entries" } } }
+        },
+        "404": experienceErrorResponses["404"],
+        "500": experienceErrorResponses["500"]
+    }
+})();
+
+router.delete('/:id', async (req: Request, res: Response) => {
+    const userId = req.user?.userId;
+    const { id } = req.params;
+    logger.info(`DELETE /me/experience/:id - Deleting experience ${id} for userId: ${userId}, IP: ${req.ip}`);
+
+    if (!userId) {
+        logger.warn(`Unauthorized access attempt - Missing userId. IP: ${req.ip}`);
+        return res.status(401).json({ message: "Unauthorized" });
+    }
+
+    try {
+        const experience = await prisma.experience.findUnique({
+            where: { id },
+            include: { applicant: { select: { userId: true } } }
+        });
+
+        if (!experience) {
+            logger.warn(`Experience entry not found - experienceId: ${id}`);
+            return res.status(404).json({ message: "Experience entry not found" });
+        }
+
+        if (experience.applicant.userId !== userId) {
+            logger.warn(`Forbidden experience delete attempt - experienceId: ${id}, userId: ${userId}`);
+            return res.status(403).json({ message: "Forbidden: You can only modify your own experience entries" });
+        }
+
+        logger.debug(`DB Delete - Deleting experience ${id}`);
+        await prisma.experience.delete({
+            where: { id }
+        });
+
+        logger.info(`Experience deleted successfully - experienceId: ${id}, userId: ${userId}`);
+        return res.status(200).json({ message: "Experience deleted successfully" });
+    } catch (err) {
+        logger.error(`Error deleting experience ${id} for userId: ${userId} - ${err instanceof Error ? err.message : "Unknown error"} - IP: ${req.ip}`);
+        logger.debug(`Stack trace: ${err instanceof Error ? err.stack : "No stack trace"}`);
+        return res.status(500).json({
+            message: "Internal server error",
+            error: err instanceof Error ? err.message : "Unknown error"
+        });
+    }
+})
+
+export default router;
@@ -0,0 +1,324 @@
+import express, { Request, Response } from 'express';
+const router = express.Router();
+import zod from 'zod';
+import { Availability, Currency, Gender, PreferredRole, PrismaClient, Pronouns, Race } from '@prisma/client';
+import roleMiddleware from '../../middleware/roleMiddleware';
+import { Documentation, Methods, SchemaObject } from '../../docs/documentation';
+import logger from '../../utils/logger';
+import { getMissingProfileFields } from '../../services/applicantProfileService';
+const prisma = new PrismaClient();
+
+router.use(roleMiddleware("APPLICANT"))
+
+const applicantProfileBody = zod.object({
+    bio: zod.string().max(2000).nullable().optional(),
+    location: zod.string().nullable().optional(),
+    yearsOfExperience: zod.number().int().min(0).max(60).nullable().optional(),
+    achievements: zod.string().max(5000).nullable().optional(),
+    skills: zod.array(zod.string().trim().min(1)).max(100).optional(),
+    availability: zod.enum(Availability).nullable().optional(),
+    preferredRole: zod.enum(PreferredRole).nullable().optional(),
+    preferredLocations: zod.array(zod.string().trim().min(1)).max(20).optional(),
+    isWillingToRelocate: zod.boolean().nullable().optional(),
+    gender: zod.enum(Gender).nullable().optional(),
+    pronouns: zod.enum(Pronouns).nullable().optional(),
+    race: zod.enum(Race).nullable().optional(),
+    currentSalary: zod.number().nonnegative().nullable().optional(),
+    expectedSalary: zod.number().nonnegative().nullable().optional(),
+    salaryCurrency: zod.enum(Currency).optional(),
+    linkedInUrl: zod.url().nullable().optional(),
+    portfolioUrl: zod.url().nullable().optional(),
+    githubUrl: zod.url().nullable().optional(),
+    twitterUrl: zod.url().nullable().optional(),
+}).strict()
+
+type ApplicantProfileBody = zod.infer<typeof applicantProfileBody>;
+
+function toFullProfile(data: ApplicantProfileBody) {
+    return {
+        bio: data.bio ?? null,
+        location: data.location ?? null,
+        yearsOfExperience: data.yearsOfExperience ?? null,
+        achievements: data.achievements ?? null,
+        skills: data.skills ?? [],
+        availability: data.availability ?? null,
+        preferredRole: data.preferredRole ?? null,
+        preferredLocations: data.preferredLocations ?? [],
+        isWillingToRelocate: data.isWillingToRelocate ?? null,
+        gender: data.gender ?? null,
+        pronouns: data.pronouns ?? null,
+        race: data.race ?? null,
+        currentSalary: data.currentSalary ?? null,
+        expectedSalary: data.expectedSalary ?? null,
+        salaryCurrency: data.salaryCurrency ?? Currency.INR,
+        linkedInUrl: data.linkedInUrl ?? null,
+        portfolioUrl: data.portfolioUrl ?? null,
+        githubUrl: data.githubUrl ?? null,
+        twitterUrl: data.twitterUrl ?? null,
+    };
+}
+
+class ApplicantProfileRequest {
+    static schema: SchemaObject = {
+        type: "object",
+        properties: {
+            bio: { type: "string", nullable: true, example: "Frontend engineer who loves design systems" },
+            location: { type: "string", nullable: true, example: "Bangalore, India" },
+            yearsOfExperience: { type: "integer", nullable: true, example: 3 },
+            achievements: { type: "string", nullable: true, example: "Speaker at JSConf India 2024" },
+            skills: { type: "array", items: { type: "string" }, example: ["React", "TypeScript"] },
+            availability: { type: "string", enum: Object.values(Availability), nullable: true, example: "TWO_WEEKS" },
+            preferredRole: { type: "string", enum: Object.values(PreferredRole), nullable: true, example: "FULL_TIME" },
+            preferredLocations: { type: "array", items: { type: "string" }, example: ["Bangalore", "Remote"] },
+            isWillingToRelocate: { type: "boolean", nullable: true, example: true },
+            gender: { type: "string", enum: Object.values(Gender), nullable: true },
+            pronouns: { type: "string", enum: Object.values(Pronouns), nullable: true },
+            race: { type: "string", enum: Object.values(Race), nullable: true },
+            currentSalary: { type: "number", nullable: true, example: 1200000 },
+            expectedSalary: { type: "number", nullable: true, example: 1800000 },
+            salaryCurrency: { type: "string", enum: Object.values(Currency), example: "INR", description: "Currency of currentSalary and expectedSalary" },
+            linkedInUrl: { type: "string", format: "url", nullable: true, example: "https://linkedin.com/in/janedoe" },
+            portfolioUrl: { type: "string", format: "url", nullable: true, example: "https://janedoe.dev" },
+            githubUrl: { type: "string", format: "url", nullable: true, example: "https://github.com/janedoe" },
+            twitterUrl: { type: "string", format: "url", nullable: true, example: "https://x.com/janedoe" },
+        }
+    }
+}
+
+class ApplicantProfileResponse {
+    static schema: SchemaObject = {
+        type: "object",
+        properties: {
+            message: { type: "string", example: "Profile fetched successfully" },
+            profile: {
+                type: "object",
+                properties: {
+                    id: { type: "string", example: "applicant-id-123" },
+                    userId: { type: "string", example: "user-id-123" },
+                    ...ApplicantProfileRequest.schema.properties,
+                    isProfileComplete: { type: "boolean", example: false },
+                }
+            },
+            missingFields: {
+                type: "array",
+                items: { type: "string" },
+                example: ["expectedSalary", "preferredLocations"]
+            }
+        }
+    }
+}
+
+Documentation.addSchema()(ApplicantProfileRequest);
+Documentation.addSchema()(ApplicantProfileResponse);
+
+const profileErrorResponses = {
+    "400": {
+        description: "Validation error",
+        value: { type: "object", properties: { message: { type: "string", example: "Invalid input" } } }
+    },
+    "401": {
+        description: "Unauthorized",
+        value: { type: "object", properties: { message: { type: "string", example: "Unauthorized" } } }
+    },
+    "500": {
+        description: "Internal server error",
+        value: { type: "object", properties: { message: { type: "string", example: "Internal server error" }, error: { type: "string", example: "Unknown error" } } }
+    }
+};
+
+Documentation.addRoute({
+    path: "/applicants/me",
+    method: Methods.get,
+    tags: ["Profile - Applicant"],
+    summary: "Get the logged-in applicant's profile",
+    responses: {
+        "200": {
+            description: "Profile fetched successfully",
+            value: ApplicantProfileResponse.schema
+        },
+        "401": profileErrorResponses["401"],
+        "404": {
+            description: "Profile not found",
+            value: { type: "object", properties: { message: { type: "string", example: "Applicant profile not found" } } }
+        },
+        "500": profileErrorResponses["500"]
+    }
+})();
+
+router.get('/me', async (req: Request, res: Response) => {
+    const userId = req.user?.userId;
+    logger.info(`GET /me - Fetching applicant profile for userId: ${userId}, IP: ${req.ip}`);
+
+    if (!userId) {
+        logger.warn(`Unauthorized access attempt - Missing userId. IP: ${req.ip}`);
+        return res.status(401).json({ message: "Unauthorized" });
+    }
+
+    try {
+        logger.debug(`DB Query - Fetching applicant profile for userId: ${userId}`);
+        const profile = await prisma.applicant.findUnique({
+            where: { userId }
+        });
+
+        if (!profile) {
+            logger.warn(`Applicant profile not found for userId: ${userId}`);
+            return res.status(404).json({ message: "Applicant profile not found" });
+        }
+
+        logger.info(`Applicant profile fetched successfully for userId: ${userId}`);
+        return res.status(200).json({
+            message: "Profile fetched successfully",
+            profile,
+            missingFields: getMissingProfileFields(profile)
+        });
+    } catch (err) {
+        logger.error(`Error fetching applicant profile for userId: ${userId} - ${err instanceof Error ? err.message : "Unknown error"} - IP: ${req.ip}`);
+        logger.debug(`Stack trace: ${err instanceof Error ? err.stack : "No stack trace"}`);
+        return res.status(500).json({
+            message: "Internal server error",
+            error: err instanceof Error ? err.message : "Unknown error"
+        });
+    }
+})
+
+Documentation.addRoute({
+    path: "/applicants/me",
+    method: Methods.put,
+    tags: ["Profile - Applicant"],
+    summary: "Create or replace the logged-in applicant's profile",
+    description: "Fields that are omitted are cleared. isProfileComplete is computed from the filled fields.",
+    requestBody: ApplicantProfileRequest.schema,
+    requestBodyDescription: "Full applicant profile",
+    responses: {
+        "200": {
+            description: "Profile saved successfully",
+            value: ApplicantProfileResponse.schema
+        },
+        ...profileErrorResponses
+    }
+})();
+
+router.put('/me', async (req: Request, res: Response) => {
+    const userId = req.user?.userId;
+    logger.info(`PUT /me - Replacing applicant profile for userId: ${userId}, IP: ${req.ip}`);
+
+    if (!userId) {
+        logger.warn(`Unauthorized access attempt - Missing userId. IP: ${req.ip}`);
+        return res.status(401).json({ message: "Unauthorized" });
+    }
+
+    const response = applicantProfileBody.safeParse(req.body);
+    if (!response.success) {
+        logger.warn(`Validation failed for applicant profile - userId: ${userId}, Errors: ${JSON.stringify(response.error)}`);
+        return res.status(400).json({
+            message: "Invalid input",
+            errors: response.error
+        });
+    }
+
+    const profileData = toFullProfile(response.data);
+    const missingFields = getMissingProfileFields(profileData);
+    const isProfileComplete = missingFields.length === 0;
+
+    try {
+        logger.debug(`DB Upsert - Saving applicant profile for userId: ${userId}`);
+        const profile = await prisma.applicant.upsert({
+            where: { userId },
+            create: { userId, ...profileData, isProfileComplete },
+            update: { ...profileData, isProfileComplete }
+        });
+
+        logger.info(`Applicant profile saved successfully for userId: ${userId}, complete: ${isProfileComplete}`);
+        return res.status(200).json({
+            message: "Profile saved successfully",
+            profile,
+            missingFields
+        });
+    } catch (err) {
+        logger.error(`Error saving applicant profile for userId: ${userId} - ${err instanceof Error ? err.message : "Unknown error"} - IP: ${req.ip}`);
+        logger.debug(`Stack trace: ${err instanceof Error ? err.stack : "No stack trace"}`);
+        return res.status(500).json({
+            message: "Internal server error",
+            error: err instanceof Error ? err.message : "Unknown error"
+        });
+    }
+})
+
+Documentation.addRoute({
+    path: "/applicants/me",
+    method: Methods.patch,
+    tags: ["Profile - Applicant"],
+    summary: "Update some fields of the logged-in applicant's profile",
+    description: "Only the provided fields are changed. isProfileComplete is recomputed from the resulting profile.",
+    requestBody: ApplicantProfileRequest.schema,
+    requestBodyDescription: "Profile fields to update (all optional)",
+    responses: {
+        "200": {
+            description: "Profile updated successfully",
+            value: ApplicantProfileResponse.schema
+        },
+        ...profileErrorResponses,
+        "404": {
+            description: "Profile not found",
+            value: { type: "object", properties: { message: { type: "string", example: "Applicant profile not found" } } }
+        }
+    }
+})();
+
+router.patch('/me', async (req: Request, res: Response) => {
+    const userId = req.user?.userId;
+    logger.info(`PATCH /me - Updating applicant profile for userId: ${userId}, IP: ${req.ip}`);
+
+    if (!userId) {
+        logger.warn(`Unauthorized access attempt - Missing userId. IP: ${req.ip}`);
+        return res.status(401).json({ message: "Unauthorized" });
+    }
+
+    const response = applicantProfileBody.safeParse(req.body);
+    if (!response.success || Object.keys(response.data).length === 0) {
+        logger.warn(`Validation failed for applicant profile update - userId: ${userId}, Body: ${JSON.stringify(req.body)}`);
+        return res.status(400).json({
+            message: "Invalid input",
+            errors: response.error
+        });
+    }
+
+    const updates = response.data;
+
+    try {
+        logger.debug(`DB Query - Fetching applicant profile for userId: ${userId}`);
+        const existing = await prisma.applicant.findUnique({
+            where: { userId }
+        });
+
+        if (!existing) {
+            logger.warn(`Applicant profile not found for userId: ${userId}`);
+            return res.status(404).json({ message: "Applicant profile not found" });
+        }
+
+        const missingFields = getMissingProfileFields({ ...existing, ...updates });
+        const isProfileComplete = missingFields.length === 0;
+
+        logger.debug(`DB Update - Updating applicant profile for userId: ${userId}, fields: ${Object.keys(updates).join(', ')}`);
+        const profile = await prisma.applicant.update({
+            where: { userId },
+            data: { ...updates, isProfileComplete }
+        });
+
+        logger.info(`Applicant profile updated successfully for userId: ${userId}, complete: ${isProfileComplete}`);
+        return res.status(200).json({
+            message: "Profile updated successfully",
+            profile,
+            missingFields
+        });
+    } catch (err) {
+        logger.error(`Error updating applicant profile for userId: ${userId} - ${err instanceof Error ? err.message : "Unknown error"} - IP: ${req.ip}`);
+        logger.debug(`Stack trace: ${err instanceof Error ? err.stack : "No stack trace"}`);
+        return res.status(500).json({
+            message: "Internal server error",
+            error: err instanceof Error ? err.message : "Unknown error"
+        });
+    }
+})
+
+export default router;
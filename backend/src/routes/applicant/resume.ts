@@ -0,0 +1,568 @@
+import express, { Request, Response } from 'express';
+const router = express.Router();
+import zod from 'zod';
+import { PrismaClient, Resume } from '@prisma/client';
+import roleMiddleware from '../../middleware/roleMiddleware';
+import identityMiddleware from '../../middleware/identityMiddleware';
+import resumeUploadMiddleware, { RESUME_MAX_SIZE_BYTES, RESUME_MIME_TYPES } from '../../middleware/resumeUploadMiddleware';
+import { Documentation, Methods, SchemaObject } from '../../docs/documentation';
+import logger from '../../utils/logger';
+import { isValidDateRange } from '../../utils/dateRange';
+import { deleteResume, getParsedResume, parseAndStoreResume, saveResume, streamResume } from '../../services/resumeService';
+import { applyProfileSuggestions, buildProfileSuggestions } from '../../services/resumeSuggestionService';
+const prisma = new PrismaClient();
+
+router.use(roleMiddleware("APPLICANT"))
+router.use(identityMiddleware)
+
+class ResumeUploadRequest {
+    static schema: SchemaObject = {
+        type: "object",
+        required: ["resume"],
+        properties: {
+            resume: {
+                type: "string",
+                format: "binary",
+                description: `PDF or DOCX, at most ${RESUME_MAX_SIZE_BYTES / (1024 * 1024)} MB`
+            }
+        }
+    }
+}
+
+class ResumeResponse {
+    static schema: SchemaObject = {
+        type: "object",
+        properties: {
+            id: { type: "string", example: "resume-id-123" },
+            applicantId: { type: "string", example: "applicant-id-123" },
+            version: { type: "integer", example: 2 },
+            fileName: { type: "string", example: "jane-doe-resume.pdf" },
+            mimeType: { type: "string", enum: RESUME_MIME_TYPES, example: "application/pdf" },
+            size: { type: "integer", example: 182044 },
+            parsedAt: { type: "string", format: "date-time", nullable: true, example: "2025-10-01T10:00:01Z" },
+            createdAt: { type: "string", format: "date-time", example: "2025-10-01T10:00:00Z" },
+        }
+    }
+}
+
+const suggestedExperience = zod.object({
+    jobTitle: zod.string().trim().min(1),
+    companyName: zod.string().trim().min(1),
+    startDate: zod.coerce.date(),
+    endDate: zod.coerce.date().nullable().optional(),
+    location: zod.string().nullable().default(null),
+    description: zod.string().max(2000).nullable().default(null),
+}).refine(data => isValidDateRange(data.startDate, data.endDate), {
+    message: "endDate must be after startDate",
+    path: ["endDate"],
+})
+
+const suggestedEducation = zod.object({
+    schoolName: zod.string().trim().min(1),
+    degree: zod.string().trim().min(1),
+    fieldOfStudy: zod.string().trim().min(1),
+    startDate: zod.coerce.date(),
+    endDate: zod.coerce.date().nullable().optional(),
+    grade: zod.string().nullable().default(null),
+    description: zod.string().max(2000).nullable().default(null),
+}).refine(data => isValidDateRange(data.startDate, data.endDate), {
+    message: "endDate must be after startDate",
+    path: ["endDate"],
+})
+
+const acceptSuggestionsBody = zod.object({
+    skills: zod.array(zod.string().trim().min(1)).optional(),
+    phoneNumber: zod.string().trim().min(1).optional(),
+    experience: zod.array(suggestedExperience).optional(),
+    education: zod.array(suggestedEducation).optional(),
+}).strict()
+
+class ProfileSuggestionsResponse {
+    static schema: SchemaObject = {
+        type: "object",
+        description: "Only what is not already on the profile. Entries may have empty fields the applicant must fill in before accepting.",
+        properties: {
+            skills: { type: "array", items: { type: "string" }, example: ["React", "PostgreSQL"] },
+            phoneNumber: { type: "string", nullable: true, example: "+91 98765 43210", description: "Only suggested when the account has no phone number" },
+            experience: {
+                type: "array",
+                items: {
+                    type: "object",
+                    properties: {
+                        jobTitle: { type: "string", example: "Software Engineer" },
+                        companyName: { type: "string", example: "Acme Technologies" },
+                        startDate: { type: "string", format: "date", example: "2021-01-01" },
+                        endDate: { type: "string", format: "date", nullable: true, example: null },
+                        location: { type: "string", nullable: true, example: null },
+                        description: { type: "string", nullable: true, example: "Built the payments dashboard in React" },
+                    }
+                }
+            },
+            education: {
+                type: "array",
+                items: {
+                    type: "object",
+                    properties: {
+                        schoolName: { type: "string", example: "State University" },
+                        degree: { type: "string", example: "B.Tech" },
+                        fieldOfStudy: { type: "string", example: "Computer Science" },
+                        startDate: { type: "string", format: "date", example: "2014-01-01" },
+                        endDate: { type: "string", format: "date", nullable: true, example: "2018-01-01" },
+                        grade: { type: "string", nullable: true, example: "8.6/10" },
+                        description: { type: "string", nullable: true, example: null },
+                    }
+                }
+            },
+            detected: {
+                type: "object",
+                properties: {
+                    email: { type: "string", nullable: true, example: "jane.doe@example.com" },
+                    phone: { type: "string", nullable: true, example: "+91 98765 43210" },
+                }
+            }
+        }
+    }
+}
+
+class AcceptSuggestionsRequest {
+    static schema: SchemaObject = {
+        type: "object",
+        description: "The parts of the suggestion the applicant accepted, edited as needed. Every field is optional.",
+        properties: {
+            skills: ProfileSuggestionsResponse.schema.properties!.skills,
+            phoneNumber: ProfileSuggestionsResponse.schema.properties!.phoneNumber,
+            experience: ProfileSuggestionsResponse.schema.properties!.experience,
+            education: ProfileSuggestionsResponse.schema.properties!.education,
+        }
+    }
+}
+
+Documentation.addSchema()(ResumeUploadRequest);
+Documentation.addSchema()(ResumeResponse);
+Documentation.addSchema()(ProfileSuggestionsResponse);
+Documentation.addSchema()(AcceptSuggestionsRequest);
+
+const toResumeResponse = ({ storageKey, extractedText, parsedData, ...resume }: Resume) => resume;
+
+const resumeErrorResponses = {
+    "401": {
+        description: "Unauthorized",
+        value: { type: "object", properties: { message: { type: "string", example: "Unauthorized" } } }
+    },
+    "404": {
+        description: "Applicant profile or resume not found",
+        value: { type: "object", properties: { message: { type: "string", example: "Resume not found" } } }
+    },
+    "500": {
+        description: "Internal server error",
+        value: { type: "object", properties: { message: { type: "string", example: "Internal server error" }, error: { type: "string", example: "Unknown error" } } }
+    }
+};
+
+Documentation.addRoute({
+    path: "/applicants/me/resumes",
+    method: Methods.get,
+    tags: ["Resume - Applicant"],
+    summary: "List every uploaded resume version, newest first",
+    responses: {
+        "200": {
+            description: "Resumes fetched successfully",
+            value: {
+                type: "object",
+                properties: {
+                    message: { type: "string", example: "Resumes fetched successfully" },
+                    resumes: { type: "array", items: ResumeResponse.schema }
+                }
+            }
+        },
+        "401": resumeErrorResponses["401"],
+        "404": resumeErrorResponses["404"],
+        "500": resumeErrorResponses["500"]
+    }
+})();
+
+router.get('/', async (req: Request, res: Response) => {
+    const applicantId = req.user?.applicantId;
+    logger.info(`GET /me/resumes - Fetching resumes for applicantId: ${applicantId}, IP: ${req.ip}`);
+
+    if (!applicantId) {
+        logger.warn(`Unauthorized access attempt - Missing applicantId. IP: ${req.ip}`);
+        return res.status(401).json({ message: "Unauthorized" });
+    }
+
+    try {
+        logger.debug(`DB Query - Fetching resumes for applicantId: ${applicantId}`);
+        const resumes = await prisma.resume.findMany({
+            where: { applicantId },
+            orderBy: { version: 'desc' }
+        });
+
+        logger.info(`Resumes fetched successfully for applicantId: ${applicantId} (count: ${resumes.length})`);
+        return res.status(200).json({
+            message: "Resumes fetched successfully",
+            resumes: resumes.map(toResumeResponse)
+        });
+    } catch (err) {
+        logger.error(`Error fetching resumes for applicantId: ${applicantId} - ${err instanceof Error ? err.message : "Unknown error"} - IP: ${req.ip}`);
+        logger.debug(`Stack trace: ${err instanceof Error ? err.stack : "No stack trace"}`);
+        return res.status(500).json({
+            message: "Internal server error",
+            error: err instanceof Error ? err.message : "Unknown error"
+        });
+    }
+});
+
+Documentation.addRoute({
+    path: "/applicants/me/resumes",
+    method: Methods.post,
+    tags: ["Resume - Applicant"],
+    summary: "Upload a new resume version (multipart/form-data, field 'resume')",
+    requestBody: ResumeUploadRequest.schema,
+    requestBodyContentType: "multipart/form-data",
+    responses: {
+        "201": {
+            description: "Resume uploaded successfully",
+            value: {
+                type: "object",
+                properties: {
+                    message: { type: "string", example: "Resume uploaded successfully" },
+                    resume: ResumeResponse.schema,
+                    suggestions: { ...ProfileSuggestionsResponse.schema, nullable: true, description: "null when the file could not be parsed" }
+                }
+            }
+        },
+        "400": {
+            description: "Missing file, unsupported type, or content not matching the declared type",
+            value: { type: "object", properties: { message: { type: "string", example: "A PDF or DOCX file is required in the 'resume' field" } } }
+        },
+        "401": resumeErrorResponses["401"],
+        "404": resumeErrorResponses["404"],
+        "413": {
+            description: "File too large",
+            value: { type: "object", properties: { message: { type: "string", example: "Resume must be at most 5 MB" } } }
+        },
+        "500": resumeErrorResponses["500"]
+    }
+})();
+
+router.post('/', resumeUploadMiddleware, async (req: Request, res: Response) => {
+    const applicantId = req.user?.applicantId;
+    logger.info(`POST /me/resumes - Uploading resume for applicantId: ${applicantId}, IP: ${req.ip}`);
+
+    if (!applicantId) {
+        logger.warn(`Unauthorized access attempt - Missing applicantId. IP: ${req.ip}`);
+        return res.status(401).json({ message: "Unauthorized" });
+    }
+
+    if (!req.file) {
+        logger.warn(`Resume upload rejected - missing file - applicantId: ${applicantId}, IP: ${req.ip}`);
+        return res.status(400).json({ message: "Resume file is required" });
+    }
+
+    try {
+        logger.debug(`Storage - Saving resume for applicantId: ${applicantId} (${req.file.mimetype}, ${req.file.size} bytes)`);
+        const resume = await saveResume(applicantId, req.file);
+
+        logger.info(`Resume uploaded successfully - resumeId: ${resume.id}, version: ${resume.version}, applicantId: ${applicantId}`);
+
+        let parsedResume = resume;
+        let suggestions = null;
+        try {
+            logger.debug(`Parsing resume ${resume.id} for applicantId: ${applicantId}`);
+            parsedResume = await parseAndStoreResume(resume, req.file.buffer);
+            suggestions = await buildProfileSuggestions(applicantId, await getParsedResume(parsedResume));
+        } catch (err) {
+            logger.warn(`Resume ${resume.id} uploaded but could not be parsed - ${err instanceof Error ? err.message : "Unknown error"}`);
+        }
+
+        return res.status(201).json({
+            message: "Resume uploaded successfully",
+            resume: toResumeResponse(parsedResume),
+            suggestions
+        });
+    } catch (err) {
+        logger.error(`Error uploading resume for applicantId: ${applicantId} - ${err instanceof Error ? err.message : "Unknown error"} - IP: ${req.ip}`);
+        logger.debug(`Stack trace: ${err instanceof Error ? err.stack : "No stack trace"}`);
+        return res.status(500).json({
+            message: "Internal server error",
+            error: err instanceof Error ? err.message : "Unknown error"
+        });
+    }
+});
+
+Documentation.addRoute({
+    path: "/applicants/me/resumes/:id/download",
+    method: Methods.get,
+    tags: ["Resume - Applicant"],
+    summary: "Download one of the logged-in applicant's resume versions",
+    parameters: [
+        {
+            in: "path",
+            name: "id",
+            required: true,
+            schema: { type: "string", example: "resume-id-123" },
+            description: "The ID of the resume",
+        }
+    ],
+    responses: {
+        "200": {
+            description: "Resume file stream",
+            value: { type: "string", format: "binary" }
+        },
+        "401": resumeErrorResponses["401"],
+        "404": resumeErrorResponses["404"],
+        "500": resumeErrorResponses["500"]
+    }
+})();
+
+router.get('/:id/download', async (req: Request, res: Response) => {
+    const applicantId = req.user?.applicantId;
+    const { id } = req.params;
+    logger.info(`GET /me/resumes/:id/download - Downloading resume ${id} for applicantId: ${applicantId}, IP: ${req.ip}`);
+
+    if (!applicantId) {
+        logger.warn(`Unauthorized access attempt - Missing applicantId. IP: ${req.ip}`);
+        return res.status(401).json({ message: "Unauthorized" });
+    }
+
+    try {
+        const resume = await prisma.resume.findFirst({
+            where: { id, applicantId }
+        });
+
+        if (!resume) {
+            logger.warn(`Resume not found - resumeId: ${id}, applicantId: ${applicantId}`);
+            return res.status(404).json({ message: "Resume not found" });
+        }
+
+        logger.info(`Streaming resume ${id} (version ${resume.version}) to applicantId: ${applicantId}`);
+        await streamResume(res, resume);
+    } catch (err) {
+        logger.error(`Error downloading resume ${id} for applicantId: ${applicantId} - ${err instanceof Error ? err.message : "Unknown error"} - IP: ${req.ip}`);
+        logger.debug(`Stack trace: ${err instanceof Error ? err.stack : "No stack trace"}`);
+        return res.status(500).json({
+            message: "Internal server error",
+            error: err instanceof Error ? err.message : "Unknown error"
+        });
+    }
+});
+
+const resumeIdParameter = {
+    in: "path" as const,
+    name: "id",
+    required: true,
+    schema: { type: "string", example: "resume-id-123" },
+    description: "The ID of the resume",
+};
+
+Documentation.addRoute({
+    path: "/applicants/me/resumes/:id/suggestions",
+    method: Methods.get,
+    tags: ["Resume - Applicant"],
+    summary: "Suggested profile additions parsed from a resume",
+    description: "Skills, experience and education detected in the resume that are not yet on the profile. Nothing is saved until the applicant accepts the suggestion.",
+    parameters: [resumeIdParameter],
+    responses: {
+        "200": {
+            description: "Suggestions built successfully",
+            value: {
+                type: "object",
+                properties: {
+                    message: { type: "string", example: "Suggestions fetched successfully" },
+                    suggestions: ProfileSuggestionsResponse.schema
+                }
+            }
+        },
+        "401": resumeErrorResponses["401"],
+        "404": resumeErrorResponses["404"],
+        "500": resumeErrorResponses["500"]
+    }
+})();
+
+router.get('/:id/suggestions', async (req: Request, res: Response) => {
+    const applicantId = req.user?.applicantId;
+    const { id } = req.params;
+    logger.info(`GET /me/resumes/:id/suggestions - Building suggestions from resume ${id} for applicantId: ${applicantId}, IP: ${req.ip}`);
+
+    if (!applicantId) {
+        logger.warn(`Unauthorized access attempt - Missing applicantId. IP: ${req.ip}`);
+        return res.status(401).json({ message: "Unauthorized" });
+    }
+
+    try {
+        const resume = await prisma.resume.findFirst({
+            where: { id, applicantId }
+        });
+
+        if (!resume) {
+            logger.warn(`Resume not found - resumeId: ${id}, applicantId: ${applicantId}`);
+            return res.status(404).json({ message: "Resume not found" });
+        }
+
+        const suggestions = await buildProfileSuggestions(applicantId, await getParsedResume(resume));
+
+        logger.info(`Suggestions built from resume ${id} - ${suggestions.skills.length} skills, ${suggestions.experience.length} experience, ${suggestions.education.length} education`);
+        return res.status(200).json({
+            message: "Suggestions fetched successfully",
+            suggestions
+        });
+    } catch (err) {
+        logger.error(`Error building suggestions from resume ${id} for applicantId: ${applicantId} - ${err instanceof Error ? err.message : "Unknown error"} - IP: ${req.ip}`);
+        logger.debug(`Stack trace: ${err instanceof Error ? err.stack : "No stack trace"}`);
+        return res.status(500).json({
+            message: "Internal server error",
+            error: err instanceof Error ? err.message : "Unknown error"
+        });
+    }
+});
+
+Documentation.addRoute({
+    path: "/applicants/me/resumes/:id/suggestions/accept",
+    method: Methods.post,
+    tags: ["Resume - Applicant"],
+    summary: "Save the accepted parts of a resume suggestion to the profile",
+    description: "Skills are merged into the profile, experience and education entries are appended, and the phone number is stored on the account.",
+    parameters: [resumeIdParameter],
+    requestBody: AcceptSuggestionsRequest.schema,
+    responses: {
+        "200": {
+            description: "Suggestions applied successfully",
+            value: {
+                type: "object",
+                properties: {
+                    message: { type: "string", example: "Profile updated from resume" },
+                    profile: { type: "object" },
+                    missingFields: { type: "array", items: { type: "string" }, example: ["bio"] }
+                }
+            }
+        },
+        "400": {
+            description: "Validation error",
+            value: { type: "object", properties: { message: { type: "string", example: "Invalid input" } } }
+        },
+        "401": resumeErrorResponses["401"],
+        "404": resumeErrorResponses["404"],
+        "500": resumeErrorResponses["500"]
+    }
+})();
+
+router.post('/:id/suggestions/accept', async (req: Request, res: Response) => {
+    const applicantId = req.user?.applicantId;
+    const { id } = req.params;
+    logger.info(`POST /me/resumes/:id/suggestions/accept - Applying suggestions from resume ${id} for applicantId: ${applicantId}, IP: ${req.ip}`);
+
+    if (!applicantId) {
+        logger.warn(`Unauthorized access attempt - Missing applicantId. IP: ${req.ip}`);
+        return res.status(401).json({ message: "Unauthorized" });
+    }
+
+    const response = acceptSuggestionsBody.safeParse(req.body);
+    if (!response.success) {
+        logger.warn(`Validation failed for accepted suggestions - resumeId: ${id}, applicantId: ${applicantId}, Errors: ${JSON.stringify(response.error)}`);
+        return res.status(400).json({
+            message: "Invalid input",
+            errors: response.error
+        });
+    }
+
+    try {
+        const resume = await prisma.resume.findFirst({
+            where: { id, applicantId },
+            select: { id: true }
+        });
+
+        if (!resume) {
+            logger.warn(`Resume not found - resumeId: ${id}, applicantId: ${applicantId}`);
+            return res.status(404).json({ message: "Resume not found" });
+        }
+
+        logger.debug(`DB Transaction - Applying resume suggestions for applicantId: ${applicantId}`);
+        const { profile, missingFields } = await applyProfileSuggestions(applicantId, response.data);
+
+        logger.info(`Profile updated from resume ${id} for applicantId: ${applicantId}, complete: ${profile.isProfileComplete}`);
+        return res.status(200).json({
+            message: "Profile updated from resume",
+            profile,
+            missingFields
+        });
+    } catch (err) {
+        logger.error(`Error applying suggestions from resume ${id} for applicantId: ${applicantId} - ${err instanceof Error ? err.message : "Unknown error"} - IP: ${req.ip}`);
+        logger.debug(`Stack trace: ${err instanceof Error ? err.stack : "No stack trace"}`);
+        return res.status(500).json({
+            message: "Internal server error",
+            error: err instanceof Error ? err.message : "Unknown error"
+        });
+    }
+});
+
+Documentation.addRoute({
+    path: "/applicants/me/resumes/:id",
+    method: Methods.delete,
+    tags: ["Resume - Applicant"],
+    summary: "Delete a resume version that has not been attached to an application",
+    parameters: [
+        {
+            in: "path",
+            name: "id",
+            required: true,
+            schema: { type: "string", example: "resume-id-123" },
+            description: "The ID of the resume",
+        }
+    ],
+    responses: {
+        "200": {
+            description: "Resume deleted successfully",
+            value: { type: "object", properties: { message: { type: "string", example: "Resume deleted successfully" } } }
+        },
+        "401": resumeErrorResponses["401"],
+        "404": resumeErrorResponses["404"],
+        "409": {
+            description: "Resume is attached to an application",
+            value: { type: "object", properties: { message: { type: "string", example: "Resume is attached to an application and cannot be deleted" } } }
+        },
+        "500": resumeErrorResponses["500"]
+    }
+})();
+
+router.delete('/:id', async (req: Request, res: Response) => {
+    const applicantId = req.user?.applicantId;
+    const { id } = req.params;
+    logger.info(`DELETE /me/resumes/:id - Deleting resume ${id} for applicantId: ${applicantId}, IP: ${req.ip}`);
+
+    if (!applicantId) {
+        logger.warn(`Unauthorized access attempt - Missing applicantId. IP: ${req.ip}`);
+        return res.status(401).json({ message: "Unauthorized" });
+    }
+
+    try {
+        const resume = await prisma.resume.findFirst({
+            where: { id, applicantId },
+            include: { _count: { select: { applications: true } } }
+        });
+
+        if (!resume) {
+            logger.warn(`Resume not found - resumeId: ${id}, applicantId: ${applicantId}`);
+            return res.status(404).json({ message: "Resume not found" });
+        }
+
+        if (resume._count.applications > 0) {
+            logger.warn(`Blocked delete of resume ${id} attached to ${resume._count.applications} application(s)`);
+            return res.status(409).json({ message: "Resume is attached to an application and cannot be deleted" });
+        }
+
+        logger.debug(`DB Delete - Deleting resume ${id} and its stored file`);
+        await deleteResume(resume);
+
+        logger.info(`Resume deleted successfully - resumeId: ${id}, applicantId: ${applicantId}`);
+        return res.status(200).json({ message: "Resume deleted successfully" });
+    } catch (err) {
+        logger.error(`Error deleting resume ${id} for applicantId: ${applicantId} - ${err instanceof Error ? err.message : "Unknown error"} - IP: ${req.ip}`);
+        logger.debug(`Stack trace: ${err instanceof Error ? err.stack : "No stack trace"}`);
+        return res.status(500).json({
+            message: "Internal server error",
+            error: err instanceof Error ? err.message : "Unknown error"
+        });
+    }
+});
+
+export default router;
@@ -0,0 +1,500 @@
+import express, { Request, Response } from 'express';
+const router = express.Router();
+import zod from 'zod';
+import { CompanyType, Department, DigestFrequency, JobRole, JobType, Prisma, PrismaClient } from '@prisma/client';
+import roleMiddleware from '../../middleware/roleMiddleware';
+import identityMiddleware from '../../middleware/identityMiddleware';
+import { Documentation, Methods, SchemaObject } from '../../docs/documentation';
+import logger from '../../utils/logger';
+import { buildPage, pageArgs, paginationParameters, paginationSchema, parsePagination } from '../../utils/pagination';
+import { savedSearchWhere } from '../../services/jobAlertService';
+const prisma = new PrismaClient();
+
+router.use(roleMiddleware("APPLICANT"))
+router.use(identityMiddleware)
+
+const MAX_SAVED_SEARCHES = 20;
+
+const savedSearchFields = zod.object({
+    name: zod.string().trim().min(1).max(100),
+    roles: zod.array(zod.enum(JobRole)).default([]),
+    skills: zod.array(zod.string().trim().min(1)).default([]),
+    jobTypes: zod.array(zod.enum(JobType)).default([]),
+    locations: zod.array(zod.string().trim().min(1)).default([]),
+    departments: zod.array(zod.enum(Department)).default([]),
+    salaryMin: zod.number().min(0).nullable().optional(),
+    salaryMax: zod.number().min(0).nullable().optional(),
+    companyTypes: zod.array(zod.enum(CompanyType)).default([]),
+    frequency: zod.enum(DigestFrequency).default("DAILY"),
+    isActive: zod.boolean().default(true),
+}).strict()
+
+const isValidSalaryRange = (data: { salaryMin?: number | null; salaryMax?: number | null }) =>
+    data.salaryMin == null || data.salaryMax == null || data.salaryMin <= data.salaryMax;
+
+const savedSearchBody = savedSearchFields.refine(isValidSalaryRange, {
+    message: "salaryMax must be greater than or equal to salaryMin",
+    path: ["salaryMax"],
+})
+
+// Without the defaults, so omitted fields are left unchanged.
+const savedSearchPatchBody = zod.object({
+    name: savedSearchFields.shape.name,
+    roles: zod.array(zod.enum(JobRole)),
+    skills: zod.array(zod.string().trim().min(1)),
+    jobTypes: zod.array(zod.enum(JobType)),
+    locations: zod.array(zod.string().trim().min(1)),
+    departments: zod.array(zod.enum(Department)),
+    salaryMin: zod.number().min(0).nullable(),
+    salaryMax: zod.number().min(0).nullable(),
+    companyTypes: zod.array(zod.enum(CompanyType)),
+    frequency: zod.enum(DigestFrequency),
+    isActive: zod.boolean(),
+}).partial().strict()
+
+class SavedSearchRequest {
+    static schema: SchemaObject = {
+        type: "object",
+        required: ["name"],
+        properties: {
+            name: { type: "string", example: "Remote React roles" },
+            roles: { type: "array", items: { type: "string", enum: Object.values(JobRole) }, example: ["FRONTEND_DEVELOPER"] },
+            skills: { type: "array", items: { type: "string" }, example: ["React", "TypeScript"] },
+            jobTypes: { type: "array", items: { type: "string", enum: Object.values(JobType) }, example: ["REMOTE"] },
+            locations: { type: "array", items: { type: "string" }, example: ["Bengaluru"] },
+            departments: { type: "array", items: { type: "string", enum: Object.values(Department) }, example: ["ENGINEERING"] },
+            salaryMin: { type: "number", nullable: true, example: 1200000 },
+            salaryMax: { type: "number", nullable: true, example: 2500000 },
+            companyTypes: { type: "array", items: { type: "string", enum: Object.values(CompanyType) }, example: ["GROWTH_STAGE_STARTUP"] },
+            frequency: { type: "string", enum: Object.values(DigestFrequency), example: "DAILY", description: "How often a digest of new matching jobs is sent" },
+            isActive: { type: "boolean", example: true, description: "Set to false to pause alerts without deleting the search" },
+        }
+    }
+}
+
+class SavedSearchResponse {
+    static schema: SchemaObject = {
+        type: "object",
+        properties: {
+            message: { type: "string", example: "Saved search created successfully" },
+            savedSearch: {
+                type: "object",
+                properties: {
+                    id: { type: "string", example: "saved-search-id-123" },
+                    applicantId: { type: "string", example: "applicant-id-123" },
+                    ...SavedSearchRequest.schema.properties,
+                    lastDigestAt: { type: "string", format: "date-time", description: "Jobs posted after this are included in the next digest" },
+                    createdAt: { type: "string", format: "date-time" },
+                    updatedAt: { type: "string", format: "date-time" },
+                }
+            }
+        }
+    }
+}
+
+Documentation.addSchema()(SavedSearchRequest);
+Documentation.addSchema()(SavedSearchResponse);
+
+const savedSearchErrorResponses = {
+    "400": {
+        description: "Validation error",
+        value: { type: "object", properties: { message: { type: "string", example: "Invalid input" } } }
+    },
+    "401": {
+        description: "Unauthorized",
+        value: { type: "object", properties: { message: { type: "string", example: "Unauthorized" } } }
+    },
+    "404": {
+        description: "Applicant profile or saved search not found",
+        value: { type: "object", properties: { message: { type: "string", example: "Saved search not found" } } }
+    },
+    "500": {
+        description: "Internal server error",
+        value: { type: "object", properties: { message: { type: "string", example: "Internal server error" }, error: { type: "string", example: "Unknown error" } } }
+    }
+};
+
+Documentation.addRoute({
+    path: "/applicants/me/saved-searches",
+    method: Methods.get,
+    tags: ["Saved Searches - Applicant"],
+    summary: "List the logged-in applicant's saved searches",
+    responses: {
+        "200": {
+            description: "Saved searches fetched successfully",
+            value: {
+                type: "object",
+                properties: {
+                    message: { type: "string", example: "Saved searches fetched successfully" },
+                    savedSearches: { type: "array", items: SavedSearchResponse.schema.properties!.savedSearch }
+                }
+            }
+        },
+        "401": savedSearchErrorResponses["401"],
+        "404": savedSearchErrorResponses["404"],
+        "500": savedSearchErrorResponses["500"]
+    }
+})();
+
+router.get('/', async (req: Request, res: Response) => {
+    const userId = req.user?.userId;
+    const applicantId = req.user?.applicantId;
+    logger.info(`GET /me/saved-searches - Fetching saved searches for userId: ${userId}, IP: ${req.ip}`);
+
+    if (!userId || !applicantId) {
+        logger.warn(`Unauthorized access attempt - Missing userId. IP: ${req.ip}`);
+        return res.status(401).json({ message: "Unauthorized" });
+    }
+
+    try {
+        logger.debug(`DB Query - Fetching saved searches for applicantId: ${applicantId}`);
+        const savedSearches = await prisma.savedSearch.findMany({
+            where: { applicantId },
+            orderBy: { createdAt: 'desc' }
+        });
+
+        logger.info(`Saved searches fetched successfully for applicantId: ${applicantId} (count: ${savedSearches.length})`);
+        return res.status(200).json({
+            message: "Saved searches fetched successfully",
+            savedSearches
+        });
+    } catch (err) {
+        logger.error(`Error fetching saved searches for userId: ${userId} - ${err instanceof Error ? err.message : "Unknown error"} - IP: ${req.ip}`);
+        logger.debug(`Stack trace: ${err instanceof Error ? err.stack : "No stack trace"}`);
+        return res.status(500).json({
+            message: "Internal server error",
+            error: err instanceof Error ? err.message : "Unknown error"
+        });
+    }
+})
+
+Documentation.addRoute({
+    path: "/applicants/me/saved-searches",
+    method: Methods.post,
+    tags: ["Saved Searches - Applicant"],
+    summary: "Save a job search and subscribe to alerts for it",
+    description: `Filters use the same semantics as GET /jobs. Only jobs posted after the search is saved are included in digests. At most ${MAX_SAVED_SEARCHES} saved searches per applicant.`,
+    requestBody: SavedSearchRequest.schema,
+    requestBodyDescription: "Saved search to create",
+    responses: {
+        "201": {
+            description: "Saved search created successfully",
+            value: SavedSearchResponse.schema
+        },
+        ...savedSearchErrorResponses,
+        "409": {
+            description: "Name already used or saved search limit reached",
+            value: { type: "object", properties: { message: { type: "string", example: "You already have a saved search with this name" } } }
+        }
+    }
+})();
+
+router.post('/', async (req: Request, res: Response) => {
+    const userId = req.user?.userId;
+    const applicantId = req.user?.applicantId;
+    logger.info(`POST /me/saved-searches - Creating saved search for userId: ${userId}, IP: ${req.ip}`);
+
+    if (!userId || !applicantId) {
+        logger.warn(`Unauthorized access attempt - Missing userId. IP: ${req.ip}`);
+        return res.status(401).json({ message: "Unauthorized" });
+    }
+
+    const response = savedSearchBody.safeParse(req.body);
+    if (!response.success) {
+        logger.warn(`Validation failed for saved search creation - userId: ${userId}, Errors: ${JSON.stringify(response.error)}`);
+        return res.status(400).json({
+            message: "Invalid input",
+            errors: response.error
+        });
+    }
+
+    try {
+        const existing = await prisma.savedSearch.findMany({
+            where: { applicantId },
+            select: { name: true }
+        });
+
+        if (existing.length >= MAX_SAVED_SEARCHES) {
+            logger.warn(`Saved search limit reached for applicantId: ${applicantId}`);
+            return res.status(409).json({ message: `You can have at most ${MAX_SAVED_SEARCHES} saved searches` });
+        }
+
+        if (existing.some(search => search.name === response.data.name)) {
+            logger.warn(`Duplicate saved search name "${response.data.name}" for applicantId: ${applicantId}`);
+            return res.status(409).json({ message: "You already have a saved search with this name" });
+        }
+
+        logger.debug(`DB Insert - Creating saved search for applicantId: ${applicantId}`);
+        const savedSearch = await prisma.savedSearch.create({
+            data: {
+                ...response.data,
+                applicantId
+            }
+        });
+
+        logger.info(`Saved search created successfully - savedSearchId: ${savedSearch.id}, applicantId: ${applicantId}`);
+        return res.status(201).json({
+            message: "Saved search created successfully",
+            savedSearch
+        });
+    } catch (err) {
+        // The unique (applicantId, name) catches a concurrent save under the same name.
+        if (err instanceof Prisma.PrismaClientKnownRequestError && err.code === "P2002") {
+            logger.warn(`Duplicate saved search name for applicantId: ${applicantId} - saved concurrently`);
+            return res.status(409).json({ message: "You already have a saved search with this name" });
+        }
+        logger.error(`Error creating saved search for userId: ${userId} - ${err instanceof Error ? err.message : "Unknown error"} - IP: ${req.ip}`);
+        logger.debug(`Stack trace: ${err instanceof Error ? err.stack : "No stack trace"}`);
+        return res.status(500).json({
+            message: "Internal server error",
+            error: err instanceof Error ? err.message : "Unknown error"
+        });
+    }
+})
+
+Documentation.addRoute({
+    path: "/applicants/me/saved-searches/:id/jobs",
+    method: Methods.get,
+    tags: ["Saved Searches - Applicant"],
+    summary: "Run a saved search and list the jobs currently matching it",
+    description: "Jobs the applicant has applied to or hidden are excluded, as in GET /jobs.",
+    parameters: [
+        { in: "path", name: "id", required: true, schema: { type: "string", example: "saved-search-id-123" } },
+        ...paginationParameters
+    ],
+    responses: {
+        "200": {
+            description: "Matching jobs fetched successfully",
+            value: {
+                type: "object",
+                properties: {
+                    message: { type: "string", example: "Matching jobs fetched successfully" },
+                    jobs: { type: "array", items: { type: "object" } },
+                    pagination: paginationSchema
+                }
+            }
+        },
+        ...savedSearchErrorResponses
+    }
+})();
+
+router.get('/:id/jobs', async (req: Request, res: Response) => {
+    const userId = req.user?.userId;
+    const applicantId = req.user?.applicantId;
+    const { id } = req.params;
+    logger.info(`GET /me/saved-searches/:id/jobs - Running saved search ${id} for userId: ${userId}, IP: ${req.ip}`);
+
+    if (!userId || !applicantId) {
+        logger.warn(`Unauthorized access attempt - Missing userId. IP: ${req.ip}`);
+        return res.status(401).json({ message: "Unauthorized" });
+    }
+
+    const paginationResult = parsePagination(req.query, { defaultLimit: 25 });
+    if (!paginationResult.success) {
+        logger.warn(`Invalid pagination for saved search jobs - ${paginationResult.message}, userId: ${userId}`);
+        return res.status(400).json({ message: paginationResult.message });
+    }
+    const pagination = paginationResult.data;
+
+    try {
+        const savedSearch = await prisma.savedSearch.findFirst({
+            where: { id, applicantId }
+        });
+
+        if (!savedSearch) {
+            logger.warn(`Saved search not found - savedSearchId: ${id}, applicantId: ${applicantId}`);
+            return res.status(404).json({ message: "Saved search not found" });
+        }
+
+        const where = {
+            ...savedSearchWhere(savedSearch),
+            NOT: [
+                { applications: { some: { applicantId } } },
+                { hiddenJobs: { some: { applicantId } } }
+            ]
+        };
+
+        logger.debug(`DB Query - Fetching jobs matching saved search ${id}`);
+        const [rows, total] = await Promise.all([
+            prisma.job.findMany({
+                ...pageArgs(where, pagination),
+                include: { company: true }
+            }),
+            pagination.mode === 'page' ? prisma.job.count({ where }) : null,
+        ]);
+        const { items: jobs, pagination: pageInfo } = buildPage(rows, pagination, total);
+
+        logger.info(`Matching jobs fetched successfully for savedSearchId: ${id} (count: ${jobs.length})`);
+        return res.status(200).json({
+            message: "Matching jobs fetched successfully",
+            jobs,
+            pagination: pageInfo
+        });
+    } catch (err) {
+        logger.error(`Error running saved search ${id} for userId: ${userId} - ${err instanceof Error ? err.message : "Unknown error"} - IP: ${req.ip}`);
+        logger.debug(`Stack trace: ${err instanceof Error ? err.stack : "No stack trace"}`);
+        return res.status(500).json({
+            message: "Internal server error",
+            error: err instanceof Error ? err.message : "Unknown error"
+        });
+    }
+})
+
+Documentation.addRoute({
+    path: "/applicants/me/saved-searches/:id",
+    method: Methods.patch,
+    tags: ["Saved Searches - Applicant"],
+    summary: "Update a saved search",
+    description: "Re-activating a paused search starts its next digest from now, so jobs posted while it was paused are not sent.",
+    parameters: [
+        { in: "path", name: "id", required: true, schema: { type: "string", example: "saved-search-id-123" } }
+    ],
+    requestBody: SavedSearchRequest.schema,
+    requestBodyDescription: "Fields to update (all optional)",
+    responses: {
+        "200": {
+            description: "Saved search updated successfully",
+            value: SavedSearchResponse.schema
+        },
+        ...savedSearchErrorResponses,
+        "409": {
+            description: "Name already used",
+            value: { type: "object", properties: { message: { type: "string", example: "You already have a saved search with this name" } } }
+        }
+    }
+})();
+
+router.patch('/:id', async (req: Request, res: Response) => {
+    const userId = req.user?.userId;
+    const applicantId = req.user?.applicantId;
+    const { id } = req.params;
+    logger.info(`PATCH /me/saved-searches/:id - Updating saved search ${id} for userId: ${userId}, IP: ${req.ip}`);
+
+    if (!userId || !applicantId) {
+        logger.warn(`Unauthorized access attempt - Missing userId. IP: ${req.ip}`);
+        return res.status(401).json({ message: "Unauthorized" });
+    }
+
+    const response = savedSearchPatchBody.safeParse(req.body);
+    if (!response.success || Object.keys(response.data).length === 0) {
+        logger.warn(`Validation failed for saved search update - savedSearchId: ${id}, userId: ${userId}, Body: ${JSON.stringify(req.body)}`);
+        return res.status(400).json({
+            message: "Invalid input",
+            errors: response.error
+        });
+    }
+
+    const updates = response.data;
+
+    try {
+        const savedSearch = await prisma.savedSearch.findFirst({
+            where: { id, applicantId }
+        });
+
+        if (!savedSearch) {
+            logger.warn(`Saved search not found - savedSearchId: ${id}, applicantId: ${applicantId}`);
+            return res.status(404).json({ message: "Saved search not found" });
+        }
+
+        const salaryMin = updates.salaryMin !== undefined ? updates.salaryMin : savedSearch.salaryMin;
+        const salaryMax = updates.salaryMax !== undefined ? updates.salaryMax : savedSearch.salaryMax;
+        if (!isValidSalaryRange({ salaryMin, salaryMax })) {
+            logger.warn(`Invalid salary range for saved search update - savedSearchId: ${id}, userId: ${userId}`);
+            return res.status(400).json({ message: "salaryMax must be greater than or equal to salaryMin" });
+        }
+
+        if (updates.name && updates.name !== savedSearch.name) {
+            const duplicate = await prisma.savedSearch.findFirst({
+                where: { applicantId, name: updates.name },
+                select: { id: true }
+            });
+            if (duplicate) {
+                logger.warn(`Duplicate saved search name "${updates.name}" for applicantId: ${applicantId}`);
+                return res.status(409).json({ message: "You already have a saved search with this name" });
+            }
+        }
+
+        const isReactivated = updates.isActive === true && !savedSearch.isActive;
+
+        logger.debug(`DB Update - Updating saved search ${id}, fields: ${Object.keys(updates).join(', ')}`);
+        const updatedSavedSearch = await prisma.savedSearch.update({
+            where: { id },
+            data: {
+                ...updates,
+                ...(isReactivated ? { lastDigestAt: new Date() } : {})
+            }
+        });
+
+        logger.info(`Saved search updated successfully - savedSearchId: ${id}, userId: ${userId}`);
+        return res.status(200).json({
+            message: "Saved search updated successfully",
+            savedSearch: updatedSavedSearch
+        });
+    } catch (err) {
+        if (err instanceof Prisma.PrismaClientKnownRequestError && err.code === "P2002") {
+            logger.warn(`Duplicate saved search name for applicantId: ${applicantId} - saved concurrently`);
+            return res.status(409).json({ message: "You already have a saved search with this name" });
+        }
+        logger.error(`Error updating saved search ${id} for userId: ${userId} - ${err instanceof Error ? err.message : "Unknown error"} - IP: ${req.ip}`);
+        logger.debug(`Stack trace: ${err instanceof Error ? err.stack : "No stack trace"}`);
+        return res.status(500).json({
+            message: "Internal server error",
+            error: err instanceof Error ? err.message : "Unknown error"
+        });
+    }
+})
+
+Documentation.addRoute({
+    path: "/applicants/me/saved-searches/:id",
+    method: Methods.delete,
+    tags: ["Saved Searches - Applicant"],
+    summary: "Delete a saved search and stop its alerts",
+    parameters: [
+        { in: "path", name: "id", required: true, schema: { type: "string", example: "saved-search-id-123" } }
+    ],
+    responses: {
+        "200": {
+            description: "Saved search deleted successfully",
+            value: { type: "object", properties: { message: { type: "string", example: "Saved search deleted successfully" } } }
+        },
+        "401": savedSearchErrorResponses["401"],
+        "404": savedSearchErrorResponses["404"],
+        "500": savedSearchErrorResponses["500"]
+    }
+})();
+
+router.delete('/:id', async (req: Request, res: Response) => {
+    const userId = req.user?.userId;
+    const applicantId = req.user?.applicantId;
+    const { id } = req.params;
+    logger.info(`DELETE /me/saved-searches/:id - Deleting saved search ${id} for userId: ${userId}, IP: ${req.ip}`);
+
+    if (!userId || !applicantId) {
+        logger.warn(`Unauthorized access attempt - Missing userId. IP: ${req.ip}`);
+        return res.status(401).json({ message: "Unauthorized" });
+    }
+
+    try {
+        logger.debug(`DB Delete - Deleting saved search ${id} for applicantId: ${applicantId}`);
+        const result = await prisma.savedSearch.deleteMany({
+            where: { id, applicantId }
+        });
+
+        if (result.count === 0) {
+            logger.warn(`Saved search not found - savedSearchId: ${id}, applicantId: ${applicantId}`);
+            return res.status(404).json({ message: "Saved search not found" });
+        }
+
+        logger.info(`Saved search deleted successfully - savedSearchId: ${id}, userId: ${userId}`);
+        return res.status(200).json({ message: "Saved search deleted successfully" });
+    } catch (err) {
+        logger.error(`Error deleting saved search ${id} for userId: ${userId} - ${err instanceof Error ? err.message : "Unknown error"} - IP: ${req.ip}`);
+        logger.debug(`Stack trace: ${err instanceof Error ? err.stack : "No stack trace"}`);
+        return res.status(500).json({
+            message: "Internal server error",
+            error: err instanceof Error ? err.message : "Unknown error"
+        });
+    }
+})
+
+export default router;
@@ -9,6 +9,7 @@ import { Documentation, Methods, SchemaObject } from '../../docs/documentation';
 import rateLimit from 'express-rate-limit';
 import logger from 'utils/logger';
 import passport from 'passport';
+import { roleProfileCreateInput } from '../../services/roleProfileService';
 const prisma = new PrismaClient();
 
 router.get('/google',
@@ -156,7 +157,8 @@ router.post('/signup', async (req: Request, res: Response) => {
                 name,
                 email,
                 password: hashedPassword,
-                role
+                role,
+                ...roleProfileCreateInput(role)
             }
         })
 
@@ -0,0 +1,263 @@
+import express, { Request, Response } from 'express';
+const router = express.Router();
+import { PrismaClient } from '@prisma/client';
+import authMiddleware from '../../middleware/authMiddleware';
+import { Documentation, Methods, SchemaObject } from '../../docs/documentation';
+import logger from '../../utils/logger';
+import { buildFeedCalendar, findFeedOwner, issueFeedToken } from '../../services/calendarService';
+const prisma = new PrismaClient();
+
+class CalendarFeedResponse {
+    static schema: SchemaObject = {
+        type: "object",
+        properties: {
+            message: { type: "string", example: "Calendar feed fetched successfully" },
+            feed: {
+                type: "object",
+                nullable: true,
+                description: "null when the user has no active feed",
+                properties: {
+                    createdAt: { type: "string", format: "date-time" },
+                    lastAccessedAt: { type: "string", format: "date-time", nullable: true, description: "Last time a calendar client fetched the feed" }
+                }
+            }
+        }
+    }
+}
+
+class IssuedCalendarFeedResponse {
+    static schema: SchemaObject = {
+        type: "object",
+        properties: {
+            message: { type: "string", example: "Calendar feed created successfully" },
+            feed: {
+                type: "object",
+                properties: {
+                    url: { type: "string", example: "https://api.example.com/api/v1/calendar/feed/Zk3q...Yw.ics", description: "Subscribe to this URL in a calendar app. It is only shown once." },
+                    createdAt: { type: "string", format: "date-time" }
+                }
+            }
+        }
+    }
+}
+
+Documentation.addSchema()(CalendarFeedResponse)
+Documentation.addSchema()(IssuedCalendarFeedResponse)
+
+Documentation.addRoute({
+    path: "/calendar/feed",
+    method: Methods.get,
+    tags: ["Calendar"],
+    summary: "Get the status of the logged-in user's calendar feed",
+    description: "The feed URL itself is only returned when the feed is created or rotated.",
+    responses: {
+        "200": {
+            description: "Calendar feed fetched successfully",
+            value: CalendarFeedResponse.schema
+        },
+        "401": {
+            description: "Unauthorized",
+            value: { type: "object", properties: { message: { type: "string", example: "Unauthorized" } } }
+        },
+        "500": {
+            description: "Internal server error",
+            value: { type: "object", properties: { message: { type: "string", example: "Internal server error" }, error: { type: "string", example: "Unknown error" } } }
+        }
+    }
+})();
+
+router.get('/feed', authMiddleware, async (req: Request, res: Response) => {
+    const userId = req.user?.userId;
+    logger.info(`GET /calendar/feed - UserId: ${userId}, IP: ${req.ip}`);
+
+    if (!userId) {
+        logger.warn(`Unauthorized access attempt - Missing userId. IP: ${req.ip}`);
+        return res.status(401).json({ message: "Unauthorized" });
+    }
+
+    try {
+        const feed = await prisma.calendarFeedToken.findUnique({
+            where: { userId },
+            select: { createdAt: true, lastAccessedAt: true }
+        });
+
+        return res.status(200).json({
+            message: "Calendar feed fetched successfully",
+            feed
+        });
+    } catch (err) {
+        logger.error(`Error fetching calendar feed for userId: ${userId} - ${err instanceof Error ? err.message : "Unknown error"} - IP: ${req.ip}`);
+        logger.debug(`Stack trace: ${err instanceof Error ? err.stack : "No stack trace"}`);
+        return res.status(500).json({
+            message: "Internal server error",
+            error: err instanceof Error ? err.message : "Unknown error"
+        })
+    }
+})
+
+Documentation.addRoute({
+    path: "/calendar/feed",
+    method: Methods.post,
+    tags: ["Calendar"],
+    summary: "Create or rotate the logged-in user's calendar feed URL",
+    description: "Returns a new secret feed URL for calendar apps. Any previous URL stops working immediately. Recruiters' feeds contain the interviews for their jobs and their jobs' application deadlines; applicants' feeds contain their interviews.",
+    responses: {
+        "201": {
+            description: "Calendar feed created successfully",
+            value: IssuedCalendarFeedResponse.schema
+        },
+        "401": {
+            description: "Unauthorized",
+            value: { type: "object", properties: { message: { type: "string", example: "Unauthorized" } } }
+        },
+        "500": {
+            description: "Internal server error",
+            value: { type: "object", properties: { message: { type: "string", example: "Internal server error" }, error: { type: "string", example: "Unknown error" } } }
+        }
+    }
+})();
+
+router.post('/feed', authMiddleware, async (req: Request, res: Response) => {
+    const userId = req.user?.userId;
+    logger.info(`POST /calendar/feed - UserId: ${userId}, IP: ${req.ip}`);
+
+    if (!userId) {
+        logger.warn(`Unauthorized access attempt - Missing userId. IP: ${req.ip}`);
+        return res.status(401).json({ message: "Unauthorized" });
+    }
+
+    try {
+        const { token, feed } = await issueFeedToken(userId);
+        logger.info(`Calendar feed token issued for userId: ${userId}`);
+
+        return res.status(201).json({
+            message: "Calendar feed created successfully",
+            feed: {
+                url: `${req.protocol}://${req.get('host')}${req.baseUrl}/feed/${token}.ics`,
+                createdAt: feed.createdAt
+            }
+        });
+    } catch (err) {
+        logger.error(`Error issuing calendar feed for userId: ${userId} - ${err instanceof Error ? err.message : "Unknown error"} - IP: ${req.ip}`);
+        logger.debug(`Stack trace: ${err instanceof Error ? err.stack : "No stack trace"}`);
+        return res.status(500).json({
+            message: "Internal server error",
+            error: err instanceof Error ? err.message : "Unknown error"
+        })
+    }
+})
+
+Documentation.addRoute({
+    path: "/calendar/feed",
+    method: Methods.delete,
+    tags: ["Calendar"],
+    summary: "Revoke the logged-in user's calendar feed URL",
+    responses: {
+        "200": {
+            description: "Calendar feed revoked successfully",
+            value: { type: "object", properties: { message: { type: "string", example: "Calendar feed revoked successfully" } } }
+        },
+        "401": {
+            description: "Unauthorized",
+            value: { type: "object", properties: { message: { type: "string", example: "Unauthorized" } } }
+        },
+        "404": {
+            description: "No active calendar feed",
+            value: { type: "object", properties: { message: { type: "string", example: "Calendar feed not found" } } }
+        },
+        "500": {
+            description: "Internal server error",
+            value: { type: "object", properties: { message: { type: "string", example: "Internal server error" }, error: { type: "string", example: "Unknown error" } } }
+        }
+    }
+})();
+
+router.delete('/feed', authMiddleware, async (req: Request, res: Response) => {
+    const userId = req.user?.userId;
+    logger.info(`DELETE /calendar/feed - UserId: ${userId}, IP: ${req.ip}`);
+
+    if (!userId) {
+        logger.warn(`Unauthorized access attempt - Missing userId. IP: ${req.ip}`);
+        return res.status(401).json({ message: "Unauthorized" });
+    }
+
+    try {
+        const { count } = await prisma.calendarFeedToken.deleteMany({ where: { userId } });
+        if (!count) {
+            logger.warn(`No calendar feed to revoke for userId: ${userId}`);
+            return res.status(404).json({ message: "Calendar feed not found" });
+        }
+
+        logger.info(`Calendar feed revoked for userId: ${userId}`);
+        return res.status(200).json({ message: "Calendar feed revoked successfully" });
+    } catch (err) {
+        logger.error(`Error revoking calendar feed for userId: ${userId} - ${err instanceof Error ? err.message : "Unknown error"} - IP: ${req.ip}`);
+        logger.debug(`Stack trace: ${err instanceof Error ? err.stack : "No stack trace"}`);
+        return res.status(500).json({
+            message: "Internal server error",
+            error: err instanceof Error ? err.message : "Unknown error"
+        })
+    }
+})
+
+Documentation.addRoute({
+    path: "/calendar/feed/:token",
+    method: Methods.get,
+    tags: ["Calendar"],
+    summary: "Subscribable iCalendar feed",
+    description: "Authenticated by the secret token in the URL rather than the session cookie, so calendar apps can poll it. Covers the last 90 days and everything upcoming.",
+    parameters: [
+        {
+            in: "path",
+            name: "token",
+            required: true,
+            schema: { type: "string", example: "Zk3q...Yw.ics" },
+            description: "Feed token, optionally followed by .ics"
+        }
+    ],
+    responses: {
+        "200": {
+            description: "text/calendar feed",
+            value: { type: "string", format: "binary" }
+        },
+        "404": {
+            description: "Unknown or revoked token",
+            value: { type: "object", properties: { message: { type: "string", example: "Calendar feed not found" } } }
+        },
+        "500": {
+            description: "Internal server error",
+            value: { type: "object", properties: { message: { type: "string", example: "Internal server error" }, error: { type: "string", example: "Unknown error" } } }
+        }
+    }
+})();
+
+router.get('/feed/:token', async (req: Request, res: Response) => {
+    const token = req.params.token.replace(/\.ics$/, '');
+    logger.info(`GET /calendar/feed/:token - IP: ${req.ip}`);
+
+    try {
+        const owner = await findFeedOwner(token);
+        const profileId = owner?.role === "RECRUITER" ? owner.recruiter?.id : owner?.applicant?.id;
+        if (!owner || !profileId) {
+            logger.warn(`Calendar feed requested with an unknown or revoked token - IP: ${req.ip}`);
+            return res.status(404).json({ message: "Calendar feed not found" });
+        }
+
+        const { calendar, interviewCount, deadlineCount } = await buildFeedCalendar({ name: owner.name, role: owner.role, profileId });
+        logger.info(`Calendar feed served for userId: ${owner.id} - ${interviewCount} interviews, ${deadlineCount} deadlines`);
+
+        res.setHeader('Content-Type', 'text/calendar; charset=utf-8');
+        res.setHeader('Content-Disposition', 'inline; filename="interviews.ics"');
+        res.setHeader('Cache-Control', 'private, no-cache');
+        return res.status(200).send(calendar);
+    } catch (err) {
+        logger.error(`Error serving calendar feed - ${err instanceof Error ? err.message : "Unknown error"} - IP: ${req.ip}`);
+        logger.debug(`Stack trace: ${err instanceof Error ? err.stack : "No stack trace"}`);
+        return res.status(500).json({
+            message: "Internal server error",
+            error: err instanceof Error ? err.message : "Unknown error"
+        })
+    }
+})
+
+export default router;
@@ -0,0 +1,254 @@
+import express, { Request, Response } from 'express';
+import roleMiddleware from '../../middleware/roleMiddleware';
+import authMiddleware from '../../middleware/authMiddleware';
+import identityMiddleware from '../../middleware/identityMiddleware';
+const router = express.Router();
+import zod from 'zod';
+import { DocumentType, PrismaClient } from '@prisma/client';
+import { Documentation, IRequestParameter, Methods, SchemaObject } from '../../docs/documentation';
+import logger from '../../utils/logger';
+import { participantApplicationWhere } from '../../services/messageService';
+import {
+    documentRequestInclude,
+    documentRequestSchema,
+    notifyDocumentsRequested
+} from '../../services/documentRequestService';
+const prisma = new PrismaClient();
+
+const MAX_REQUESTS_PER_CALL = 10;
+
+const requestDocumentsBody = zod.object({
+    requests: zod.array(zod.object({
+        type: zod.enum(DocumentType),
+        title: zod.string().trim().min(1).max(100).optional(),
+        instructions: zod.string().trim().max(1000).optional(),
+        dueAt: zod.iso.datetime({ offset: true }).transform(value => new Date(value))
+    }).refine(data => data.type !== "OTHER" || !!data.title, {
+        message: "title is required for OTHER documents",
+        path: ["title"]
+    })).min(1).max(MAX_REQUESTS_PER_CALL)
+})
+
+const applicationIdParameter: IRequestParameter[] = [
+    { in: "path", name: "id", required: true, schema: { type: "string", example: "application-id-123" } }
+];
+
+class RequestDocumentsRequest {
+    static schema: SchemaObject = {
+        type: "object",
+        required: ["requests"],
+        properties: {
+            requests: {
+                type: "array",
+                description: `1 to ${MAX_REQUESTS_PER_CALL} documents`,
+                items: {
+                    type: "object",
+                    required: ["type", "dueAt"],
+                    properties: {
+                        type: { type: "string", enum: Object.values(DocumentType), example: "PAYSLIP" },
+                        title: { type: "string", example: "Last 3 months' payslips", description: "Required for OTHER" },
+                        instructions: { type: "string", example: "A single PDF is fine" },
+                        dueAt: { type: "string", format: "date-time", example: "2026-10-26T00:00:00+05:30", description: "ISO 8601 with an offset" }
+                    }
+                }
+            }
+        }
+    }
+}
+
+class DocumentRequestsResponse {
+    static schema: SchemaObject = {
+        type: "object",
+        properties: {
+            message: { type: "string", example: "Document requests fetched successfully" },
+            documentRequests: { type: "array", items: documentRequestSchema }
+        }
+    }
+}
+
+Documentation.addSchema()(RequestDocumentsRequest)
+Documentation.addSchema()(DocumentRequestsResponse)
+
+Documentation.addRoute({
+    path: "/applications/:id/document-requests",
+    method: Methods.post,
+    tags: ["Documents"],
+    summary: "Request documents from an applicant",
+    description: "Recruiter only. The applicant gets one DOCUMENT_REQUEST notification listing the documents, and reminders 72 and 24 hours before each due date.",
+    parameters: applicationIdParameter,
+    requestBody: RequestDocumentsRequest.schema,
+    requestBodyDescription: "Documents to request",
+    responses: {
+        "201": {
+            description: "Documents requested successfully",
+            value: DocumentRequestsResponse.schema
+        },
+        "400": {
+            description: "Invalid input or a due date in the past",
+            value: { type: "object", properties: { message: { type: "string", example: "Due dates must be in the future" } } }
+        },
+        "401": {
+            description: "Unauthorized",
+            value: { type: "object", properties: { message: { type: "string", example: "Unauthorized" } } }
+        },
+        "403": {
+            description: "Application belongs to another recruiter's job",
+            value: { type: "object", properties: { message: { type: "string", example: "Forbidden: You can only request documents for your own jobs." } } }
+        },
+        "404": {
+            description: "Application not found",
+            value: { type: "object", properties: { message: { type: "string", example: "Application not found" } } }
+        },
+        "409": {
+            description: "Application is withdrawn or rejected",
+            value: { type: "object", properties: { message: { type: "string", example: "Cannot request documents for a withdrawn application" } } }
+        },
+        "500": {
+            description: "Internal server error",
+            value: { type: "object", properties: { message: { type: "string", example: "Internal server error" }, error: { type: "string", example: "Unknown error" } } }
+        }
+    }
+})();
+
+router.post('/:id/document-requests', roleMiddleware("RECRUITER"), identityMiddleware, async (req: Request, res: Response) => {
+    const { id } = req.params;
+    const userId = req.user?.userId;
+    const recruiterId = req.user?.recruiterId;
+    logger.info(`POST /${id}/document-requests - RecruiterId: ${recruiterId}, IP: ${req.ip}`);
+
+    if(!userId || !recruiterId){
+        logger.warn(`Unauthorized access attempt - Missing recruiterId. IP: ${req.ip}`);
+        return res.status(401).json({ message: "Unauthorized" })
+    }
+
+    const response = requestDocumentsBody.safeParse(req.body);
+    if(!response.success){
+        logger.warn(`Validation failed for document requests on applicationId: ${id} - ${JSON.stringify(response.error)}`);
+        return res.status(400).json({ message: "Invalid input", errors: response.error })
+    }
+    const { requests } = response.data;
+
+    const now = new Date();
+    if(requests.some(request => request.dueAt <= now)){
+        logger.warn(`Document request with a past due date on applicationId: ${id}`);
+        return res.status(400).json({ message: "Due dates must be in the future" })
+    }
+
+    try {
+        const application = await prisma.application.findUnique({
+            where: { id },
+            select: { id: true, status: true, applicant: { select: { userId: true } }, job: { select: { title: true, recruiterId: true } } }
+        })
+
+        if(!application){
+            logger.warn(`Application not found with applicationId: ${id}`);
+            return res.status(404).json({ message: "Application not found" })
+        }
+
+        if(application.job.recruiterId !== recruiterId){
+            logger.warn(`Forbidden: recruiterId ${recruiterId} tried to request documents for applicationId ${id}`);
+            return res.status(403).json({ message: "Forbidden: You can only request documents for your own jobs." })
+        }
+
+        if(application.status === "WITHDRAWN" || application.status === "REJECTED"){
+            logger.warn(`Document request rejected - applicationId: ${id} is ${application.status}`);
+            return res.status(409).json({ message: `Cannot request documents for a ${application.status.toLowerCase()} application` })
+        }
+
+        const created = await prisma.documentRequest.createManyAndReturn({
+            data: requests.map(request => ({ ...request, applicationId: id, requestedById: userId })),
+            select: { id: true }
+        })
+        const documentRequests = await prisma.documentRequest.findMany({
+            where: { id: { in: created.map(request => request.id) } },
+            orderBy: { dueAt: 'asc' },
+            include: documentRequestInclude
+        })
+
+        logger.info(`${documentRequests.length} documents requested on applicationId: ${id} by recruiterId: ${recruiterId}`);
+        await notifyDocumentsRequested(application, documentRequests);
+
+        return res.status(201).json({
+            message: "Documents requested successfully",
+            documentRequests
+        })
+    } catch(err) {
+        logger.error(`Error requesting documents for applicationId: ${id} - ${err instanceof Error ? err.message : "Unknown error"} - IP: ${req.ip}`);
+        logger.debug(`Stack trace: ${err instanceof Error ? err.stack : "No stack trace"}`);
+        return res.status(500).json({
+            message: "Internal server error",
+            error: err instanceof Error ? err.message : "Unknown error"
+        })
+    }
+})
+
+Documentation.addRoute({
+    path: "/applications/:id/document-requests",
+    method: Methods.get,
+    tags: ["Documents"],
+    summary: "List the document requests of an application",
+    description: "Available to the job's recruiter and to the applicant. Ordered by due date.",
+    parameters: applicationIdParameter,
+    responses: {
+        "200": {
+            description: "Document requests fetched successfully",
+            value: DocumentRequestsResponse.schema
+        },
+        "401": {
+            description: "Unauthorized",
+            value: { type: "object", properties: { message: { type: "string", example: "Unauthorized" } } }
+        },
+        "404": {
+            description: "Application not found or not visible to the user",
+            value: { type: "object", properties: { message: { type: "string", example: "Application not found" } } }
+        },
+        "500": {
+            description: "Internal server error",
+            value: { type: "object", properties: { message: { type: "string", example: "Internal server error" }, error: { type: "string", example: "Unknown error" } } }
+        }
+    }
+})();
+
+router.get('/:id/document-requests', authMiddleware, identityMiddleware, async (req: Request, res: Response) => {
+    const { id } = req.params;
+    const userId = req.user?.userId;
+    logger.info(`GET /${id}/document-requests - UserId: ${userId}, IP: ${req.ip}`);
+
+    if(!userId){
+        logger.warn(`Unauthorized access attempt - Missing userId. IP: ${req.ip}`);
+        return res.status(401).json({ message: "Unauthorized" })
+    }
+
+    try {
+        const application = await prisma.application.findFirst({
+            where: { id, ...participantApplicationWhere({ ...req.user!, userId }) },
+            select: { id: true }
+        })
+
+        if(!application){
+            logger.warn(`Application ${id} not found or not visible to userId: ${userId}`);
+            return res.status(404).json({ message: "Application not found" })
+        }
+
+        const documentRequests = await prisma.documentRequest.findMany({
+            where: { applicationId: id },
+            orderBy: [{ dueAt: 'asc' }, { createdAt: 'asc' }],
+            include: documentRequestInclude
+        })
+
+        logger.info(`Fetched ${documentRequests.length} document requests for applicationId: ${id}`);
+        return res.status(200).json({
+            message: "Document requests fetched successfully",
+            documentRequests
+        })
+    } catch(err) {
+        logger.error(`Error fetching document requests for applicationId: ${id} - ${err instanceof Error ? err.message : "Unknown error"} - IP: ${req.ip}`);
+        logger.debug(`Stack trace: ${err instanceof Error ? err.stack : "No stack trace"}`);
+        return res.status(500).json({
+            message: "Internal server error",
+            error: err instanceof Error ? err.message : "Unknown error"
+        })
+    }
+})
+
+export default router;
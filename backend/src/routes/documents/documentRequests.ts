@@ -0,0 +1,332 @@
+import express, { Request, Response } from 'express';
+import roleMiddleware from '../../middleware/roleMiddleware';
+import authMiddleware from '../../middleware/authMiddleware';
+import identityMiddleware from '../../middleware/identityMiddleware';
+import documentUploadMiddleware, { DOCUMENT_MAX_SIZE_BYTES, DOCUMENT_MIME_TYPES } from '../../middleware/documentUploadMiddleware';
+const router = express.Router();
+import zod from 'zod';
+import { PrismaClient } from '@prisma/client';
+import { Documentation, IRequestParameter, Methods, SchemaObject } from '../../docs/documentation';
+import logger from '../../utils/logger';
+import {
+    documentLabel,
+    documentRequestSchema,
+    findDocumentRequest,
+    notifyDocumentReviewed,
+    notifyDocumentSubmitted,
+    saveDocumentUpload,
+    streamDocumentUpload,
+    toDocumentRequestResponse
+} from '../../services/documentRequestService';
+const prisma = new PrismaClient();
+
+const reviewDocumentBody = zod.object({
+    status: zod.enum(["ACCEPTED", "RESUBMISSION_REQUIRED"]),
+    note: zod.string().trim().min(1).max(1000).optional(),
+    dueAt: zod.iso.datetime({ offset: true }).transform(value => new Date(value)).optional()
+}).refine(data => data.status !== "RESUBMISSION_REQUIRED" || !!data.note, {
+    message: "note is required when asking for a resubmission",
+    path: ["note"]
+})
+
+const documentRequestIdParameter: IRequestParameter[] = [
+    { in: "path", name: "id", required: true, schema: { type: "string", example: "document-request-id-123" } }
+];
+
+class DocumentUploadRequest {
+    static schema: SchemaObject = {
+        type: "object",
+        required: ["document"],
+        properties: {
+            document: {
+                type: "string",
+                format: "binary",
+                description: `PDF, PNG, JPEG or DOCX, at most ${DOCUMENT_MAX_SIZE_BYTES / (1024 * 1024)} MB`
+            }
+        }
+    }
+}
+
+class ReviewDocumentRequest {
+    static schema: SchemaObject = {
+        type: "object",
+        required: ["status"],
+        properties: {
+            status: { type: "string", enum: ["ACCEPTED", "RESUBMISSION_REQUIRED"], example: "RESUBMISSION_REQUIRED" },
+            note: { type: "string", example: "The scan is cut off; please upload all pages", description: "Required for RESUBMISSION_REQUIRED" },
+            dueAt: { type: "string", format: "date-time", example: "2026-10-28T00:00:00+05:30", description: "New due date for the resubmission. Required if the original one has passed." }
+        }
+    }
+}
+
+class DocumentRequestResponse {
+    static schema: SchemaObject = {
+        type: "object",
+        properties: {
+            message: { type: "string", example: "Document uploaded successfully" },
+            documentRequest: documentRequestSchema
+        }
+    }
+}
+
+Documentation.addSchema()(DocumentUploadRequest)
+Documentation.addSchema()(ReviewDocumentRequest)
+Documentation.addSchema()(DocumentRequestResponse)
+
+Documentation.addRoute({
+    path: "/document-requests/:id/uploads",
+    method: Methods.post,
+    tags: ["Documents"],
+    summary: "Upload a file for a document request",
+    description: `Applicant only. Send the file as multipart/form-data in the "document" field (${DOCUMENT_MIME_TYPES.join(', ')}). Earlier uploads are kept; the request moves to SUBMITTED and the recruiter is notified.`,
+    parameters: documentRequestIdParameter,
+    requestBody: DocumentUploadRequest.schema,
+    requestBodyDescription: "Document file",
+    responses: {
+        "201": {
+            description: "Document uploaded successfully",
+            value: DocumentRequestResponse.schema
+        },
+        "400": {
+            description: "Missing file, unsupported type, or content not matching the declared type",
+            value: { type: "object", properties: { message: { type: "string", example: "A PDF, PNG, JPEG or DOCX file is required in the 'document' field" } } }
+        },
+        "401": {
+            description: "Unauthorized",
+            value: { type: "object", properties: { message: { type: "string", example: "Unauthorized" } } }
+        },
+        "404": {
+            description: "Document request not found or not visible to the user",
+            value: { type: "object", properties: { message: { type: "string", example: "Document request not found" } } }
+        },
+        "409": {
+            description: "Document already accepted, or the application is closed",
+            value: { type: "object", properties: { message: { type: "string", example: "This document has already been accepted" } } }
+        },
+        "413": {
+            description: "File too large",
+            value: { type: "object", properties: { message: { type: "string", example: "Documents must be at most 10 MB" } } }
+        },
+        "500": {
+            description: "Internal server error",
+            value: { type: "object", properties: { message: { type: "string", example: "Internal server error" }, error: { type: "string", example: "Unknown error" } } }
+        }
+    }
+})();
+
+router.post('/:id/uploads', roleMiddleware("APPLICANT"), identityMiddleware, documentUploadMiddleware, async (req: Request, res: Response) => {
+    const { id } = req.params;
+    const userId = req.user?.userId;
+    const applicantId = req.user?.applicantId;
+    logger.info(`POST /document-requests/${id}/uploads - ApplicantId: ${applicantId}, IP: ${req.ip}`);
+
+    if (!userId || !applicantId) {
+        logger.warn(`Unauthorized access attempt - Missing applicantId. IP: ${req.ip}`);
+        return res.status(401).json({ message: "Unauthorized" });
+    }
+
+    try {
+        const request = await findDocumentRequest(id, { userId, applicantId });
+        if (!request) {
+            logger.warn(`Document request ${id} not found for applicantId: ${applicantId}`);
+            return res.status(404).json({ message: "Document request not found" });
+        }
+
+        if (request.status === "ACCEPTED") {
+            logger.warn(`Upload rejected - document request ${id} is already accepted`);
+            return res.status(409).json({ message: "This document has already been accepted" });
+        }
+
+        if (request.application.status === "WITHDRAWN" || request.application.status === "REJECTED") {
+            logger.warn(`Upload rejected - applicationId: ${request.applicationId} is ${request.application.status}`);
+            return res.status(409).json({ message: `Cannot upload documents for a ${request.application.status.toLowerCase()} application` });
+        }
+
+        const upload = await saveDocumentUpload(request, req.file!);
+        logger.info(`Document upload ${upload.id} (${documentLabel(request)}) stored for request ${id}`);
+
+        const updated = await findDocumentRequest(id, { userId, applicantId });
+        await notifyDocumentSubmitted(updated!);
+
+        return res.status(201).json({
+            message: "Document uploaded successfully",
+            documentRequest: toDocumentRequestResponse(updated!)
+        });
+    } catch (err) {
+        logger.error(`Error uploading document for request ${id} - ${err instanceof Error ? err.message : "Unknown error"} - IP: ${req.ip}`);
+        logger.debug(`Stack trace: ${err instanceof Error ? err.stack : "No stack trace"}`);
+        return res.status(500).json({
+            message: "Internal server error",
+            error: err instanceof Error ? err.message : "Unknown error"
+        })
+    }
+})
+
+Documentation.addRoute({
+    path: "/document-requests/:id/uploads/:uploadId/download",
+    method: Methods.get,
+    tags: ["Documents"],
+    summary: "Download an uploaded document",
+    description: "Available to the job's recruiter and to the applicant.",
+    parameters: [
+        ...documentRequestIdParameter,
+        { in: "path", name: "uploadId", required: true, schema: { type: "string", example: "upload-id-1" } }
+    ],
+    responses: {
+        "200": {
+            description: "Document file stream",
+            value: { type: "string", format: "binary" }
+        },
+        "401": {
+            description: "Unauthorized",
+            value: { type: "object", properties: { message: { type: "string", example: "Unauthorized" } } }
+        },
+        "404": {
+            description: "Document not found or not visible to the user",
+            value: { type: "object", properties: { message: { type: "string", example: "Document not found" } } }
+        },
+        "500": {
+            description: "Internal server error",
+            value: { type: "object", properties: { message: { type: "string", example: "Internal server error" }, error: { type: "string", example: "Unknown error" } } }
+        }
+    }
+})();
+
+router.get('/:id/uploads/:uploadId/download', authMiddleware, identityMiddleware, async (req: Request, res: Response) => {
+    const { id, uploadId } = req.params;
+    const userId = req.user?.userId;
+    logger.info(`GET /document-requests/${id}/uploads/${uploadId}/download - UserId: ${userId}, IP: ${req.ip}`);
+
+    if (!userId) {
+        logger.warn(`Unauthorized access attempt - Missing userId. IP: ${req.ip}`);
+        return res.status(401).json({ message: "Unauthorized" });
+    }
+
+    try {
+        const request = await findDocumentRequest(id, { ...req.user!, userId });
+        const upload = request && await prisma.documentUpload.findFirst({ where: { id: uploadId, requestId: request.id } });
+        if (!upload) {
+            logger.warn(`Document upload ${uploadId} not found on request ${id} for userId: ${userId}`);
+            return res.status(404).json({ message: "Document not found" });
+        }
+
+        logger.info(`Streaming document upload ${uploadId} to userId: ${userId}`);
+        await streamDocumentUpload(res, upload);
+    } catch (err) {
+        logger.error(`Error downloading document upload ${uploadId} - ${err instanceof Error ? err.message : "Unknown error"} - IP: ${req.ip}`);
+        logger.debug(`Stack trace: ${err instanceof Error ? err.stack : "No stack trace"}`);
+        return res.status(500).json({
+            message: "Internal server error",
+            error: err instanceof Error ? err.message : "Unknown error"
+        })
+    }
+})
+
+Documentation.addRoute({
+    path: "/document-requests/:id/review",
+    method: Methods.patch,
+    tags: ["Documents"],
+    summary: "Accept a submitted document or ask for a resubmission",
+    description: "Recruiter only, for requests in SUBMITTED. Asking for a resubmission reopens the request and restarts its reminders. The applicant is notified either way.",
+    parameters: documentRequestIdParameter,
+    requestBody: ReviewDocumentRequest.schema,
+    requestBodyDescription: "Review decision",
+    responses: {
+        "200": {
+            description: "Document reviewed successfully",
+            value: DocumentRequestResponse.schema
+        },
+        "400": {
+            description: "Invalid input, or a missing or past due date for the resubmission",
+            value: { type: "object", properties: { message: { type: "string", example: "The due date has passed; provide a new dueAt for the resubmission" } } }
+        },
+        "401": {
+            description: "Unauthorized",
+            value: { type: "object", properties: { message: { type: "string", example: "Unauthorized" } } }
+        },
+        "404": {
+            description: "Document request not found among the recruiter's jobs",
+            value: { type: "object", properties: { message: { type: "string", example: "Document request not found" } } }
+        },
+        "409": {
+            description: "Nothing submitted to review",
+            value: { type: "object", properties: { message: { type: "string", example: "Only submitted documents can be reviewed" } } }
+        },
+        "500": {
+            description: "Internal server error",
+            value: { type: "object", properties: { message: { type: "string", example: "Internal server error" }, error: { type: "string", example: "Unknown error" } } }
+        }
+    }
+})();
+
+router.patch('/:id/review', roleMiddleware("RECRUITER"), identityMiddleware, async (req: Request, res: Response) => {
+    const { id } = req.params;
+    const userId = req.user?.userId;
+    const recruiterId = req.user?.recruiterId;
+    logger.info(`PATCH /document-requests/${id}/review - RecruiterId: ${recruiterId}, IP: ${req.ip}`);
+
+    if (!userId || !recruiterId) {
+        logger.warn(`Unauthorized access attempt - Missing recruiterId. IP: ${req.ip}`);
+        return res.status(401).json({ message: "Unauthorized" });
+    }
+
+    const response = reviewDocumentBody.safeParse(req.body);
+    if (!response.success) {
+        logger.warn(`Validation failed for document review ${id} - ${JSON.stringify(response.error)}`);
+        return res.status(400).json({ message: "Invalid input", errors: response.error });
+    }
+    const { status, note, dueAt } = response.data;
+
+    try {
+        const request = await findDocumentRequest(id, { userId, recruiterId });
+        if (!request) {
+            logger.warn(`Document request ${id} not found for recruiterId: ${recruiterId}`);
+            return res.status(404).json({ message: "Document request not found" });
+        }
+
+        if (request.status !== "SUBMITTED") {
+            logger.warn(`Review rejected - document request ${id} is ${request.status}`);
+            return res.status(409).json({ message: "Only submitted documents can be reviewed" });
+        }
+
+        const now = new Date();
+        if (status === "RESUBMISSION_REQUIRED") {
+            if (dueAt && dueAt <= now) {
+                logger.warn(`Review rejected - new due date in the past for request ${id}`);
+                return res.status(400).json({ message: "dueAt must be in the future" });
+            }
+            if (!dueAt && request.dueAt <= now) {
+                logger.warn(`Review rejected - request ${id} is past due and no new dueAt was given`);
+                return res.status(400).json({ message: "The due date has passed; provide a new dueAt for the resubmission" });
+            }
+        }
+
+        await prisma.documentRequest.update({
+            where: { id },
+            data: {
+                status,
+                reviewNote: note ?? null,
+                reviewedAt: now,
+                ...(status === "RESUBMISSION_REQUIRED" ? { lastReminderAt: null, ...(dueAt ? { dueAt } : {}) } : {})
+            }
+        });
+        logger.info(`Document request ${id} reviewed as ${status} by recruiterId: ${recruiterId}`);
+
+        const updated = await findDocumentRequest(id, { userId, recruiterId });
+        await notifyDocumentReviewed(updated!);
+
+        return res.status(200).json({
+            message: "Document reviewed successfully",
+            documentRequest: toDocumentRequestResponse(updated!)
+        });
+    } catch (err) {
+        logger.error(`Error reviewing document request ${id} - ${err instanceof Error ? err.message : "Unknown error"} - IP: ${req.ip}`);
+        logger.debug(`Stack trace: ${err instanceof Error ? err.stack : "No stack trace"}`);
+        return res.status(500).json({
+            message: "Internal server error",
+            error: err instanceof Error ? err.message : "Unknown error"
+        })
+    }
+})
+
+export default router;
@@ -6,14 +6,44 @@ import applicantCompanyRouter from './applicant/company'
 import jobsRouter from './jobs/jobs'
 import applicationRouter from './recruiter/application'
 import seekersRouter from './recruiter/seeker'
+import pipelineRouter from './recruiter/pipeline'
+import availabilityRouter from './recruiter/availability'
 import applicantApplicationRouter from './applicant/application'
+import applicantProfileRouter from './applicant/profile'
+import educationRouter from './applicant/education'
+import experienceRouter from './applicant/experience'
+import resumeRouter from './applicant/resume'
+import savedSearchRouter from './applicant/savedSearch'
+import notificationsRouter from './notifications/notifications'
+import interviewsRouter from './interviews/interviews'
+import applicationInterviewsRouter from './interviews/applicationInterviews'
+import calendarRouter from './calendar/calendar'
+import applicationMessagesRouter from './messages/applicationMessages'
+import conversationsRouter from './messages/conversations'
+import applicationDocumentsRouter from './documents/applicationDocuments'
+import documentRequestsRouter from './documents/documentRequests'
 
 router.use('/auth', authRouter)
 router.use('/companies', recruiterCompanyRouter)
 router.use('/companies', applicantCompanyRouter)
 router.use('/jobs', jobsRouter)
-router.use('/applications', applicationRouter)
+router.use('/jobs', pipelineRouter)
 router.use('/applications', applicantApplicationRouter)
+router.use('/applications', applicationRouter)
+router.use('/applications', applicationInterviewsRouter)
+router.use('/applications', applicationMessagesRouter)
+router.use('/applications', applicationDocumentsRouter)
 router.use('/seekers', seekersRouter)
+router.use('/applicants/me/education', educationRouter)
+router.use('/applicants/me/experience', experienceRouter)
+router.use('/applicants/me/resumes', resumeRouter)
+router.use('/applicants/me/saved-searches', savedSearchRouter)
+router.use('/applicants', applicantProfileRouter)
+router.use('/notifications', notificationsRouter)
+router.use('/interviews', interviewsRouter)
+router.use('/availability', availabilityRouter)
+router.use('/calendar', calendarRouter)
+router.use('/conversations', conversationsRouter)
+router.use('/document-requests', documentRequestsRouter)
 
 export default router;
\ No newline at end of file
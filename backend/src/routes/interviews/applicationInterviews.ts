@@ -0,0 +1,614 @@
+import express, { Request, Response } from 'express';
+import roleMiddleware from '../../middleware/roleMiddleware';
+import authMiddleware from '../../middleware/authMiddleware';
+import identityMiddleware from '../../middleware/identityMiddleware';
+const router = express.Router();
+import zod from 'zod';
+import { InterviewMode, Prisma, PrismaClient } from '@prisma/client';
+import { Documentation, Methods, SchemaObject } from '../../docs/documentation';
+import logger from '../../utils/logger';
+import {
+    ACTIVE_INTERVIEW_STATUSES,
+    interviewInclude,
+    interviewSchema,
+    nextInterviewRound,
+    notifyInterviewBooked,
+    notifyInterviewScheduled,
+    toInterviewResponse,
+    validateInterviewTimes
+} from '../../services/interviewService';
+import {
+    availabilitySlotSchema,
+    canBookSlots,
+    openSlotsWhere,
+    withLocalTimes
+} from '../../services/availabilityService';
+import { isValidTimeZone } from '../../utils/timezone';
+const prisma = new PrismaClient();
+
+const scheduleInterviewBody = zod.object({
+    round: zod.number().int().min(1).optional(),
+    title: zod.string().trim().min(1).max(100).optional(),
+    startsAt: zod.iso.datetime({ offset: true }).transform(value => new Date(value)),
+    endsAt: zod.iso.datetime({ offset: true }).transform(value => new Date(value)),
+    timezone: zod.string().trim().min(1),
+    mode: zod.enum(InterviewMode),
+    location: zod.string().trim().min(1).max(500).optional(),
+    meetingLink: zod.url().optional(),
+    instructions: zod.string().trim().max(2000).optional(),
+    interviewers: zod.array(zod.object({
+        name: zod.string().trim().min(1).max(100),
+        email: zod.email()
+    })).max(10).default([])
+}).refine(data => data.mode !== "ONSITE" || !!data.location, {
+    message: "location is required for onsite interviews",
+    path: ["location"]
+}).refine(data => data.mode !== "VIDEO" || !!data.meetingLink, {
+    message: "meetingLink is required for video interviews",
+    path: ["meetingLink"]
+})
+
+class ScheduleInterviewRequest {
+    static schema: SchemaObject = {
+        type: "object",
+        required: ["startsAt", "endsAt", "timezone", "mode"],
+        properties: {
+            round: { type: "integer", example: 2, description: "Defaults to one after the latest non-cancelled round" },
+            title: { type: "string", example: "Tech Round 1" },
+            startsAt: { type: "string", format: "date-time", example: "2026-10-21T15:30:00+05:30", description: "ISO 8601 with an offset" },
+            endsAt: { type: "string", format: "date-time", example: "2026-10-21T16:30:00+05:30" },
+            timezone: { type: "string", example: "Asia/Kolkata", description: "IANA time zone used when showing the time to participants" },
+            mode: { type: "string", enum: Object.values(InterviewMode), example: "VIDEO" },
+            location: { type: "string", example: "4th floor, Acme HQ, Bangalore", description: "Required for ONSITE" },
+            meetingLink: { type: "string", example: "https://meet.example.com/abc-defg-hij", description: "Required for VIDEO" },
+            instructions: { type: "string", example: "Have an IDE ready to share your screen" },
+            interviewers: {
+                type: "array",
+                items: {
+                    type: "object",
+                    required: ["name", "email"],
+                    properties: {
+                        name: { type: "string", example: "Priya Sharma" },
+                        email: { type: "string", format: "email", example: "priya@acme.com" }
+                    }
+                }
+            }
+        }
+    }
+}
+
+const bookSlotBody = zod.object({
+    slotId: zod.uuid(),
+    timezone: zod.string().trim().min(1).optional()
+})
+
+class BookSlotRequest {
+    static schema: SchemaObject = {
+        type: "object",
+        required: ["slotId"],
+        properties: {
+            slotId: { type: "string", format: "uuid", example: "slot-id-123" },
+            timezone: { type: "string", example: "Europe/Berlin", description: "IANA zone the applicant wants the interview shown in. Defaults to the slot's zone." }
+        }
+    }
+}
+
+class AvailableSlotsResponse {
+    static schema: SchemaObject = {
+        type: "object",
+        properties: {
+            message: { type: "string", example: "Slots fetched successfully" },
+            slots: { type: "array", items: availabilitySlotSchema }
+        }
+    }
+}
+
+class InterviewResponse {
+    static schema: SchemaObject = {
+        type: "object",
+        properties: {
+            message: { type: "string", example: "Interview scheduled successfully" },
+            interview: interviewSchema
+        }
+    }
+}
+
+class ApplicationInterviewsResponse {
+    static schema: SchemaObject = {
+        type: "object",
+        properties: {
+            message: { type: "string", example: "Interviews fetched successfully" },
+            interviews: { type: "array", items: interviewSchema }
+        }
+    }
+}
+
+Documentation.addSchema()(ScheduleInterviewRequest)
+Documentation.addSchema()(InterviewResponse)
+Documentation.addSchema()(ApplicationInterviewsResponse)
+Documentation.addSchema()(BookSlotRequest)
+Documentation.addSchema()(AvailableSlotsResponse)
+
+Documentation.addRoute({
+    path: "/applications/:id/interviews",
+    method: Methods.post,
+    tags: ["Interviews"],
+    summary: "Schedule an interview for an application",
+    description: "Recruiter only. The applicant is notified and asked to confirm.",
+    parameters: [
+        {
+            in: "path",
+            name: "id",
+            required: true,
+            schema: { type: "string", example: "application-id-123" }
+        }
+    ],
+    requestBody: ScheduleInterviewRequest.schema,
+    requestBodyDescription: "Interview details",
+    responses: {
+        "201": {
+            description: "Interview scheduled successfully",
+            value: InterviewResponse.schema
+        },
+        "400": {
+            description: "Invalid input, unknown time zone, or a time in the past",
+            value: { type: "object", properties: { message: { type: "string", example: "endsAt must be after startsAt" } } }
+        },
+        "401": {
+            description: "Unauthorized",
+            value: { type: "object", properties: { message: { type: "string", example: "Unauthorized" } } }
+        },
+        "403": {
+            description: "Application belongs to another recruiter's job",
+            value: { type: "object", properties: { message: { type: "string", example: "Forbidden: You can only schedule interviews for your own jobs." } } }
+        },
+        "404": {
+            description: "Application not found",
+            value: { type: "object", properties: { message: { type: "string", example: "Application not found" } } }
+        },
+        "409": {
+            description: "Application is withdrawn, rejected or accepted",
+            value: { type: "object", properties: { message: { type: "string", example: "Cannot schedule interviews for a withdrawn application" } } }
+        },
+        "500": {
+            description: "Internal server error",
+            value: { type: "object", properties: { message: { type: "string", example: "Internal server error" }, error: { type: "string", example: "Unknown error" } } }
+        }
+    }
+})();
+
+router.post('/:id/interviews', roleMiddleware("RECRUITER"), identityMiddleware, async (req: Request, res: Response) => {
+    const { id } = req.params;
+    const userId = req.user?.userId;
+    const recruiterId = req.user?.recruiterId;
+    logger.info(`POST /${id}/interviews - Scheduling interview by recruiterId: ${recruiterId}, IP: ${req.ip}`);
+
+    if(!userId || !recruiterId){
+        logger.warn(`Unauthorized access attempt - Missing recruiterId. IP: ${req.ip}`);
+        return res.status(401).json({ message: "Unauthorized" })
+    }
+
+    const response = scheduleInterviewBody.safeParse(req.body);
+    if(!response.success){
+        logger.warn(`Validation failed for interview on applicationId: ${id} - ${JSON.stringify(response.error)}`);
+        return res.status(400).json({ message: "Invalid input", errors: response.error })
+    }
+    const { interviewers, round, ...details } = response.data;
+
+    const invalidTimes = validateInterviewTimes(details);
+    if(invalidTimes){
+        logger.warn(`Invalid interview time for applicationId: ${id} - ${invalidTimes}`);
+        return res.status(400).json({ message: invalidTimes })
+    }
+
+    try {
+        logger.debug(`DB Query - Fetching application ${id} for interview scheduling`);
+        const application = await prisma.application.findUnique({
+            where: { id },
+            select: { id: true, status: true, job: { select: { recruiterId: true } } }
+        })
+
+        if(!application){
+            logger.warn(`Application not found with applicationId: ${id}`);
+            return res.status(404).json({ message: "Application not found" })
+        }
+
+        if(application.job.recruiterId !== recruiterId){
+            logger.warn(`Forbidden: recruiterId ${recruiterId} tried to schedule an interview for applicationId ${id}`);
+            return res.status(403).json({ message: "Forbidden: You can only schedule interviews for your own jobs." })
+        }
+
+        if(application.status === "WITHDRAWN" || application.status === "REJECTED" || application.status === "ACCEPTED"){
+            logger.warn(`Interview scheduling rejected - applicationId: ${id} is ${application.status}`);
+            return res.status(409).json({ message: `Cannot schedule interviews for a ${application.status.toLowerCase()} application` })
+        }
+
+        const interview = await prisma.interview.create({
+            data: {
+                ...details,
+                applicationId: id,
+                round: round ?? await nextInterviewRound(id),
+                scheduledById: userId,
+                interviewers: { create: interviewers }
+            },
+            include: interviewInclude
+        })
+
+        logger.info(`Interview ${interview.id} (round ${interview.round}) scheduled for applicationId: ${id}`);
+        await notifyInterviewScheduled(interview);
+
+        return res.status(201).json({
+            message: "Interview scheduled successfully",
+            interview: toInterviewResponse(interview)
+        })
+    } catch(err) {
+        logger.error(`Error scheduling interview for applicationId: ${id} - ${err instanceof Error ? err.message : "Unknown error"} - IP: ${req.ip}`);
+        logger.debug(`Stack trace: ${err instanceof Error ? err.stack : "No stack trace"}`);
+        return res.status(500).json({
+            message: "Internal server error",
+            error: err instanceof Error ? err.message : "Unknown error"
+        })
+    }
+})
+
+Documentation.addRoute({
+    path: "/applications/:id/interviews",
+    method: Methods.get,
+    tags: ["Interviews"],
+    summary: "List the interviews of an application",
+    description: "Available to the job's recruiter and to the applicant. Includes cancelled interviews, ordered by start time.",
+    parameters: [
+        {
+            in: "path",
+            name: "id",
+            required: true,
+            schema: { type: "string", example: "application-id-123" }
+        }
+    ],
+    responses: {
+        "200": {
+            description: "Interviews fetched successfully",
+            value: ApplicationInterviewsResponse.schema
+        },
+        "401": {
+            description: "Unauthorized",
+            value: { type: "object", properties: { message: { type: "string", example: "Unauthorized" } } }
+        },
+        "404": {
+            description: "Application not found or not visible to the user",
+            value: { type: "object", properties: { message: { type: "string", example: "Application not found" } } }
+        },
+        "500": {
+            description: "Internal server error",
+            value: { type: "object", properties: { message: { type: "string", example: "Internal server error" }, error: { type: "string", example: "Unknown error" } } }
+        }
+    }
+})();
+
+router.get('/:id/interviews', authMiddleware, identityMiddleware, async (req: Request, res: Response) => {
+    const { id } = req.params;
+    const { applicantId, recruiterId } = req.user ?? {};
+    logger.info(`GET /${id}/interviews - UserId: ${req.user?.userId}, IP: ${req.ip}`);
+
+    if(!applicantId && !recruiterId){
+        logger.warn(`Unauthorized access attempt - Missing role profile. IP: ${req.ip}`);
+        return res.status(401).json({ message: "Unauthorized" })
+    }
+
+    try {
+        const application = await prisma.application.findFirst({
+            where: {
+                id,
+                ...(recruiterId ? { job: { recruiterId } } : { applicantId })
+            },
+            select: { id: true }
+        })
+
+        if(!application){
+            logger.warn(`Application ${id} not found or not visible to userId: ${req.user?.userId}`);
+            return res.status(404).json({ message: "Application not found" })
+        }
+
+        const interviews = await prisma.interview.findMany({
+            where: { applicationId: id },
+            orderBy: { startsAt: 'asc' },
+            include: interviewInclude
+        })
+
+        logger.info(`Fetched ${interviews.length} interviews for applicationId: ${id}`);
+        return res.status(200).json({
+            message: "Interviews fetched successfully",
+            interviews: interviews.map(toInterviewResponse)
+        })
+    } catch(err) {
+        logger.error(`Error fetching interviews for applicationId: ${id} - ${err instanceof Error ? err.message : "Unknown error"} - IP: ${req.ip}`);
+        logger.debug(`Stack trace: ${err instanceof Error ? err.stack : "No stack trace"}`);
+        return res.status(500).json({
+            message: "Internal server error",
+            error: err instanceof Error ? err.message : "Unknown error"
+        })
+    }
+})
+
+Documentation.addRoute({
+    path: "/applications/:id/slots",
+    method: Methods.get,
+    tags: ["Interviews"],
+    summary: "List interview slots the applicant can book",
+    description: "Applicant only, for applications in the interview stage: REVIEWED applications, or for jobs with a pipeline, applications past the first stage that have not reached a terminal stage. Returns the open future slots the job's recruiter published for this job or for all their jobs, soonest first.",
+    parameters: [
+        {
+            in: "path",
+            name: "id",
+            required: true,
+            schema: { type: "string", example: "application-id-123" }
+        },
+        {
+            in: "query",
+            name: "timezone",
+            required: false,
+            schema: { type: "string", example: "America/New_York" },
+            description: "IANA zone for startsAtLocal/endsAtLocal. Defaults to each slot's own zone."
+        }
+    ],
+    responses: {
+        "200": {
+            description: "Slots fetched successfully",
+            value: AvailableSlotsResponse.schema
+        },
+        "400": {
+            description: "Unknown time zone",
+            value: { type: "object", properties: { message: { type: "string", example: "Unknown time zone: Mars/Olympus" } } }
+        },
+        "401": {
+            description: "Unauthorized",
+            value: { type: "object", properties: { message: { type: "string", example: "Unauthorized" } } }
+        },
+        "403": {
+            description: "Application belongs to another applicant",
+            value: { type: "object", properties: { message: { type: "string", example: "Forbidden: You can only book slots for your own applications." } } }
+        },
+        "404": {
+            description: "Application not found",
+            value: { type: "object", properties: { message: { type: "string", example: "Application not found" } } }
+        },
+        "409": {
+            description: "Application is not in the interview stage",
+            value: { type: "object", properties: { message: { type: "string", example: "Slots can only be booked for applications in the interview stage" } } }
+        },
+        "500": {
+            description: "Internal server error",
+            value: { type: "object", properties: { message: { type: "string", example: "Internal server error" }, error: { type: "string", example: "Unknown error" } } }
+        }
+    }
+})();
+
+router.get('/:id/slots', roleMiddleware("APPLICANT"), identityMiddleware, async (req: Request, res: Response) => {
+    const { id } = req.params;
+    const applicantId = req.user?.applicantId;
+    logger.info(`GET /${id}/slots - ApplicantId: ${applicantId}, IP: ${req.ip}`);
+
+    if(!applicantId){
+        logger.warn(`Unauthorized access attempt - Missing applicantId. IP: ${req.ip}`);
+        return res.status(401).json({ message: "Unauthorized" })
+    }
+
+    const timezone = typeof req.query.timezone === 'string' ? req.query.timezone : undefined;
+    if(timezone && !isValidTimeZone(timezone)){
+        logger.warn(`Unknown time zone requested: ${timezone}`);
+        return res.status(400).json({ message: `Unknown time zone: ${timezone}` })
+    }
+
+    try {
+        const application = await prisma.application.findUnique({
+            where: { id },
+            select: { id: true, applicantId: true, status: true, stage: { select: { position: true } }, job: { select: { id: true, recruiterId: true } } }
+        })
+
+        if(!application){
+            logger.warn(`Application not found with applicationId: ${id}`);
+            return res.status(404).json({ message: "Application not found" })
+        }
+
+        if(application.applicantId !== applicantId){
+            logger.warn(`Forbidden: applicantId ${applicantId} tried to view slots for applicationId ${id}`);
+            return res.status(403).json({ message: "Forbidden: You can only book slots for your own applications." })
+        }
+
+        if(!canBookSlots(application)){
+            logger.warn(`Slots requested for applicationId: ${id} in status ${application.status}, stage position ${application.stage?.position ?? 'none'}`);
+            return res.status(409).json({ message: "Slots can only be booked for applications in the interview stage" })
+        }
+
+        const slots = await prisma.availabilitySlot.findMany({
+            where: openSlotsWhere(application.job.recruiterId, application.job.id),
+            orderBy: { startsAt: 'asc' }
+        })
+
+        logger.info(`Fetched ${slots.length} open slots for applicationId: ${id}`);
+        return res.status(200).json({
+            message: "Slots fetched successfully",
+            slots: slots.map(slot => withLocalTimes(slot, timezone))
+        })
+    } catch(err) {
+        logger.error(`Error fetching slots for applicationId: ${id} - ${err instanceof Error ? err.message : "Unknown error"} - IP: ${req.ip}`);
+        logger.debug(`Stack trace: ${err instanceof Error ? err.stack : "No stack trace"}`);
+        return res.status(500).json({
+            message: "Internal server error",
+            error: err instanceof Error ? err.message : "Unknown error"
+        })
+    }
+})
+
+Documentation.addRoute({
+    path: "/applications/:id/book",
+    method: Methods.post,
+    tags: ["Interviews"],
+    summary: "Book an interview slot",
+    description: "Applicant only. Creates a confirmed interview at the slot's time and notifies the recruiter. Each slot can hold one interview; cancelling the interview frees the slot again. An application can hold one upcoming booked slot at a time.",
+    parameters: [
+        {
+            in: "path",
+            name: "id",
+            required: true,
+            schema: { type: "string", example: "application-id-123" }
+        }
+    ],
+    requestBody: BookSlotRequest.schema,
+    requestBodyDescription: "Slot to book",
+    responses: {
+        "201": {
+            description: "Slot booked successfully",
+            value: InterviewResponse.schema
+        },
+        "400": {
+            description: "Invalid input or unknown time zone",
+            value: { type: "object", properties: { message: { type: "string", example: "Unknown time zone: Mars/Olympus" } } }
+        },
+        "401": {
+            description: "Unauthorized",
+            value: { type: "object", properties: { message: { type: "string", example: "Unauthorized" } } }
+        },
+        "403": {
+            description: "Application belongs to another applicant",
+            value: { type: "object", properties: { message: { type: "string", example: "Forbidden: You can only book slots for your own applications." } } }
+        },
+        "404": {
+            description: "Application not found",
+            value: { type: "object", properties: { message: { type: "string", example: "Application not found" } } }
+        },
+        "409": {
+            description: "Application not in the interview stage, a slot already booked or being booked concurrently, or the slot is taken or no longer offered",
+            value: { type: "object", properties: { message: { type: "string", example: "Slot was just booked by someone else" } } }
+        },
+        "500": {
+            description: "Internal server error",
+            value: { type: "object", properties: { message: { type: "string", example: "Internal server error" }, error: { type: "string", example: "Unknown error" } } }
+        }
+    }
+})();
+
+router.post('/:id/book', roleMiddleware("APPLICANT"), identityMiddleware, async (req: Request, res: Response) => {
+    const { id } = req.params;
+    const userId = req.user?.userId;
+    const applicantId = req.user?.applicantId;
+    logger.info(`POST /${id}/book - ApplicantId: ${applicantId}, IP: ${req.ip}`);
+
+    if(!userId || !applicantId){
+        logger.warn(`Unauthorized access attempt - Missing applicantId. IP: ${req.ip}`);
+        return res.status(401).json({ message: "Unauthorized" })
+    }
+
+    const response = bookSlotBody.safeParse(req.body);
+    if(!response.success){
+        logger.warn(`Validation failed for slot booking on applicationId: ${id} - ${JSON.stringify(response.error)}`);
+        return res.status(400).json({ message: "Invalid input", errors: response.error })
+    }
+    const { slotId, timezone } = response.data;
+
+    if(timezone && !isValidTimeZone(timezone)){
+        logger.warn(`Unknown time zone for slot booking: ${timezone}`);
+        return res.status(400).json({ message: `Unknown time zone: ${timezone}` })
+    }
+
+    try {
+        const application = await prisma.application.findUnique({
+            where: { id },
+            select: { id: true, applicantId: true, status: true, stage: { select: { position: true } }, job: { select: { id: true, recruiterId: true } } }
+        })
+
+        if(!application){
+            logger.warn(`Application not found with applicationId: ${id}`);
+            return res.status(404).json({ message: "Application not found" })
+        }
+
+        if(application.applicantId !== applicantId){
+            logger.warn(`Forbidden: applicantId ${applicantId} tried to book a slot for applicationId ${id}`);
+            return res.status(403).json({ message: "Forbidden: You can only book slots for your own applications." })
+        }
+
+        if(!canBookSlots(application)){
+            logger.warn(`Slot booking rejected - applicationId: ${id} is ${application.status}, stage position ${application.stage?.position ?? 'none'}`);
+            return res.status(409).json({ message: "Slots can only be booked for applications in the interview stage" })
+        }
+
+        const slot = await prisma.availabilitySlot.findFirst({
+            where: { id: slotId, ...openSlotsWhere(application.job.recruiterId, application.job.id) }
+        })
+
+        if(!slot){
+            logger.warn(`Slot ${slotId} is not open for applicationId: ${id}`);
+            return res.status(409).json({ message: "Slot is no longer available" })
+        }
+
+        const round = await nextInterviewRound(id);
+        const now = new Date();
+        // Serializable so two bookings of different slots for the same
+        // application cannot both pass the one-upcoming-booking check.
+        const booking = await prisma.$transaction(async (tx) => {
+            const existingBooking = await tx.interview.findFirst({
+                where: {
+                    applicationId: id,
+                    slotId: { not: null },
+                    status: { in: [...ACTIVE_INTERVIEW_STATUSES] },
+                    startsAt: { gt: now }
+                },
+                select: { id: true }
+            })
+            if(existingBooking){
+                return { existingBooking };
+            }
+
+            const interview = await tx.interview.create({
+                data: {
+                    applicationId: id,
+                    slotId: slot.id,
+                    round,
+                    startsAt: slot.startsAt,
+                    endsAt: slot.endsAt,
+                    timezone: timezone ?? slot.timezone,
+                    mode: slot.mode,
+                    location: slot.location,
+                    meetingLink: slot.meetingLink,
+                    status: "CONFIRMED",
+                    confirmedAt: now,
+                    scheduledById: userId
+                },
+                include: interviewInclude
+            })
+            return { interview };
+        }, { isolationLevel: Prisma.TransactionIsolationLevel.Serializable })
+
+        if(!booking.interview){
+            logger.warn(`Slot booking rejected - applicationId: ${id} already holds interview ${booking.existingBooking.id}`);
+            return res.status(409).json({ message: "You already have a booked slot for this application. Cancel it to pick another." })
+        }
+        const { interview } = booking;
+
+        logger.info(`Slot ${slot.id} booked as interview ${interview.id} for applicationId: ${id}`);
+        await notifyInterviewBooked(interview);
+
+        return res.status(201).json({
+            message: "Slot booked successfully",
+            interview: toInterviewResponse(interview)
+        })
+    } catch(err) {
+        // The unique slotId on Interview settles two applicants racing for the same slot.
+        if(err instanceof Prisma.PrismaClientKnownRequestError && err.code === "P2002"){
+            logger.warn(`Slot ${slotId} was booked concurrently - applicationId: ${id}`);
+            return res.status(409).json({ message: "Slot was just booked by someone else" })
+        }
+        if(err instanceof Prisma.PrismaClientKnownRequestError && err.code === "P2034"){
+            logger.warn(`Booking for applicationId: ${id} conflicted with a concurrent booking`);
+            return res.status(409).json({ message: "Another booking for this application was made at the same time. Reload and try again." })
+        }
+        logger.error(`Error booking slot ${slotId} for applicationId: ${id} - ${err instanceof Error ? err.message : "Unknown error"} - IP: ${req.ip}`);
+        logger.debug(`Stack trace: ${err instanceof Error ? err.stack : "No stack trace"}`);
+        return res.status(500).json({
+            message: "Internal server error",
+            error: err instanceof Error ? err.message : "Unknown error"
+        })
+    }
+})
+
+export default router;
@@ -0,0 +1,583 @@
+import express, { Request, Response } from 'express';
+import roleMiddleware from '../../middleware/roleMiddleware';
+import authMiddleware from '../../middleware/authMiddleware';
+import identityMiddleware from '../../middleware/identityMiddleware';
+const router = express.Router();
+import zod from 'zod';
+import { InterviewMode, Prisma, PrismaClient } from '@prisma/client';
+import { Documentation, IRequestParameter, Methods, SchemaObject } from '../../docs/documentation';
+import logger from '../../utils/logger';
+import { buildPage, paginationParameters, paginationSchema, parsePagination } from '../../utils/pagination';
+import {
+    ACTIVE_INTERVIEW_STATUSES,
+    interviewInclude,
+    interviewSchema,
+    isInterviewParticipant,
+    notifyInterviewCancelled,
+    notifyInterviewConfirmed,
+    notifyInterviewRescheduled,
+    toInterviewResponse,
+    validateInterviewTimes
+} from '../../services/interviewService';
+import { buildInterviewCalendar } from '../../services/calendarService';
+const prisma = new PrismaClient();
+
+const interviewIdParameter: IRequestParameter[] = [
+    { in: "path", name: "id", required: true, schema: { type: "string", example: "interview-id-123" } }
+];
+
+class InterviewDetailResponse {
+    static schema: SchemaObject = {
+        type: "object",
+        properties: {
+            message: { type: "string", example: "Interview fetched successfully" },
+            interview: interviewSchema
+        }
+    }
+}
+
+class MyInterviewsResponse {
+    static schema: SchemaObject = {
+        type: "object",
+        properties: {
+            message: { type: "string", example: "Interviews fetched successfully" },
+            interviews: { type: "array", items: interviewSchema },
+            pagination: paginationSchema
+        }
+    }
+}
+
+Documentation.addSchema()(InterviewDetailResponse)
+Documentation.addSchema()(MyInterviewsResponse)
+
+async function findVisibleInterview(id: string, user: { applicantId?: string; recruiterId?: string }) {
+    const interview = await prisma.interview.findUnique({ where: { id }, include: interviewInclude });
+    return interview && isInterviewParticipant(interview, user) ? interview : null;
+}
+
+Documentation.addRoute({
+    path: "/interviews/me",
+    method: Methods.get,
+    tags: ["Interviews"],
+    summary: "List the logged-in user's interviews",
+    description: "Recruiters see interviews for their jobs, applicants see their own. Upcoming interviews that are still on are returned by default, soonest first. Only page pagination is supported.",
+    parameters: [
+        {
+            in: "query",
+            name: "includePast",
+            required: false,
+            schema: { type: "boolean", example: false },
+            description: "Also return interviews that have already started"
+        },
+        {
+            in: "query",
+            name: "includeCancelled",
+            required: false,
+            schema: { type: "boolean", example: false }
+        },
+        ...paginationParameters
+    ],
+    responses: {
+        "200": {
+            description: "Interviews fetched successfully",
+            value: MyInterviewsResponse.schema
+        },
+        "400": {
+            description: "Cursor pagination requested",
+            value: { type: "object", properties: { message: { type: "string", example: "Cursor pagination is not available for interviews; use page" } } }
+        },
+        "401": {
+            description: "Unauthorized",
+            value: { type: "object", properties: { message: { type: "string", example: "Unauthorized" } } }
+        },
+        "500": {
+            description: "Internal server error",
+            value: { type: "object", properties: { message: { type: "string", example: "Internal server error" }, error: { type: "string", example: "Unknown error" } } }
+        }
+    }
+})();
+
+router.get('/me', authMiddleware, identityMiddleware, async (req: Request, res: Response) => {
+    const { applicantId, recruiterId } = req.user ?? {};
+    logger.info(`GET /interviews/me - UserId: ${req.user?.userId}, IP: ${req.ip}`);
+
+    if (!applicantId && !recruiterId) {
+        logger.warn(`Unauthorized access attempt - Missing role profile. IP: ${req.ip}`);
+        return res.status(401).json({ message: "Unauthorized" });
+    }
+
+    const paginationResult = parsePagination(req.query);
+    if (!paginationResult.success) {
+        logger.warn(`Invalid pagination for /interviews/me - ${paginationResult.message}`);
+        return res.status(400).json({ message: paginationResult.message });
+    }
+    const pagination = paginationResult.data;
+    if (pagination.cursor) {
+        logger.warn(`Cursor pagination requested for /interviews/me - UserId: ${req.user?.userId}`);
+        return res.status(400).json({ message: "Cursor pagination is not available for interviews; use page" });
+    }
+
+    const where: Prisma.InterviewWhereInput = {
+        application: recruiterId ? { job: { recruiterId } } : { applicantId },
+        ...(req.query.includePast === 'true' ? {} : { startsAt: { gt: new Date() } }),
+        ...(req.query.includeCancelled === 'true' ? {} : { status: { in: [...ACTIVE_INTERVIEW_STATUSES] } })
+    };
+
+    try {
+        const [rows, total] = await Promise.all([
+            prisma.interview.findMany({
+                where,
+                orderBy: [{ startsAt: 'asc' }, { id: 'asc' }],
+                skip: pagination.skip,
+                take: pagination.limit + 1,
+                include: interviewInclude
+            }),
+            prisma.interview.count({ where })
+        ]);
+        const { items, pagination: pageInfo } = buildPage(rows, pagination, total);
+        pageInfo.nextCursor = null;
+        logger.info(`Fetched ${items.length} interviews for userId: ${req.user?.userId}`);
+
+        return res.status(200).json({
+            message: "Interviews fetched successfully",
+            interviews: items.map(toInterviewResponse),
+            pagination: pageInfo
+        });
+    } catch (err) {
+        logger.error(`Error fetching interviews for userId: ${req.user?.userId} - ${err instanceof Error ? err.message : "Unknown error"} - IP: ${req.ip}`);
+        logger.debug(`Stack trace: ${err instanceof Error ? err.stack : "No stack trace"}`);
+        return res.status(500).json({
+            message: "Internal server error",
+            error: err instanceof Error ? err.message : "Unknown error"
+        })
+    }
+})
+
+Documentation.addRoute({
+    path: "/interviews/:id",
+    method: Methods.get,
+    tags: ["Interviews"],
+    summary: "Get an interview",
+    parameters: interviewIdParameter,
+    responses: {
+        "200": {
+            description: "Interview fetched successfully",
+            value: InterviewDetailResponse.schema
+        },
+        "401": {
+            description: "Unauthorized",
+            value: { type: "object", properties: { message: { type: "string", example: "Unauthorized" } } }
+        },
+        "404": {
+            description: "Interview not found or not visible to the user",
+            value: { type: "object", properties: { message: { type: "string", example: "Interview not found" } } }
+        },
+        "500": {
+            description: "Internal server error",
+            value: { type: "object", properties: { message: { type: "string", example: "Internal server error" }, error: { type: "string", example: "Unknown error" } } }
+        }
+    }
+})();
+
+router.get('/:id', authMiddleware, identityMiddleware, async (req: Request, res: Response) => {
+    const { id } = req.params;
+    logger.info(`GET /interviews/${id} - UserId: ${req.user?.userId}, IP: ${req.ip}`);
+
+    try {
+        const interview = await findVisibleInterview(id, req.user ?? {});
+        if (!interview) {
+            logger.warn(`Interview ${id} not found or not visible to userId: ${req.user?.userId}`);
+            return res.status(404).json({ message: "Interview not found" });
+        }
+
+        return res.status(200).json({
+            message: "Interview fetched successfully",
+            interview: toInterviewResponse(interview)
+        });
+    } catch (err) {
+        logger.error(`Error fetching interview ${id} - ${err instanceof Error ? err.message : "Unknown error"} - IP: ${req.ip}`);
+        logger.debug(`Stack trace: ${err instanceof Error ? err.stack : "No stack trace"}`);
+        return res.status(500).json({
+            message: "Internal server error",
+            error: err instanceof Error ? err.message : "Unknown error"
+        })
+    }
+})
+
+Documentation.addRoute({
+    path: "/interviews/:id/ics",
+    method: Methods.get,
+    tags: ["Interviews"],
+    summary: "Download an interview as an iCalendar (.ics) file",
+    description: "Times are in UTC; the description also shows them in the interview's time zone. Cancelled interviews are exported with STATUS:CANCELLED so importing the file again removes them from the calendar.",
+    parameters: interviewIdParameter,
+    responses: {
+        "200": {
+            description: "text/calendar attachment",
+            value: { type: "string", format: "binary" }
+        },
+        "401": {
+            description: "Unauthorized",
+            value: { type: "object", properties: { message: { type: "string", example: "Unauthorized" } } }
+        },
+        "404": {
+            description: "Interview not found or not visible to the user",
+            value: { type: "object", properties: { message: { type: "string", example: "Interview not found" } } }
+        },
+        "500": {
+            description: "Internal server error",
+            value: { type: "object", properties: { message: { type: "string", example: "Internal server error" }, error: { type: "string", example: "Unknown error" } } }
+        }
+    }
+})();
+
+router.get('/:id/ics', authMiddleware, identityMiddleware, async (req: Request, res: Response) => {
+    const { id } = req.params;
+    logger.info(`GET /interviews/${id}/ics - UserId: ${req.user?.userId}, IP: ${req.ip}`);
+
+    try {
+        const interview = await findVisibleInterview(id, req.user ?? {});
+        if (!interview) {
+            logger.warn(`Interview ${id} not found or not visible to userId: ${req.user?.userId}`);
+            return res.status(404).json({ message: "Interview not found" });
+        }
+
+        res.setHeader('Content-Type', 'text/calendar; charset=utf-8');
+        res.setHeader('Content-Disposition', `attachment; filename="interview-${interview.id}.ics"`);
+        return res.status(200).send(buildInterviewCalendar(interview));
+    } catch (err) {
+        logger.error(`Error exporting interview ${id} - ${err instanceof Error ? err.message : "Unknown error"} - IP: ${req.ip}`);
+        logger.debug(`Stack trace: ${err instanceof Error ? err.stack : "No stack trace"}`);
+        return res.status(500).json({
+            message: "Internal server error",
+            error: err instanceof Error ? err.message : "Unknown error"
+        })
+    }
+})
+
+Documentation.addRoute({
+    path: "/interviews/:id/confirm",
+    method: Methods.post,
+    tags: ["Interviews"],
+    summary: "Confirm an interview as the applicant",
+    parameters: interviewIdParameter,
+    responses: {
+        "200": {
+            description: "Interview confirmed successfully",
+            value: InterviewDetailResponse.schema
+        },
+        "401": {
+            description: "Unauthorized",
+            value: { type: "object", properties: { message: { type: "string", example: "Unauthorized" } } }
+        },
+        "404": {
+            description: "Interview not found or not visible to the user",
+            value: { type: "object", properties: { message: { type: "string", example: "Interview not found" } } }
+        },
+        "409": {
+            description: "Interview is cancelled, already confirmed or already started",
+            value: { type: "object", properties: { message: { type: "string", example: "Interview has already been confirmed" } } }
+        },
+        "500": {
+            description: "Internal server error",
+            value: { type: "object", properties: { message: { type: "string", example: "Internal server error" }, error: { type: "string", example: "Unknown error" } } }
+        }
+    }
+})();
+
+router.post('/:id/confirm', roleMiddleware("APPLICANT"), identityMiddleware, async (req: Request, res: Response) => {
+    const { id } = req.params;
+    const applicantId = req.user?.applicantId;
+    logger.info(`POST /interviews/${id}/confirm - ApplicantId: ${applicantId}, IP: ${req.ip}`);
+
+    if (!applicantId) {
+        logger.warn(`Unauthorized access attempt - Missing applicantId. IP: ${req.ip}`);
+        return res.status(401).json({ message: "Unauthorized" });
+    }
+
+    try {
+        const interview = await findVisibleInterview(id, { applicantId });
+        if (!interview) {
+            logger.warn(`Interview ${id} not found for applicantId: ${applicantId}`);
+            return res.status(404).json({ message: "Interview not found" });
+        }
+
+        if (interview.status !== "SCHEDULED") {
+            logger.warn(`Confirmation rejected for interview ${id} - status is ${interview.status}`);
+            return res.status(409).json({ message: `Interview has already been ${interview.status.toLowerCase()}` });
+        }
+
+        if (interview.startsAt <= new Date()) {
+            logger.warn(`Confirmation rejected for interview ${id} - already started`);
+            return res.status(409).json({ message: "Interview has already started" });
+        }
+
+        const confirmed = await prisma.interview.update({
+            where: { id },
+            data: { status: "CONFIRMED", confirmedAt: new Date() },
+            include: interviewInclude
+        });
+
+        logger.info(`Interview ${id} confirmed by applicantId: ${applicantId}`);
+        await notifyInterviewConfirmed(confirmed);
+
+        return res.status(200).json({
+            message: "Interview confirmed successfully",
+            interview: toInterviewResponse(confirmed)
+        });
+    } catch (err) {
+        logger.error(`Error confirming interview ${id} - ${err instanceof Error ? err.message : "Unknown error"} - IP: ${req.ip}`);
+        logger.debug(`Stack trace: ${err instanceof Error ? err.stack : "No stack trace"}`);
+        return res.status(500).json({
+            message: "Internal server error",
+            error: err instanceof Error ? err.message : "Unknown error"
+        })
+    }
+})
+
+const rescheduleBody = zod.object({
+    startsAt: zod.iso.datetime({ offset: true }).transform(value => new Date(value)),
+    endsAt: zod.iso.datetime({ offset: true }).transform(value => new Date(value)),
+    timezone: zod.string().trim().min(1).optional(),
+    mode: zod.enum(InterviewMode).optional(),
+    location: zod.string().trim().min(1).max(500).nullable().optional(),
+    meetingLink: zod.url().nullable().optional()
+})
+
+class RescheduleInterviewRequest {
+    static schema: SchemaObject = {
+        type: "object",
+        required: ["startsAt", "endsAt"],
+        properties: {
+            startsAt: { type: "string", format: "date-time", example: "2026-10-22T15:30:00+05:30" },
+            endsAt: { type: "string", format: "date-time", example: "2026-10-22T16:30:00+05:30" },
+            timezone: { type: "string", example: "Asia/Kolkata", description: "Defaults to the interview's current time zone" },
+            mode: { type: "string", enum: Object.values(InterviewMode), example: "VIDEO" },
+            location: { type: "string", nullable: true, example: "4th floor, Acme HQ, Bangalore" },
+            meetingLink: { type: "string", nullable: true, example: "https://meet.example.com/abc-defg-hij" }
+        }
+    }
+}
+
+Documentation.addSchema()(RescheduleInterviewRequest)
+
+Documentation.addRoute({
+    path: "/interviews/:id/reschedule",
+    method: Methods.post,
+    tags: ["Interviews"],
+    summary: "Move an interview to a new time",
+    description: "Recruiter only. The interview goes back to SCHEDULED and the applicant is asked to confirm again.",
+    parameters: interviewIdParameter,
+    requestBody: RescheduleInterviewRequest.schema,
+    requestBodyDescription: "New time, and optionally a new mode or location",
+    responses: {
+        "200": {
+            description: "Interview rescheduled successfully",
+            value: InterviewDetailResponse.schema
+        },
+        "400": {
+            description: "Invalid input, unknown time zone, or a time in the past",
+            value: { type: "object", properties: { message: { type: "string", example: "Interviews must be scheduled in the future" } } }
+        },
+        "401": {
+            description: "Unauthorized",
+            value: { type: "object", properties: { message: { type: "string", example: "Unauthorized" } } }
+        },
+        "404": {
+            description: "Interview not found or not visible to the user",
+            value: { type: "object", properties: { message: { type: "string", example: "Interview not found" } } }
+        },
+        "409": {
+            description: "Interview is cancelled",
+            value: { type: "object", properties: { message: { type: "string", example: "Cancelled interviews cannot be rescheduled" } } }
+        },
+        "500": {
+            description: "Internal server error",
+            value: { type: "object", properties: { message: { type: "string", example: "Internal server error" }, error: { type: "string", example: "Unknown error" } } }
+        }
+    }
+})();
+
+router.post('/:id/reschedule', roleMiddleware("RECRUITER"), identityMiddleware, async (req: Request, res: Response) => {
+    const { id } = req.params;
+    const recruiterId = req.user?.recruiterId;
+    logger.info(`POST /interviews/${id}/reschedule - RecruiterId: ${recruiterId}, IP: ${req.ip}`);
+
+    if (!recruiterId) {
+        logger.warn(`Unauthorized access attempt - Missing recruiterId. IP: ${req.ip}`);
+        return res.status(401).json({ message: "Unauthorized" });
+    }
+
+    const response = rescheduleBody.safeParse(req.body);
+    if (!response.success) {
+        logger.warn(`Validation failed for rescheduling interview ${id} - ${JSON.stringify(response.error)}`);
+        return res.status(400).json({ message: "Invalid input", errors: response.error });
+    }
+    const changes = response.data;
+
+    try {
+        const interview = await findVisibleInterview(id, { recruiterId });
+        if (!interview) {
+            logger.warn(`Interview ${id} not found for recruiterId: ${recruiterId}`);
+            return res.status(404).json({ message: "Interview not found" });
+        }
+
+        if (interview.status === "CANCELLED") {
+            logger.warn(`Reschedule rejected for interview ${id} - cancelled`);
+            return res.status(409).json({ message: "Cancelled interviews cannot be rescheduled" });
+        }
+
+        const timezone = changes.timezone ?? interview.timezone;
+        const invalidTimes = validateInterviewTimes({ ...changes, timezone });
+        if (invalidTimes) {
+            logger.warn(`Invalid reschedule time for interview ${id} - ${invalidTimes}`);
+            return res.status(400).json({ message: invalidTimes });
+        }
+
+        const mode = changes.mode ?? interview.mode;
+        const location = changes.location === undefined ? interview.location : changes.location;
+        const meetingLink = changes.meetingLink === undefined ? interview.meetingLink : changes.meetingLink;
+        if ((mode === "ONSITE" && !location) || (mode === "VIDEO" && !meetingLink)) {
+            logger.warn(`Reschedule rejected for interview ${id} - ${mode} interview missing location or meeting link`);
+            return res.status(400).json({ message: mode === "ONSITE" ? "location is required for onsite interviews" : "meetingLink is required for video interviews" });
+        }
+
+        const rescheduled = await prisma.interview.update({
+            where: { id },
+            data: {
+                startsAt: changes.startsAt,
+                endsAt: changes.endsAt,
+                timezone,
+                mode,
+                location,
+                meetingLink,
+                status: "SCHEDULED",
+                confirmedAt: null,
+                // A new time no longer matches the booked slot, so it is freed up.
+                slotId: null
+            },
+            include: interviewInclude
+        });
+
+        logger.info(`Interview ${id} rescheduled from ${interview.startsAt.toISOString()} to ${rescheduled.startsAt.toISOString()}`);
+        await notifyInterviewRescheduled(rescheduled, interview.startsAt);
+
+        return res.status(200).json({
+            message: "Interview rescheduled successfully",
+            interview: toInterviewResponse(rescheduled)
+        });
+    } catch (err) {
+        logger.error(`Error rescheduling interview ${id} - ${err instanceof Error ? err.message : "Unknown error"} - IP: ${req.ip}`);
+        logger.debug(`Stack trace: ${err instanceof Error ? err.stack : "No stack trace"}`);
+        return res.status(500).json({
+            message: "Internal server error",
+            error: err instanceof Error ? err.message : "Unknown error"
+        })
+    }
+})
+
+const cancelBody = zod.object({
+    reason: zod.string().trim().min(1).max(1000).optional()
+})
+
+class CancelInterviewRequest {
+    static schema: SchemaObject = {
+        type: "object",
+        properties: {
+            reason: { type: "string", example: "The role has been put on hold" }
+        }
+    }
+}
+
+Documentation.addSchema()(CancelInterviewRequest)
+
+Documentation.addRoute({
+    path: "/interviews/:id/cancel",
+    method: Methods.post,
+    tags: ["Interviews"],
+    summary: "Cancel an interview",
+    description: "Either the recruiter or the applicant can cancel; the other side is notified. A booked availability slot is released.",
+    parameters: interviewIdParameter,
+    requestBody: CancelInterviewRequest.schema,
+    requestBodyDescription: "Optional reason shared with the other participant",
+    responses: {
+        "200": {
+            description: "Interview cancelled successfully",
+            value: InterviewDetailResponse.schema
+        },
+        "400": {
+            description: "Invalid input",
+            value: { type: "object", properties: { message: { type: "string", example: "Invalid input" } } }
+        },
+        "401": {
+            description: "Unauthorized",
+            value: { type: "object", properties: { message: { type: "string", example: "Unauthorized" } } }
+        },
+        "404": {
+            description: "Interview not found or not visible to the user",
+            value: { type: "object", properties: { message: { type: "string", example: "Interview not found" } } }
+        },
+        "409": {
+            description: "Interview is already cancelled or has already started",
+            value: { type: "object", properties: { message: { type: "string", example: "Interview has already been cancelled" } } }
+        },
+        "500": {
+            description: "Internal server error",
+            value: { type: "object", properties: { message: { type: "string", example: "Internal server error" }, error: { type: "string", example: "Unknown error" } } }
+        }
+    }
+})();
+
+router.post('/:id/cancel', authMiddleware, identityMiddleware, async (req: Request, res: Response) => {
+    const { id } = req.params;
+    const { applicantId, recruiterId } = req.user ?? {};
+    logger.info(`POST /interviews/${id}/cancel - UserId: ${req.user?.userId}, IP: ${req.ip}`);
+
+    const response = cancelBody.safeParse(req.body ?? {});
+    if (!response.success) {
+        logger.warn(`Validation failed for cancelling interview ${id} - ${JSON.stringify(req.body)}`);
+        return res.status(400).json({ message: "Invalid input" });
+    }
+    const { reason } = response.data;
+
+    try {
+        const interview = await findVisibleInterview(id, { applicantId, recruiterId });
+        if (!interview) {
+            logger.warn(`Interview ${id} not found or not visible to userId: ${req.user?.userId}`);
+            return res.status(404).json({ message: "Interview not found" });
+        }
+
+        if (interview.status === "CANCELLED") {
+            logger.warn(`Cancellation rejected for interview ${id} - already cancelled`);
+            return res.status(409).json({ message: "Interview has already been cancelled" });
+        }
+
+        if (interview.startsAt <= new Date()) {
+            logger.warn(`Cancellation rejected for interview ${id} - already started`);
+            return res.status(409).json({ message: "Interview has already started" });
+        }
+
+        const cancelled = await prisma.interview.update({
+            where: { id },
+            data: { status: "CANCELLED", cancelledAt: new Date(), cancellationReason: reason, slotId: null },
+            include: interviewInclude
+        });
+
+        logger.info(`Interview ${id} cancelled by userId: ${req.user?.userId}`);
+        await notifyInterviewCancelled(cancelled, recruiterId ? 'recruiter' : 'applicant');
+
+        return res.status(200).json({
+            message: "Interview cancelled successfully",
+            interview: toInterviewResponse(cancelled)
+        });
+    } catch (err) {
+        logger.error(`Error cancelling interview ${id} - ${err instanceof Error ? err.message : "Unknown error"} - IP: ${req.ip}`);
+        logger.debug(`Stack trace: ${err instanceof Error ? err.stack : "No stack trace"}`);
+        return res.status(500).json({
+            message: "Internal server error",
+            error: err instanceof Error ? err.message : "Unknown error"
+        })
+    }
+})
+
+export default router;
@@ -2,10 +2,20 @@ import { Request, Response, Router } from "express";
 const router = Router();
 import zod from 'zod';
 import roleMiddleware from "../../middleware/roleMiddleware";
-import { PrismaClient } from '@prisma/client';
+import optionalAuthMiddleware from "../../middleware/optionalAuthMiddleware";
+import identityMiddleware from "../../middleware/identityMiddleware";
+import { findLatestResume } from "../../services/resumeService";
+import { findJobSearchMatches, getJobSearchHighlights } from "../../services/jobSearchService";
+import { buildPage, pageArgs, paginationParameters, paginationSchema, parsePagination, SortOrder } from "../../utils/pagination";
+import { CompanyType, JobType, Prisma, PrismaClient } from '@prisma/client';
 import { DepartmentEnum, JobRolEnum } from "../../types/types";
 import { Documentation, Methods, SchemaObject } from "../../docs/documentation";
 import logger from "../../utils/logger";
+import { notifyJobInvitation, notifyNewApplication } from "../../services/applicationNotificationService";
+import { computeMatchScore, matchApplicantSelect, matchBreakdownSchema, matchJobSelect, MAX_MATCH_CANDIDATES } from "../../services/matchScoreService";
+import { getRecommendedCandidates, getRecommendedJobs, MIN_CANDIDATE_MATCH_SCORE } from "../../services/jobRecommendationService";
+import { findLinkedApplicantIds, redactContactInfo } from "../../services/seekerVisibilityService";
+import { findEntryStage } from "../../services/pipelineService";
 const prisma = new PrismaClient();
 
 // ─────────────────────────────
@@ -186,8 +196,8 @@ Documentation.addRoute({
     }
 })();
 
-router.post('', roleMiddleware("RECRUITER"), async (req: Request, res: Response) => {
-    const recruiterId = req.user?.userId;
+router.post('', roleMiddleware("RECRUITER"), identityMiddleware, async (req: Request, res: Response) => {
+    const recruiterId = req.user?.recruiterId;
     logger.info(`POST / - Creating job - RecruiterId: ${recruiterId}, IP: ${req.ip}`);
 
     if (!recruiterId) {
@@ -294,7 +304,8 @@ class GetMyJobsResponse {
                     }
                 }
             }
-        }
+        },
+        pagination: paginationSchema
     }
   };
 }
@@ -306,11 +317,21 @@ Documentation.addRoute({
     method: Methods.get,
     tags: ["Jobs - Recruiter"],
     summary: "Get jobs posted by the current recruiter",
+    parameters: paginationParameters,
     responses: {
         "200": {
             description: "Jobs fetched successfully",
             value: GetMyJobsResponse.schema
         },
+        "400": {
+            description: "Invalid cursor",
+            value: {
+                type: "object",
+                properties: {
+                    message: { type: "string", example: "Invalid cursor" }
+                }
+            }
+        },
         "401": {
             description: "Unauthorized access",
             value: {
@@ -333,8 +354,8 @@ Documentation.addRoute({
     }
 })();
 
-router.get('/me', roleMiddleware("RECRUITER") , async (req: Request, res: Response) => {
-    const recruiterId = req.user?.userId;
+router.get('/me', roleMiddleware("RECRUITER"), identityMiddleware, async (req: Request, res: Response) => {
+    const recruiterId = req.user?.recruiterId;
     logger.info(`GET /me - Fetching jobs for recruiterId: ${recruiterId}, IP: ${req.ip}`);
 
     if (!recruiterId) {
@@ -342,13 +363,19 @@ router.get('/me', roleMiddleware("RECRUITER") , async (req: Request, res: Respon
       return res.status(401).json({ message: 'Unauthorized' });
     }
 
+    const paginationResult = parsePagination(req.query);
+    if (!paginationResult.success) {
+      logger.warn(`Invalid pagination for /me - ${paginationResult.message}, RecruiterId: ${recruiterId}`);
+      return res.status(400).json({ message: paginationResult.message });
+    }
+    const pagination = paginationResult.data;
+
     try {
-      logger.debug(`DB Query - Fetching jobs for recruiterId: ${recruiterId}`);
-      const jobs = await prisma.job.findMany({
-          where: {
-              recruiterId: recruiterId
-          },
-          orderBy: { createdAt: 'desc' },
+      logger.debug(`DB Query - Fetching jobs for recruiterId: ${recruiterId} (mode: ${pagination.mode}, limit: ${pagination.limit})`);
+      const where = { recruiterId };
+      const [rows, total] = await Promise.all([
+        prisma.job.findMany({
+          ...pageArgs(where, pagination),
           include: {
               company: true,
               recruiter: true,
@@ -358,13 +385,17 @@ router.get('/me', roleMiddleware("RECRUITER") , async (req: Request, res: Respon
                   }
               }
           }
-      })
+        }),
+        pagination.mode === 'page' ? prisma.job.count({ where }) : null
+      ]);
+      const { items: jobs, pagination: pageInfo } = buildPage(rows, pagination, total);
 
-      logger.info(`Jobs fetched successfully - Total: ${jobs.length}, RecruiterId: ${recruiterId}`);
+      logger.info(`Jobs fetched successfully - Count: ${jobs.length}, RecruiterId: ${recruiterId}`);
 
       return res.status(200).json({
         message: "Jobs by recruiter fetched successfully",
-        jobs
+        jobs,
+        pagination: pageInfo
       });
     } catch(err) {
       logger.error(`Error fetching jobs for recruiterId: ${recruiterId}, IP: ${req.ip}, Message: ${err instanceof Error ? err.message : 'Unknown error'}`);
@@ -540,8 +571,8 @@ Documentation.addRoute({
     }
 })();
 
-router.patch('/:jobId', roleMiddleware("RECRUITER"), async (req: Request, res: Response) => {
-  const recruiterId = req.user?.userId;
+router.patch('/:jobId', roleMiddleware("RECRUITER"), identityMiddleware, async (req: Request, res: Response) => {
+  const recruiterId = req.user?.recruiterId;
   const { jobId } = req.params;
 
   logger.info(`PATCH /${jobId} - Update job request by recruiterId: ${recruiterId}, IP: ${req.ip}`);
@@ -679,8 +710,8 @@ Documentation.addRoute({
   },
 })();
 
-router.delete('/:jobId', roleMiddleware("RECRUITER"), async (req: Request, res: Response) => {
-    const recruiterId = req.user?.userId;
+router.delete('/:jobId', roleMiddleware("RECRUITER"), identityMiddleware, async (req: Request, res: Response) => {
+    const recruiterId = req.user?.recruiterId;
     const { jobId } = req.params;
 
     logger.info(`DELETE /${jobId} - Delete job request by recruiterId: ${recruiterId}, IP: ${req.ip}`);
@@ -759,13 +790,15 @@ class JobDashboardResponse {
       },
       stats: {
         type: "object",
+        description: "Application counts by status, excluding withdrawn applications",
         example: {
-          APPLIED: 10,
-          INTERVIEWING: 5,
+          PENDING: 10,
+          REVIEWED: 5,
           REJECTED: 2,
-          HIRED: 1,
+          ACCEPTED: 1,
         },
       },
+      withdrawnCount: { type: "integer", example: 3 },
       applications: {
         type: "array",
         items: {
@@ -790,17 +823,9 @@ class JobDashboardResponse {
           },
         },
       },
-      pagination: {
-        type: "object",
-        properties: {
-          page: { type: "number", example: 1 },
-          limit: { type: "number", example: 10 },
-          total: { type: "number", example: 50 },
-          totalPages: { type: "number", example: 5 },
-        },
-      },
+      pagination: paginationSchema,
     },
-    required: ["message", "job", "stats", "applications", "pagination"],
+    required: ["message", "job", "stats", "withdrawnCount", "applications", "pagination"],
   };
 }
 
@@ -817,26 +842,22 @@ Documentation.addRoute({
       schema: { type: "string", format: "uuid" },
       description: "ID of the job",
     },
-    {
-      name: "page",
-      in: "query",
-      required: false,
-      schema: { type: "integer"},
-      description: "Page number for applications pagination",
-    },
-    {
-      name: "limit",
-      in: "query",
-      required: false,
-      schema: { type: "integer"},
-      description: "Number of applications per page",
-    },
+    ...paginationParameters,
   ],
   responses: {
     "200": {
       description: "Job dashboard fetched successfully",
       value: JobDashboardResponse.schema,
     },
+    "400": {
+      description: "Invalid cursor",
+      value: {
+        type: "object",
+        properties: {
+          message: { type: "string", example: "Invalid cursor" },
+        },
+      },
+    },
     "401": {
       description: "Unauthorized",
       value: {
@@ -871,8 +892,8 @@ Documentation.addRoute({
   },
 })();
 
-router.get('/:jobId/dashboard', roleMiddleware("RECRUITER"), async (req: Request, res: Response) => {
-  const recruiterId = req.user?.userId;
+router.get('/:jobId/dashboard', roleMiddleware("RECRUITER"), identityMiddleware, async (req: Request, res: Response) => {
+  const recruiterId = req.user?.recruiterId;
   const { jobId } = req.params;
   logger.info(`GET /${jobId}/dashboard - Fetch job dashboard request by recruiterId: ${recruiterId}, IP: ${req.ip}`);
   if(!recruiterId){
@@ -880,9 +901,12 @@ router.get('/:jobId/dashboard', roleMiddleware("RECRUITER"), async (req: Request
     return res.status(401).json({ message: "Unauthorized" })
   }
 
-  const page = parseInt(req.query.page as string) || 1;
-  const limit = parseInt(req.query.limit as string) || 10;
-  const skip = (page - 1) * limit;
+  const paginationResult = parsePagination(req.query);
+  if (!paginationResult.success) {
+    logger.warn(`Invalid pagination for jobId: ${jobId} - ${paginationResult.message}, RecruiterId: ${recruiterId}`);
+    return res.status(400).json({ message: paginationResult.message });
+  }
+  const pagination = paginationResult.data;
   try {
     logger.debug(`DB Query - Fetch job with id: ${jobId}`);
     const job = await prisma.job.findUnique({
@@ -916,17 +940,19 @@ router.get('/:jobId/dashboard', roleMiddleware("RECRUITER"), async (req: Request
       }
     });
 
+    // Withdrawn applications are reported on their own so they don't inflate the pipeline.
     const stats = applicationStats.reduce((acc, stat) => {
-      acc[stat.status] = stat._count.status;
+      if (stat.status !== "WITHDRAWN") {
+        acc[stat.status] = stat._count.status;
+      }
       return acc;
     }, {} as Record<string, number>);
+    const withdrawnCount = applicationStats.find(stat => stat.status === "WITHDRAWN")?._count.status ?? 0;
+    const activeWhere = { jobId, status: { not: "WITHDRAWN" as const } };
 
     logger.debug(`DB Query - Fetch paginated applications for jobId: ${jobId}`);
-    const applications = await prisma.application.findMany({
-      where: { jobId },
-      orderBy: { createdAt: 'desc' },
-      skip,
-      take: limit,
+    const rows = await prisma.application.findMany({
+      ...pageArgs(activeWhere, pagination),
       include: {
           applicant: {
               select: {
@@ -942,7 +968,8 @@ router.get('/:jobId/dashboard', roleMiddleware("RECRUITER"), async (req: Request
           }
       }
     });
-    const totalApplications = await prisma.application.count({ where: { jobId } });
+    const totalApplications = pagination.mode === 'page' ? await prisma.application.count({ where: activeWhere }) : null;
+    const { items: applications, pagination: pageInfo } = buildPage(rows, pagination, totalApplications);
 
     logger.info(`Job dashboard fetched successfully for jobId: ${jobId} by recruiterId: ${recruiterId}`);
 
@@ -950,13 +977,9 @@ router.get('/:jobId/dashboard', roleMiddleware("RECRUITER"), async (req: Request
         message: "Job dashboard fetched successfully",
         job,
         stats,
+        withdrawnCount,
         applications,
-        pagination: {
-            page,
-            limit,
-            total: totalApplications,
-            totalPages: Math.ceil(totalApplications / limit),
-        }
+        pagination: pageInfo
     });
   } catch(err) {
     logger.error(`Error fetching job dashboard for jobId: ${jobId} by recruiterId: ${recruiterId} - ${err instanceof Error ? err.message : "Unknown error"} - IP: ${req.ip}`);
@@ -1015,20 +1038,15 @@ class JobApplicationsResponse {
                 },
               },
             },
+            matchScore: { type: "integer", example: 82, description: "0-100 match between the applicant's profile and the job" },
+            matchBreakdown: matchBreakdownSchema,
           },
         },
       },
-      pagination: {
-        type: "object",
-        properties: {
-          page: { type: "number", example: 1 },
-          limit: { type: "number", example: 10 },
-          total: { type: "number", example: 50 },
-          totalPages: { type: "number", example: 5 },
-        },
-      },
+      withdrawnCount: { type: "integer", example: 3, description: "Withdrawn applications for the job, whether or not they are included" },
+      pagination: paginationSchema,
     },
-    required: ["message", "job", "applications", "pagination"],
+    required: ["message", "job", "applications", "withdrawnCount", "pagination"],
   };
 }
 
@@ -1046,25 +1064,35 @@ Documentation.addRoute({
       description: "ID of the job",
     },
     {
-      name: "page",
+      name: "sortBy",
       in: "query",
       required: false,
-      schema: { type: "integer"},
-      description: "Page number for pagination",
+      schema: { type: "string", enum: ["createdAt", "matchScore"], example: "matchScore" },
+      description: `createdAt (newest first, default) or matchScore (best match first). Cursor pagination is only available for createdAt. With matchScore only the ${MAX_MATCH_CANDIDATES} newest applications are scored.`,
     },
     {
-      name: "limit",
+      name: "includeWithdrawn",
       in: "query",
       required: false,
-      schema: { type: "integer"},
-      description: "Number of applications per page",
+      schema: { type: "boolean", example: false },
+      description: "Include withdrawn applications (excluded by default)",
     },
+    ...paginationParameters,
   ],
   responses: {
     "200": {
       description: "Job applications fetched successfully",
       value: JobApplicationsResponse.schema,
     },
+    "400": {
+      description: "Invalid cursor, or cursor used with sortBy=matchScore",
+      value: {
+        type: "object",
+        properties: {
+          message: { type: "string", example: "Invalid cursor" },
+        },
+      },
+    },
     "401": {
       description: "Unauthorized",
       value: {
@@ -1100,18 +1128,29 @@ Documentation.addRoute({
 })();
 
 
-router.get('/:jobId/applications', roleMiddleware("RECRUITER"), async (req: Request, res: Response) => {
+router.get('/:jobId/applications', roleMiddleware("RECRUITER"), identityMiddleware, async (req: Request, res: Response) => {
   const { jobId } = req.params;
-  const recruiterId = req.user?.userId;
+  const recruiterId = req.user?.recruiterId;
   logger.info(`GET /${jobId}/applications - Fetch job applications request by recruiterId: ${recruiterId}, IP: ${req.ip}`);
   if(!recruiterId){
     logger.warn(`Unauthorized access attempt to job applications for jobId: ${jobId} - Missing recruiterId. IP: ${req.ip}`);
     return res.status(401).json({ message: "Unauthorized" })
   }
 
-  const page = parseInt(req.query.page as string) || 1;
-  const limit = parseInt(req.query.limit as string) || 10;
-  const skip = (page - 1) * limit;
+  const paginationResult = parsePagination(req.query);
+  if (!paginationResult.success) {
+    logger.warn(`Invalid pagination for jobId: ${jobId} - ${paginationResult.message}, RecruiterId: ${recruiterId}`);
+    return res.status(400).json({ message: paginationResult.message });
+  }
+  const pagination = paginationResult.data;
+
+  const sortByMatch = req.query.sortBy === 'matchScore';
+  const includeWithdrawn = req.query.includeWithdrawn === 'true';
+  const applicationWhere = includeWithdrawn ? { jobId } : { jobId, status: { not: "WITHDRAWN" as const } };
+  if (sortByMatch && pagination.cursor) {
+    logger.warn(`Cursor pagination requested with sortBy=matchScore for jobId: ${jobId}, RecruiterId: ${recruiterId}`);
+    return res.status(400).json({ message: "Cursor pagination is not available when sorting by matchScore; use page" });
+  }
 
   try {
     logger.debug(`DB Query - Fetch job with id: ${jobId}`);
@@ -1124,6 +1163,7 @@ router.get('/:jobId/applications', roleMiddleware("RECRUITER"), async (req: Requ
             createdAt: true,
             company: true,
             recruiterId: true,
+            ...matchJobSelect,
         }
     });
 
@@ -1137,40 +1177,75 @@ router.get('/:jobId/applications', roleMiddleware("RECRUITER"), async (req: Requ
       return res.status(403).json({ message: "Forbidden: You can only view your own jobs." });
     }
 
-    logger.debug(`DB Query - Fetch paginated applications for jobId: ${jobId}`);
-    const applications = await prisma.application.findMany({
-        where: { jobId },
-        orderBy: { createdAt: 'desc' },
-        skip,
-        take: limit,
-        include: {
-            applicant: {
-                select: {
-                    id: true,
-                    user: {
-                        select: {
-                            name: true,
-                            email: true
-                        }
-                    },
-                    resumeUrl: true,
-                }
+    const applicationInclude = {
+        applicant: {
+            select: {
+                id: true,
+                user: {
+                    select: {
+                        name: true,
+                        email: true
+                    }
+                },
+                resumeUrl: true,
+                ...matchApplicantSelect,
             }
         }
+    };
+
+    let rows;
+    let totalApplications: number | null;
+    if (sortByMatch) {
+        // Scores are computed in memory, so only the newest applications are
+        // scored, using just the profile fields the score needs; the full rows
+        // are loaded for the requested page afterwards.
+        logger.debug(`DB Query - Fetch up to ${MAX_MATCH_CANDIDATES} applications for jobId: ${jobId} to sort by match score`);
+        const candidates = await prisma.application.findMany({
+            where: applicationWhere,
+            orderBy: [{ createdAt: 'desc' }, { id: 'desc' }],
+            take: MAX_MATCH_CANDIDATES,
+            select: { id: true, applicant: { select: matchApplicantSelect } }
+        });
+        const scores = new Map(candidates.map(application => [application.id, computeMatchScore(application.applicant, job).matchScore]));
+        const sortedIds = candidates.map(application => application.id).sort((a, b) => scores.get(b)! - scores.get(a)!);
+        const pageIds = sortedIds.slice(pagination.skip, pagination.skip + pagination.limit + 1);
+        const pageApplications = await prisma.application.findMany({
+            where: { id: { in: pageIds } },
+            include: applicationInclude
+        });
+        rows = pageIds.flatMap(id => pageApplications.filter(application => application.id === id));
+        totalApplications = sortedIds.length;
+    } else {
+        logger.debug(`DB Query - Fetch paginated applications for jobId: ${jobId}`);
+        rows = await prisma.application.findMany({
+            ...pageArgs(applicationWhere, pagination),
+            include: applicationInclude
+        });
+        totalApplications = pagination.mode === 'page' ? await prisma.application.count({ where: applicationWhere }) : null;
+    }
+    const page = buildPage(rows, pagination, totalApplications);
+    if (sortByMatch) {
+        page.pagination.nextCursor = null;
+    }
+
+    const applications = page.items.map(({ applicant: { id, user, resumeUrl, ...profile }, ...application }) => {
+        const { matchScore, breakdown } = computeMatchScore(profile, job);
+        return {
+            ...application,
+            applicant: { id, user, resumeUrl },
+            matchScore,
+            matchBreakdown: breakdown
+        };
     });
-    const totalApplications = await prisma.application.count({ where: { jobId } });
+    const withdrawnCount = await prisma.application.count({ where: { jobId, status: "WITHDRAWN" } });
     logger.info(`Job applications fetched successfully for jobId: ${jobId} by recruiterId: ${recruiterId}`);
 
     return res.status(200).json({
         message: "Job applications fetched successfully",
         job,
         applications,
-        pagination: {
-            page,
-            limit,
-            total: totalApplications,
-            totalPages: Math.ceil(totalApplications / limit),
-        }
+        withdrawnCount,
+        pagination: page.pagination
     });
   } catch(err) {
     logger.error(`Error fetching applications for jobId: ${jobId} by recruiterId: ${recruiterId} - ${err instanceof Error ? err.message : "Unknown error"} - IP: ${req.ip}`);
@@ -1182,6 +1257,301 @@ router.get('/:jobId/applications', roleMiddleware("RECRUITER"), async (req: Requ
   }
 })
 
+class RecommendedCandidatesResponse {
+  static schema: SchemaObject = {
+    type: "object",
+    properties: {
+      message: { type: "string", example: "Recommended candidates fetched successfully" },
+      candidates: {
+        type: "array",
+        items: {
+          type: "object",
+          properties: {
+            id: { type: "string", example: "applicant-id-uuid" },
+            bio: { type: "string", nullable: true, example: "Frontend engineer who loves design systems" },
+            location: { type: "string", nullable: true, example: "Bangalore, India" },
+            yearsOfExperience: { type: "integer", nullable: true, example: 3 },
+            skills: { type: "array", items: { type: "string" }, example: ["React", "TypeScript"] },
+            preferredLocations: { type: "array", items: { type: "string" }, example: ["Bangalore"] },
+            preferredRole: { type: "string", nullable: true, example: "FULL_TIME" },
+            availability: { type: "string", nullable: true, example: "TWO_WEEKS" },
+            isProfileComplete: { type: "boolean", example: true },
+            user: {
+              type: "object",
+              description: "email and phoneNumber are only included if the applicant has applied to one of your jobs",
+              properties: {
+                name: { type: "string", example: "Jane Doe" },
+                profilePicture: { type: "string", example: "https://example.com/pic.png" },
+                email: { type: "string", example: "jane@example.com" },
+                phoneNumber: { type: "string", nullable: true, example: "+911234567890" }
+              }
+            },
+            invitedAt: { type: "string", format: "date-time", nullable: true, description: "When this applicant was invited to apply for the job, if ever" },
+            matchScore: { type: "integer", example: 78 },
+            matchBreakdown: matchBreakdownSchema
+          }
+        }
+      },
+      pagination: paginationSchema
+    },
+    required: ["message", "candidates", "pagination"]
+  }
+}
+
+Documentation.addSchema()(RecommendedCandidatesResponse);
+
+Documentation.addRoute({
+  path: "/jobs/:jobId/recommended-candidates",
+  method: Methods.get,
+  tags: ["Jobs - Recruiter"],
+  summary: "Applicants who have not applied but match the job",
+  description: `Ranks applicants by match score against the job's skills, experience band, location and notice period. Only applicants sharing at least one skill with the job and scoring at least ${MIN_CANDIDATE_MATCH_SCORE} are returned. Contact details are redacted as on GET /seekers/:id. Only page pagination is supported.`,
+  parameters: [
+    { name: "jobId", in: "path", required: true, schema: { type: "string", format: "uuid" }, description: "ID of the job" },
+    { name: "page", in: "query", required: false, schema: { type: "integer", example: 1 } },
+    { name: "limit", in: "query", required: false, schema: { type: "integer", example: 10 }, description: "At most 100" }
+  ],
+  responses: {
+    "200": {
+      description: "Recommended candidates fetched successfully",
+      value: RecommendedCandidatesResponse.schema
+    },
+    "400": {
+      description: "Cursor pagination requested",
+      value: { type: "object", properties: { message: { type: "string", example: "Recommended candidates only support page pagination" } } }
+    },
+    "401": {
+      description: "Unauthorized",
+      value: { type: "object", properties: { message: { type: "string", example: "Unauthorized" } } }
+    },
+    "403": {
+      description: "Forbidden",
+      value: { type: "object", properties: { message: { type: "string", example: "Forbidden: You can only view your own jobs." } } }
+    },
+    "404": {
+      description: "Job not found",
+      value: { type: "object", properties: { message: { type: "string", example: "Job not found" } } }
+    },
+    "500": {
+      description: "Internal server error",
+      value: { type: "object", properties: { message: { type: "string", example: "Internal server error" }, error: { type: "string", example: "Unknown error" } } }
+    }
+  }
+})();
+
+router.get('/:jobId/recommended-candidates', roleMiddleware("RECRUITER"), identityMiddleware, async (req: Request, res: Response) => {
+  const { jobId } = req.params;
+  const recruiterId = req.user?.recruiterId;
+  logger.info(`GET /${jobId}/recommended-candidates - Fetch recommended candidates by recruiterId: ${recruiterId}, IP: ${req.ip}`);
+  if (!recruiterId) {
+    logger.warn(`Unauthorized access attempt to recommended candidates for jobId: ${jobId} - Missing recruiterId. IP: ${req.ip}`);
+    return res.status(401).json({ message: "Unauthorized" })
+  }
+
+  const paginationResult = parsePagination(req.query);
+  if (!paginationResult.success || paginationResult.data.cursor) {
+    logger.warn(`Cursor pagination requested for recommended candidates - jobId: ${jobId}, RecruiterId: ${recruiterId}`);
+    return res.status(400).json({ message: "Recommended candidates only support page pagination" });
+  }
+  const pagination = paginationResult.data;
+
+  try {
+    logger.debug(`DB Query - Fetch job with id: ${jobId}`);
+    const job = await prisma.job.findUnique({
+        where: { id: jobId },
+        select: { id: true, recruiterId: true }
+    });
+
+    if (!job) {
+      logger.warn(`Job not found with id: ${jobId} for recruiterId: ${recruiterId}`);
+      return res.status(404).json({ message: "Job not found" });
+    }
+
+    if (job.recruiterId !== recruiterId) {
+      logger.warn(`Forbidden recommended candidates access attempt on jobId: ${jobId} by recruiterId: ${recruiterId}`);
+      return res.status(403).json({ message: "Forbidden: You can only view your own jobs." });
+    }
+
+    logger.debug(`Ranking recommended candidates for jobId: ${jobId}, page: ${pagination.page}, limit: ${pagination.limit}`);
+    const { rows, total } = await getRecommendedCandidates(jobId, pagination);
+    const linkedApplicantIds = await findLinkedApplicantIds(recruiterId, rows.map(row => row.id));
+    const { items, pagination: pageInfo } = buildPage(rows, pagination, total);
+    pageInfo.nextCursor = null;
+
+    const candidates = items.map(({ user, ...candidate }) => ({
+      ...candidate,
+      user: redactContactInfo(user, linkedApplicantIds.has(candidate.id))
+    }));
+
+    logger.info(`Recommended candidates fetched successfully for jobId: ${jobId}. Count: ${candidates.length} / Total: ${total}`);
+    return res.status(200).json({
+        message: "Recommended candidates fetched successfully",
+        candidates,
+        pagination: pageInfo
+    });
+  } catch(err) {
+    logger.error(`Error fetching recommended candidates for jobId: ${jobId} by recruiterId: ${recruiterId} - ${err instanceof Error ? err.message : "Unknown error"} - IP: ${req.ip}`);
+    logger.debug(`Stack trace: ${err instanceof Error ? err.stack : "No stack trace"}`);
+    return res.status(500).json({
+      message: "Internal server error",
+      error: err instanceof Error ? err.message : "Unknown error"
+    })
+  }
+})
+
+const jobInvitationBody = zod.object({
+    applicantId: zod.uuid(),
+    message: zod.string().trim().min(1).max(1000).optional()
+})
+
+Documentation.addRoute({
+  path: "/jobs/:jobId/invitations",
+  method: Methods.post,
+  tags: ["Jobs - Recruiter"],
+  summary: "Invite an applicant to apply for a job",
+  description: "Sends the applicant an in-app notification. Each applicant can be invited to a job once.",
+  parameters: [
+    { name: "jobId", in: "path", required: true, schema: { type: "string", format: "uuid" }, description: "ID of the job" }
+  ],
+  requestBody: {
+    type: "object",
+    required: ["applicantId"],
+    properties: {
+      applicantId: { type: "string", format: "uuid", example: "applicant-id-uuid" },
+      message: { type: "string", example: "Your React work looks like a great fit for our team." }
+    }
+  },
+  requestBodyDescription: "Applicant to invite and an optional note",
+  responses: {
+    "201": {
+      description: "Invitation sent successfully",
+      value: {
+        type: "object",
+        properties: {
+          message: { type: "string", example: "Invitation sent successfully" },
+          invitation: {
+            type: "object",
+            properties: {
+              id: { type: "string", example: "invitation-id-uuid" },
+              jobId: { type: "string", example: "job-id-uuid" },
+              applicantId: { type: "string", example: "applicant-id-uuid" },
+              message: { type: "string", nullable: true },
+              createdAt: { type: "string", format: "date-time" }
+            }
+          }
+        }
+      }
+    },
+    "400": {
+      description: "Validation error",
+      value: { type: "object", properties: { message: { type: "string", example: "Invalid input" } } }
+    },
+    "401": {
+      description: "Unauthorized",
+      value: { type: "object", properties: { message: { type: "string", example: "Unauthorized" } } }
+    },
+    "403": {
+      description: "Forbidden",
+      value: { type: "object", properties: { message: { type: "string", example: "Forbidden: You can only invite applicants to your own jobs." } } }
+    },
+    "404": {
+      description: "Job or applicant not found",
+      value: { type: "object", properties: { message: { type: "string", example: "Applicant not found" } } }
+    },
+    "409": {
+      description: "Applicant already applied or was already invited",
+      value: { type: "object", properties: { message: { type: "string", example: "Applicant has already been invited to this job" } } }
+    },
+    "500": {
+      description: "Internal server error",
+      value: { type: "object", properties: { message: { type: "string", example: "Internal server error" }, error: { type: "string", example: "Unknown error" } } }
+    }
+  }
+})();
+
+router.post('/:jobId/invitations', roleMiddleware("RECRUITER"), identityMiddleware, async (req: Request, res: Response) => {
+  const { jobId } = req.params;
+  const recruiterId = req.user?.recruiterId;
+  logger.info(`POST /${jobId}/invitations - Invite applicant request by recruiterId: ${recruiterId}, IP: ${req.ip}`);
+  if (!recruiterId) {
+    logger.warn(`Unauthorized invitation attempt for jobId: ${jobId} - Missing recruiterId. IP: ${req.ip}`);
+    return res.status(401).json({ message: "Unauthorized" })
+  }
+
+  const response = jobInvitationBody.safeParse(req.body);
+  if (!response.success) {
+    logger.warn(`Validation failed for job invitation - jobId: ${jobId}, RecruiterId: ${recruiterId}, Errors: ${JSON.stringify(response.error)}`);
+    return res.status(400).json({
+      message: "Invalid input",
+      errors: response.error
+    });
+  }
+  const { applicantId, message } = response.data;
+
+  try {
+    const job = await prisma.job.findUnique({
+        where: { id: jobId },
+        select: { id: true, recruiterId: true }
+    });
+
+    if (!job) {
+      logger.warn(`Job not found with id: ${jobId} for recruiterId: ${recruiterId}`);
+      return res.status(404).json({ message: "Job not found" });
+    }
+
+    if (job.recruiterId !== recruiterId) {
+      logger.warn(`Forbidden invitation attempt on jobId: ${jobId} by recruiterId: ${recruiterId}`);
+      return res.status(403).json({ message: "Forbidden: You can only invite applicants to your own jobs." });
+    }
+
+    const [applicant, application, existingInvitation] = await Promise.all([
+      prisma.applicant.findUnique({ where: { id: applicantId }, select: { id: true } }),
+      prisma.application.findFirst({ where: { jobId, applicantId }, select: { id: true } }),
+      prisma.jobInvitation.findUnique({ where: { jobId_applicantId: { jobId, applicantId } }, select: { id: true } }),
+    ]);
+
+    if (!applicant) {
+      logger.warn(`Applicant not found for invitation - applicantId: ${applicantId}, jobId: ${jobId}`);
+      return res.status(404).json({ message: "Applicant not found" });
+    }
+
+    if (application) {
+      logger.warn(`Invitation rejected - applicantId: ${applicantId} already applied to jobId: ${jobId}`);
+      return res.status(409).json({ message: "Applicant has already applied to this job" });
+    }
+
+    if (existingInvitation) {
+      logger.warn(`Invitation rejected - applicantId: ${applicantId} already invited to jobId: ${jobId}`);
+      return res.status(409).json({ message: "Applicant has already been invited to this job" });
+    }
+
+    logger.debug(`DB Insert - Creating invitation for applicantId: ${applicantId} to jobId: ${jobId}`);
+    const invitation = await prisma.jobInvitation.create({
+        data: { jobId, applicantId, message }
+    });
+
+    await notifyJobInvitation(invitation.id);
+
+    logger.info(`Invitation sent successfully - invitationId: ${invitation.id}, jobId: ${jobId}, recruiterId: ${recruiterId}`);
+    return res.status(201).json({
+        message: "Invitation sent successfully",
+        invitation
+    });
+  } catch(err) {
+    // The unique (jobId, applicantId) settles two invitations sent at the same time.
+    if (err instanceof Prisma.PrismaClientKnownRequestError && err.code === "P2002") {
+      logger.warn(`Invitation rejected - applicant was invited to jobId: ${jobId} concurrently`);
+      return res.status(409).json({ message: "Applicant has already been invited to this job" });
+    }
+    logger.error(`Error inviting applicant to jobId: ${jobId} by recruiterId: ${recruiterId} - ${err instanceof Error ? err.message : "Unknown error"} - IP: ${req.ip}`);
+    logger.debug(`Stack trace: ${err instanceof Error ? err.stack : "No stack trace"}`);
+    return res.status(500).json({
+      message: "Internal server error",
+      error: err instanceof Error ? err.message : "Unknown error"
+    })
+  }
+})
+
 // ─────────────────────────────
 //     APPLICANT JOB ROUTES
 // ─────────────────────────────
@@ -1191,10 +1561,7 @@ class JobListResponse {
   static schema: SchemaObject = {
     type: "object",
     properties: {
-      page: { type: "number", example: 1 },
-      count: { type: "number", example: 25 },
-      totalJobs: { type: "number", example: 123 },
-      totalPages: { type: "number", example: 5 },
+      message: { type: "string", example: "Jobs fetched successfully" },
       jobs: {
         type: "array",
         items: {
@@ -1237,12 +1604,30 @@ class JobListResponse {
                   }
                 }
               }
+            },
+            matchScore: { type: "integer", example: 76, description: "Only present when sortBy=matchScore. 0-100 match with the applicant's profile." },
+            search: {
+              type: "object",
+              description: "Only present when q is given. Highlights are HTML-escaped with matched terms wrapped in <mark>.",
+              properties: {
+                rank: { type: "number", example: 0.42 },
+                highlights: {
+                  type: "object",
+                  properties: {
+                    title: { type: "string", example: "Senior <mark>React</mark> Developer" },
+                    description: { type: "string", example: "Build <mark>fintech</mark> dashboards with <mark>React</mark> … fully <mark>remote</mark> team" },
+                    company: { type: "string", example: "ABC Corp" },
+                    skills: { type: "array", items: { type: "string" }, example: ["React"] }
+                  }
+                }
+              }
             }
           }
         }
-      }
+      },
+      pagination: paginationSchema
     },
-    required: ["page", "count", "totalJobs", "totalPages", "jobs"],
+    required: ["message", "jobs", "pagination"],
   }
 }
 
@@ -1252,19 +1637,20 @@ Documentation.addRoute({
   tags: ["Jobs - Applicant"],
   summary: "Fetch paginated list of jobs with filters",
   parameters: [
-    { name: "page", in: "query", required: false, schema: { type: "string", example: "1" }, description: "Page number" },
-    { name: "limit", in: "query", required: false, schema: { type: "string", example: "25" }, description: "Number of jobs per page" },
+    ...paginationParameters,
     { name: "roles", in: "query", required: false, schema: { type: "string" }, description: "Comma-separated roles to filter" },
     { name: "skills", in: "query", required: false, schema: { type: "string" }, description: "Comma-separated skills to filter" },
     { name: "jobType", in: "query", required: false, schema: { type: "string" }, description: "Comma-separated job types to filter" },
     { name: "location", in: "query", required: false, schema: { type: "string" }, description: "Comma-separated locations to filter" },
-    { name: "workMode", in: "query", required: false, schema: { type: "string" }, description: "Comma-separated work modes to filter" },
+    { name: "workMode", in: "query", required: false, schema: { type: "string" }, description: "Comma-separated work modes (ONSITE, REMOTE, HYBRID) to filter" },
     { name: "department", in: "query", required: false, schema: { type: "string" }, description: "Comma-separated departments to filter" },
-    { name: "salaryMin", in: "query", required: false, schema: { type: "string" }, description: "Minimum salary filter" },
-    { name: "salaryMax", in: "query", required: false, schema: { type: "string" }, description: "Maximum salary filter" },
-    { name: "companyType", in: "query", required: false, schema: { type: "string" }, description: "Comma-separated company types" },
+    { name: "salaryMin", in: "query", required: false, schema: { type: "string" }, description: "Only jobs whose maxCTC is at least this" },
+    { name: "salaryMax", in: "query", required: false, schema: { type: "string" }, description: "Only jobs whose minCTC is at most this" },
+    { name: "companyType", in: "query", required: false, schema: { type: "string" }, description: "Comma-separated company types, e.g. EARLY_STAGE_STARTUP,MNC" },
     { name: "postedDate", in: "query", required: false, schema: { type: "string", enum: ["oldest", "newest"] }, description: "Sort by oldest or newest" },
+    { name: "sortBy", in: "query", required: false, schema: { type: "string", enum: ["matchScore"] }, description: `Applicants only. Sort by match with the applicant's profile (page mode only). Only the ${MAX_MATCH_CANDIDATES} newest jobs matching the filters are scored.` },
     { name: "company", in: "query", required: false, schema: { type: "string" }, description: "Filter by company name" },
+    { name: "q", in: "query", required: false, schema: { type: "string", example: "react remote fintech" }, description: "Free-text search over title, description, skills, location and company name. Results are ordered by relevance unless postedDate is given." },
     { name: "minExperience", in: "query", required: false, schema: { type: "string" }, description: "Minimum experience in years" },
     { name: "maxExperience", in: "query", required: false, schema: { type: "string" }, description: "Maximum experience in years" }
   ],
@@ -1273,6 +1659,15 @@ Documentation.addRoute({
       description: "Paginated list of jobs fetched successfully",
       value: JobListResponse.schema,
     },
+    "400": {
+      description: "Search query too long, invalid cursor, cursor used with relevance or match ordering, or sortBy=matchScore without an applicant login",
+      value: {
+        type: "object",
+        properties: {
+          message: { type: "string", example: "Search query must be at most 200 characters" }
+        }
+      }
+    },
     "500": {
       description: "Internal server error",
       value: {
@@ -1286,10 +1681,8 @@ Documentation.addRoute({
   }
 })()
 
-router.get('/', async (req: Request, res: Response) => {
+router.get('/', optionalAuthMiddleware, async (req: Request, res: Response) => {
     const { 
-        page = '1', 
-        limit = '25', 
         roles,
         skills,
         jobType,
@@ -1300,36 +1693,80 @@ router.get('/', async (req: Request, res: Response) => {
         salaryMax,
         companyType, 
         postedDate,
-        company 
+        company,
+        q,
+        sortBy
     } = req.query;
 
-    const pageNumber = Math.max(parseInt(page as string, 10), 1)
-    const limitNumber = Math.min(Math.max(parseInt(limit as string, 10), 1), 100)
-    const skip = (pageNumber - 1) * limitNumber;
-
     const userId = req.user?.userId;
 
+    // Accepts "Remote" or "early-stage-startup" for REMOTE / EARLY_STAGE_STARTUP.
+    // Unknown values are dropped so they match nothing instead of failing the query.
+    function toEnumValues<T extends string>(values: string[], enumObject: Record<string, T>): T[] {
+      const known = Object.values(enumObject);
+      return values
+        .map(value => value.toUpperCase().replace(/[\s-]+/g, '_'))
+        .filter((value): value is T => (known as string[]).includes(value));
+    }
+
     function parseToArray(param: any): string[] | undefined {
       if(!param) return undefined;
 
       if (Array.isArray(param)) return param.map(String).map(s => s.trim()).filter(Boolean);
       return String(param).split(',').map(s => s.trim()).filter(Boolean);
     }
-    logger.info(`GET / - Fetch jobs request. UserId: ${userId || 'Guest'}, IP: ${req.ip}, Page: ${pageNumber}, Limit: ${limitNumber}`);
+    const paginationResult = parsePagination(req.query, { defaultLimit: 25 });
+    if (!paginationResult.success) {
+        logger.warn(`Invalid pagination for jobs list - ${paginationResult.message}. IP: ${req.ip}`);
+        return res.status(400).json({ message: paginationResult.message });
+    }
+    const pagination = paginationResult.data;
+    logger.info(`GET / - Fetch jobs request. UserId: ${userId || 'Guest'}, IP: ${req.ip}, Mode: ${pagination.mode}, Page: ${pagination.page}, Limit: ${pagination.limit}`);
 
-    try {
-        const whereClause: any = {};
+    const searchText = typeof q === 'string' ? q.trim() : '';
+    if (searchText.length > 200) {
+        logger.warn(`Search query too long (${searchText.length} chars). IP: ${req.ip}`);
+        return res.status(400).json({ message: "Search query must be at most 200 characters" });
+    }
 
-        if (userId) {
-            whereClause.NOT = [
-                {
-                    applications: {
-                        some: { userId }
+    const sortByMatch = sortBy === 'matchScore';
+    if (sortByMatch && (!userId || req.user?.role !== "APPLICANT")) {
+        logger.warn(`sortBy=matchScore requested without an applicant login. UserId: ${userId || 'Guest'}, IP: ${req.ip}`);
+        return res.status(400).json({ message: "Sorting by matchScore requires an applicant login" });
+    }
+    if (sortByMatch && pagination.cursor) {
+        logger.warn(`Cursor pagination requested with sortBy=matchScore. IP: ${req.ip}`);
+        return res.status(400).json({ message: "Cursor pagination is not available when sorting by matchScore; use page" });
+    }
+
+    const orderByRelevance = !!searchText && !postedDate && !sortByMatch;
+    if (orderByRelevance && pagination.cursor) {
+        logger.warn(`Cursor pagination requested for relevance-ordered search. IP: ${req.ip}`);
+        return res.status(400).json({ message: "Cursor pagination is not available for relevance-ordered search; pass postedDate or use page" });
+    }
+
+    try {
+        const whereClause: any = {};
+
+        let searchRanks: Map<string, number> | undefined;
+        if (searchText) {
+            logger.debug(`DB Query - Full-text search for q: "${searchText}"`);
+            const matches = await findJobSearchMatches(searchText);
+            searchRanks = new Map(matches.map(match => [match.id, match.rank]));
+            whereClause.id = { in: [...searchRanks.keys()] };
+            logger.debug(`Full-text search matched ${matches.length} jobs`);
+        }
+
+        if (userId && req.user?.role === "APPLICANT") {
+            whereClause.NOT = [
+                {
+                    applications: {
+                        some: { applicant: { userId } }
                     }
                 },
                 {
-                    hiddenBy: {
-                        some: { userId }
+                    hiddenJobs: {
+                        some: { applicant: { userId } }
                     }
                 }
             ];
@@ -1390,22 +1827,23 @@ router.get('/', async (req: Request, res: Response) => {
         }
 
         const locationArray = parseToArray(location);
-        whereClause.OR = whereClause.OR || [];
         if (locationArray && locationArray.length) {
-            whereClause.OR.push(...locationArray.map(loc => ({
+            whereClause.OR = locationArray.map(loc => ({
                 location: {
                     contains: loc,
                     mode: 'insensitive',
                 }
-            })));
+            }));
             logger.debug(`Filtering location: ${locationArray.join(', ')}`);
         }
 
         const workModeArray = parseToArray(workMode);
         if (workModeArray && workModeArray.length) {
-            whereClause.workMode = {
-                in: workModeArray,
-            };
+            // Work mode is stored as Job.jobType (ONSITE/REMOTE/HYBRID)
+            whereClause.AND = whereClause.AND || [];
+            whereClause.AND.push({
+                jobType: { in: toEnumValues(workModeArray, JobType) },
+            });
             logger.debug(`Filtering workMode: ${workModeArray.join(', ')}`);
         }
 
@@ -1417,87 +1855,731 @@ router.get('/', async (req: Request, res: Response) => {
             logger.debug(`Filtering department: ${departmentArray.join(', ')}`);
         }
 
-        if (salaryMin || salaryMax) {
-            whereClause.AND = whereClause.AND || [];
-            if (salaryMin) {
-                const minSalary = parseInt(salaryMin as string, 10);
-                if (!isNaN(minSalary)) {
-                  whereClause.AND.push({
-                      salaryMax: {
-                      gte: minSalary,
-                      },
-                  });
-                  logger.debug(`Filtering salaryMin: ${minSalary}`);
-                }
-            }
-            if (salaryMax) {
-                const maxSalary = parseInt(salaryMax as string, 10);
-                if (!isNaN(maxSalary)) {
-                  whereClause.AND.push({
-                      salaryMin: {
-                      lte: maxSalary,
-                      },
-                  });
-                  logger.debug(`Filtering salaryMax: ${maxSalary}`);
-                }
-            }
-        }
+        if (salaryMin || salaryMax) {
+            whereClause.AND = whereClause.AND || [];
+            if (salaryMin) {
+                const minSalary = parseInt(salaryMin as string, 10);
+                if (!isNaN(minSalary)) {
+                  whereClause.AND.push({
+                      maxCTC: {
+                      gte: minSalary,
+                      },
+                  });
+                  logger.debug(`Filtering salaryMin: ${minSalary}`);
+                }
+            }
+            if (salaryMax) {
+                const maxSalary = parseInt(salaryMax as string, 10);
+                if (!isNaN(maxSalary)) {
+                  whereClause.AND.push({
+                      minCTC: {
+                      lte: maxSalary,
+                      },
+                  });
+                  logger.debug(`Filtering salaryMax: ${maxSalary}`);
+                }
+            }
+        }
+
+        const companyTypeArray = parseToArray(companyType);
+        if (companyTypeArray && companyTypeArray.length) {
+            whereClause.company = {
+                ...whereClause.company,
+                companyType: { in: toEnumValues(companyTypeArray, CompanyType) },
+            };
+            logger.debug(`Filtering companyType: ${companyTypeArray.join(', ')}`);
+        }
+
+        let order: SortOrder = 'desc';
+        if (postedDate && typeof postedDate === 'string' && postedDate.toLowerCase() === 'oldest') {
+            order = 'asc';
+            logger.debug(`Ordering by oldest posted date`);
+        } else {
+            logger.debug(`Ordering by newest posted date`);
+        }
+
+        const jobInclude = {
+            company: true,
+            recruiter: {
+                select: {
+                    id: true,
+                    user: {
+                        select: {
+                            name: true
+                        }
+                    },
+                    positionTitle: true
+                }
+            }
+        };
+
+        logger.debug(`DB Query - Fetch jobs with filters`);
+
+        let page;
+        let matchScores: Map<string, number> | undefined;
+        if (sortByMatch) {
+            logger.debug(`DB Query - Fetch applicant profile for match sorting, userId: ${userId}`);
+            const applicant = await prisma.applicant.findUnique({
+                where: { userId },
+                select: matchApplicantSelect
+            });
+            if (!applicant) {
+                logger.warn(`Applicant profile not found for match sorting, userId: ${userId}`);
+                return res.status(404).json({ message: "Applicant profile not found" });
+            }
+
+            const candidates = await prisma.job.findMany({
+                where: whereClause,
+                orderBy: [{ createdAt: 'desc' }, { id: 'desc' }],
+                take: MAX_MATCH_CANDIDATES,
+                select: { id: true, ...matchJobSelect }
+            });
+            const scores = new Map(candidates.map(job => [job.id, computeMatchScore(applicant, job).matchScore]));
+            const sortedIds = candidates.map(job => job.id).sort((a, b) => scores.get(b)! - scores.get(a)!);
+            const pageIds = sortedIds.slice(pagination.skip, pagination.skip + pagination.limit + 1);
+            const pageJobs = await prisma.job.findMany({
+                where: { id: { in: pageIds } },
+                include: jobInclude
+            });
+            page = buildPage(pageIds.flatMap(id => pageJobs.filter(job => job.id === id)), pagination, sortedIds.length);
+            page.pagination.nextCursor = null;
+            matchScores = scores;
+            logger.debug(`Ordering by match score over ${candidates.length} jobs`);
+        } else if (searchRanks && orderByRelevance) {
+            // Relevance order comes from the search ranks, so filter first and
+            // paginate the ranked ids before loading the page of jobs.
+            const ranks = searchRanks;
+            const matchingIds = (await prisma.job.findMany({ where: whereClause, select: { id: true } }))
+                .map(job => job.id)
+                .sort((a, b) => ranks.get(b)! - ranks.get(a)!);
+            const pageIds = matchingIds.slice(pagination.skip, pagination.skip + pagination.limit + 1);
+            const pageJobs = await prisma.job.findMany({
+                where: { id: { in: pageIds } },
+                include: jobInclude
+            });
+            page = buildPage(pageIds.flatMap(id => pageJobs.filter(job => job.id === id)), pagination, matchingIds.length);
+            page.pagination.nextCursor = null;
+            logger.debug(`Ordering by search relevance`);
+        } else {
+            const [rows, totalJobs] = await Promise.all([
+                prisma.job.findMany({
+                    ...pageArgs(whereClause, pagination, order),
+                    include: jobInclude
+                }),
+                pagination.mode === 'page' ? prisma.job.count({ where: whereClause }) : null,
+            ]);
+            page = buildPage(rows, pagination, totalJobs);
+        }
+        const jobs = page.items;
+
+        let results: object[] = jobs;
+        if (searchRanks) {
+            logger.debug(`DB Query - Fetch search highlights for ${jobs.length} jobs`);
+            const highlights = await getJobSearchHighlights(searchText, jobs.map(job => job.id));
+            results = jobs.map(job => {
+                const { id, ...highlight } = highlights.find(h => h.id === job.id) ?? {};
+                return {
+                    ...job,
+                    search: {
+                        rank: searchRanks.get(job.id) ?? 0,
+                        highlights: highlight
+                    }
+                };
+            });
+        }
+        if (matchScores) {
+            const scores = matchScores;
+            results = results.map((job, index) => ({ ...job, matchScore: scores.get(jobs[index].id) ?? 0 }));
+        }
+        logger.info(`Jobs fetched successfully. Count: ${jobs.length} / Total: ${page.pagination.total ?? 'n/a'}`);
+
+        return res.status(200).json({
+            message: "Jobs fetched successfully",
+            jobs: results,
+            pagination: page.pagination
+        });
+    } catch(err) {
+        logger.error(`Error fetching jobs - ${err instanceof Error ? err.message : "Unknown error"} - IP: ${req.ip}`);
+        logger.debug(`Stack trace: ${err instanceof Error ? err.stack : "No stack trace"}`);
+        return res.status(500).json({
+            message: "Error fetching jobs",
+            error: err instanceof Error ? err.message : "Unknown error"
+        })
+    }
+})
+
+
+// ------ Recommended ------
+
+class RecommendedJobsResponse {
+  static schema: SchemaObject = {
+    type: "object",
+    properties: {
+      message: { type: "string", example: "Recommended jobs fetched successfully" },
+      jobs: {
+        type: "array",
+        items: {
+          type: "object",
+          properties: {
+            ...JobListResponse.schema.properties!.jobs.items!.properties,
+            recommendation: {
+              type: "object",
+              properties: {
+                score: { type: "integer", example: 81, description: "0-100 ranking score" },
+                matchScore: { type: "integer", example: 74, description: "0-100 profile match, as on GET /jobs/:jobId" },
+                reasons: {
+                  type: "array",
+                  items: {
+                    type: "object",
+                    properties: {
+                      code: { type: "string", enum: ["SKILLS_MATCH", "PREFERRED_LOCATION", "REMOTE", "EXPERIENCE_FIT", "PREFERRED_ROLE", "SALARY_FIT", "SIMILAR_TO_SAVED", "SIMILAR_TO_APPLIED", "FAMILIAR_COMPANY"], example: "SKILLS_MATCH" },
+                      message: { type: "string", example: "Matches 4 of your skills" }
+                    }
+                  }
+                }
+              }
+            }
+          }
+        }
+      },
+      pagination: paginationSchema
+    },
+    required: ["message", "jobs", "pagination"]
+  }
+}
+
+Documentation.addSchema()(RecommendedJobsResponse);
+
+Documentation.addRoute({
+  path: "/jobs/recommended",
+  method: Methods.get,
+  tags: ["Jobs - Applicant"],
+  summary: "Personalized job recommendations for the logged-in applicant",
+  description: `Ranks open jobs by how well they match the applicant's profile, adjusted by their saved, applied and hidden jobs. Jobs already applied to or hidden are excluded. Only the ${MAX_MATCH_CANDIDATES} newest open jobs are considered, and only page pagination is supported.`,
+  parameters: [
+    { name: "page", in: "query", required: false, schema: { type: "integer", example: 1 } },
+    { name: "limit", in: "query", required: false, schema: { type: "integer", example: 25 }, description: "At most 100" }
+  ],
+  responses: {
+    "200": {
+      description: "Recommended jobs fetched successfully",
+      value: RecommendedJobsResponse.schema
+    },
+    "400": {
+      description: "Cursor pagination requested",
+      value: { type: "object", properties: { message: { type: "string", example: "Recommended jobs only support page pagination" } } }
+    },
+    "401": {
+      description: "Unauthorized",
+      value: { type: "object", properties: { message: { type: "string", example: "Unauthorized" } } }
+    },
+    "404": {
+      description: "Applicant profile not found",
+      value: { type: "object", properties: { message: { type: "string", example: "Applicant profile not found" } } }
+    },
+    "500": {
+      description: "Internal server error",
+      value: { type: "object", properties: { message: { type: "string", example: "Internal server error" }, error: { type: "string", example: "Unknown error" } } }
+    }
+  }
+})();
+
+router.get('/recommended', roleMiddleware("APPLICANT"), identityMiddleware, async (req: Request, res: Response) => {
+    const userId = req.user?.userId;
+    const applicantId = req.user?.applicantId;
+    logger.info(`GET /recommended - Fetch recommended jobs for userId: ${userId}, IP: ${req.ip}`);
+
+    if (!userId || !applicantId) {
+        logger.warn(`Unauthorized access attempt to recommended jobs - Missing userId. IP: ${req.ip}`);
+        return res.status(401).json({ message: "Unauthorized" });
+    }
+
+    const paginationResult = parsePagination(req.query, { defaultLimit: 25 });
+    if (!paginationResult.success || paginationResult.data.cursor) {
+        logger.warn(`Cursor pagination requested for recommended jobs - userId: ${userId}`);
+        return res.status(400).json({ message: "Recommended jobs only support page pagination" });
+    }
+    const pagination = paginationResult.data;
+
+    try {
+        logger.debug(`Ranking recommended jobs for applicantId: ${applicantId}, page: ${pagination.page}, limit: ${pagination.limit}`);
+        const { rows, total } = await getRecommendedJobs(applicantId, pagination);
+        const { items: jobs, pagination: pageInfo } = buildPage(rows, pagination, total);
+        pageInfo.nextCursor = null;
+
+        logger.info(`Recommended jobs fetched successfully for applicantId: ${applicantId}. Count: ${jobs.length} / Total: ${total}`);
+        return res.status(200).json({
+            message: "Recommended jobs fetched successfully",
+            jobs,
+            pagination: pageInfo
+        });
+    } catch (err) {
+        logger.error(`Error fetching recommended jobs for userId: ${userId} - ${err instanceof Error ? err.message : "Unknown error"} - IP: ${req.ip}`);
+        logger.debug(`Stack trace: ${err instanceof Error ? err.stack : "No stack trace"}`);
+        return res.status(500).json({
+            message: "Internal server error",
+            error: err instanceof Error ? err.message : "Unknown error"
+        });
+    }
+})
+
+
+// ------ Hidden ------
+
+class HiddenJobResponse {
+  static schema: SchemaObject = {
+    type: "object",
+    properties: {
+      message: { type: "string", example: "Job hidden successfully" },
+      job: {
+        type: "object",
+        properties: {
+          id: { type: "string", format: "uuid", example: "hidden-job-id-uuid" },
+          jobId: { type: "string", format: "uuid", example: "job-id-uuid" },
+          applicantId: { type: "string", format: "uuid", example: "applicant-id-uuid" },
+          createdAt: { type: "string", format: "date-time", example: "2025-09-28T12:34:56Z" },
+        },
+        required: ["id", "jobId", "applicantId", "createdAt"],
+      },
+    },
+    required: ["message", "job"],
+  };
+}
+
+Documentation.addSchema()(HiddenJobResponse);
+
+Documentation.addRoute({
+  path: "/jobs/hidden",
+  method: Methods.get,
+  tags: ["Hidden"],
+  summary: "Fetch hidden jobs for the logged-in applicant",
+  parameters: [
+    ...paginationParameters,
+    { name: "order", in: "query", required: false, schema: { type: "string", enum: ["asc", "desc"] }, description: "Order of hidden jobs by the time they were hidden" },
+  ],
+  responses: {
+    "200": {
+      description: "Hidden jobs fetched successfully",
+      value: {
+        type: "object",
+        properties: {
+          message: { type: "string", example: "Hidden jobs fetched successfully" },
+          data: {
+            type: "array",
+            items: {
+              type: "object",
+              properties: {
+                id: { type: "string", format: "uuid", example: "hidden-job-id-uuid" },
+                createdAt: { type: "string", format: "date-time", example: "2025-09-28T12:34:56Z" },
+                job: {
+                  type: "object",
+                  properties: {
+                    id: { type: "string", format: "uuid", example: "job-id-uuid" },
+                    title: { type: "string", example: "Backend Developer" },
+                    company: {
+                      type: "object",
+                      properties: {
+                        name: { type: "string", example: "ABC Corp" },
+                        logoUrl: { type: "string", example: "https://abc.com/logo.png" },
+                      },
+                    },
+                  },
+                },
+              },
+            },
+          },
+          pagination: paginationSchema,
+        },
+      },
+    },
+    "400": {
+      description: "Invalid cursor",
+      value: { type: "object", properties: { message: { type: "string", example: "Invalid cursor" } } },
+    },
+    "401": {
+      description: "Unauthorized",
+      value: { type: "object", properties: { message: { type: "string", example: "Unauthorized" } } },
+    },
+    "404": {
+      description: "Applicant profile not found",
+      value: { type: "object", properties: { message: { type: "string", example: "Applicant profile not found" } } },
+    },
+    "500": {
+      description: "Internal server error",
+      value: { type: "object", properties: { message: { type: "string", example: "Internal server error" }, error: { type: "string", example: "Unknown error" } } },
+    },
+  },
+})();
+
+router.get('/hidden', roleMiddleware("APPLICANT"), identityMiddleware, async (req: Request, res: Response) => {
+    const userId = req.user?.userId;
+    const applicantId = req.user?.applicantId;
+    logger.info(`GET /hidden - Fetch hidden jobs request by userId: ${userId}, IP: ${req.ip}`);
+
+    if (!userId || !applicantId) {
+        logger.warn(`Unauthorized hidden jobs access attempt. IP: ${req.ip}`);
+        return res.status(401).json({ message: "Unauthorized" });
+    }
+
+    const paginationResult = parsePagination(req.query);
+    if (!paginationResult.success) {
+        logger.warn(`Invalid pagination for hidden jobs - ${paginationResult.message}, userId: ${userId}`);
+        return res.status(400).json({ message: paginationResult.message });
+    }
+    const pagination = paginationResult.data;
+    const order = (req.query.order as string)?.toLowerCase() === 'asc' ? 'asc' : 'desc';
+
+    try {
+        logger.debug(`DB Query - Fetch hidden jobs for applicantId: ${applicantId} with pagination (mode: ${pagination.mode}, page: ${pagination.page}, limit: ${pagination.limit}, order: ${order})`);
+        const [rows, totalCount] = await Promise.all([
+            prisma.hiddenJob.findMany({
+                ...pageArgs({ applicantId }, pagination, order),
+                include: {
+                    job: {
+                        include: {
+                            company: {
+                                select: {
+                                    name: true,
+                                    logoUrl: true
+                                }
+                            }
+                        }
+                    }
+                }
+            }),
+            pagination.mode === 'page' ? prisma.hiddenJob.count({ where: { applicantId } }) : null
+        ]);
+        const { items: hiddenJobs, pagination: pageInfo } = buildPage(rows, pagination, totalCount);
+
+        logger.info(`Hidden jobs fetched successfully for applicantId: ${applicantId} (count: ${hiddenJobs.length})`);
+        return res.status(200).json({
+            message: "Hidden jobs fetched successfully",
+            data: hiddenJobs,
+            pagination: pageInfo
+        })
+    } catch(err) {
+        logger.error(`Error fetching hidden jobs for userId=${userId} - ${err instanceof Error ? err.message : "Unknown error"} - IP: ${req.ip}`);
+        logger.debug(`Stack trace: ${err instanceof Error ? err.stack : "No stack trace"}`);
+        return res.status(500).json({
+            message: "Internal server error",
+            error: err instanceof Error ? err.message : "Unknown error"
+        })
+    }
+})
+
+Documentation.addRoute({
+  path: "/jobs/:jobId/hide",
+  method: Methods.post,
+  tags: ["Hidden"],
+  summary: "Hide a job from the applicant's job listing",
+  parameters: [
+    { name: "jobId", in: "path", required: true, schema: { type: "string", format: "uuid" }, description: "ID of the job to hide" },
+  ],
+  responses: {
+    "201": {
+      description: "Job hidden successfully",
+      value: HiddenJobResponse.schema,
+    },
+    "401": {
+      description: "Unauthorized",
+      value: { type: "object", properties: { message: { type: "string", example: "Unauthorized" } } },
+    },
+    "404": {
+      description: "Job or applicant profile not found",
+      value: { type: "object", properties: { message: { type: "string", example: "Job not found" } } },
+    },
+    "409": {
+      description: "Job already hidden",
+      value: { type: "object", properties: { message: { type: "string", example: "You have already hidden this job." } } },
+    },
+    "500": {
+      description: "Internal server error",
+      value: { type: "object", properties: { message: { type: "string", example: "Internal server error" }, error: { type: "string", example: "Unknown error" } } },
+    },
+  },
+})();
+
+router.post('/:jobId/hide', roleMiddleware("APPLICANT"), identityMiddleware, async (req: Request, res: Response) => {
+    const userId = req.user?.userId;
+    const applicantId = req.user?.applicantId;
+    const { jobId } = req.params;
+    logger.info(`POST /${jobId}/hide - Hide job attempt by userId: ${userId}, IP: ${req.ip}`);
+
+    if (!userId || !applicantId) {
+        logger.warn(`Unauthorized job hide attempt for jobId: ${jobId} - Missing userId. IP: ${req.ip}`);
+        return res.status(401).json({ message: "Unauthorized" });
+    }
+
+    try {
+        logger.debug(`DB Query - Fetch job with id: ${jobId}`);
+        const job = await prisma.job.findUnique({
+            where: { id: jobId }
+        })
+
+        if (!job) {
+            logger.warn(`Job not found with id: ${jobId} (ApplicantId: ${applicantId})`);
+            return res.status(404).json({ message: "Job not found" })
+        }
+
+        logger.debug(`DB Query - Check if job is already hidden [jobId=${jobId}, applicantId=${applicantId}]`);
+        const alreadyHidden = await prisma.hiddenJob.findUnique({
+            where: {
+                applicantId_jobId: {
+                    applicantId,
+                    jobId
+                }
+            }
+        })
+
+        if (alreadyHidden) {
+            logger.info(`Duplicate hide attempt for jobId: ${jobId} by applicantId: ${applicantId}`);
+            return res.status(409).json({ message: "You have already hidden this job." });
+        }
+
+        logger.debug(`DB Insert - Hiding job for applicantId: ${applicantId}, jobId: ${jobId}`);
+        const hiddenJob = await prisma.hiddenJob.create({
+            data: {
+                jobId,
+                applicantId: applicantId
+            }
+        })
+        logger.info(`Job hidden successfully [jobId=${jobId}] by applicantId: ${applicantId}`);
+
+        return res.status(201).json({
+            message: "Job hidden successfully",
+            job: hiddenJob
+        })
+    } catch(err) {
+        logger.error(`Error hiding job [jobId=${jobId}, userId=${userId}] - ${err instanceof Error ? err.message : "Unknown error"} - IP: ${req.ip}`);
+        logger.debug(`Stack trace: ${err instanceof Error ? err.stack : "No stack trace"}`);
+        return res.status(500).json({
+            message: "Internal server error",
+            error: err instanceof Error ? err.message : "Unknown error"
+        })
+    }
+})
+
+Documentation.addRoute({
+  path: "/jobs/:jobId/hide",
+  method: Methods.delete,
+  tags: ["Hidden"],
+  summary: "Unhide a previously hidden job",
+  parameters: [
+    { name: "jobId", in: "path", required: true, schema: { type: "string", format: "uuid" }, description: "ID of the job to unhide" },
+  ],
+  responses: {
+    "200": {
+      description: "Job unhidden successfully",
+      value: HiddenJobResponse.schema,
+    },
+    "401": {
+      description: "Unauthorized",
+      value: { type: "object", properties: { message: { type: "string", example: "Unauthorized" } } },
+    },
+    "404": {
+      description: "Hidden job or applicant profile not found",
+      value: { type: "object", properties: { message: { type: "string", example: "Hidden job not found." } } },
+    },
+    "500": {
+      description: "Internal server error",
+      value: { type: "object", properties: { message: { type: "string", example: "Internal server error" }, error: { type: "string", example: "Unknown error" } } },
+    },
+  },
+})();
+
+router.delete('/:jobId/hide', roleMiddleware("APPLICANT"), identityMiddleware, async (req: Request, res: Response) => {
+    const userId = req.user?.userId;
+    const applicantId = req.user?.applicantId;
+    const { jobId } = req.params;
+    logger.info(`DELETE /${jobId}/hide - Unhide job attempt by userId: ${userId}, IP: ${req.ip}`);
+
+    if (!userId || !applicantId) {
+        logger.warn(`Unauthorized unhide job attempt for jobId: ${jobId} - Missing userId. IP: ${req.ip}`);
+        return res.status(401).json({ message: "Unauthorized" });
+    }
+
+    try {
+        logger.debug(`DB Query - Find hidden job [jobId=${jobId}, applicantId=${applicantId}]`);
+        const hiddenJob = await prisma.hiddenJob.findUnique({
+            where: {
+                applicantId_jobId: {
+                    applicantId,
+                    jobId
+                }
+            }
+        });
+
+        if (!hiddenJob) {
+            logger.warn(`Hidden job not found for jobId: ${jobId} and applicantId: ${applicantId}`);
+            return res.status(404).json({ message: "Hidden job not found." });
+        }
+
+        logger.debug(`DB Delete - Unhiding job [jobId=${jobId}, applicantId=${applicantId}]`);
+        const deletedJob = await prisma.hiddenJob.delete({
+            where: { id: hiddenJob.id }
+        })
+
+        logger.info(`Job unhidden successfully [jobId=${jobId}] by applicantId: ${applicantId}`);
+        return res.status(200).json({
+            message: "Job unhidden successfully",
+            job: deletedJob
+        })
+    } catch(err) {
+        logger.error(`Error unhiding job [jobId=${jobId}, userId=${userId}] - ${err instanceof Error ? err.message : "Unknown error"} - IP: ${req.ip}`);
+        logger.debug(`Stack trace: ${err instanceof Error ? err.stack : "No stack trace"}`);
+        return res.status(500).json({
+            message: "Internal server error",
+            error: err instanceof Error ? err.message : "Unknown error"
+        })
+    }
+})
+
+
+class SavedJob {
+  static schema = {
+    type: "object",
+    properties: {
+      id: { type: "string", format: "uuid", example: "saved-job-id-uuid" },
+      createdAt: { type: "string", format: "date-time", example: "2025-09-28T12:34:56Z" },
+      job: {
+        type: "object",
+        properties: {
+          id: { type: "string", format: "uuid", example: "job-id-uuid" },
+          title: { type: "string", example: "Backend Developer" },
+          description: { type: "string", example: "Job description here" },
+          createdAt: { type: "string", format: "date-time", example: "2025-09-20T09:00:00Z" },
+          company: {
+            type: "object",
+            properties: {
+              id: { type: "string", format: "uuid", example: "company-id-uuid" },
+              name: { type: "string", example: "ABC Corp" },
+              logoUrl: { type: "string", example: "https://abc.com/logo.png" },
+              website: { type: "string", example: "https://abc.com" },
+            },
+            required: ["id", "name"],
+          },
+        },
+        required: ["id", "title", "company"],
+      },
+      applicantId: { type: "string", format: "uuid", example: "applicant-id-uuid" },
+    },
+    required: ["id", "job", "applicantId", "createdAt"],
+  };
+}
+
+class SavedJobsResponse {
+  static schema = {
+    type: "object",
+    properties: {
+      message: { type: "string", example: "Saved jobs fetched successfully" },
+      data: {
+        type: "array",
+        items: SavedJob.schema,
+      },
+      pagination: paginationSchema,
+    },
+    required: ["message", "data", "pagination"],
+  };
+}
+
+Documentation.addRoute({
+  path: "/jobs/saved",
+  method: Methods.get,
+  tags: ["Saved"],
+  summary: "Fetch saved jobs for the logged-in applicant",
+  parameters: [
+    ...paginationParameters,
+    {
+      name: "order",
+      in: "query",
+      required: false,
+      schema: { type: "string", enum: ["asc", "desc"] },
+      description: "Order of saved jobs by creation date",
+    },
+  ],
+  responses: {
+    "200": {
+      description: "Saved jobs fetched successfully",
+      value: SavedJobsResponse.schema,
+    },
+    "400": {
+      description: "Invalid cursor",
+      value: {
+        type: "object",
+        properties: {
+          message: { type: "string", example: "Invalid cursor" },
+        },
+      },
+    },
+    "401": {
+      description: "Unauthorized",
+      value: {
+        type: "object",
+        properties: {
+          message: { type: "string", example: "Unauthorized" },
+        },
+      },
+    },
+    "500": {
+      description: "Internal server error",
+      value: {
+        type: "object",
+        properties: {
+          message: { type: "string", example: "Internal server error" },
+          error: { type: "string", example: "Unknown error" },
+        },
+      },
+    },
+  },
+})();
+
+router.get('/saved', roleMiddleware("APPLICANT"), identityMiddleware, async (req: Request, res: Response) => {
+    const applicantId = req.user?.applicantId;
+    logger.info(`GET /saved - Fetch saved jobs request by applicantId: ${applicantId}, IP: ${req.ip}`);
 
-        const companyTypeArray = parseToArray(companyType);
-        if (companyTypeArray && companyTypeArray.length) {
-            whereClause.companyType = {
-                in: companyTypeArray,
-            };
-            logger.debug(`Filtering companyType: ${companyTypeArray.join(', ')}`);
-        }
+    if (!applicantId) {
+        logger.warn(`Unauthorized saved jobs access attempt. IP: ${req.ip}`);
+        return res.status(401).json({ message: "Unauthorized" });
+    }
 
-        let orderBy = { createdAt: 'desc' as 'asc' | 'desc' };
-        if (postedDate && typeof postedDate === 'string' && postedDate.toLowerCase() === 'oldest') {
-            orderBy = { createdAt: 'asc' };
-            logger.debug(`Ordering by oldest posted date`);
-        } else {
-            logger.debug(`Ordering by newest posted date`);
-        }
+    const paginationResult = parsePagination(req.query);
+    if (!paginationResult.success) {
+        logger.warn(`Invalid pagination for saved jobs - ${paginationResult.message}, applicantId: ${applicantId}`);
+        return res.status(400).json({ message: paginationResult.message });
+    }
+    const pagination = paginationResult.data;
+    const order = (req.query.order as string)?.toLowerCase() === 'asc' ? 'asc' : 'desc';
 
-        logger.debug(`DB Query - Fetch jobs with filters`);
+    try {
+      logger.debug(`DB Query - Count total saved jobs for applicantId: ${applicantId}`);
+        const totalCount = pagination.mode === 'page'
+            ? await prisma.savedJob.count({ where: { applicantId } })
+            : null;
 
-        const [jobs, totalJobs] = await Promise.all([
-            prisma.job.findMany({
-                where: whereClause,
-                skip,
-                take: limitNumber,
-                orderBy,
-                include: {
-                    company: true,
-                    recruiter: {
-                        select: {
-                            id: true,
-                            user: {
-                                select: {
-                                    name: true
-                                }
-                            },
-                            positionTitle: true
-                        }
+        logger.debug(`DB Query - Fetch saved jobs for applicantId: ${applicantId} with pagination (mode: ${pagination.mode}, page: ${pagination.page}, limit: ${pagination.limit}, order: ${order})`);
+        const rows = await prisma.savedJob.findMany({
+            ...pageArgs({ applicantId }, pagination, order),
+            include: {
+                job: {
+                    include: {
+                        company: true
                     }
                 }
-            }),
-            prisma.job.count({ where: whereClause }),
-        ]);
-        logger.info(`Jobs fetched successfully. Count: ${jobs.length} / Total: ${totalJobs}`);
-
+            }
+        })
+        const { items: savedJobs, pagination: pageInfo } = buildPage(rows, pagination, totalCount);
+        
+        logger.info(`Saved jobs fetched successfully for applicantId: ${applicantId} (count: ${savedJobs.length})`);
         return res.status(200).json({
-            page: pageNumber,
-            count: limitNumber,
-            totalJobs,
-            totalPages: Math.ceil(totalJobs / limitNumber),
-            jobs,
-        });
+            message: "Saved jobs fetched successfully",
+            data: savedJobs,
+            pagination: pageInfo
+        })
     } catch(err) {
-        logger.error(`Error fetching jobs - ${err instanceof Error ? err.message : "Unknown error"} - IP: ${req.ip}`);
+        logger.error(`Error fetching saved jobs for applicantId=${applicantId} - ${err instanceof Error ? err.message : "Unknown error"} - IP: ${req.ip}`);
         logger.debug(`Stack trace: ${err instanceof Error ? err.stack : "No stack trace"}`);
         return res.status(500).json({
-            message: "Error fetching jobs",
+            message: "Internal server error",
             error: err instanceof Error ? err.message : "Unknown error"
         })
     }
@@ -1557,7 +2639,9 @@ class JobDetailResponse {
           isHidden: { type: "boolean", example: true }
         },
         required: ["isApplied", "isHidden"]
-      }
+      },
+      matchScore: { type: "integer", nullable: true, example: 76, description: "0-100 match with the logged-in applicant's profile; null for guests and recruiters" },
+      matchBreakdown: { ...matchBreakdownSchema, nullable: true }
     },
     required: ["message", "job", "meta"]
   }
@@ -1605,7 +2689,7 @@ Documentation.addRoute({
 })();
 
 
-router.get('/:jobId', async (req: Request, res: Response) => {
+router.get('/:jobId', optionalAuthMiddleware, async (req: Request, res: Response) => {
     const { jobId } = req.params;
     const userId = req.user?.userId;
     logger.info(`GET /${jobId} - Fetch job request. UserId: ${userId || 'Guest'}, IP: ${req.ip}`);
@@ -1644,6 +2728,7 @@ router.get('/:jobId', async (req: Request, res: Response) => {
 
       let isApplied = false;
       let isHidden = false
+      let match = null;
 
       if(userId){
         logger.debug(`Checking application and hidden status for userId: ${userId} on jobId: ${jobId}`);
@@ -1651,21 +2736,31 @@ router.get('/:jobId', async (req: Request, res: Response) => {
             prisma.application.findFirst({
                 where: {
                     jobId: job.id,
-                    applicantId: userId
+                    applicant: { userId }
                 }
             }),
             prisma.hiddenJob.findFirst({
                 where: {
                     jobId: job.id,
-                    applicantId: userId
+                    applicant: { userId }
                 }
             })
         ])
 
-        isApplied: !!applied
-        isHidden: !!hidden
+        isApplied = !!applied
+        isHidden = !!hidden
         logger.debug(`Application status: ${isApplied}, Hidden status: ${isHidden} for userId: ${userId} on jobId: ${jobId}`);
       }
+
+      if (userId && req.user?.role === "APPLICANT") {
+        logger.debug(`DB Query - Fetch applicant profile for match score, userId: ${userId}`);
+        const applicant = await prisma.applicant.findUnique({
+            where: { userId },
+            select: matchApplicantSelect
+        });
+        match = applicant ? computeMatchScore(applicant, job) : null;
+        logger.debug(`Match score for userId: ${userId} on jobId: ${jobId}: ${match?.matchScore ?? 'n/a'}`);
+      }
       logger.info(`Job fetched successfully for jobId: ${jobId} (UserId: ${userId || 'Guest'})`);
 
       res.status(200).json({
@@ -1674,7 +2769,9 @@ router.get('/:jobId', async (req: Request, res: Response) => {
           meta: {
               isApplied,
               isHidden
-          }
+          },
+          matchScore: match?.matchScore ?? null,
+          matchBreakdown: match?.breakdown ?? null
       })
     } catch(err) {
       logger.error(`Error fetching job with id: ${jobId} - ${err instanceof Error ? err.message : "Unknown error"} - IP: ${req.ip}`);
@@ -1688,6 +2785,7 @@ router.get('/:jobId', async (req: Request, res: Response) => {
 
 const jobApplicationBody = zod.object({
     resume: zod.string().optional(),
+    resumeId: zod.uuid().optional(),
     coverLetter: zod.string().optional(),
     portfolioUrl: zod.url().optional()
 })
@@ -1697,6 +2795,7 @@ class JobApplicationRequest {
     type: "object",
     properties: {
       resume: { type: "string", nullable: true, example: "https://resume.link/myresume.pdf" },
+      resumeId: { type: "string", format: "uuid", nullable: true, example: "resume-id-uuid", description: "Uploaded resume version to attach. Defaults to the latest upload." },
       coverLetter: { type: "string", nullable: true, example: "I am very interested in this position because..." },
       portfolioUrl: { type: "string", format: "url", nullable: true, example: "https://myportfolio.com" },
     }
@@ -1715,6 +2814,7 @@ class JobApplicationResponse {
           applicantId: { type: "string", example: "applicant-id-uuid" },
           jobId: { type: "string", example: "job-id-uuid" },
           resume: { type: "string", nullable: true, example: "https://resume.link/myresume.pdf" },
+          resumeId: { type: "string", format: "uuid", nullable: true, example: "resume-id-uuid" },
           coverLetter: { type: "string", nullable: true, example: "I am very interested in this position because..." },
           portfolioUrl: { type: "string", format: "url", nullable: true, example: "https://myportfolio.com" },
           createdAt: { type: "string", format: "date-time", example: "2025-01-01T12:00:00Z" },
@@ -1748,7 +2848,7 @@ Documentation.addRoute({
       value: JobApplicationResponse.schema,
     },
     "404": {
-      description: "Job not found",
+      description: "Job or selected resume not found",
       value: {
         type: "object",
         properties: {
@@ -1770,38 +2870,27 @@ Documentation.addRoute({
 })();
 
 
-router.post('/:jobId/apply', roleMiddleware("APPLICANT"), async (req: Request, res: Response) => {
+router.post('/:jobId/apply', roleMiddleware("APPLICANT"), identityMiddleware, async (req: Request, res: Response) => {
     const { jobId } = req.params;
-    const applicantId = req.user?.userId;
-    logger.info(`POST /${jobId}/apply - Application attempt by applicantId: ${applicantId}, IP: ${req.ip}`);
+    const userId = req.user?.userId;
+    const applicantId = req.user?.applicantId;
+    logger.info(`POST /${jobId}/apply - Application attempt by userId: ${userId}, IP: ${req.ip}`);
 
-    if (!applicantId) {
-        logger.warn(`Unauthorized application attempt to jobId: ${jobId} - Missing applicantId. IP: ${req.ip}`);
+    if (!userId || !applicantId) {
+        logger.warn(`Unauthorized application attempt to jobId: ${jobId} - Missing userId. IP: ${req.ip}`);
         return res.status(401).json({ message: "Unauthorized" });
     }
 
     const response = jobApplicationBody.safeParse(req.body);
     if(!response.success){
-        logger.warn(`Invalid application input for jobId: ${jobId} by applicantId: ${applicantId}`);
+        logger.warn(`Invalid application input for jobId: ${jobId} by userId: ${userId}`);
         return res.status(400).json({ message: "Invalid input" });
     }
 
     const applicationData = response.data;
 
     try {
-      logger.debug(`DB Query - Fetch applicant with id: ${applicantId}`);
-        const applicant = await prisma.applicant.findUnique({
-            where: {
-                id: applicantId
-            }
-        })
-
-        if(!applicant){
-          logger.warn(`Applicant profile not found for applicantId: ${applicantId}`);
-            return res.status(404).json({ message: "Applicant profile not found" })
-        }
-
-        logger.warn(`Applicant profile not found for applicantId: ${applicantId}`);
+        logger.debug(`DB Query - Fetch job with id: ${jobId}`);
         const job = await prisma.job.findUnique({
             where: {
                 id: jobId
@@ -1817,7 +2906,7 @@ router.post('/:jobId/apply', roleMiddleware("APPLICANT"), async (req: Request, r
         const existing = await prisma.application.findUnique({
             where: {
                 applicantId_jobId: {
-                    applicantId: applicantId,
+                    applicantId,
                     jobId
                 }
             }
@@ -1828,23 +2917,45 @@ router.post('/:jobId/apply', roleMiddleware("APPLICANT"), async (req: Request, r
             return res.status(409).json({ message: "You have already applied to this job" })
         }
 
-        logger.debug(`DB Insert - Creating application for jobId: ${jobId} by applicantId: ${applicantId}`);
+        const { resumeId, ...applicationFields } = applicationData;
+        logger.debug(`DB Query - Resolve resume for application [jobId=${jobId}, applicantId=${applicantId}, resumeId=${resumeId ?? "latest"}]`);
+        const resume = resumeId
+            ? await prisma.resume.findFirst({ where: { id: resumeId, applicantId } })
+            : await findLatestResume(applicantId);
+
+        if(resumeId && !resume){
+          logger.warn(`Resume not found for application - resumeId: ${resumeId}, applicantId: ${applicantId}`);
+            return res.status(404).json({ message: "Resume not found" })
+        }
+
+        const entryStage = await findEntryStage(jobId);
+
+        logger.debug(`DB Insert - Creating application for jobId: ${jobId} by applicantId: ${applicantId}, stage: ${entryStage?.name ?? 'none'}`);
         const application = await prisma.application.create({
             data: {
-                applicantId: applicantId,
+                applicantId,
                 jobId,
-                ...applicationData
+                resumeId: resume?.id,
+                ...applicationFields,
+                ...(entryStage ? {
+                    stageId: entryStage.id,
+                    status: entryStage.status,
+                    eviewedAt: entryStage.status === "REVIEWED" ? new Date() : undefined,
+                    stageMoves: { create: { toStageId: entryStage.id, toStageName: entryStage.name, actorId: userId } }
+                } : {}),
+                events: { create: { actorId: userId, toStatus: entryStage?.status ?? "PENDING" } }
             }
         })
 
         logger.info(`Application submitted successfully for jobId: ${jobId} by applicantId: ${applicantId}`);
+        await notifyNewApplication(application.id);
 
         return res.status(201).json({
             message: "Application submitted successfully",
             application
         })
     } catch(err) {
-        logger.error(`Error applying to jobId: ${jobId} by applicantId: ${applicantId} - ${err instanceof Error ? err.message : "Unknown error"} - IP: ${req.ip}`);
+        logger.error(`Error applying to jobId: ${jobId} by userId: ${userId} - ${err instanceof Error ? err.message : "Unknown error"} - IP: ${req.ip}`);
         logger.debug(`Stack trace: ${err instanceof Error ? err.stack : "No stack trace"}`);
         return res.status(500).json({
             message: "Internal server error",
@@ -1934,8 +3045,8 @@ Documentation.addRoute({
   },
 })();
 
-router.post('/:jobId/save', roleMiddleware("APPLICANT"), async (req: Request, res: Response) => {
-    const applicantId = req.user?.userId;
+router.post('/:jobId/save', roleMiddleware("APPLICANT"), identityMiddleware, async (req: Request, res: Response) => {
+    const applicantId = req.user?.applicantId;
     const { jobId } = req.params;
     logger.info(`POST /${jobId}/save - Save job attempt by applicantId: ${applicantId}, IP: ${req.ip}`);
 
@@ -2067,8 +3178,8 @@ Documentation.addRoute({
   },
 })();
 
-router.delete('/:jobId/unsave', roleMiddleware("APPLICANT"), async (req: Request, res: Response) => {
-    const applicantId = req.user?.userId;
+router.delete('/:jobId/unsave', roleMiddleware("APPLICANT"), identityMiddleware, async (req: Request, res: Response) => {
+    const applicantId = req.user?.applicantId;
     const { jobId } = req.params;
 
     logger.info(`DELETE /${jobId}/save - Unsave job attempt by applicantId: ${applicantId}, IP: ${req.ip}`);
@@ -2107,7 +3218,7 @@ router.delete('/:jobId/unsave', roleMiddleware("APPLICANT"), async (req: Request
         const deletedJob = await prisma.savedJob.delete({
             where: {
                 applicantId_jobId: {
-                    applicantId: applicantId,
+                    applicantId,
                     jobId
                 }
             }
@@ -2129,181 +3240,4 @@ router.delete('/:jobId/unsave', roleMiddleware("APPLICANT"), async (req: Request
     }
 })
 
-
-class SavedJob {
-  static schema = {
-    type: "object",
-    properties: {
-      id: { type: "string", format: "uuid", example: "saved-job-id-uuid" },
-      createdAt: { type: "string", format: "date-time", example: "2025-09-28T12:34:56Z" },
-      job: {
-        type: "object",
-        properties: {
-          id: { type: "string", format: "uuid", example: "job-id-uuid" },
-          title: { type: "string", example: "Backend Developer" },
-          description: { type: "string", example: "Job description here" },
-          createdAt: { type: "string", format: "date-time", example: "2025-09-20T09:00:00Z" },
-          company: {
-            type: "object",
-            properties: {
-              id: { type: "string", format: "uuid", example: "company-id-uuid" },
-              name: { type: "string", example: "ABC Corp" },
-              logoUrl: { type: "string", example: "https://abc.com/logo.png" },
-              website: { type: "string", example: "https://abc.com" },
-            },
-            required: ["id", "name"],
-          },
-        },
-        required: ["id", "title", "company"],
-      },
-      applicantId: { type: "string", format: "uuid", example: "applicant-id-uuid" },
-    },
-    required: ["id", "job", "applicantId", "createdAt"],
-  };
-}
-
-class Pagination {
-  static schema = {
-    type: "object",
-    properties: {
-      total: { type: "integer", example: 100 },
-      page: { type: "integer", example: 1 },
-      limit: { type: "integer", example: 10 },
-      totalPages: { type: "integer", example: 10 },
-      order: { type: "string", enum: ["asc", "desc"], example: "desc" },
-    },
-    required: ["total", "page", "limit", "totalPages", "order"],
-  };
-}
-
-class SavedJobsResponse {
-  static schema = {
-    type: "object",
-    properties: {
-      message: { type: "string", example: "Saved jobs fetched successfully" },
-      data: {
-        type: "array",
-        items: SavedJob.schema,
-      },
-      pagination: Pagination.schema,
-    },
-    required: ["message", "data", "pagination"],
-  };
-}
-
-Documentation.addRoute({
-  path: "/jobs/saved",
-  method: Methods.get,
-  tags: ["Saved"],
-  summary: "Fetch saved jobs for the logged-in applicant",
-  parameters: [
-    {
-      name: "page",
-      in: "query",
-      required: false,
-      schema: { type: "integer"},
-      description: "Page number for pagination",
-    },
-    {
-      name: "limit",
-      in: "query",
-      required: false,
-      schema: { type: "integer"},
-      description: "Number of saved jobs per page",
-    },
-    {
-      name: "order",
-      in: "query",
-      required: false,
-      schema: { type: "string", enum: ["asc", "desc"] },
-      description: "Order of saved jobs by creation date",
-    },
-  ],
-  responses: {
-    "200": {
-      description: "Saved jobs fetched successfully",
-      value: SavedJobsResponse.schema,
-    },
-    "401": {
-      description: "Unauthorized",
-      value: {
-        type: "object",
-        properties: {
-          message: { type: "string", example: "Unauthorized" },
-        },
-      },
-    },
-    "500": {
-      description: "Internal server error",
-      value: {
-        type: "object",
-        properties: {
-          message: { type: "string", example: "Internal server error" },
-          error: { type: "string", example: "Unknown error" },
-        },
-      },
-    },
-  },
-})();
-
-router.get('/saved', roleMiddleware("APPLICANT"), async (req: Request, res: Response) => {
-    const applicantId = req.user?.userId;
-    logger.info(`GET /saved - Fetch saved jobs request by applicantId: ${applicantId}, IP: ${req.ip}`);
-
-    if (!applicantId) {
-        logger.warn(`Unauthorized saved jobs access attempt. IP: ${req.ip}`);
-    }
-
-    const page = parseInt(req.query.page as string) || 1;
-    const limit = parseInt(req.query.limit as string) || 10;
-    const order = (req.query.order as string)?.toLowerCase() === 'asc' ? 'asc' : 'desc';
-    const skip = (page - 1) * limit;
-
-    try {
-      logger.debug(`DB Query - Count total saved jobs for applicantId: ${applicantId}`);
-        const totalCount = await prisma.savedJob.count({
-            where: { applicantId }
-        });
-
-        logger.debug(`DB Query - Fetch saved jobs for applicantId: ${applicantId} with pagination (page: ${page}, limit: ${limit}, order: ${order})`);
-        const savedJobs = await prisma.savedJob.findMany({
-            where: {
-                applicantId
-            },
-            include: {
-                job: {
-                    include: {
-                        company: true
-                    }
-                }
-            },
-            orderBy: {
-                createdAt: order
-            },
-            skip,
-            take: limit
-        })
-        
-        logger.info(`Saved jobs fetched successfully for applicantId: ${applicantId} (count: ${savedJobs.length})`);
-        return res.status(200).json({
-            message: "Saved jobs fetched successfully",
-            data: savedJobs,
-            pagination: {
-                total: totalCount,
-                page,
-                limit,
-                totalPages: Math.ceil(totalCount / limit),
-                order
-            }
-        })
-    } catch(err) {
-        logger.error(`Error fetching saved jobs for applicantId=${applicantId} - ${err instanceof Error ? err.message : "Unknown error"} - IP: ${req.ip}`);
-        logger.debug(`Stack trace: ${err instanceof Error ? err.stack : "No stack trace"}`);
-        return res.status(500).json({
-            message: "Internal server error",
-            error: err instanceof Error ? err.message : "Unknown error"
-        })
-    }
-})
-
 export default router;
\ No newline at end of file
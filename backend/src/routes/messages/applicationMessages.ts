@@ -0,0 +1,311 @@
+import express, { Request, Response } from 'express';
+import authMiddleware from '../../middleware/authMiddleware';
+import identityMiddleware from '../../middleware/identityMiddleware';
+const router = express.Router();
+import zod from 'zod';
+import { PrismaClient } from '@prisma/client';
+import { Documentation, IRequestParameter, Methods, SchemaObject } from '../../docs/documentation';
+import logger from '../../utils/logger';
+import { buildPage, pageArgs, paginationParameters, paginationSchema, parsePagination } from '../../utils/pagination';
+import {
+    findMessageThread,
+    MAX_MESSAGE_LENGTH,
+    messageSchema,
+    messageSelect,
+    notifyMessageReceived,
+    sendMessage
+} from '../../services/messageService';
+const prisma = new PrismaClient();
+
+const sendMessageBody = zod.object({
+    body: zod.string().trim().min(1).max(MAX_MESSAGE_LENGTH)
+})
+
+const applicationIdParameter: IRequestParameter[] = [
+    { in: "path", name: "id", required: true, schema: { type: "string", example: "application-id-123" } }
+];
+
+class SendMessageRequest {
+    static schema: SchemaObject = {
+        type: "object",
+        required: ["body"],
+        properties: {
+            body: { type: "string", example: "Could you share your notice period?", description: `At most ${MAX_MESSAGE_LENGTH} characters` }
+        }
+    }
+}
+
+class MessageResponse {
+    static schema: SchemaObject = {
+        type: "object",
+        properties: {
+            message: { type: "string", example: "Message sent successfully" },
+            data: messageSchema
+        }
+    }
+}
+
+class MessageHistoryResponse {
+    static schema: SchemaObject = {
+        type: "object",
+        properties: {
+            message: { type: "string", example: "Messages fetched successfully" },
+            messages: { type: "array", items: messageSchema },
+            unreadCount: { type: "integer", example: 2, description: "Messages in this thread the user has not read" },
+            pagination: paginationSchema
+        }
+    }
+}
+
+Documentation.addSchema()(SendMessageRequest)
+Documentation.addSchema()(MessageResponse)
+Documentation.addSchema()(MessageHistoryResponse)
+
+Documentation.addRoute({
+    path: "/applications/:id/messages",
+    method: Methods.get,
+    tags: ["Messages"],
+    summary: "Get the message history of an application",
+    description: "Available to the job's recruiter and to the applicant. Newest messages first; follow pagination.nextCursor to load older ones. Reading the history does not mark messages as read.",
+    parameters: [...applicationIdParameter, ...paginationParameters],
+    responses: {
+        "200": {
+            description: "Messages fetched successfully",
+            value: MessageHistoryResponse.schema
+        },
+        "400": {
+            description: "Invalid pagination",
+            value: { type: "object", properties: { message: { type: "string", example: "Invalid cursor" } } }
+        },
+        "401": {
+            description: "Unauthorized",
+            value: { type: "object", properties: { message: { type: "string", example: "Unauthorized" } } }
+        },
+        "404": {
+            description: "Application not found or not visible to the user",
+            value: { type: "object", properties: { message: { type: "string", example: "Application not found" } } }
+        },
+        "500": {
+            description: "Internal server error",
+            value: { type: "object", properties: { message: { type: "string", example: "Internal server error" }, error: { type: "string", example: "Unknown error" } } }
+        }
+    }
+})();
+
+router.get('/:id/messages', authMiddleware, identityMiddleware, async (req: Request, res: Response) => {
+    const { id } = req.params;
+    const userId = req.user?.userId;
+    logger.info(`GET /${id}/messages - UserId: ${userId}, IP: ${req.ip}`);
+
+    if (!userId) {
+        logger.warn(`Unauthorized access attempt - Missing userId. IP: ${req.ip}`);
+        return res.status(401).json({ message: "Unauthorized" });
+    }
+
+    const paginationResult = parsePagination(req.query, { defaultLimit: 30 });
+    if (!paginationResult.success) {
+        logger.warn(`Invalid pagination for /${id}/messages - ${paginationResult.message}`);
+        return res.status(400).json({ message: paginationResult.message });
+    }
+    const pagination = paginationResult.data;
+
+    try {
+        const thread = await findMessageThread(id, { ...req.user!, userId });
+        if (!thread) {
+            logger.warn(`Application ${id} not found or not visible to userId: ${userId}`);
+            return res.status(404).json({ message: "Application not found" });
+        }
+
+        const conversationId = thread.conversation?.id;
+        if (!conversationId) {
+            const { items, pagination: pageInfo } = buildPage([], pagination, 0);
+            return res.status(200).json({
+                message: "Messages fetched successfully",
+                messages: items,
+                unreadCount: 0,
+                pagination: pageInfo
+            });
+        }
+
+        const where = { conversationId };
+        const [rows, total, unreadCount] = await Promise.all([
+            prisma.message.findMany({ ...pageArgs(where, pagination), select: messageSelect }),
+            pagination.mode === 'page' ? prisma.message.count({ where }) : Promise.resolve(null),
+            prisma.message.count({ where: { conversationId, senderId: { not: userId }, readAt: null } })
+        ]);
+        const { items, pagination: pageInfo } = buildPage(rows, pagination, total);
+
+        logger.info(`Fetched ${items.length} messages for applicationId: ${id}`);
+        return res.status(200).json({
+            message: "Messages fetched successfully",
+            messages: items,
+            unreadCount,
+            pagination: pageInfo
+        });
+    } catch (err) {
+        logger.error(`Error fetching messages for applicationId: ${id} - ${err instanceof Error ? err.message : "Unknown error"} - IP: ${req.ip}`);
+        logger.debug(`Stack trace: ${err instanceof Error ? err.stack : "No stack trace"}`);
+        return res.status(500).json({
+            message: "Internal server error",
+            error: err instanceof Error ? err.message : "Unknown error"
+        })
+    }
+})
+
+Documentation.addRoute({
+    path: "/applications/:id/messages",
+    method: Methods.post,
+    tags: ["Messages"],
+    summary: "Send a message about an application",
+    description: "The job's recruiter and the applicant can message each other. The other participant gets a MESSAGE_RECEIVED notification.",
+    parameters: applicationIdParameter,
+    requestBody: SendMessageRequest.schema,
+    requestBodyDescription: "Message to send",
+    responses: {
+        "201": {
+            description: "Message sent successfully",
+            value: MessageResponse.schema
+        },
+        "400": {
+            description: "Invalid input",
+            value: { type: "object", properties: { message: { type: "string", example: "Invalid input" } } }
+        },
+        "401": {
+            description: "Unauthorized",
+            value: { type: "object", properties: { message: { type: "string", example: "Unauthorized" } } }
+        },
+        "404": {
+            description: "Application not found or not visible to the user",
+            value: { type: "object", properties: { message: { type: "string", example: "Application not found" } } }
+        },
+        "409": {
+            description: "Application has been withdrawn",
+            value: { type: "object", properties: { message: { type: "string", example: "Cannot message about a withdrawn application" } } }
+        },
+        "500": {
+            description: "Internal server error",
+            value: { type: "object", properties: { message: { type: "string", example: "Internal server error" }, error: { type: "string", example: "Unknown error" } } }
+        }
+    }
+})();
+
+router.post('/:id/messages', authMiddleware, identityMiddleware, async (req: Request, res: Response) => {
+    const { id } = req.params;
+    const userId = req.user?.userId;
+    logger.info(`POST /${id}/messages - UserId: ${userId}, IP: ${req.ip}`);
+
+    if (!userId) {
+        logger.warn(`Unauthorized access attempt - Missing userId. IP: ${req.ip}`);
+        return res.status(401).json({ message: "Unauthorized" });
+    }
+
+    const response = sendMessageBody.safeParse(req.body);
+    if (!response.success) {
+        logger.warn(`Validation failed for message on applicationId: ${id} - ${JSON.stringify(response.error)}`);
+        return res.status(400).json({ message: "Invalid input", errors: response.error });
+    }
+    const { body } = response.data;
+
+    try {
+        const thread = await findMessageThread(id, { ...req.user!, userId });
+        if (!thread) {
+            logger.warn(`Application ${id} not found or not visible to userId: ${userId}`);
+            return res.status(404).json({ message: "Application not found" });
+        }
+
+        if (thread.status === "WITHDRAWN") {
+            logger.warn(`Message rejected - applicationId: ${id} is withdrawn`);
+            return res.status(409).json({ message: "Cannot message about a withdrawn application" });
+        }
+
+        const message = await sendMessage(thread, userId, body);
+        logger.info(`Message ${message.id} sent by userId: ${userId} on applicationId: ${id}`);
+        await notifyMessageReceived(thread, userId, body);
+
+        return res.status(201).json({
+            message: "Message sent successfully",
+            data: message
+        });
+    } catch (err) {
+        logger.error(`Error sending message on applicationId: ${id} - ${err instanceof Error ? err.message : "Unknown error"} - IP: ${req.ip}`);
+        logger.debug(`Stack trace: ${err instanceof Error ? err.stack : "No stack trace"}`);
+        return res.status(500).json({
+            message: "Internal server error",
+            error: err instanceof Error ? err.message : "Unknown error"
+        })
+    }
+})
+
+Documentation.addRoute({
+    path: "/applications/:id/messages/read",
+    method: Methods.patch,
+    tags: ["Messages"],
+    summary: "Mark the messages of an application as read",
+    description: "Marks every message the other participant sent in this thread as read, which shows up as a read receipt on their side.",
+    parameters: applicationIdParameter,
+    responses: {
+        "200": {
+            description: "Messages marked as read",
+            value: {
+                type: "object",
+                properties: {
+                    message: { type: "string", example: "Messages marked as read" },
+                    updated: { type: "number", example: 3 }
+                }
+            }
+        },
+        "401": {
+            description: "Unauthorized",
+            value: { type: "object", properties: { message: { type: "string", example: "Unauthorized" } } }
+        },
+        "404": {
+            description: "Application not found or not visible to the user",
+            value: { type: "object", properties: { message: { type: "string", example: "Application not found" } } }
+        },
+        "500": {
+            description: "Internal server error",
+            value: { type: "object", properties: { message: { type: "string", example: "Internal server error" }, error: { type: "string", example: "Unknown error" } } }
+        }
+    }
+})();
+
+router.patch('/:id/messages/read', authMiddleware, identityMiddleware, async (req: Request, res: Response) => {
+    const { id } = req.params;
+    const userId = req.user?.userId;
+    logger.info(`PATCH /${id}/messages/read - UserId: ${userId}, IP: ${req.ip}`);
+
+    if (!userId) {
+        logger.warn(`Unauthorized access attempt - Missing userId. IP: ${req.ip}`);
+        return res.status(401).json({ message: "Unauthorized" });
+    }
+
+    try {
+        const thread = await findMessageThread(id, { ...req.user!, userId });
+        if (!thread) {
+            logger.warn(`Application ${id} not found or not visible to userId: ${userId}`);
+            return res.status(404).json({ message: "Application not found" });
+        }
+
+        const result = thread.conversation
+            ? await prisma.message.updateMany({
+                where: { conversationId: thread.conversation.id, senderId: { not: userId }, readAt: null },
+                data: { readAt: new Date() }
+            })
+            : { count: 0 };
+
+        logger.info(`Marked ${result.count} messages as read on applicationId: ${id} for userId: ${userId}`);
+        return res.status(200).json({
+            message: "Messages marked as read",
+            updated: result.count
+        });
+    } catch (err) {
+        logger.error(`Error marking messages as read on applicationId: ${id} - ${err instanceof Error ? err.message : "Unknown error"} - IP: ${req.ip}`);
+        logger.debug(`Stack trace: ${err instanceof Error ? err.stack : "No stack trace"}`);
+        return res.status(500).json({
+            message: "Internal server error",
+            error: err instanceof Error ? err.message : "Unknown error"
+        })
+    }
+})
+
+export default router;
@@ -0,0 +1,219 @@
+import express, { Request, Response } from 'express';
+import authMiddleware from '../../middleware/authMiddleware';
+import identityMiddleware from '../../middleware/identityMiddleware';
+const router = express.Router();
+import { PrismaClient } from '@prisma/client';
+import { Documentation, Methods, SchemaObject } from '../../docs/documentation';
+import logger from '../../utils/logger';
+import { buildPage, paginationParameters, paginationSchema, parsePagination } from '../../utils/pagination';
+import { messageSchema, messageSelect, participantApplicationWhere, unreadMessagesWhere } from '../../services/messageService';
+const prisma = new PrismaClient();
+
+class ConversationsResponse {
+    static schema: SchemaObject = {
+        type: "object",
+        properties: {
+            message: { type: "string", example: "Conversations fetched successfully" },
+            conversations: {
+                type: "array",
+                items: {
+                    type: "object",
+                    properties: {
+                        id: { type: "string", example: "conversation-id-123" },
+                        applicationId: { type: "string", example: "application-id-456" },
+                        lastMessageAt: { type: "string", format: "date-time" },
+                        job: {
+                            type: "object",
+                            properties: {
+                                id: { type: "string", example: "job-id-789" },
+                                title: { type: "string", example: "Frontend Developer" },
+                                company: { type: "string", example: "Acme Corp" }
+                            }
+                        },
+                        counterpart: {
+                            type: "object",
+                            description: "The other participant: the applicant for recruiters, the recruiter for applicants",
+                            properties: {
+                                id: { type: "string", example: "user-id-321" },
+                                name: { type: "string", example: "John Doe" }
+                            }
+                        },
+                        lastMessage: { ...messageSchema, nullable: true },
+                        unreadCount: { type: "integer", example: 1 }
+                    }
+                }
+            },
+            pagination: paginationSchema
+        }
+    }
+}
+
+Documentation.addSchema()(ConversationsResponse)
+
+Documentation.addRoute({
+    path: "/conversations",
+    method: Methods.get,
+    tags: ["Messages"],
+    summary: "List the logged-in user's message threads",
+    description: "Recruiters see threads on their jobs' applications, applicants see threads on their own applications. Most recently active first. Only page pagination is supported.",
+    parameters: paginationParameters,
+    responses: {
+        "200": {
+            description: "Conversations fetched successfully",
+            value: ConversationsResponse.schema
+        },
+        "400": {
+            description: "Cursor pagination requested",
+            value: { type: "object", properties: { message: { type: "string", example: "Cursor pagination is not available for conversations; use page" } } }
+        },
+        "401": {
+            description: "Unauthorized",
+            value: { type: "object", properties: { message: { type: "string", example: "Unauthorized" } } }
+        },
+        "500": {
+            description: "Internal server error",
+            value: { type: "object", properties: { message: { type: "string", example: "Internal server error" }, error: { type: "string", example: "Unknown error" } } }
+        }
+    }
+})();
+
+router.get('/', authMiddleware, identityMiddleware, async (req: Request, res: Response) => {
+    const userId = req.user?.userId;
+    logger.info(`GET /conversations - UserId: ${userId}, IP: ${req.ip}`);
+
+    if (!userId) {
+        logger.warn(`Unauthorized access attempt - Missing userId. IP: ${req.ip}`);
+        return res.status(401).json({ message: "Unauthorized" });
+    }
+
+    const paginationResult = parsePagination(req.query);
+    if (!paginationResult.success) {
+        logger.warn(`Invalid pagination for /conversations - ${paginationResult.message}`);
+        return res.status(400).json({ message: paginationResult.message });
+    }
+    const pagination = paginationResult.data;
+    if (pagination.cursor) {
+        logger.warn(`Cursor pagination requested for /conversations - UserId: ${userId}`);
+        return res.status(400).json({ message: "Cursor pagination is not available for conversations; use page" });
+    }
+
+    const isRecruiter = !!req.user?.recruiterId;
+    const where = { application: participantApplicationWhere({ ...req.user!, userId }) };
+
+    try {
+        const [rows, total] = await Promise.all([
+            prisma.conversation.findMany({
+                where,
+                orderBy: [{ lastMessageAt: 'desc' }, { id: 'desc' }],
+                skip: pagination.skip,
+                take: pagination.limit + 1,
+                select: {
+                    id: true,
+                    applicationId: true,
+                    lastMessageAt: true,
+                    createdAt: true,
+                    application: {
+                        select: {
+                            applicant: { select: { user: { select: { id: true, name: true } } } },
+                            job: {
+                                select: {
+                                    id: true,
+                                    title: true,
+                                    company: { select: { name: true } },
+                                    recruiter: { select: { user: { select: { id: true, name: true } } } }
+                                }
+                            }
+                        }
+                    },
+                    messages: { orderBy: [{ createdAt: 'desc' }, { id: 'desc' }], take: 1, select: messageSelect },
+                    _count: { select: { messages: { where: { senderId: { not: userId }, readAt: null } } } }
+                }
+            }),
+            prisma.conversation.count({ where })
+        ]);
+        const { items, pagination: pageInfo } = buildPage(rows, pagination, total);
+        pageInfo.nextCursor = null;
+
+        logger.info(`Fetched ${items.length} conversations for userId: ${userId}`);
+        return res.status(200).json({
+            message: "Conversations fetched successfully",
+            conversations: items.map(({ application, messages, _count, createdAt, ...conversation }) => ({
+                ...conversation,
+                job: { id: application.job.id, title: application.job.title, company: application.job.company.name },
+                counterpart: isRecruiter ? application.applicant.user : application.job.recruiter.user,
+                lastMessage: messages[0] ?? null,
+                unreadCount: _count.messages
+            })),
+            pagination: pageInfo
+        });
+    } catch (err) {
+        logger.error(`Error fetching conversations for userId: ${userId} - ${err instanceof Error ? err.message : "Unknown error"} - IP: ${req.ip}`);
+        logger.debug(`Stack trace: ${err instanceof Error ? err.stack : "No stack trace"}`);
+        return res.status(500).json({
+            message: "Internal server error",
+            error: err instanceof Error ? err.message : "Unknown error"
+        })
+    }
+})
+
+Documentation.addRoute({
+    path: "/conversations/unread-count",
+    method: Methods.get,
+    tags: ["Messages"],
+    summary: "Count unread messages across all of the logged-in user's threads",
+    responses: {
+        "200": {
+            description: "Unread count fetched successfully",
+            value: {
+                type: "object",
+                properties: {
+                    message: { type: "string", example: "Unread count fetched successfully" },
+                    count: { type: "number", example: 4 },
+                    conversations: { type: "number", example: 2, description: "Threads with at least one unread message" }
+                }
+            }
+        },
+        "401": {
+            description: "Unauthorized",
+            value: { type: "object", properties: { message: { type: "string", example: "Unauthorized" } } }
+        },
+        "500": {
+            description: "Internal server error",
+            value: { type: "object", properties: { message: { type: "string", example: "Internal server error" }, error: { type: "string", example: "Unknown error" } } }
+        }
+    }
+})();
+
+router.get('/unread-count', authMiddleware, identityMiddleware, async (req: Request, res: Response) => {
+    const userId = req.user?.userId;
+    logger.info(`GET /conversations/unread-count - UserId: ${userId}, IP: ${req.ip}`);
+
+    if (!userId) {
+        logger.warn(`Unauthorized access attempt - Missing userId. IP: ${req.ip}`);
+        return res.status(401).json({ message: "Unauthorized" });
+    }
+
+    try {
+        const where = unreadMessagesWhere({ ...req.user!, userId });
+        const [count, threads] = await Promise.all([
+            prisma.message.count({ where }),
+            prisma.message.groupBy({ by: ['conversationId'], where })
+        ]);
+
+        logger.debug(`DB Result - Unread messages for userId: ${userId}: ${count} in ${threads.length} conversations`);
+        return res.status(200).json({
+            message: "Unread count fetched successfully",
+            count,
+            conversations: threads.length
+        });
+    } catch (err) {
+        logger.error(`Error fetching unread message count for userId: ${userId} - ${err instanceof Error ? err.message : "Unknown error"} - IP: ${req.ip}`);
+        logger.debug(`Stack trace: ${err instanceof Error ? err.stack : "No stack trace"}`);
+        return res.status(500).json({
+            message: "Internal server error",
+            error: err instanceof Error ? err.message : "Unknown error"
+        })
+    }
+})
+
+export default router;
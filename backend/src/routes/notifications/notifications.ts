@@ -0,0 +1,498 @@
+import express, { Request, Response } from 'express';
+const router = express.Router();
+import zod from 'zod';
+import { Notification } from '@prisma/client';
+import authMiddleware from '../../middleware/authMiddleware';
+import { Documentation, Methods, SchemaObject } from '../../docs/documentation';
+import logger from '../../utils/logger';
+import {
+    deleteNotification,
+    getUnreadCount,
+    listNotifications,
+    listNotificationsSince,
+    markAllAsRead,
+    markAsRead
+} from '../../services/notificationService';
+import { getNotificationBus } from '../../services/notificationBus';
+
+router.use(authMiddleware)
+
+const HEARTBEAT_INTERVAL_MS = 25 * 1000;
+const RESUME_LIMIT = 100;
+
+const notificationCategories = ["APPLICATION", "INTERVIEW", "ACCOUNT", "SYSTEM", "MESSAGE", "ENGAGEMENT"] as const;
+
+const notificationListQuery = zod.object({
+    page: zod.coerce.number().int().min(1).default(1),
+    limit: zod.coerce.number().int().min(1).max(100).default(20),
+    category: zod.enum(notificationCategories).optional(),
+    isRead: zod.enum(["true", "false"]).transform(value => value === "true").optional(),
+})
+
+const categoryQuery = zod.object({
+    category: zod.enum(notificationCategories).optional(),
+})
+
+class NotificationSchema {
+    static schema: SchemaObject = {
+        type: "object",
+        properties: {
+            id: { type: "string", example: "notification-id-123" },
+            title: { type: "string", example: "New application received" },
+            message: { type: "string", example: "Jane Doe applied for Frontend Developer" },
+            link: { type: "string", nullable: true, example: "/applications/application-id-123" },
+            isRead: { type: "boolean", example: false },
+            readAt: { type: "string", format: "date-time", nullable: true },
+            notificationType: { type: "string", example: "NEW_APPLICATION" },
+            notificationCategory: { type: "string", enum: [...notificationCategories], example: "APPLICATION" },
+            createdAt: { type: "string", format: "date-time" },
+        }
+    }
+}
+
+class GetNotificationsResponse {
+    static schema: SchemaObject = {
+        type: "object",
+        properties: {
+            message: { type: "string", example: "Notifications fetched successfully" },
+            data: {
+                type: "array",
+                items: NotificationSchema.schema
+            },
+            pagination: {
+                type: "object",
+                properties: {
+                    total: { type: "number", example: 42 },
+                    page: { type: "number", example: 1 },
+                    limit: { type: "number", example: 20 },
+                    totalPages: { type: "number", example: 3 },
+                    hasNextPage: { type: "boolean", example: true },
+                    hasPrevPage: { type: "boolean", example: false }
+                }
+            }
+        }
+    }
+}
+
+Documentation.addSchema()(NotificationSchema);
+Documentation.addSchema()(GetNotificationsResponse);
+
+Documentation.addRoute({
+    path: "/notifications/stream",
+    method: Methods.get,
+    tags: ["Notifications"],
+    summary: "Stream new notifications for the logged-in user (Server-Sent Events)",
+    description: "Keeps the connection open and pushes each new notification as a `notification` event whose id is the notification id. Send the `Last-Event-ID` header to replay notifications created after that event. A comment line is sent every 25 seconds as a heartbeat.",
+    parameters: [
+        { in: "header", name: "Last-Event-ID", required: false, schema: { type: "string", format: "uuid" }, description: "Id of the last notification received" }
+    ],
+    responses: {
+        "200": {
+            description: "text/event-stream of notifications",
+            value: NotificationSchema.schema
+        },
+        "401": {
+            description: "Unauthorized",
+            value: { type: "object", properties: { message: { type: "string", example: "Unauthorized" } } }
+        }
+    }
+})();
+
+router.get('/stream', async (req: Request, res: Response) => {
+    const userId = req.user?.userId;
+    logger.info(`GET /stream - Opening notification stream for userId: ${userId}, IP: ${req.ip}`);
+
+    if (!userId) {
+        logger.warn(`Unauthorized access attempt - Missing userId. IP: ${req.ip}`);
+        return res.status(401).json({ message: "Unauthorized" });
+    }
+
+    res.set({
+        "Content-Type": "text/event-stream",
+        "Cache-Control": "no-cache",
+        "Connection": "keep-alive",
+        "X-Accel-Buffering": "no"
+    });
+    res.flushHeaders();
+    res.write("retry: 5000\n\n");
+
+    const sentIds = new Set<string>();
+    const send = (notification: Notification) => {
+        if (sentIds.has(notification.id)) return;
+        sentIds.add(notification.id);
+        res.write(`id: ${notification.id}\nevent: notification\ndata: ${JSON.stringify(notification)}\n\n`);
+    };
+
+    let replaying = true;
+    const pending: Notification[] = [];
+    const unsubscribe = getNotificationBus().subscribe(userId, (notification) => {
+        if (replaying) {
+            pending.push(notification);
+        } else {
+            send(notification);
+        }
+    });
+
+    const heartbeat = setInterval(() => {
+        res.write(": heartbeat\n\n");
+    }, HEARTBEAT_INTERVAL_MS);
+
+    req.on("close", () => {
+        clearInterval(heartbeat);
+        unsubscribe();
+        logger.info(`Notification stream closed for userId: ${userId}`);
+    });
+
+    const lastEventId = zod.uuid().safeParse(req.header("Last-Event-ID"));
+    if (lastEventId.success) {
+        try {
+            logger.debug(`DB Query - Replaying notifications after ${lastEventId.data} for userId: ${userId}`);
+            const missed = await listNotificationsSince(userId, lastEventId.data, RESUME_LIMIT);
+            missed.forEach(send);
+        } catch (err) {
+            logger.error(`Error replaying notifications for userId: ${userId} - ${err instanceof Error ? err.message : "Unknown error"}`);
+        }
+    }
+
+    replaying = false;
+    pending.forEach(send);
+})
+
+Documentation.addRoute({
+    path: "/notifications",
+    method: Methods.get,
+    tags: ["Notifications"],
+    summary: "Get notifications for the logged-in user",
+    parameters: [
+        { in: "query", name: "page", required: false, schema: { type: "integer", example: 1 } },
+        { in: "query", name: "limit", required: false, schema: { type: "integer", example: 20 }, description: "Max 100" },
+        { in: "query", name: "category", required: false, schema: { type: "string", enum: [...notificationCategories] } },
+        { in: "query", name: "isRead", required: false, schema: { type: "string", enum: ["true", "false"] } }
+    ],
+    responses: {
+        "200": {
+            description: "Notifications fetched successfully",
+            value: GetNotificationsResponse.schema
+        },
+        "400": {
+            description: "Invalid query parameters",
+            value: { type: "object", properties: { message: { type: "string", example: "Invalid input" } } }
+        },
+        "401": {
+            description: "Unauthorized",
+            value: { type: "object", properties: { message: { type: "string", example: "Unauthorized" } } }
+        },
+        "500": {
+            description: "Internal server error",
+            value: { type: "object", properties: { message: { type: "string", example: "Internal server error" }, error: { type: "string", example: "Unknown error" } } }
+        }
+    }
+})();
+
+router.get('/', async (req: Request, res: Response) => {
+    const userId = req.user?.userId;
+    logger.info(`GET / - Fetching notifications for userId: ${userId}, IP: ${req.ip}`);
+
+    if (!userId) {
+        logger.warn(`Unauthorized access attempt - Missing userId. IP: ${req.ip}`);
+        return res.status(401).json({ message: "Unauthorized" });
+    }
+
+    const response = notificationListQuery.safeParse(req.query);
+    if (!response.success) {
+        logger.warn(`Invalid notification query for userId: ${userId} - ${JSON.stringify(req.query)}`);
+        return res.status(400).json({
+            message: "Invalid input",
+            errors: response.error
+        });
+    }
+
+    const { page, limit, category, isRead } = response.data;
+
+    try {
+        logger.debug(`DB Query - Fetching notifications for userId: ${userId}, page: ${page}, limit: ${limit}, category: ${category}, isRead: ${isRead}`);
+        const { notifications, total } = await listNotifications(userId, { page, limit, category, isRead });
+
+        logger.info(`Notifications fetched successfully for userId: ${userId} (count: ${notifications.length})`);
+        return res.status(200).json({
+            message: "Notifications fetched successfully",
+            data: notifications,
+            pagination: {
+                total,
+                page,
+                limit,
+                totalPages: Math.ceil(total / limit),
+                hasNextPage: page * limit < total,
+                hasPrevPage: page > 1
+            }
+        });
+    } catch (err) {
+        logger.error(`Error fetching notifications for userId: ${userId} - ${err instanceof Error ? err.message : "Unknown error"} - IP: ${req.ip}`);
+        logger.debug(`Stack trace: ${err instanceof Error ? err.stack : "No stack trace"}`);
+        return res.status(500).json({
+            message: "Internal server error",
+            error: err instanceof Error ? err.message : "Unknown error"
+        });
+    }
+})
+
+Documentation.addRoute({
+    path: "/notifications/unread-count",
+    method: Methods.get,
+    tags: ["Notifications"],
+    summary: "Get the number of unread notifications for the logged-in user",
+    parameters: [
+        { in: "query", name: "category", required: false, schema: { type: "string", enum: [...notificationCategories] } }
+    ],
+    responses: {
+        "200": {
+            description: "Unread count fetched successfully",
+            value: {
+                type: "object",
+                properties: {
+                    message: { type: "string", example: "Unread count fetched successfully" },
+                    count: { type: "number", example: 3 }
+                }
+            }
+        },
+        "400": {
+            description: "Invalid query parameters",
+            value: { type: "object", properties: { message: { type: "string", example: "Invalid input" } } }
+        },
+        "401": {
+            description: "Unauthorized",
+            value: { type: "object", properties: { message: { type: "string", example: "Unauthorized" } } }
+        },
+        "500": {
+            description: "Internal server error",
+            value: { type: "object", properties: { message: { type: "string", example: "Internal server error" }, error: { type: "string", example: "Unknown error" } } }
+        }
+    }
+})();
+
+router.get('/unread-count', async (req: Request, res: Response) => {
+    const userId = req.user?.userId;
+    logger.info(`GET /unread-count - Fetching unread count for userId: ${userId}, IP: ${req.ip}`);
+
+    if (!userId) {
+        logger.warn(`Unauthorized access attempt - Missing userId. IP: ${req.ip}`);
+        return res.status(401).json({ message: "Unauthorized" });
+    }
+
+    const response = categoryQuery.safeParse(req.query);
+    if (!response.success) {
+        logger.warn(`Invalid unread count query for userId: ${userId} - ${JSON.stringify(req.query)}`);
+        return res.status(400).json({ message: "Invalid input" });
+    }
+
+    try {
+        const count = await getUnreadCount(userId, response.data.category);
+
+        logger.debug(`DB Result - Unread notifications for userId: ${userId}: ${count}`);
+        return res.status(200).json({
+            message: "Unread count fetched successfully",
+            count
+        });
+    } catch (err) {
+        logger.error(`Error fetching unread count for userId: ${userId} - ${err instanceof Error ? err.message : "Unknown error"} - IP: ${req.ip}`);
+        logger.debug(`Stack trace: ${err instanceof Error ? err.stack : "No stack trace"}`);
+        return res.status(500).json({
+            message: "Internal server error",
+            error: err instanceof Error ? err.message : "Unknown error"
+        });
+    }
+})
+
+Documentation.addRoute({
+    path: "/notifications/read-all",
+    method: Methods.patch,
+    tags: ["Notifications"],
+    summary: "Mark all notifications of the logged-in user as read",
+    parameters: [
+        { in: "query", name: "category", required: false, schema: { type: "string", enum: [...notificationCategories] }, description: "Only mark notifications of this category" }
+    ],
+    responses: {
+        "200": {
+            description: "Notifications marked as read",
+            value: {
+                type: "object",
+                properties: {
+                    message: { type: "string", example: "Notifications marked as read" },
+                    updated: { type: "number", example: 5 }
+                }
+            }
+        },
+        "400": {
+            description: "Invalid query parameters",
+            value: { type: "object", properties: { message: { type: "string", example: "Invalid input" } } }
+        },
+        "401": {
+            description: "Unauthorized",
+            value: { type: "object", properties: { message: { type: "string", example: "Unauthorized" } } }
+        },
+        "500": {
+            description: "Internal server error",
+            value: { type: "object", properties: { message: { type: "string", example: "Internal server error" }, error: { type: "string", example: "Unknown error" } } }
+        }
+    }
+})();
+
+router.patch('/read-all', async (req: Request, res: Response) => {
+    const userId = req.user?.userId;
+    logger.info(`PATCH /read-all - Marking all notifications as read for userId: ${userId}, IP: ${req.ip}`);
+
+    if (!userId) {
+        logger.warn(`Unauthorized access attempt - Missing userId. IP: ${req.ip}`);
+        return res.status(401).json({ message: "Unauthorized" });
+    }
+
+    const response = categoryQuery.safeParse(req.query);
+    if (!response.success) {
+        logger.warn(`Invalid read-all query for userId: ${userId} - ${JSON.stringify(req.query)}`);
+        return res.status(400).json({ message: "Invalid input" });
+    }
+
+    try {
+        const updated = await markAllAsRead(userId, response.data.category);
+
+        logger.info(`Marked ${updated} notifications as read for userId: ${userId}`);
+        return res.status(200).json({
+            message: "Notifications marked as read",
+            updated
+        });
+    } catch (err) {
+        logger.error(`Error marking notifications as read for userId: ${userId} - ${err instanceof Error ? err.message : "Unknown error"} - IP: ${req.ip}`);
+        logger.debug(`Stack trace: ${err instanceof Error ? err.stack : "No stack trace"}`);
+        return res.status(500).json({
+            message: "Internal server error",
+            error: err instanceof Error ? err.message : "Unknown error"
+        });
+    }
+})
+
+Documentation.addRoute({
+    path: "/notifications/:id/read",
+    method: Methods.patch,
+    tags: ["Notifications"],
+    summary: "Mark a notification as read",
+    parameters: [
+        { in: "path", name: "id", required: true, schema: { type: "string", example: "notification-id-123" } }
+    ],
+    responses: {
+        "200": {
+            description: "Notification marked as read",
+            value: {
+                type: "object",
+                properties: {
+                    message: { type: "string", example: "Notification marked as read" },
+                    notification: NotificationSchema.schema
+                }
+            }
+        },
+        "401": {
+            description: "Unauthorized",
+            value: { type: "object", properties: { message: { type: "string", example: "Unauthorized" } } }
+        },
+        "404": {
+            description: "Notification not found",
+            value: { type: "object", properties: { message: { type: "string", example: "Notification not found" } } }
+        },
+        "500": {
+            description: "Internal server error",
+            value: { type: "object", properties: { message: { type: "string", example: "Internal server error" }, error: { type: "string", example: "Unknown error" } } }
+        }
+    }
+})();
+
+router.patch('/:id/read', async (req: Request, res: Response) => {
+    const userId = req.user?.userId;
+    const { id } = req.params;
+    logger.info(`PATCH /:id/read - Marking notification ${id} as read for userId: ${userId}, IP: ${req.ip}`);
+
+    if (!userId) {
+        logger.warn(`Unauthorized access attempt - Missing userId. IP: ${req.ip}`);
+        return res.status(401).json({ message: "Unauthorized" });
+    }
+
+    try {
+        const notification = await markAsRead(userId, id);
+
+        if (!notification) {
+            logger.warn(`Notification not found - notificationId: ${id}, userId: ${userId}`);
+            return res.status(404).json({ message: "Notification not found" });
+        }
+
+        logger.info(`Notification marked as read - notificationId: ${id}, userId: ${userId}`);
+        return res.status(200).json({
+            message: "Notification marked as read",
+            notification
+        });
+    } catch (err) {
+        logger.error(`Error marking notification ${id} as read for userId: ${userId} - ${err instanceof Error ? err.message : "Unknown error"} - IP: ${req.ip}`);
+        logger.debug(`Stack trace: ${err instanceof Error ? err.stack : "No stack trace"}`);
+        return res.status(500).json({
+            message: "Internal server error",
+            error: err instanceof Error ? err.message : "Unknown error"
+        });
+    }
+})
+
+Documentation.addRoute({
+    path: "/notifications/:id",
+    method: Methods.delete,
+    tags: ["Notifications"],
+    summary: "Delete a notification",
+    parameters: [
+        { in: "path", name: "id", required: true, schema: { type: "string", example: "notification-id-123" } }
+    ],
+    responses: {
+        "200": {
+            description: "Notification deleted successfully",
+            value: { type: "object", properties: { message: { type: "string", example: "Notification deleted successfully" } } }
+        },
+        "401": {
+            description: "Unauthorized",
+            value: { type: "object", properties: { message: { type: "string", example: "Unauthorized" } } }
+        },
+        "404": {
+            description: "Notification not found",
+            value: { type: "object", properties: { message: { type: "string", example: "Notification not found" } } }
+        },
+        "500": {
+            description: "Internal server error",
+            value: { type: "object", properties: { message: { type: "string", example: "Internal server error" }, error: { type: "string", example: "Unknown error" } } }
+        }
+    }
+})();
+
+router.delete('/:id', async (req: Request, res: Response) => {
+    const userId = req.user?.userId;
+    const { id } = req.params;
+    logger.info(`DELETE /:id - Deleting notification ${id} for userId: ${userId}, IP: ${req.ip}`);
+
+    if (!userId) {
+        logger.warn(`Unauthorized access attempt - Missing userId. IP: ${req.ip}`);
+        return res.status(401).json({ message: "Unauthorized" });
+    }
+
+    try {
+        const deleted = await deleteNotification(userId, id);
+
+        if (!deleted) {
+            logger.warn(`Notification not found - notificationId: ${id}, userId: ${userId}`);
+            return res.status(404).json({ message: "Notification not found" });
+        }
+
+        logger.info(`Notification deleted successfully - notificationId: ${id}, userId: ${userId}`);
+        return res.status(200).json({ message: "Notification deleted successfully" });
+    } catch (err) {
+        logger.error(`Error deleting notification ${id} for userId: ${userId} - ${err instanceof Error ? err.message : "Unknown error"} - IP: ${req.ip}`);
+        logger.debug(`Stack trace: ${err instanceof Error ? err.stack : "No stack trace"}`);
+        return res.status(500).json({
+            message: "Internal server error",
+            error: err instanceof Error ? err.message : "Unknown error"
+        });
+    }
+})
+
+export default router;
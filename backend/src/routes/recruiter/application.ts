@@ -1,13 +1,38 @@
 import express, { Request, Response } from 'express';
 import roleMiddleware from '../../middleware/roleMiddleware';
+import identityMiddleware from '../../middleware/identityMiddleware';
+import { streamResume } from '../../services/resumeService';
 const router = express.Router();
 import zod from 'zod';
 import { PrismaClient } from '@prisma/client';
 import { Documentation, Methods, SchemaObject } from '../../docs/documentation';
 import logger from '../../utils/logger';
+import { notifyApplicationStatusChange } from '../../services/applicationNotificationService';
+import { jobHasPipeline, moveApplicationToStage, TERMINAL_STATUSES } from '../../services/pipelineService';
+import { applicationEventSchema, applicationEventsInclude, changeApplicationStatus, isStatusConflict } from '../../services/applicationHistoryService';
 const prisma = new PrismaClient();
 
 // ------ Recruiter ------
+const stageMoveSchema: SchemaObject = {
+    type: "object",
+    properties: {
+        id: { type: "string", example: "move-id-123" },
+        fromStageId: { type: "string", nullable: true, example: "stage-id-123" },
+        fromStageName: { type: "string", nullable: true, example: "Screening" },
+        toStageId: { type: "string", nullable: true, example: "stage-id-124" },
+        toStageName: { type: "string", example: "Tech Round 1" },
+        note: { type: "string", nullable: true, example: "Strong take-home submission" },
+        createdAt: { type: "string", format: "date-time" },
+        actor: {
+            type: "object",
+            properties: {
+                id: { type: "string", example: "user-id-789" },
+                name: { type: "string", example: "Recruiter Jane" }
+            }
+        }
+    }
+};
+
 class GetApplicationForMyJobsResponse {
     static schema: SchemaObject = {
         type: "object",
@@ -22,6 +47,39 @@ class GetApplicationForMyJobsResponse {
                     id: { type: "string", example: "application-123" },
                     status: { type: "string", example: "PENDING" },
                     createdAt: { type: "string", format: "date-time", example: "2025-09-27T10:00:00Z" },
+                    stage: {
+                        type: "object",
+                        nullable: true,
+                        description: "Current pipeline stage, null when the job has no pipeline",
+                        properties: {
+                            id: { type: "string", example: "stage-id-123" },
+                            name: { type: "string", example: "Tech Round 1" },
+                            status: { type: "string", example: "REVIEWED" },
+                            nextStages: {
+                                type: "array",
+                                items: {
+                                    type: "object",
+                                    properties: {
+                                        id: { type: "string", example: "stage-id-124" },
+                                        name: { type: "string", example: "Tech Round 2" }
+                                    }
+                                }
+                            }
+                        }
+                    },
+                    stageMoves: {
+                        type: "array",
+                        description: "Pipeline moves, oldest first",
+                        items: stageMoveSchema
+                    },
+                    eviewedAt: { type: "string", format: "date-time", nullable: true, description: "First time the application moved past PENDING" },
+                    acceptedAt: { type: "string", format: "date-time", nullable: true },
+                    rejectedAt: { type: "string", format: "date-time", nullable: true },
+                    events: {
+                        type: "array",
+                        description: "Status history, oldest first",
+                        items: applicationEventSchema
+                    },
                     applicant: {
                         type: "object",
                         properties: {
@@ -114,9 +172,9 @@ Documentation.addRoute({
     },
 })();
 
-router.get('/:id', roleMiddleware("RECRUITER"), async (req: Request, res: Response) => {
+router.get('/:id', roleMiddleware("RECRUITER"), identityMiddleware, async (req: Request, res: Response) => {
     const { id } = req.params;
-    const recruiterId = req.user?.userId;
+    const recruiterId = req.user?.recruiterId;
     logger.info(`GET /:id - Fetching aplication for applicationId: ${id}, IP: ${req.ip}`);
 
     if(!recruiterId){
@@ -141,6 +199,21 @@ router.get('/:id', roleMiddleware("RECRUITER"), async (req: Request, res: Respon
                         }
                     }
                 },
+                stage: {
+                    select: {
+                        id: true,
+                        name: true,
+                        status: true,
+                        transitionsFrom: {
+                            select: { toStage: { select: { id: true, name: true, position: true } } }
+                        }
+                    }
+                },
+                stageMoves: {
+                    orderBy: { createdAt: 'asc' },
+                    include: { actor: { select: { id: true, name: true } } }
+                },
+                events: applicationEventsInclude,
                 job: {
                     include: {
                         company: {
@@ -174,10 +247,22 @@ router.get('/:id', roleMiddleware("RECRUITER"), async (req: Request, res: Respon
         }
         logger.debug(`DB Result - ${application} application fetched for applicationId: ${id}`);
 
+        const { stage, ...details } = application;
         logger.info(`Application details fetched successfully for applicationId: ${id}`);
         return res.status(200).json({
             message: "Application fetched successfully",
-            application
+            application: {
+                ...details,
+                stage: stage && {
+                    id: stage.id,
+                    name: stage.name,
+                    status: stage.status,
+                    nextStages: stage.transitionsFrom
+                        .map(transition => transition.toStage)
+                        .sort((a, b) => a.position - b.position)
+                        .map(({ id, name }) => ({ id, name }))
+                }
+            }
         })
     } catch(err) {
         logger.error(`Error fetching application for applicationID: ${id} - ${err instanceof Error ? err.message : "Unknown error"} - IP: ${req.ip}`);
@@ -191,7 +276,8 @@ router.get('/:id', roleMiddleware("RECRUITER"), async (req: Request, res: Respon
 })
 
 const applicationPatchBody = zod.object({
-    status: zod.enum(["PENDING", "REVIEWED", "ACCEPTED", "REJECTED", "WITHDRAWN"])
+    status: zod.enum(["PENDING", "REVIEWED", "ACCEPTED", "REJECTED"]),
+    note: zod.string().trim().max(1000).optional()
 })
 
 class UpdateApplicationStatusRequest {
@@ -201,8 +287,13 @@ class UpdateApplicationStatusRequest {
         properties: {
             status: {
                 type: "string",
-                enum: ["PENDING", "REVIEWED", "ACCEPTED", "REJECTED", "WITHDRAWN"],
+                enum: ["PENDING", "REVIEWED", "ACCEPTED", "REJECTED"],
                 example: "REVIEWED"
+            },
+            note: {
+                type: "string",
+                example: "Moving forward after the phone screen",
+                description: "Stored with the status change in the application's history"
             }
         }
     };
@@ -222,7 +313,7 @@ class UpdateApplicationStatusResponse {
                     id: { type: "string", example: "application-id-123" },
                     status: {
                         type: "string",
-                        enum: ["PENDING", "REVIEWED", "ACCEPTED", "REJECTED", "WITHDRAWN"],
+                        enum: ["PENDING", "REVIEWED", "ACCEPTED", "REJECTED"],
                         example: "REVIEWED"
                     },
                     job: {
@@ -286,6 +377,15 @@ Documentation.addRoute({
                 }
             }
         },
+        "409": {
+            description: "The application has been withdrawn, its status changed during the update, or the job uses a pipeline and the application must be moved between stages instead",
+            value: {
+                type: "object",
+                properties: {
+                    message: { type: "string", example: "This job uses a hiring pipeline. Move the application to a stage instead." }
+                }
+            }
+        },
         "403": {
             description: "Forbidden: Recruiter cannot access this application",
             value: {
@@ -320,12 +420,13 @@ Documentation.addRoute({
     }
 })();
 
-router.patch('/:id/status', roleMiddleware("RECRUITER"), async (req: Request, res: Response) => {
+router.patch('/:id/status', roleMiddleware("RECRUITER"), identityMiddleware, async (req: Request, res: Response) => {
     const { id } = req.params;
-    const recruiterId = req.user?.userId;
+    const userId = req.user?.userId;
+    const recruiterId = req.user?.recruiterId;
     logger.info(`PATCH /:id/status - Updating aplication status for applicationId: ${id}, IP: ${req.ip}`);
 
-    if(!recruiterId){
+    if(!userId || !recruiterId){
         logger.warn(`Unauthorized access attempt - Missing recruiterId. IP: ${req.ip}`);
         return res.status(401).json({ message: "Unauthorized" })
     }
@@ -338,7 +439,7 @@ router.patch('/:id/status', roleMiddleware("RECRUITER"), async (req: Request, re
         })
     }
 
-    const {status} = response.data
+    const {status, note} = response.data
 
     try {
         logger.debug(`DB Query - Checking for application with applicationId: ${id}`);
@@ -362,15 +463,23 @@ router.patch('/:id/status', roleMiddleware("RECRUITER"), async (req: Request, re
             logger.warn(`Forbidden: You cannot update applications created by other recruiters`);
             return res.status(403).json({ message: "Forbidden: You can only update applications for your own jobs." });
         }
+
+        if(application.status === "WITHDRAWN"){
+            logger.warn(`Status update rejected - applicationId: ${id} is withdrawn`);
+            return res.status(409).json({ message: "Application has been withdrawn" })
+        }
+
+        if(await jobHasPipeline(application.jobId)){
+            logger.warn(`Status update rejected for applicationId: ${id} - job ${application.jobId} uses a pipeline`);
+            return res.status(409).json({ message: "This job uses a hiring pipeline. Move the application to a stage instead." });
+        }
         logger.debug(`DB Query - Updating application status for applicationId: ${id}, with status ${status}`);
 
-        const updatedApplication = await prisma.application.update({
+        await changeApplicationStatus({ application, toStatus: status, actorId: userId, note });
+        const updatedApplication = await prisma.application.findUniqueOrThrow({
             where: {
                 id
             },
-            data: {
-                status
-            },
             include: {
                 job: true,
                 applicant: true
@@ -380,12 +489,17 @@ router.patch('/:id/status', roleMiddleware("RECRUITER"), async (req: Request, re
         logger.debug(`DB Result - status updated for applicationId: ${id}`);
 
         logger.info(`Application status updated successfully for applicationId: ${id}`);
+        await notifyApplicationStatusChange(id, application.status);
 
         return res.status(200).json({
             message: "Application status updated successfully",
             application: updatedApplication
         })
     } catch(err) {
+        if(isStatusConflict(err)){
+            logger.warn(`Status update rejected - applicationId: ${id} changed status concurrently`);
+            return res.status(409).json({ message: "Application status changed, reload and retry" })
+        }
         logger.error(`Error updating the application status of applicationId: ${id} - ${err instanceof Error ? err.message : "Unknown error"} - IP: ${req.ip}`);
         logger.debug(`Stack trace: ${err instanceof Error ? err.stack : "No stack trace"}`);
 
@@ -396,11 +510,219 @@ router.patch('/:id/status', roleMiddleware("RECRUITER"), async (req: Request, re
     }
 })
 
+const stageMoveBody = zod.object({
+    stageId: zod.uuid(),
+    note: zod.string().trim().max(1000).optional()
+})
+
+class MoveApplicationStageRequest {
+    static schema: SchemaObject = {
+        type: "object",
+        required: ["stageId"],
+        properties: {
+            stageId: { type: "string", format: "uuid", example: "stage-id-124" },
+            note: { type: "string", example: "Cleared the take-home, scheduling round 1" }
+        }
+    };
+}
+
+class MoveApplicationStageResponse {
+    static schema: SchemaObject = {
+        type: "object",
+        properties: {
+            message: { type: "string", example: "Application moved successfully" },
+            application: {
+                type: "object",
+                properties: {
+                    id: { type: "string", example: "application-id-123" },
+                    stageId: { type: "string", example: "stage-id-124" },
+                    status: { type: "string", example: "REVIEWED" }
+                }
+            },
+            move: stageMoveSchema
+        }
+    };
+}
+
+Documentation.addSchema()(MoveApplicationStageRequest)
+Documentation.addSchema()(MoveApplicationStageResponse)
+
+Documentation.addRoute({
+    path: "/applications/:id/stage",
+    method: Methods.post,
+    tags: ["Application - Recruiter"],
+    summary: "Move an application to another stage of the job's pipeline",
+    description: "Only the transitions configured on the current stage are allowed. Applications not yet in a stage can be placed in any stage. The application's status becomes the status mapped to the new stage.",
+    parameters: [
+        {
+            in: "path",
+            name: "id",
+            required: true,
+            schema: { type: "string", example: "application-id-123" }
+        }
+    ],
+    requestBody: MoveApplicationStageRequest.schema,
+    requestBodyDescription: "Target stage and an optional note",
+    responses: {
+        "200": {
+            description: "Application moved successfully",
+            value: MoveApplicationStageResponse.schema
+        },
+        "400": {
+            description: "Invalid input, or the stage belongs to another job",
+            value: { type: "object", properties: { message: { type: "string", example: "Invalid input" } } }
+        },
+        "401": {
+            description: "Unauthorized",
+            value: { type: "object", properties: { message: { type: "string", example: "Unauthorized" } } }
+        },
+        "403": {
+            description: "Forbidden: Recruiter cannot access this application",
+            value: { type: "object", properties: { message: { type: "string", example: "Forbidden: You can only update applications for your own jobs." } } }
+        },
+        "404": {
+            description: "Application or stage not found",
+            value: { type: "object", properties: { message: { type: "string", example: "Application not found" } } }
+        },
+        "409": {
+            description: "Transition not allowed from the current stage, the application is withdrawn or already decided, or it was moved concurrently",
+            value: {
+                type: "object",
+                properties: {
+                    message: { type: "string", example: "Cannot move from Screening to Offer" },
+                    allowedStageIds: { type: "array", items: { type: "string" }, example: ["stage-id-124"] }
+                }
+            }
+        },
+        "500": {
+            description: "Internal server error",
+            value: { type: "object", properties: { message: { type: "string", example: "Internal server error" }, error: { type: "string", example: "Unknown error" } } }
+        }
+    }
+})();
+
+router.post('/:id/stage', roleMiddleware("RECRUITER"), identityMiddleware, async (req: Request, res: Response) => {
+    const { id } = req.params;
+    const userId = req.user?.userId;
+    const recruiterId = req.user?.recruiterId;
+    logger.info(`POST /:id/stage - Moving applicationId: ${id}, RecruiterId: ${recruiterId}, IP: ${req.ip}`);
+
+    if(!userId || !recruiterId){
+        logger.warn(`Unauthorized access attempt - Missing recruiterId. IP: ${req.ip}`);
+        return res.status(401).json({ message: "Unauthorized" })
+    }
+
+    const response = stageMoveBody.safeParse(req.body);
+    if(!response.success){
+        logger.warn(`Validation failed for application stage move: ${JSON.stringify(req.body)}`);
+        return res.status(400).json({ message: "Invalid input" })
+    }
+    const { stageId, note } = response.data;
+
+    try {
+        logger.debug(`DB Query - Fetching application ${id} with its current stage`);
+        const application = await prisma.application.findUnique({
+            where: { id },
+            include: {
+                job: { select: { recruiterId: true } },
+                stage: {
+                    select: {
+                        id: true,
+                        name: true,
+                        transitionsFrom: { select: { toStageId: true } }
+                    }
+                }
+            }
+        })
+
+        if(!application){
+            logger.warn(`Application not found with applicationId: ${id}`);
+            return res.status(404).json({ message: "Application not found" })
+        }
+
+        if(application.job.recruiterId !== recruiterId){
+            logger.warn(`Forbidden: recruiterId ${recruiterId} tried to move applicationId ${id}`);
+            return res.status(403).json({ message: "Forbidden: You can only update applications for your own jobs." });
+        }
+
+        const toStage = await prisma.pipelineStage.findUnique({
+            where: { id: stageId },
+            select: { id: true, jobId: true, name: true, status: true }
+        })
+
+        if(!toStage){
+            logger.warn(`Pipeline stage not found - stageId: ${stageId}`);
+            return res.status(404).json({ message: "Stage not found" })
+        }
+
+        if(toStage.jobId !== application.jobId){
+            logger.warn(`Stage ${stageId} does not belong to job ${application.jobId} of applicationId: ${id}`);
+            return res.status(400).json({ message: "Stage does not belong to this job's pipeline" })
+        }
+
+        if(application.status === "WITHDRAWN"){
+            logger.warn(`Stage move rejected - applicationId: ${id} is withdrawn`);
+            return res.status(409).json({ message: "Application has been withdrawn" })
+        }
+
+        const { stage: fromStage } = application;
+        if(fromStage){
+            if(fromStage.id === toStage.id){
+                logger.warn(`Stage move rejected - applicationId: ${id} is already in stage ${toStage.name}`);
+                return res.status(409).json({ message: `Application is already in ${toStage.name}` })
+            }
+            const allowedStageIds = fromStage.transitionsFrom.map(transition => transition.toStageId);
+            if(!allowedStageIds.includes(toStage.id)){
+                logger.warn(`Stage move rejected - applicationId: ${id}, ${fromStage.name} -> ${toStage.name} is not an allowed transition`);
+                return res.status(409).json({
+                    message: `Cannot move from ${fromStage.name} to ${toStage.name}`,
+                    allowedStageIds
+                })
+            }
+        } else if(TERMINAL_STATUSES.includes(application.status)){
+            logger.warn(`Stage move rejected - applicationId: ${id} was already ${application.status} before the pipeline was set up`);
+            return res.status(409).json({ message: `Application has already been ${application.status.toLowerCase()}` })
+        }
+
+        logger.debug(`DB Write - Moving applicationId: ${id} from ${fromStage?.name ?? 'no stage'} to ${toStage.name}`);
+        const moved = await moveApplicationToStage({
+            application,
+            fromStage: fromStage && { id: fromStage.id, name: fromStage.name },
+            toStage,
+            actorId: userId,
+            note
+        })
+
+        if(!moved){
+            logger.warn(`Stage move rejected - applicationId: ${id} changed while moving it to ${toStage.name}`);
+            return res.status(409).json({ message: "Application was updated by someone else; reload and try again" })
+        }
+        const { application: updatedApplication, move } = moved;
+
+        logger.info(`Application ${id} moved to stage ${toStage.name} by userId: ${userId}`);
+        await notifyApplicationStatusChange(id, application.status);
+
+        return res.status(200).json({
+            message: "Application moved successfully",
+            application: updatedApplication,
+            move
+        })
+    } catch(err) {
+        logger.error(`Error moving applicationId: ${id} to stage ${stageId} - ${err instanceof Error ? err.message : "Unknown error"} - IP: ${req.ip}`);
+        logger.debug(`Stack trace: ${err instanceof Error ? err.stack : "No stack trace"}`);
+
+        return res.status(500).json({
+            message: "Internal server error",
+            error: err instanceof Error ? err.message : "Unknown error"
+        })
+    }
+})
+
 Documentation.addRoute({
     path: "/applications/:id/resume",
     method: Methods.get,
     tags: ["Application - Recruiter"],
-    summary: "Redirect to the applicant's resume URL for download/view",
+    summary: "Download the resume file attached to the application",
     parameters: [
         {
             in: "path",
@@ -411,9 +733,9 @@ Documentation.addRoute({
         }
     ],
     responses: {
-        "302": {
-            description: "Redirect to resume URL",
-            value: {}
+        "200": {
+            description: "Resume file stream",
+            value: { type: "string", format: "binary" }
         },
         "401": {
             description: "Unauthorized",
@@ -455,9 +777,9 @@ Documentation.addRoute({
     }
 })();
 
-router.get('/:id/resume', roleMiddleware("RECRUITER"), async (req: Request, res: Response) => {
+router.get('/:id/resume', roleMiddleware("RECRUITER"), identityMiddleware, async (req: Request, res: Response) => {
     const { id } = req.params;
-    const recruiterId = req.user?.userId;
+    const recruiterId = req.user?.recruiterId;
     logger.info(`GET /:id/resume - RecruiterId: ${recruiterId}, ApplicationId: ${id}, IP: ${req.ip}`);
 
     if (!recruiterId) {
@@ -470,11 +792,7 @@ router.get('/:id/resume', roleMiddleware("RECRUITER"), async (req: Request, res:
         const application = await prisma.application.findUnique({
             where: { id },
             include: {
-                applicant: {
-                    select: {
-                        resumeUrl: true
-                    }
-                },
+                resumeFile: true,
                 job: {
                     select: {
                         recruiterId: true
@@ -493,15 +811,13 @@ router.get('/:id/resume', roleMiddleware("RECRUITER"), async (req: Request, res:
             return res.status(403).json({ message: "Forbidden" });
         }
 
-        const resumeUrl = application.applicant.resumeUrl;
-
-        if (!resumeUrl) {
+        if (!application.resumeFile) {
             logger.warn(`Resume not found - ApplicationId: ${id}`);
             return res.status(404).json({ message: "Resume not found for this applicant." });
         }
 
-        logger.info(`Redirecting to resume URL for applicationId: ${id}`);
-        return res.redirect(resumeUrl);
+        logger.info(`Streaming resume ${application.resumeFile.id} for applicationId: ${id}`);
+        await streamResume(res, application.resumeFile);
 
     } catch (err) {
         logger.error(`Error fetching resume for applicationId: ${id} - ${err instanceof Error ? err.message : "Unknown error"} - IP: ${req.ip}`);
@@ -0,0 +1,398 @@
+import express, { Request, Response } from 'express';
+import roleMiddleware from '../../middleware/roleMiddleware';
+import identityMiddleware from '../../middleware/identityMiddleware';
+const router = express.Router();
+import zod from 'zod';
+import { InterviewMode, Prisma, PrismaClient } from '@prisma/client';
+import { Documentation, Methods, SchemaObject } from '../../docs/documentation';
+import logger from '../../utils/logger';
+import { buildPage, paginationParameters, paginationSchema, parsePagination } from '../../utils/pagination';
+import { isValidTimeZone } from '../../utils/timezone';
+import {
+    availabilitySlotSchema,
+    findOverlappingSlots,
+    MAX_SLOTS_PER_WINDOW,
+    splitWindow,
+    withLocalTimes
+} from '../../services/availabilityService';
+const prisma = new PrismaClient();
+
+const availabilityWindowBody = zod.object({
+    startsAt: zod.iso.datetime({ offset: true }).transform(value => new Date(value)),
+    endsAt: zod.iso.datetime({ offset: true }).transform(value => new Date(value)),
+    timezone: zod.string().trim().min(1),
+    slotMinutes: zod.number().int().min(15).max(240).default(60),
+    mode: zod.enum(InterviewMode),
+    location: zod.string().trim().min(1).max(500).optional(),
+    meetingLink: zod.url().optional(),
+    jobId: zod.uuid().optional()
+}).refine(data => data.mode !== "ONSITE" || !!data.location, {
+    message: "location is required for onsite interviews",
+    path: ["location"]
+}).refine(data => data.mode !== "VIDEO" || !!data.meetingLink, {
+    message: "meetingLink is required for video interviews",
+    path: ["meetingLink"]
+})
+
+class PublishAvailabilityRequest {
+    static schema: SchemaObject = {
+        type: "object",
+        required: ["startsAt", "endsAt", "timezone", "mode"],
+        properties: {
+            startsAt: { type: "string", format: "date-time", example: "2026-10-21T14:00:00+05:30", description: "ISO 8601 with an offset" },
+            endsAt: { type: "string", format: "date-time", example: "2026-10-21T18:00:00+05:30" },
+            timezone: { type: "string", example: "Asia/Kolkata", description: "IANA zone the window is published in" },
+            slotMinutes: { type: "integer", example: 60, description: "Length of each slot, 15-240 minutes (default 60)" },
+            mode: { type: "string", enum: Object.values(InterviewMode), example: "VIDEO" },
+            location: { type: "string", example: "4th floor, Acme HQ, Bangalore", description: "Required for ONSITE" },
+            meetingLink: { type: "string", example: "https://meet.example.com/abc-defg-hij", description: "Required for VIDEO" },
+            jobId: { type: "string", format: "uuid", description: "Offer the slots to applicants of this job only" }
+        }
+    }
+}
+
+class AvailabilitySlotsResponse {
+    static schema: SchemaObject = {
+        type: "object",
+        properties: {
+            message: { type: "string", example: "Availability published successfully" },
+            slots: {
+                type: "array",
+                items: {
+                    ...availabilitySlotSchema,
+                    properties: {
+                        ...availabilitySlotSchema.properties,
+                        interview: {
+                            type: "object",
+                            nullable: true,
+                            description: "Booking holding the slot, null while it is open",
+                            properties: {
+                                id: { type: "string", example: "interview-id-123" },
+                                status: { type: "string", example: "CONFIRMED" },
+                                applicationId: { type: "string", example: "application-id-456" },
+                                applicantName: { type: "string", example: "John Doe" }
+                            }
+                        }
+                    }
+                }
+            },
+            pagination: paginationSchema
+        }
+    }
+}
+
+Documentation.addSchema()(PublishAvailabilityRequest)
+Documentation.addSchema()(AvailabilitySlotsResponse)
+
+Documentation.addRoute({
+    path: "/availability",
+    method: Methods.post,
+    tags: ["Availability - Recruiter"],
+    summary: "Publish an availability window as bookable interview slots",
+    description: `The window is split into back-to-back slots of slotMinutes (at most ${MAX_SLOTS_PER_WINDOW} per window). Windows cannot overlap slots already published.`,
+    requestBody: PublishAvailabilityRequest.schema,
+    requestBodyDescription: "Availability window",
+    responses: {
+        "201": {
+            description: "Availability published successfully",
+            value: AvailabilitySlotsResponse.schema
+        },
+        "400": {
+            description: "Invalid input, unknown time zone, a window in the past, or a window too short or too long",
+            value: { type: "object", properties: { message: { type: "string", example: "The window is shorter than one slot" } } }
+        },
+        "401": {
+            description: "Unauthorized",
+            value: { type: "object", properties: { message: { type: "string", example: "Unauthorized" } } }
+        },
+        "404": {
+            description: "Job not found among the recruiter's jobs",
+            value: { type: "object", properties: { message: { type: "string", example: "Job not found" } } }
+        },
+        "409": {
+            description: "Window overlaps slots that are already published",
+            value: {
+                type: "object",
+                properties: {
+                    message: { type: "string", example: "Window overlaps existing availability" },
+                    overlapping: { type: "array", items: { type: "object", properties: { id: { type: "string" }, startsAt: { type: "string", format: "date-time" }, endsAt: { type: "string", format: "date-time" } } } }
+                }
+            }
+        },
+        "500": {
+            description: "Internal server error",
+            value: { type: "object", properties: { message: { type: "string", example: "Internal server error" }, error: { type: "string", example: "Unknown error" } } }
+        }
+    }
+})();
+
+router.post('/', roleMiddleware("RECRUITER"), identityMiddleware, async (req: Request, res: Response) => {
+    const recruiterId = req.user?.recruiterId;
+    logger.info(`POST /availability - RecruiterId: ${recruiterId}, IP: ${req.ip}`);
+
+    if (!recruiterId) {
+        logger.warn(`Unauthorized access attempt - Missing recruiterId. IP: ${req.ip}`);
+        return res.status(401).json({ message: "Unauthorized" });
+    }
+
+    const response = availabilityWindowBody.safeParse(req.body);
+    if (!response.success) {
+        logger.warn(`Validation failed for availability window - RecruiterId: ${recruiterId}, Errors: ${JSON.stringify(response.error)}`);
+        return res.status(400).json({ message: "Invalid input", errors: response.error });
+    }
+    const { startsAt, endsAt, slotMinutes, ...slotFields } = response.data;
+
+    if (!isValidTimeZone(slotFields.timezone)) {
+        logger.warn(`Unknown time zone for availability window: ${slotFields.timezone}`);
+        return res.status(400).json({ message: `Unknown time zone: ${slotFields.timezone}` });
+    }
+    if (startsAt <= new Date()) {
+        logger.warn(`Availability window in the past - RecruiterId: ${recruiterId}`);
+        return res.status(400).json({ message: "Availability must start in the future" });
+    }
+    const windows = splitWindow(startsAt, endsAt, slotMinutes);
+    if (!windows.length) {
+        logger.warn(`Availability window shorter than one slot - RecruiterId: ${recruiterId}`);
+        return res.status(400).json({ message: "The window is shorter than one slot" });
+    }
+    if (windows.length > MAX_SLOTS_PER_WINDOW) {
+        logger.warn(`Availability window too long (${windows.length} slots) - RecruiterId: ${recruiterId}`);
+        return res.status(400).json({ message: `A window can hold at most ${MAX_SLOTS_PER_WINDOW} slots` });
+    }
+
+    try {
+        if (slotFields.jobId) {
+            const job = await prisma.job.findFirst({ where: { id: slotFields.jobId, recruiterId }, select: { id: true } });
+            if (!job) {
+                logger.warn(`Job ${slotFields.jobId} not found for recruiterId: ${recruiterId}`);
+                return res.status(404).json({ message: "Job not found" });
+            }
+        }
+
+        const overlapping = await findOverlappingSlots(recruiterId, startsAt, endsAt);
+        if (overlapping.length) {
+            logger.warn(`Availability window overlaps ${overlapping.length} slots - RecruiterId: ${recruiterId}`);
+            return res.status(409).json({ message: "Window overlaps existing availability", overlapping });
+        }
+
+        logger.debug(`DB Insert - Creating ${windows.length} availability slots for recruiterId: ${recruiterId}`);
+        const slots = await prisma.availabilitySlot.createManyAndReturn({
+            data: windows.map(window => ({ ...slotFields, ...window, recruiterId }))
+        });
+        logger.info(`Published ${slots.length} availability slots for recruiterId: ${recruiterId}`);
+
+        return res.status(201).json({
+            message: "Availability published successfully",
+            slots: slots
+                .sort((a, b) => a.startsAt.getTime() - b.startsAt.getTime())
+                .map(slot => ({ ...withLocalTimes(slot), interview: null }))
+        });
+    } catch (err) {
+        logger.error(`Error publishing availability for recruiterId: ${recruiterId} - ${err instanceof Error ? err.message : "Unknown error"} - IP: ${req.ip}`);
+        logger.debug(`Stack trace: ${err instanceof Error ? err.stack : "No stack trace"}`);
+        return res.status(500).json({
+            message: "Internal server error",
+            error: err instanceof Error ? err.message : "Unknown error"
+        })
+    }
+})
+
+Documentation.addRoute({
+    path: "/availability",
+    method: Methods.get,
+    tags: ["Availability - Recruiter"],
+    summary: "List the recruiter's availability slots and their bookings",
+    description: "Upcoming slots by default, soonest first. Only page pagination is supported.",
+    parameters: [
+        {
+            in: "query",
+            name: "timezone",
+            required: false,
+            schema: { type: "string", example: "Asia/Kolkata" },
+            description: "IANA zone for startsAtLocal/endsAtLocal. Defaults to each slot's own zone."
+        },
+        {
+            in: "query",
+            name: "includePast",
+            required: false,
+            schema: { type: "boolean", example: false }
+        },
+        ...paginationParameters
+    ],
+    responses: {
+        "200": {
+            description: "Availability fetched successfully",
+            value: AvailabilitySlotsResponse.schema
+        },
+        "400": {
+            description: "Unknown time zone, or cursor pagination requested",
+            value: { type: "object", properties: { message: { type: "string", example: "Unknown time zone: Mars/Olympus" } } }
+        },
+        "401": {
+            description: "Unauthorized",
+            value: { type: "object", properties: { message: { type: "string", example: "Unauthorized" } } }
+        },
+        "500": {
+            description: "Internal server error",
+            value: { type: "object", properties: { message: { type: "string", example: "Internal server error" }, error: { type: "string", example: "Unknown error" } } }
+        }
+    }
+})();
+
+router.get('/', roleMiddleware("RECRUITER"), identityMiddleware, async (req: Request, res: Response) => {
+    const recruiterId = req.user?.recruiterId;
+    logger.info(`GET /availability - RecruiterId: ${recruiterId}, IP: ${req.ip}`);
+
+    if (!recruiterId) {
+        logger.warn(`Unauthorized access attempt - Missing recruiterId. IP: ${req.ip}`);
+        return res.status(401).json({ message: "Unauthorized" });
+    }
+
+    const timezone = typeof req.query.timezone === 'string' ? req.query.timezone : undefined;
+    if (timezone && !isValidTimeZone(timezone)) {
+        logger.warn(`Unknown time zone requested: ${timezone}`);
+        return res.status(400).json({ message: `Unknown time zone: ${timezone}` });
+    }
+
+    const paginationResult = parsePagination(req.query);
+    if (!paginationResult.success) {
+        logger.warn(`Invalid pagination for /availability - ${paginationResult.message}`);
+        return res.status(400).json({ message: paginationResult.message });
+    }
+    const pagination = paginationResult.data;
+    if (pagination.cursor) {
+        logger.warn(`Cursor pagination requested for /availability - RecruiterId: ${recruiterId}`);
+        return res.status(400).json({ message: "Cursor pagination is not available for availability; use page" });
+    }
+
+    const where: Prisma.AvailabilitySlotWhereInput = {
+        recruiterId,
+        ...(req.query.includePast === 'true' ? {} : { startsAt: { gt: new Date() } })
+    };
+
+    try {
+        const [rows, total] = await Promise.all([
+            prisma.availabilitySlot.findMany({
+                where,
+                orderBy: [{ startsAt: 'asc' }, { id: 'asc' }],
+                skip: pagination.skip,
+                take: pagination.limit + 1,
+                include: {
+                    interview: {
+                        select: {
+                            id: true,
+                            status: true,
+                            applicationId: true,
+                            application: { select: { applicant: { select: { user: { select: { name: true } } } } } }
+                        }
+                    }
+                }
+            }),
+            prisma.availabilitySlot.count({ where })
+        ]);
+        const { items, pagination: pageInfo } = buildPage(rows, pagination, total);
+        pageInfo.nextCursor = null;
+        logger.info(`Fetched ${items.length} availability slots for recruiterId: ${recruiterId}`);
+
+        return res.status(200).json({
+            message: "Availability fetched successfully",
+            slots: items.map(({ interview, ...slot }) => ({
+                ...withLocalTimes(slot, timezone),
+                interview: interview && {
+                    id: interview.id,
+                    status: interview.status,
+                    applicationId: interview.applicationId,
+                    applicantName: interview.application.applicant.user.name
+                }
+            })),
+            pagination: pageInfo
+        });
+    } catch (err) {
+        logger.error(`Error fetching availability for recruiterId: ${recruiterId} - ${err instanceof Error ? err.message : "Unknown error"} - IP: ${req.ip}`);
+        logger.debug(`Stack trace: ${err instanceof Error ? err.stack : "No stack trace"}`);
+        return res.status(500).json({
+            message: "Internal server error",
+            error: err instanceof Error ? err.message : "Unknown error"
+        })
+    }
+})
+
+Documentation.addRoute({
+    path: "/availability/:id",
+    method: Methods.delete,
+    tags: ["Availability - Recruiter"],
+    summary: "Remove an open availability slot",
+    description: "Booked slots cannot be removed; cancel the interview first.",
+    parameters: [
+        {
+            in: "path",
+            name: "id",
+            required: true,
+            schema: { type: "string", example: "slot-id-123" }
+        }
+    ],
+    responses: {
+        "200": {
+            description: "Slot removed successfully",
+            value: { type: "object", properties: { message: { type: "string", example: "Slot removed successfully" } } }
+        },
+        "401": {
+            description: "Unauthorized",
+            value: { type: "object", properties: { message: { type: "string", example: "Unauthorized" } } }
+        },
+        "404": {
+            description: "Slot not found among the recruiter's slots",
+            value: { type: "object", properties: { message: { type: "string", example: "Slot not found" } } }
+        },
+        "409": {
+            description: "Slot is booked",
+            value: { type: "object", properties: { message: { type: "string", example: "Slot is booked; cancel the interview first" } } }
+        },
+        "500": {
+            description: "Internal server error",
+            value: { type: "object", properties: { message: { type: "string", example: "Internal server error" }, error: { type: "string", example: "Unknown error" } } }
+        }
+    }
+})();
+
+router.delete('/:id', roleMiddleware("RECRUITER"), identityMiddleware, async (req: Request, res: Response) => {
+    const { id } = req.params;
+    const recruiterId = req.user?.recruiterId;
+    logger.info(`DELETE /availability/${id} - RecruiterId: ${recruiterId}, IP: ${req.ip}`);
+
+    if (!recruiterId) {
+        logger.warn(`Unauthorized access attempt - Missing recruiterId. IP: ${req.ip}`);
+        return res.status(401).json({ message: "Unauthorized" });
+    }
+
+    try {
+        const slot = await prisma.availabilitySlot.findFirst({
+            where: { id, recruiterId },
+            select: { id: true, interview: { select: { id: true } } }
+        });
+
+        if (!slot) {
+            logger.warn(`Slot ${id} not found for recruiterId: ${recruiterId}`);
+            return res.status(404).json({ message: "Slot not found" });
+        }
+
+        if (slot.interview) {
+            logger.warn(`Slot ${id} is booked by interview ${slot.interview.id} - not removing`);
+            return res.status(409).json({ message: "Slot is booked; cancel the interview first" });
+        }
+
+        await prisma.availabilitySlot.delete({ where: { id } });
+        logger.info(`Slot ${id} removed by recruiterId: ${recruiterId}`);
+
+        return res.status(200).json({ message: "Slot removed successfully" });
+    } catch (err) {
+        logger.error(`Error removing slot ${id} - ${err instanceof Error ? err.message : "Unknown error"} - IP: ${req.ip}`);
+        logger.debug(`Stack trace: ${err instanceof Error ? err.stack : "No stack trace"}`);
+        return res.status(500).json({
+            message: "Internal server error",
+            error: err instanceof Error ? err.message : "Unknown error"
+        })
+    }
+})
+
+export default router;
@@ -1,5 +1,6 @@
 import express, { Request, Response } from 'express';
 import roleMiddleware from '../../middleware/roleMiddleware';
+import identityMiddleware from '../../middleware/identityMiddleware';
 const router = express.Router();
 import zod from 'zod';
 import { PrismaClient } from '@prisma/client';
@@ -8,6 +9,7 @@ import logger from '../../utils/logger';
 const prisma = new PrismaClient();
 
 router.use(roleMiddleware('RECRUITER'))
+router.use(identityMiddleware)
 
 const companyBody = zod.object({
     name: zod.string(),
@@ -96,7 +98,7 @@ Documentation.addRoute({
 })();
 
 router.post('/', async (req: Request, res: Response) => {
-  const recruiterId = req.user?.userId;
+  const recruiterId = req.user?.recruiterId;
   logger.info(`POST / - Attempting to create company - RecruiterId: ${recruiterId}, IP: ${req.ip}`);
 
   if (!recruiterId) {
@@ -227,7 +229,7 @@ Documentation.addRoute({
 
 router.post('/join', async (req, res) => {
   const { companyId } = req.body;
-  const recruiterId = req.user?.userId;
+  const recruiterId = req.user?.recruiterId;
   logger.info(`POST /join - RecruiterId: ${recruiterId}, CompanyId: ${companyId}, IP: ${req.ip}`);
   if(!recruiterId){
     logger.warn(`Unauthorized access attempt to /join - Missing recruiterId. IP: ${req.ip}`);
@@ -367,7 +369,7 @@ Documentation.addRoute({
 })();
 
 router.get('/me', async (req: Request, res: Response) => {
-  const recruiterId = req.user?.userId;
+  const recruiterId = req.user?.recruiterId;
   logger.info(`GET /me - RecruiterId: ${recruiterId}, IP: ${req.ip}`);
 
   if (!recruiterId) {
@@ -537,7 +539,7 @@ Documentation.addRoute({
 })();
 
 router.put('/:companyId', async (req: Request, res: Response) => {
-  const recruiterId = req.user?.userId;
+  const recruiterId = req.user?.recruiterId;
   const { companyId } = req.params;
 
   logger.info(`PUT /:companyId - Attempting to update company - CompanyId: ${companyId}, RecruiterId: ${recruiterId}, IP: ${req.ip}`);
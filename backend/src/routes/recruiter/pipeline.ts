@@ -0,0 +1,276 @@
+import express, { Request, Response } from 'express';
+import roleMiddleware from '../../middleware/roleMiddleware';
+import identityMiddleware from '../../middleware/identityMiddleware';
+const router = express.Router();
+import zod from 'zod';
+import { PrismaClient } from '@prisma/client';
+import { Documentation, Methods, SchemaObject } from '../../docs/documentation';
+import logger from '../../utils/logger';
+import { findBlockedStageChanges, getPipeline, savePipeline, STAGE_STATUSES, validatePipeline } from '../../services/pipelineService';
+const prisma = new PrismaClient();
+
+const pipelineBody = zod.object({
+    stages: zod.array(zod.object({
+        name: zod.string().trim().min(1).max(100),
+        status: zod.enum(STAGE_STATUSES),
+        next: zod.array(zod.string().trim().min(1)).optional()
+    })).max(20)
+})
+
+class PipelineStageSchema {
+    static schema: SchemaObject = {
+        type: "object",
+        properties: {
+            id: { type: "string", example: "stage-id-123" },
+            jobId: { type: "string", example: "job-id-456" },
+            name: { type: "string", example: "Tech Round 1" },
+            position: { type: "integer", example: 1 },
+            status: { type: "string", enum: [...STAGE_STATUSES], example: "REVIEWED", description: "Status shown on applications in this stage" },
+            isTerminal: { type: "boolean", example: false },
+            nextStageIds: { type: "array", items: { type: "string" }, example: ["stage-id-124", "stage-id-130"] },
+            applicationCount: { type: "integer", example: 4 },
+            createdAt: { type: "string", format: "date-time" },
+            updatedAt: { type: "string", format: "date-time" }
+        }
+    }
+}
+
+class GetPipelineResponse {
+    static schema: SchemaObject = {
+        type: "object",
+        properties: {
+            message: { type: "string", example: "Pipeline fetched successfully" },
+            stages: { type: "array", items: PipelineStageSchema.schema }
+        }
+    }
+}
+
+class SavePipelineRequest {
+    static schema: SchemaObject = {
+        type: "object",
+        required: ["stages"],
+        properties: {
+            stages: {
+                type: "array",
+                description: "Stages in order. New applications enter the first stage. An empty list removes the pipeline.",
+                items: {
+                    type: "object",
+                    required: ["name", "status"],
+                    properties: {
+                        name: { type: "string", example: "Screening" },
+                        status: { type: "string", enum: [...STAGE_STATUSES], example: "REVIEWED" },
+                        next: {
+                            type: "array",
+                            items: { type: "string" },
+                            example: ["Tech Round 1", "Rejected"],
+                            description: "Names of the stages applications can move to from this one. Defaults to the following stage plus every REJECTED stage. Not allowed on ACCEPTED or REJECTED stages."
+                        }
+                    }
+                },
+                example: [
+                    { name: "Screening", status: "PENDING" },
+                    { name: "Tech Round 1", status: "REVIEWED" },
+                    { name: "Tech Round 2", status: "REVIEWED" },
+                    { name: "HR", status: "REVIEWED" },
+                    { name: "Offer", status: "ACCEPTED" },
+                    { name: "Rejected", status: "REJECTED" }
+                ]
+            }
+        }
+    }
+}
+
+Documentation.addSchema()(PipelineStageSchema)
+Documentation.addSchema()(GetPipelineResponse)
+Documentation.addSchema()(SavePipelineRequest)
+
+async function findOwnedJob(jobId: string, recruiterId: string) {
+    const job = await prisma.job.findUnique({ where: { id: jobId }, select: { recruiterId: true } });
+    if (!job) return { status: 404, message: "Job not found" } as const;
+    if (job.recruiterId !== recruiterId) return { status: 403, message: "Forbidden: You can only manage the pipeline of your own jobs." } as const;
+    return null;
+}
+
+Documentation.addRoute({
+    path: "/jobs/:jobId/pipeline",
+    method: Methods.get,
+    tags: ["Pipeline - Recruiter"],
+    summary: "Get the hiring pipeline stages of a job",
+    parameters: [
+        {
+            in: "path",
+            name: "jobId",
+            required: true,
+            schema: { type: "string", example: "job-id-456" }
+        }
+    ],
+    responses: {
+        "200": {
+            description: "Pipeline fetched successfully. Jobs without a pipeline return an empty list.",
+            value: GetPipelineResponse.schema
+        },
+        "401": {
+            description: "Unauthorized",
+            value: { type: "object", properties: { message: { type: "string", example: "Unauthorized" } } }
+        },
+        "403": {
+            description: "Job belongs to another recruiter",
+            value: { type: "object", properties: { message: { type: "string", example: "Forbidden: You can only manage the pipeline of your own jobs." } } }
+        },
+        "404": {
+            description: "Job not found",
+            value: { type: "object", properties: { message: { type: "string", example: "Job not found" } } }
+        },
+        "500": {
+            description: "Internal server error",
+            value: { type: "object", properties: { message: { type: "string", example: "Internal server error" }, error: { type: "string", example: "Unknown error" } } }
+        }
+    }
+})();
+
+router.get('/:jobId/pipeline', roleMiddleware("RECRUITER"), identityMiddleware, async (req: Request, res: Response) => {
+    const { jobId } = req.params;
+    const recruiterId = req.user?.recruiterId;
+    logger.info(`GET /${jobId}/pipeline - RecruiterId: ${recruiterId}, IP: ${req.ip}`);
+
+    if (!recruiterId) {
+        logger.warn(`Unauthorized access attempt - Missing recruiterId. IP: ${req.ip}`);
+        return res.status(401).json({ message: "Unauthorized" });
+    }
+
+    try {
+        const denied = await findOwnedJob(jobId, recruiterId);
+        if (denied) {
+            logger.warn(`Pipeline fetch denied for jobId: ${jobId}, recruiterId: ${recruiterId} - ${denied.message}`);
+            return res.status(denied.status).json({ message: denied.message });
+        }
+
+        const stages = await getPipeline(jobId);
+        logger.info(`Pipeline fetched for jobId: ${jobId} - ${stages.length} stages`);
+
+        return res.status(200).json({
+            message: "Pipeline fetched successfully",
+            stages
+        });
+    } catch (err) {
+        logger.error(`Error fetching pipeline for jobId: ${jobId} - ${err instanceof Error ? err.message : "Unknown error"} - IP: ${req.ip}`);
+        logger.debug(`Stack trace: ${err instanceof Error ? err.stack : "No stack trace"}`);
+        return res.status(500).json({
+            message: "Internal server error",
+            error: err instanceof Error ? err.message : "Unknown error"
+        })
+    }
+})
+
+Documentation.addRoute({
+    path: "/jobs/:jobId/pipeline",
+    method: Methods.put,
+    tags: ["Pipeline - Recruiter"],
+    summary: "Create or replace the hiring pipeline of a job",
+    description: "Existing stages are matched by name, so applications keep their stage. Stages that still hold applications cannot be removed or mapped to a different status.",
+    parameters: [
+        {
+            in: "path",
+            name: "jobId",
+            required: true,
+            schema: { type: "string", example: "job-id-456" }
+        }
+    ],
+    requestBody: SavePipelineRequest.schema,
+    requestBodyDescription: "Ordered list of pipeline stages",
+    responses: {
+        "200": {
+            description: "Pipeline saved successfully",
+            value: GetPipelineResponse.schema
+        },
+        "400": {
+            description: "Invalid input or invalid stage graph",
+            value: { type: "object", properties: { message: { type: "string", example: "Stage Screening lists unknown next stage: Phone Screen" } } }
+        },
+        "401": {
+            description: "Unauthorized",
+            value: { type: "object", properties: { message: { type: "string", example: "Unauthorized" } } }
+        },
+        "403": {
+            description: "Job belongs to another recruiter",
+            value: { type: "object", properties: { message: { type: "string", example: "Forbidden: You can only manage the pipeline of your own jobs." } } }
+        },
+        "404": {
+            description: "Job not found",
+            value: { type: "object", properties: { message: { type: "string", example: "Job not found" } } }
+        },
+        "409": {
+            description: "A stage that still holds applications would be removed or change status",
+            value: {
+                type: "object",
+                properties: {
+                    message: { type: "string", example: "Move applications out of these stages before removing them or changing their status" },
+                    stages: { type: "array", items: { type: "string" }, example: ["Tech Round 2"] }
+                }
+            }
+        },
+        "500": {
+            description: "Internal server error",
+            value: { type: "object", properties: { message: { type: "string", example: "Internal server error" }, error: { type: "string", example: "Unknown error" } } }
+        }
+    }
+})();
+
+router.put('/:jobId/pipeline', roleMiddleware("RECRUITER"), identityMiddleware, async (req: Request, res: Response) => {
+    const { jobId } = req.params;
+    const recruiterId = req.user?.recruiterId;
+    logger.info(`PUT /${jobId}/pipeline - RecruiterId: ${recruiterId}, IP: ${req.ip}`);
+
+    if (!recruiterId) {
+        logger.warn(`Unauthorized access attempt - Missing recruiterId. IP: ${req.ip}`);
+        return res.status(401).json({ message: "Unauthorized" });
+    }
+
+    const response = pipelineBody.safeParse(req.body);
+    if (!response.success) {
+        logger.warn(`Validation failed for pipeline of jobId: ${jobId} - ${JSON.stringify(req.body)}`);
+        return res.status(400).json({ message: "Invalid input" });
+    }
+    const { stages } = response.data;
+
+    const invalid = validatePipeline(stages);
+    if (invalid) {
+        logger.warn(`Invalid pipeline for jobId: ${jobId} - ${invalid}`);
+        return res.status(400).json({ message: invalid });
+    }
+
+    try {
+        const denied = await findOwnedJob(jobId, recruiterId);
+        if (denied) {
+            logger.warn(`Pipeline update denied for jobId: ${jobId}, recruiterId: ${recruiterId} - ${denied.message}`);
+            return res.status(denied.status).json({ message: denied.message });
+        }
+
+        const blocked = await findBlockedStageChanges(jobId, stages);
+        if (blocked.length) {
+            logger.warn(`Pipeline update for jobId: ${jobId} would strand applications in stages: ${blocked.join(', ')}`);
+            return res.status(409).json({
+                message: "Move applications out of these stages before removing them or changing their status",
+                stages: blocked
+            });
+        }
+
+        logger.debug(`DB Write - Saving ${stages.length} pipeline stages for jobId: ${jobId}`);
+        const saved = await savePipeline(jobId, stages);
+        logger.info(`Pipeline saved for jobId: ${jobId} - ${saved.length} stages`);
+
+        return res.status(200).json({
+            message: "Pipeline saved successfully",
+            stages: saved
+        });
+    } catch (err) {
+        logger.error(`Error saving pipeline for jobId: ${jobId} - ${err instanceof Error ? err.message : "Unknown error"} - IP: ${req.ip}`);
+        logger.debug(`Stack trace: ${err instanceof Error ? err.stack : "No stack trace"}`);
+        return res.status(500).json({
+            message: "Internal server error",
+            error: err instanceof Error ? err.message : "Unknown error"
+        })
+    }
+})
+
+export default router;
@@ -1,11 +1,128 @@
 import express, { Request, Response } from 'express';
+import zod from 'zod';
 import roleMiddleware from '../../middleware/roleMiddleware';
+import identityMiddleware from '../../middleware/identityMiddleware';
 const router = express.Router();
-import { PrismaClient } from '@prisma/client';
+import { Availability, Currency, PreferredRole, Prisma, PrismaClient } from '@prisma/client';
 import { Documentation, Methods, SchemaObject } from '../../docs/documentation';
 import logger from '../../utils/logger';
+import { buildPage, pageArgs, paginationParameters, paginationSchema, parsePagination } from '../../utils/pagination';
+import { convertCurrency } from '../../utils/currency';
+import { seekerUserSelect } from '../../services/seekerVisibilityService';
 const prisma = new PrismaClient();
 
+// Ranking by matching skills happens in memory, so only this many of the
+// newest applicants matching the filters are ranked.
+const MAX_RANKED_APPLICANTS = 1000;
+
+const commaSeparated = <T extends zod.ZodType<unknown, string>>(item: T) => zod.string()
+  .transform(value => value.split(',').map(part => part.trim()).filter(Boolean))
+  .pipe(zod.array(item));
+
+const seekerSearchQuery = zod.object({
+  skills: commaSeparated(zod.string()).optional(),
+  q: zod.string().trim().min(1).max(200).optional(),
+  minExperience: zod.coerce.number().int().min(0).optional(),
+  maxExperience: zod.coerce.number().int().min(0).optional(),
+  location: zod.string().trim().min(1).optional(),
+  availability: commaSeparated(zod.enum(Availability)).optional(),
+  preferredRole: commaSeparated(zod.enum(PreferredRole)).optional(),
+  maxExpectedSalary: zod.coerce.number().nonnegative().optional(),
+  currency: zod.enum(Currency).default(Currency.INR),
+  willingToRelocate: zod.enum(["true", "false"]).transform(value => value === "true").optional(),
+  degree: zod.string().trim().min(1).optional(),
+  school: zod.string().trim().min(1).optional(),
+  sortBy: zod.enum(["skills", "newest"]).optional(),
+}).refine(data => data.minExperience === undefined || data.maxExperience === undefined || data.minExperience <= data.maxExperience, {
+  message: "maxExperience must be greater than or equal to minExperience",
+  path: ["maxExperience"],
+})
+
+type SeekerSearchQuery = zod.infer<typeof seekerSearchQuery>;
+
+const containsInsensitive = (value: string) => ({ contains: value, mode: 'insensitive' as const });
+
+function buildSeekerWhere(filters: SeekerSearchQuery): Prisma.ApplicantWhereInput {
+  const conditions: Prisma.ApplicantWhereInput[] = [];
+
+  if (filters.skills?.length) {
+    conditions.push({ skills: { hasSome: filters.skills } });
+  }
+  if (filters.minExperience !== undefined || filters.maxExperience !== undefined) {
+    conditions.push({ yearsOfExperience: { gte: filters.minExperience, lte: filters.maxExperience } });
+  }
+  if (filters.location) {
+    conditions.push({
+      OR: [
+        { location: containsInsensitive(filters.location) },
+        { preferredLocations: { has: filters.location } }
+      ]
+    });
+  }
+  if (filters.availability?.length) {
+    conditions.push({ availability: { in: filters.availability } });
+  }
+  if (filters.preferredRole?.length) {
+    conditions.push({ preferredRole: { in: filters.preferredRole } });
+  }
+  if (filters.maxExpectedSalary !== undefined) {
+    // Expectations are stored in the applicant's own currency, so the ceiling
+    // is converted into each currency before comparing.
+    const ceiling = filters.maxExpectedSalary;
+    conditions.push({
+      OR: Object.values(Currency).map(currency => ({
+        salaryCurrency: currency,
+        expectedSalary: { lte: convertCurrency(ceiling, filters.currency, currency) }
+      }))
+    });
+  }
+  if (filters.willingToRelocate !== undefined) {
+    conditions.push({ isWillingToRelocate: filters.willingToRelocate });
+  }
+  if (filters.degree || filters.school) {
+    conditions.push({
+      education: {
+        some: {
+          ...(filters.degree ? { OR: [{ degree: containsInsensitive(filters.degree) }, { fieldOfStudy: containsInsensitive(filters.degree) }] } : {}),
+          ...(filters.school ? { schoolName: containsInsensitive(filters.school) } : {}),
+        }
+      }
+    });
+  }
+  if (filters.q) {
+    // Every word has to appear in the bio or achievements.
+    const terms = filters.q.split(/\s+/).slice(0, 10);
+    conditions.push(...terms.map(term => ({
+      OR: [
+        { bio: containsInsensitive(term) },
+        { achievements: containsInsensitive(term) }
+      ]
+    })));
+  }
+
+  return { AND: conditions };
+}
+
+const countMatchingSkills = (applicantSkills: string[], skills: string[]) => {
+  const wanted = new Set(skills.map(skill => skill.toLowerCase()));
+  return applicantSkills.filter(skill => wanted.has(skill.toLowerCase())).length;
+};
+
+const seekerSelect = {
+  id: true,
+  createdAt: true,
+  skills: true,
+  location: true,
+  yearsOfExperience: true,
+  availability: true,
+  preferredRole: true,
+  preferredLocations: true,
+  isWillingToRelocate: true,
+  user: {
+    select: seekerUserSelect(false)
+  }
+} satisfies Prisma.ApplicantSelect;
+
 class GetJobSeekersResponse {
   static schema: SchemaObject = {
     type: "object",
@@ -24,6 +141,13 @@ class GetJobSeekersResponse {
               type: "array",
               items: { type: "string", example: "JavaScript" }
             },
+            location: { type: "string", nullable: true, example: "Bangalore, India" },
+            yearsOfExperience: { type: "integer", nullable: true, example: 4 },
+            availability: { type: "string", enum: Object.values(Availability), nullable: true, example: "TWO_WEEKS" },
+            preferredRole: { type: "string", enum: Object.values(PreferredRole), nullable: true, example: "FULL_TIME" },
+            preferredLocations: { type: "array", items: { type: "string" }, example: ["Bangalore", "Pune"] },
+            isWillingToRelocate: { type: "boolean", nullable: true, example: true },
+            matchingSkills: { type: "integer", example: 3, description: "Only present when skills is given. Number of requested skills the applicant has." },
             user: {
               type: "object",
               properties: {
@@ -34,15 +158,7 @@ class GetJobSeekersResponse {
           }
         }
       },
-      pagination: {
-        type: "object",
-        properties: {
-          page: { type: "integer", example: 1 },
-          limit: { type: "integer", example: 10 },
-          total: { type: "integer", example: 25 },
-          totalPages: { type: "integer", example: 3 }
-        }
-      }
+      pagination: paginationSchema
     }
   }
 }
@@ -52,42 +168,44 @@ Documentation.addRoute({
   path: "/seekers/search",
   method: Methods.get,
   tags: ["Seekers"],
-  summary: "Get applicants matching role and skills",
+  summary: "Search applicants by skills, experience, location, availability and more",
+  description: `When skills are given, results are ranked by the number of requested skills each applicant has (page mode only, over the ${MAX_RANKED_APPLICANTS} newest matches). Pass sortBy=newest to list newest first instead.`,
   parameters: [
     {
       in: "query",
       name: "skills",
       required: false,
       schema: { type: "string", example: "JavaScript,React" },
-      description: "Comma-separated skills to search by"
+      description: "Comma-separated skills; applicants need at least one"
     },
-    {
-      in: "query",
-      name: "role",
-      required: false,
-      schema: { type: "string", example: "Frontend" },
-      description: "Role name (partial match)"
-    },
-    {
-      in: "query",
-      name: "page",
-      required: false,
-      schema: { type: "string", example: "1" },
-      description: "Page number"
-    },
-    {
-      in: "query",
-      name: "limit",
-      required: false,
-      schema: { type: "string", example: "10" },
-      description: "Items per page"
-    }
+    { in: "query", name: "q", required: false, schema: { type: "string", example: "open source speaker" }, description: "Words that must all appear in the bio or achievements" },
+    { in: "query", name: "minExperience", required: false, schema: { type: "integer", example: 2 }, description: "Minimum years of experience" },
+    { in: "query", name: "maxExperience", required: false, schema: { type: "integer", example: 6 }, description: "Maximum years of experience" },
+    { in: "query", name: "location", required: false, schema: { type: "string", example: "Bangalore" }, description: "Matches the applicant's location (partial) or one of their preferred locations (exact)" },
+    { in: "query", name: "availability", required: false, schema: { type: "string", example: "IMMEDIATELY,ONE_WEEK" }, description: `Comma-separated: ${Object.values(Availability).join(', ')}` },
+    { in: "query", name: "preferredRole", required: false, schema: { type: "string", example: "FULL_TIME" }, description: `Comma-separated: ${Object.values(PreferredRole).join(', ')}` },
+    { in: "query", name: "maxExpectedSalary", required: false, schema: { type: "number", example: 2000000 }, description: "Expected salary ceiling. Applicants without an expected salary are excluded." },
+    { in: "query", name: "currency", required: false, schema: { type: "string", enum: Object.values(Currency), example: "INR" }, description: "Currency of maxExpectedSalary (default INR)" },
+    { in: "query", name: "willingToRelocate", required: false, schema: { type: "boolean", example: true } },
+    { in: "query", name: "degree", required: false, schema: { type: "string", example: "Computer Science" }, description: "Matches education degree or field of study (partial)" },
+    { in: "query", name: "school", required: false, schema: { type: "string", example: "IIT" }, description: "Matches education school name (partial)" },
+    { in: "query", name: "sortBy", required: false, schema: { type: "string", enum: ["skills", "newest"] }, description: "Defaults to skills when skills are given, otherwise newest" },
+    ...paginationParameters
   ],
   responses: {
     "200": {
       description: "Applicants fetched successfully",
       value: GetJobSeekersResponse.schema
     },
+    "400": {
+      description: "Invalid filters, invalid cursor, or cursor used with skill ranking",
+      value: {
+        type: "object",
+        properties: {
+          message: { type: "string", example: "Invalid input" }
+        }
+      }
+    },
     "401": {
       description: "Unauthorized",
       value: {
@@ -111,8 +229,8 @@ Documentation.addRoute({
   }
 })();
 
-router.get('/search', roleMiddleware("RECRUITER"), async (req: Request, res: Response) => {
-  const recruiterId = req.user?.userId;
+router.get('/search', roleMiddleware("RECRUITER"), identityMiddleware, async (req: Request, res: Response) => {
+  const recruiterId = req.user?.recruiterId;
 
   logger.info(`GET /search - RecruiterId: ${recruiterId}, IP: ${req.ip}`);
 
@@ -121,59 +239,74 @@ router.get('/search', roleMiddleware("RECRUITER"), async (req: Request, res: Res
     return res.status(401).json({ message: "Unauthorized" });
   }
 
-  const { skills, role, page = '1', limit = '10' } = req.query;
-
-  const pageNumber = parseInt(page as string) || 1;
-  const limitNumber = parseInt(limit as string) || 10;
-  const skip = (pageNumber - 1) * limitNumber;
-
-  const whereClause: any = {};
+  const response = seekerSearchQuery.safeParse(req.query);
+  if (!response.success) {
+    logger.warn(`Validation failed for /search - RecruiterId: ${recruiterId}, Errors: ${JSON.stringify(response.error)}`);
+    return res.status(400).json({
+      message: "Invalid input",
+      errors: response.error
+    });
+  }
+  const filters = response.data;
 
-  if (skills) {
-    whereClause.skills = {
-      hasSome: (skills as string).split(',').map(skill => skill.trim()),
-    };
+  const paginationResult = parsePagination(req.query);
+  if (!paginationResult.success) {
+    logger.warn(`Invalid pagination for /search - ${paginationResult.message}, RecruiterId: ${recruiterId}`);
+    return res.status(400).json({ message: paginationResult.message });
   }
+  const pagination = paginationResult.data;
 
-  if (role) {
-    whereClause.role = {
-      contains: role as string,
-      mode: 'insensitive',
-    };
+  const rankBySkills = !!filters.skills?.length && filters.sortBy !== 'newest';
+  if (rankBySkills && pagination.cursor) {
+    logger.warn(`Cursor pagination requested with skill ranking - RecruiterId: ${recruiterId}`);
+    return res.status(400).json({ message: "Cursor pagination is not available when ranking by skills; pass sortBy=newest or use page" });
   }
 
-  logger.debug(`Applicant search filters - RecruiterId: ${recruiterId}, Skills: ${skills || 'N/A'}, Role: ${role || 'N/A'}, Page: ${pageNumber}, Limit: ${limitNumber}`);
+  const whereClause = buildSeekerWhere(filters);
+
+  logger.debug(`Applicant search filters - RecruiterId: ${recruiterId}, Filters: ${JSON.stringify(filters)}, Mode: ${pagination.mode}, Page: ${pagination.page}, Limit: ${pagination.limit}`);
 
   try {
-    const [applicants, total] = await Promise.all([
-      prisma.applicant.findMany({
+    let page;
+    if (rankBySkills) {
+      const skills = filters.skills!;
+      const candidates = await prisma.applicant.findMany({
         where: whereClause,
-        skip,
-        take: limitNumber,
-        select: {
-          id: true,
-          skills: true,
-          user: {
-            select: {
-              name: true,
-              profilePicture: true,
-            }
-          }
-        }
-      }),
-      prisma.applicant.count({ where: whereClause }),
-    ]);
-    logger.info(`Applicant search successful - Found ${applicants.length} applicants out of ${total}, RecruiterId: ${recruiterId}`);
+        orderBy: [{ createdAt: 'desc' }, { id: 'desc' }],
+        take: MAX_RANKED_APPLICANTS,
+        select: { id: true, skills: true }
+      });
+      const counts = new Map(candidates.map(candidate => [candidate.id, countMatchingSkills(candidate.skills, skills)]));
+      const pageIds = candidates
+        .map(candidate => candidate.id)
+        .sort((a, b) => counts.get(b)! - counts.get(a)!)
+        .slice(pagination.skip, pagination.skip + pagination.limit + 1);
+      const pageApplicants = await prisma.applicant.findMany({
+        where: { id: { in: pageIds } },
+        select: seekerSelect
+      });
+      page = buildPage(pageIds.flatMap(id => pageApplicants.filter(applicant => applicant.id === id)), pagination, candidates.length);
+      page.pagination.nextCursor = null;
+    } else {
+      const [rows, total] = await Promise.all([
+        prisma.applicant.findMany({
+          ...pageArgs(whereClause, pagination),
+          select: seekerSelect
+        }),
+        pagination.mode === 'page' ? prisma.applicant.count({ where: whereClause }) : null,
+      ]);
+      page = buildPage(rows, pagination, total);
+    }
+
+    const applicants = filters.skills?.length
+      ? page.items.map(applicant => ({ ...applicant, matchingSkills: countMatchingSkills(applicant.skills, filters.skills!) }))
+      : page.items;
+    logger.info(`Applicant search successful - Found ${applicants.length} applicants out of ${page.pagination.total ?? 'n/a'}, RecruiterId: ${recruiterId}`);
 
     return res.status(200).json({
       message: "Applicants fetched successfully",
       applicants,
-      pagination: {
-        page: pageNumber,
-        limit: limitNumber,
-        total,
-        totalPages: Math.ceil(total / limitNumber),
-      }
+      pagination: page.pagination
     });
   } catch (error) {
     logger.error(`Error searching applicants - RecruiterId: ${recruiterId}, IP: ${req.ip}, Message: ${error instanceof Error ? error.message : "Unknown error"}`);
@@ -290,8 +423,8 @@ Documentation.addRoute({
   }
 })();
 
-router.get('/:id', roleMiddleware("RECRUITER"), async (req: Request, res: Response) => {
-  const recruiterId = req.user?.userId;
+router.get('/:id', roleMiddleware("RECRUITER"), identityMiddleware, async (req: Request, res: Response) => {
+  const recruiterId = req.user?.recruiterId;
   const applicantId = req.params.id;
 
   logger.info(`GET /:id - Fetching applicant - ApplicantId: ${applicantId}, RecruiterId: ${recruiterId}, IP: ${req.ip}`);
@@ -320,15 +453,14 @@ router.get('/:id', roleMiddleware("RECRUITER"), async (req: Request, res: Respon
       where: { id: applicantId },
       include: {
         user: {
-          select: {
-            name: true,
-            profilePicture: true,
-            email: application ? true : false,
-            phoneNumber: application ? true : false,
-          }
+          select: seekerUserSelect(!!application)
+        },
+        experience: {
+          orderBy: [{ position: 'asc' }, { startDate: 'desc' }]
+        },
+        education: {
+          orderBy: [{ position: 'asc' }, { startDate: 'desc' }]
         },
-        experience: true,
-        education: true,
       }
     });
 
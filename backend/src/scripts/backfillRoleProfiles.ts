@@ -0,0 +1,12 @@
+import { backfillRoleProfiles } from '../services/roleProfileService';
+import logger from '../utils/logger';
+
+backfillRoleProfiles()
+    .then(({ applicants, recruiters }) => {
+        logger.info(`Backfill complete - created ${applicants} applicant and ${recruiters} recruiter profiles`);
+        process.exit(0);
+    })
+    .catch((err) => {
+        logger.error(`Backfill failed - ${err instanceof Error ? err.message : "Unknown error"}`);
+        process.exit(1);
+    });
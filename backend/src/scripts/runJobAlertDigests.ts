@@ -0,0 +1,12 @@
+import { runJobAlertDigests } from '../services/jobAlertService';
+import logger from '../utils/logger';
+
+runJobAlertDigests()
+    .then(({ searches, digests, emailsSent }) => {
+        logger.info(`Job alert digests complete - ${searches} searches due, ${digests} digests, ${emailsSent} emails sent`);
+        process.exit(0);
+    })
+    .catch((err) => {
+        logger.error(`Job alert digests failed - ${err instanceof Error ? err.message : "Unknown error"}`);
+        process.exit(1);
+    });
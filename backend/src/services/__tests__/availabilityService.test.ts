@@ -0,0 +1,39 @@
+import { canBookSlots, splitWindow } from '../availabilityService';
+
+describe('splitWindow', () => {
+    it('splits a window into back-to-back slots', () => {
+        const slots = splitWindow(new Date('2026-10-20T09:00:00Z'), new Date('2026-10-20T10:30:00Z'), 30);
+        expect(slots).toEqual([
+            { startsAt: new Date('2026-10-20T09:00:00Z'), endsAt: new Date('2026-10-20T09:30:00Z') },
+            { startsAt: new Date('2026-10-20T09:30:00Z'), endsAt: new Date('2026-10-20T10:00:00Z') },
+            { startsAt: new Date('2026-10-20T10:00:00Z'), endsAt: new Date('2026-10-20T10:30:00Z') }
+        ]);
+    });
+
+    it('drops a remainder shorter than one slot', () => {
+        const slots = splitWindow(new Date('2026-10-20T09:00:00Z'), new Date('2026-10-20T10:50:00Z'), 45);
+        expect(slots.map(slot => slot.endsAt.toISOString())).toEqual(['2026-10-20T09:45:00.000Z', '2026-10-20T10:30:00.000Z']);
+    });
+
+    it('returns no slots when the window is shorter than one slot', () => {
+        expect(splitWindow(new Date('2026-10-20T09:00:00Z'), new Date('2026-10-20T09:20:00Z'), 30)).toEqual([]);
+    });
+});
+
+describe('canBookSlots', () => {
+    it('requires REVIEWED outside a pipeline', () => {
+        expect(canBookSlots({ status: 'REVIEWED', stage: null })).toBe(true);
+        expect(canBookSlots({ status: 'PENDING', stage: null })).toBe(false);
+        expect(canBookSlots({ status: 'ACCEPTED', stage: null })).toBe(false);
+    });
+
+    it('allows any stage after the entry stage in a pipeline', () => {
+        expect(canBookSlots({ status: 'PENDING', stage: { position: 2 } })).toBe(true);
+        expect(canBookSlots({ status: 'REVIEWED', stage: { position: 0 } })).toBe(false);
+    });
+
+    it('refuses closed applications whatever their stage', () => {
+        expect(canBookSlots({ status: 'REJECTED', stage: { position: 3 } })).toBe(false);
+        expect(canBookSlots({ status: 'WITHDRAWN', stage: { position: 1 } })).toBe(false);
+    });
+});
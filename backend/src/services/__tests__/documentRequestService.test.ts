@@ -0,0 +1,38 @@
+import { currentReminderThreshold, isDueForReminder } from '../documentRequestService';
+
+const now = new Date('2026-10-19T12:00:00Z');
+const hoursFromNow = (hours: number) => new Date(now.getTime() + hours * 60 * 60 * 1000);
+
+describe('currentReminderThreshold', () => {
+    it('is null until the first threshold is crossed', () => {
+        expect(currentReminderThreshold(hoursFromNow(100), now)).toBeNull();
+    });
+
+    it('picks the closest threshold that has been crossed', () => {
+        expect(currentReminderThreshold(hoursFromNow(72), now)).toBe(72);
+        expect(currentReminderThreshold(hoursFromNow(30), now)).toBe(72);
+        expect(currentReminderThreshold(hoursFromNow(24), now)).toBe(24);
+        expect(currentReminderThreshold(hoursFromNow(1), now)).toBe(24);
+    });
+});
+
+describe('isDueForReminder', () => {
+    it('reminds once a threshold is crossed', () => {
+        expect(isDueForReminder({ dueAt: hoursFromNow(100), lastReminderAt: null }, now)).toBe(false);
+        expect(isDueForReminder({ dueAt: hoursFromNow(60), lastReminderAt: null }, now)).toBe(true);
+    });
+
+    it('does not repeat a reminder for the same threshold', () => {
+        expect(isDueForReminder({ dueAt: hoursFromNow(60), lastReminderAt: hoursFromNow(-5) }, now)).toBe(false);
+    });
+
+    it('reminds again when the next threshold is crossed', () => {
+        expect(isDueForReminder({ dueAt: hoursFromNow(20), lastReminderAt: hoursFromNow(-40) }, now)).toBe(true);
+        expect(isDueForReminder({ dueAt: hoursFromNow(20), lastReminderAt: hoursFromNow(-2) }, now)).toBe(false);
+    });
+
+    it('sends a single reminder when a request is created inside both thresholds', () => {
+        expect(isDueForReminder({ dueAt: hoursFromNow(10), lastReminderAt: null }, now)).toBe(true);
+        expect(isDueForReminder({ dueAt: hoursFromNow(10), lastReminderAt: now }, hoursFromNow(1))).toBe(false);
+    });
+});
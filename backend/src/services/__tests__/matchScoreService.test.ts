@@ -0,0 +1,135 @@
+import { Prisma } from '@prisma/client';
+import { computeMatchScore, getSkillOverlap, isLocationMatch, MatchApplicant, MatchJob } from '../matchScoreService';
+
+const job: MatchJob = {
+    skills: ['Node.js', 'TypeScript', 'React', 'SQL'],
+    minExperience: 2,
+    maxExperience: 5,
+    location: 'Bengaluru, India',
+    jobType: 'ONSITE',
+    employmentType: 'FULL_TIME',
+    ctcType: 'RANGE',
+    minCTC: 1000000,
+    maxCTC: 1500000,
+    currency: 'INR',
+    noticePeriod: 'WITHIN_15_DAYS'
+};
+
+const applicant: MatchApplicant = {
+    skills: ['node.js', 'TypeScript', 'SQL'],
+    yearsOfExperience: 3,
+    location: 'Bengaluru',
+    preferredLocations: [],
+    isWillingToRelocate: false,
+    preferredRole: 'FULL_TIME',
+    expectedSalary: new Prisma.Decimal(1200000),
+    salaryCurrency: 'INR',
+    availability: 'ONE_WEEK'
+};
+
+const emptyProfile: MatchApplicant = {
+    skills: [],
+    yearsOfExperience: null,
+    location: null,
+    preferredLocations: [],
+    isWillingToRelocate: null,
+    preferredRole: null,
+    expectedSalary: null,
+    salaryCurrency: 'INR',
+    availability: null
+};
+
+const factor = (result: ReturnType<typeof computeMatchScore>, key: string) =>
+    result.breakdown.find(entry => entry.factor === key);
+
+describe('getSkillOverlap', () => {
+    it('compares skills case-insensitively and keeps the job spelling', () => {
+        expect(getSkillOverlap([' node.js ', 'sql'], ['Node.js', 'React', 'SQL'])).toEqual({
+            matched: ['Node.js', 'SQL'],
+            missing: ['React']
+        });
+    });
+});
+
+describe('isLocationMatch', () => {
+    it('matches when either location contains the other', () => {
+        expect(isLocationMatch(['Bengaluru'], 'Bengaluru, India')).toBe(true);
+        expect(isLocationMatch([null, 'Pune, Maharashtra'], 'pune')).toBe(true);
+        expect(isLocationMatch([null, '  '], 'Pune')).toBe(false);
+        expect(isLocationMatch(['Chennai'], 'Pune')).toBe(false);
+    });
+});
+
+describe('computeMatchScore', () => {
+    it('weights each factor into a 0-100 score', () => {
+        const result = computeMatchScore(applicant, job);
+        expect(result.matchScore).toBe(90);
+        expect(result.breakdown.map(entry => [entry.factor, entry.weight, entry.score])).toEqual([
+            ['skills', 40, 0.75],
+            ['experience', 20, 1],
+            ['location', 15, 1],
+            ['role', 10, 1],
+            ['salary', 10, 1],
+            ['availability', 5, 1]
+        ]);
+        expect(factor(result, 'skills')?.detail).toBe('Matches 3 of 4 required skills (missing: React)');
+    });
+
+    it('counts factors missing from the profile as misses', () => {
+        const result = computeMatchScore({ ...emptyProfile, skills: ['Node.js'] }, job);
+        expect(result.matchScore).toBe(10);
+        expect(result.breakdown.filter(entry => entry.score === null).map(entry => entry.factor))
+            .toEqual(['experience', 'location', 'role', 'salary', 'availability']);
+    });
+
+    it('ranks a sparse profile below a complete one that matches nearly everything', () => {
+        const sparse = computeMatchScore({ ...emptyProfile, skills: job.skills }, job);
+        const complete = computeMatchScore(applicant, job);
+        expect(sparse.matchScore).toBe(40);
+        expect(complete.matchScore).toBeGreaterThan(sparse.matchScore);
+    });
+
+    it('leaves factors the job has no data for out of the average', () => {
+        expect(computeMatchScore(applicant, { ...job, ctcType: 'COMPETITIVE', noticePeriod: null }).matchScore).toBe(88);
+    });
+
+    it('scores 0 when nothing can be compared', () => {
+        const result = computeMatchScore(emptyProfile, { ...job, skills: [] });
+        expect(result.matchScore).toBe(0);
+        expect(result.breakdown.every(entry => entry.score === null)).toBe(true);
+    });
+
+    it('penalises missing experience harder than extra experience', () => {
+        expect(factor(computeMatchScore({ ...applicant, yearsOfExperience: 0 }, job), 'experience')?.score).toBe(0.33);
+        expect(factor(computeMatchScore({ ...applicant, yearsOfExperience: 10 }, job), 'experience')?.score).toBe(0.5);
+    });
+
+    it('gives partial credit for relocation and close roles', () => {
+        const result = computeMatchScore({
+            ...applicant,
+            location: 'Chennai',
+            isWillingToRelocate: true,
+            preferredRole: 'FREELANCE'
+        }, { ...job, employmentType: 'CONTRACT' });
+        expect(factor(result, 'location')?.score).toBe(0.5);
+        expect(factor(result, 'role')?.score).toBe(0.5);
+        expect(factor(computeMatchScore({ ...applicant, location: 'Chennai' }, { ...job, jobType: 'REMOTE' }), 'location')?.score).toBe(1);
+    });
+
+    it('converts salary expectations into the job currency', () => {
+        const result = computeMatchScore({ ...applicant, expectedSalary: new Prisma.Decimal(20000), salaryCurrency: 'USD' }, job);
+        expect(factor(result, 'salary')).toEqual({
+            factor: 'salary',
+            weight: 10,
+            score: 0.79,
+            detail: 'Expected salary (1660000 INR) is above the offered maximum of 1500000 INR'
+        });
+        expect(factor(computeMatchScore(applicant, { ...job, ctcType: 'COMPETITIVE' }), 'salary')?.score).toBeNull();
+    });
+
+    it('reduces the availability factor for each day past the notice period', () => {
+        const result = computeMatchScore({ ...applicant, availability: 'ONE_MONTH' }, job);
+        expect(factor(result, 'availability')?.score).toBe(0.5);
+        expect(factor(computeMatchScore({ ...applicant, availability: 'FLEXIBLE' }, job), 'availability')?.score).toBe(1);
+    });
+});
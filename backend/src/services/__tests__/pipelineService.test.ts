@@ -0,0 +1,72 @@
+import { PipelineStageInput, resolveTransitions, validatePipeline } from '../pipelineService';
+
+const stages: PipelineStageInput[] = [
+    { name: 'Applied', status: 'PENDING' },
+    { name: 'Screening', status: 'REVIEWED' },
+    { name: 'Interview', status: 'REVIEWED' },
+    { name: 'Offer', status: 'ACCEPTED' },
+    { name: 'Rejected', status: 'REJECTED' }
+];
+
+describe('validatePipeline', () => {
+    it('accepts a pipeline with default transitions', () => {
+        expect(validatePipeline(stages)).toBeNull();
+    });
+
+    it('rejects stage names that differ only in case', () => {
+        expect(validatePipeline([...stages, { name: 'screening', status: 'REVIEWED' }])).toBe('Duplicate stage name: screening');
+    });
+
+    it('rejects a terminal first stage', () => {
+        expect(validatePipeline([{ name: 'Hired', status: 'ACCEPTED' }, ...stages]))
+            .toBe('The first stage cannot be a terminal (ACCEPTED or REJECTED) stage');
+    });
+
+    it('rejects bad next lists', () => {
+        const withNext = (name: string, next: string[]) => stages.map(stage => stage.name === name ? { ...stage, next } : stage);
+        expect(validatePipeline(withNext('Offer', ['Applied']))).toBe('Terminal stage Offer cannot have next stages');
+        expect(validatePipeline(withNext('Screening', ['Onsite']))).toBe('Stage Screening lists unknown next stage: Onsite');
+        expect(validatePipeline(withNext('Screening', ['Screening']))).toBe('Stage Screening cannot transition to itself');
+        expect(validatePipeline(withNext('Screening', ['screening']))).toBe('Stage Screening cannot transition to itself');
+    });
+
+    it('resolves next stages case-insensitively, like duplicate names', () => {
+        expect(validatePipeline(stages.map(stage => stage.name === 'Applied' ? { ...stage, next: ['interview', 'REJECTED'] } : stage))).toBeNull();
+    });
+});
+
+describe('resolveTransitions', () => {
+    it('defaults to the following stage plus every REJECTED stage', () => {
+        expect(Object.fromEntries(resolveTransitions(stages))).toEqual({
+            Applied: ['Screening', 'Rejected'],
+            Screening: ['Interview', 'Rejected'],
+            Interview: ['Offer', 'Rejected'],
+            Offer: [],
+            Rejected: []
+        });
+    });
+
+    it('uses explicit next lists as given, without duplicates', () => {
+        const transitions = resolveTransitions(stages.map(stage =>
+            stage.name === 'Applied' ? { ...stage, next: ['Interview', 'Rejected', 'Interview'] } : stage
+        ));
+        expect(transitions.get('Applied')).toEqual(['Interview', 'Rejected']);
+    });
+
+    it('maps next references to the stage names as declared', () => {
+        const transitions = resolveTransitions(stages.map(stage =>
+            stage.name === 'Applied' ? { ...stage, next: ['interview', 'Interview', 'REJECTED'] } : stage
+        ));
+        expect(transitions.get('Applied')).toEqual(['Interview', 'Rejected']);
+    });
+
+    it('lets the last non-terminal stage only move to rejection', () => {
+        const transitions = resolveTransitions([
+            { name: 'Applied', status: 'PENDING' },
+            { name: 'Declined', status: 'REJECTED' },
+            { name: 'Waitlist', status: 'REVIEWED' }
+        ]);
+        expect(transitions.get('Applied')).toEqual(['Declined']);
+        expect(transitions.get('Waitlist')).toEqual(['Declined']);
+    });
+});
@@ -0,0 +1,83 @@
+import { parseResumeText } from '../resumeParserService';
+
+const resume = `Jane Doe
+jane.doe@example.com | +1 (555) 123-4567
+
+Summary
+Backend engineer working with Node.js, TypeScript and PostgreSQL. Some Go on AWS.
+
+Experience
+Senior Software Engineer at Acme Technologies
+Jan 2021 - Present
+• Built the payments API
+• Led a team of four
+Junior Developer | Globex Corp | 06/2018 - 12/2020
+- Maintained internal tools
+
+Education
+B.Tech in Computer Science, Indian Institute of Technology
+2014 - 2018
+CGPA: 8.7/10
+`;
+
+describe('parseResumeText', () => {
+    it('finds contact details', () => {
+        const parsed = parseResumeText(resume);
+        expect(parsed.email).toBe('jane.doe@example.com');
+        expect(parsed.phone).toBe('+1 (555) 123-4567');
+    });
+
+    it('does not mistake a year range for a phone number', () => {
+        expect(parseResumeText('Experience\nDeveloper, Initech\n2019 - 2021').phone).toBeNull();
+    });
+
+    it('matches dictionary skills, short ones case-sensitively', () => {
+        expect(parseResumeText(resume).skills).toEqual(expect.arrayContaining(['Node.js', 'TypeScript', 'PostgreSQL', 'Go', 'AWS']));
+        expect(parseResumeText('Happy to go the extra mile').skills).not.toContain('Go');
+    });
+
+    it('splits experience into dated entries', () => {
+        expect(parseResumeText(resume).experience).toEqual([
+            {
+                jobTitle: 'Senior Software Engineer',
+                companyName: 'Acme Technologies',
+                startDate: '2021-01-01',
+                endDate: null,
+                location: null,
+                description: 'Built the payments API\nLed a team of four'
+            },
+            {
+                jobTitle: 'Junior Developer',
+                companyName: 'Globex Corp',
+                startDate: '2018-06-01',
+                endDate: '2020-12-01',
+                location: null,
+                description: 'Maintained internal tools'
+            }
+        ]);
+    });
+
+    it('reads degree, field, school and grade from education entries', () => {
+        expect(parseResumeText(resume).education).toEqual([
+            {
+                schoolName: 'Indian Institute of Technology',
+                degree: 'B.Tech',
+                fieldOfStudy: 'Computer Science',
+                startDate: '2014-01-01',
+                endDate: '2018-01-01',
+                grade: '8.7/10',
+                description: null
+            }
+        ]);
+    });
+
+    it('returns empty suggestions for text without sections', () => {
+        expect(parseResumeText('Just a cover letter.')).toEqual({
+            email: null,
+            phone: null,
+            skills: [],
+            experience: [],
+            education: []
+        });
+    });
+});
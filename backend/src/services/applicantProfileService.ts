@@ -0,0 +1,33 @@
+import { Applicant } from '@prisma/client';
+
+type ProfileFields = Pick<Applicant,
+    "bio" | "location" | "yearsOfExperience" | "skills" | "availability" | "preferredRole" | "preferredLocations" | "expectedSalary"
+>;
+
+type ProfileInput = { [K in keyof ProfileFields]?: unknown };
+
+const requiredProfileFields: (keyof ProfileFields)[] = [
+    "bio",
+    "location",
+    "yearsOfExperience",
+    "skills",
+    "availability",
+    "preferredRole",
+    "preferredLocations",
+    "expectedSalary",
+];
+
+function isFilled(value: unknown) {
+    if (value === null || value === undefined) return false;
+    if (typeof value === "string") return value.trim().length > 0;
+    if (Array.isArray(value)) return value.length > 0;
+    return true;
+}
+
+export function getMissingProfileFields(profile: ProfileInput) {
+    return requiredProfileFields.filter(field => !isFilled(profile[field]));
+}
+
+export function isApplicantProfileComplete(profile: ProfileInput) {
+    return getMissingProfileFields(profile).length === 0;
+}
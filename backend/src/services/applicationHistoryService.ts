@@ -0,0 +1,85 @@
+import { ApplicationStatus, Prisma, PrismaClient } from '@prisma/client';
+import { SchemaObject } from '../docs/documentation';
+import { cancelUpcomingInterviewsOperation } from './interviewService';
+const prisma = new PrismaClient();
+
+export const applicationEventsInclude = {
+    orderBy: { createdAt: 'asc' },
+    include: { actor: { select: { id: true, name: true } } }
+} satisfies Prisma.Application$eventsArgs;
+
+// Keeps the decision timestamps in step with the status: acceptedAt and
+// rejectedAt describe the current decision and are cleared if it is reversed,
+// while eviewedAt records the first time the application moved past PENDING.
+export function statusTimestampData(
+    current: { eviewedAt: Date | null },
+    toStatus: ApplicationStatus,
+    now: Date
+): Prisma.ApplicationUpdateInput {
+    const reviewed = toStatus === "REVIEWED" || toStatus === "ACCEPTED" || toStatus === "REJECTED";
+    return {
+        eviewedAt: current.eviewedAt ?? (reviewed ? now : null),
+        acceptedAt: toStatus === "ACCEPTED" ? now : null,
+        rejectedAt: toStatus === "REJECTED" ? now : null
+    };
+}
+
+export interface StatusChange {
+    application: { id: string; status: ApplicationStatus; eviewedAt: Date | null };
+    toStatus: ApplicationStatus;
+    actorId: string;
+    note?: string;
+}
+
+// Prisma operations for a status change, so callers can run them in the same
+// transaction as their own writes. Returns nothing to do when the status is
+// unchanged. Rejecting or withdrawing also cancels upcoming interviews.
+// The status write comes first and only matches the status the caller read,
+// so a concurrent change fails the transaction (see isStatusConflict).
+export function statusChangeOperations({ application, toStatus, actorId, note }: StatusChange, now = new Date()) {
+    if (application.status === toStatus) return [];
+    return [
+        prisma.application.update({
+            where: { id: application.id, status: application.status },
+            data: { status: toStatus, ...statusTimestampData(application, toStatus, now) }
+        }),
+        prisma.applicationEvent.create({
+            data: {
+                applicationId: application.id,
+                actorId,
+                fromStatus: application.status,
+                toStatus,
+                note,
+                createdAt: now
+            }
+        }),
+        ...(toStatus === "REJECTED" || toStatus === "WITHDRAWN"
+            ? [cancelUpcomingInterviewsOperation(application.id, `Application ${toStatus.toLowerCase()}`, now)]
+            : [])
+    ];
+}
+
+export const isStatusConflict = (err: unknown) =>
+    err instanceof Prisma.PrismaClientKnownRequestError && err.code === "P2025";
+
+export async function changeApplicationStatus(change: StatusChange) {
+    await prisma.$transaction(statusChangeOperations(change));
+}
+
+export const applicationEventSchema: SchemaObject = {
+    type: "object",
+    properties: {
+        id: { type: "string", example: "event-id-123" },
+        fromStatus: { type: "string", nullable: true, example: "REVIEWED", description: "Null for the submission" },
+        toStatus: { type: "string", example: "REJECTED" },
+        note: { type: "string", nullable: true, example: "Looking for more backend experience" },
+        createdAt: { type: "string", format: "date-time", example: "2025-10-02T09:30:00Z" },
+        actor: {
+            type: "object",
+            properties: {
+                id: { type: "string", example: "user-id-789" },
+                name: { type: "string", example: "Recruiter Jane" }
+            }
+        }
+    }
+};
@@ -0,0 +1,159 @@
+import { ApplicationStatus, NotificationType, PrismaClient } from '@prisma/client';
+import logger from '../utils/logger';
+import { createNotifications, NotificationInput } from './notificationService';
+const prisma = new PrismaClient();
+
+const statusNotifications: Partial<Record<ApplicationStatus, { type: NotificationType; title: string; message: (jobTitle: string) => string }>> = {
+    REVIEWED: {
+        type: "APPLICATION_VIEWED",
+        title: "Application viewed",
+        message: (jobTitle) => `Your application for ${jobTitle} has been reviewed by the recruiter.`
+    },
+    ACCEPTED: {
+        type: "APPLICATION_ACCEPTED",
+        title: "Application accepted",
+        message: (jobTitle) => `Congratulations! Your application for ${jobTitle} has been accepted.`
+    },
+    REJECTED: {
+        type: "APPLICATION_REJECTED",
+        title: "Application rejected",
+        message: (jobTitle) => `Your application for ${jobTitle} was not selected to move forward.`
+    },
+};
+
+async function findApplicationWithParticipants(applicationId: string) {
+    return prisma.application.findUnique({
+        where: { id: applicationId },
+        select: {
+            id: true,
+            status: true,
+            job: {
+                select: {
+                    title: true,
+                    recruiter: { select: { userId: true } }
+                }
+            },
+            applicant: {
+                select: {
+                    userId: true,
+                    user: { select: { name: true } }
+                }
+            }
+        }
+    });
+}
+
+export async function notifyNewApplication(applicationId: string) {
+    try {
+        const application = await findApplicationWithParticipants(applicationId);
+        if (!application) {
+            logger.warn(`Skipping new application notifications - application not found: ${applicationId}`);
+            return;
+        }
+
+        const notifications: NotificationInput[] = [
+            {
+                userId: application.job.recruiter.userId,
+                notificationType: "NEW_APPLICATION",
+                title: "New application received",
+                message: `${application.applicant.user.name} applied for ${application.job.title}.`,
+                link: `/applications/${application.id}`
+            },
+            {
+                userId: application.applicant.userId,
+                notificationType: "APPLICATION_SUBMITTED",
+                title: "Application submitted",
+                message: `Your application for ${application.job.title} has been submitted.`,
+                link: `/applications/me/${application.id}`
+            }
+        ];
+
+        await createNotifications(notifications);
+        logger.info(`New application notifications created for applicationId: ${applicationId}`);
+    } catch (err) {
+        logger.error(`Error creating new application notifications for applicationId: ${applicationId} - ${err instanceof Error ? err.message : "Unknown error"}`);
+    }
+}
+
+export async function notifyApplicationStatusChange(applicationId: string, previousStatus: ApplicationStatus) {
+    try {
+        const application = await findApplicationWithParticipants(applicationId);
+        if (!application || application.status === previousStatus) return;
+
+        const template = statusNotifications[application.status];
+        if (!template) {
+            logger.debug(`No notification configured for status ${application.status} - applicationId: ${applicationId}`);
+            return;
+        }
+
+        await createNotifications([{
+            userId: application.applicant.userId,
+            notificationType: template.type,
+            title: template.title,
+            message: template.message(application.job.title),
+            link: `/applications/me/${application.id}`
+        }]);
+        logger.info(`Status change notification (${template.type}) created for applicationId: ${applicationId}`);
+    } catch (err) {
+        logger.error(`Error creating status change notification for applicationId: ${applicationId} - ${err instanceof Error ? err.message : "Unknown error"}`);
+    }
+}
+
+export async function notifyApplicationWithdrawn(applicationId: string, reason?: string) {
+    try {
+        const application = await findApplicationWithParticipants(applicationId);
+        if (!application) {
+            logger.warn(`Skipping withdrawal notification - application not found: ${applicationId}`);
+            return;
+        }
+
+        await createNotifications([{
+            userId: application.job.recruiter.userId,
+            notificationType: "APPLICATION_WITHDRAWN",
+            title: "Application withdrawn",
+            message: `${application.applicant.user.name} withdrew their application for ${application.job.title}.`
+                + (reason ? ` Reason: "${reason}"` : ''),
+            link: `/applications/${application.id}`
+        }]);
+        logger.info(`Withdrawal notification created for applicationId: ${applicationId}`);
+    } catch (err) {
+        logger.error(`Error creating withdrawal notification for applicationId: ${applicationId} - ${err instanceof Error ? err.message : "Unknown error"}`);
+    }
+}
+
+export async function notifyJobInvitation(invitationId: string) {
+    try {
+        const invitation = await prisma.jobInvitation.findUnique({
+            where: { id: invitationId },
+            select: {
+                jobId: true,
+                message: true,
+                applicant: { select: { userId: true } },
+                job: {
+                    select: {
+                        title: true,
+                        company: { select: { name: true } },
+                        recruiter: { select: { user: { select: { name: true } } } }
+                    }
+                }
+            }
+        });
+        if (!invitation) {
+            logger.warn(`Skipping job invitation notification - invitation not found: ${invitationId}`);
+            return;
+        }
+
+        const { job } = invitation;
+        await createNotifications([{
+            userId: invitation.applicant.userId,
+            notificationType: "JOB_INVITATION",
+            title: "You're invited to apply",
+            message: `${job.recruiter.user.name} from ${job.company.name} invited you to apply for ${job.title}.`
+                + (invitation.message ? ` "${invitation.message}"` : ''),
+            link: `/jobs/${invitation.jobId}`
+        }]);
+        logger.info(`Job invitation notification created for invitationId: ${invitationId}`);
+    } catch (err) {
+        logger.error(`Error creating job invitation notification for invitationId: ${invitationId} - ${err instanceof Error ? err.message : "Unknown error"}`);
+    }
+}
@@ -0,0 +1,81 @@
+import { ApplicationStatus, AvailabilitySlot, Prisma, PrismaClient } from '@prisma/client';
+import { SchemaObject } from '../docs/documentation';
+import { formatInTimeZone } from '../utils/timezone';
+import { TERMINAL_STATUSES } from './pipelineService';
+const prisma = new PrismaClient();
+
+export const MAX_SLOTS_PER_WINDOW = 48;
+
+// Applications the recruiter has moved past screening without deciding on
+// them yet can book interview slots. Without a pipeline that means REVIEWED.
+// In a pipeline the stage decides instead, since recruiters may map their
+// interview stages to any status: every stage after the entry stage counts
+// until the application reaches a terminal stage.
+export function canBookSlots(application: {
+    status: ApplicationStatus;
+    stage: { position: number } | null;
+}) {
+    if (application.status === "WITHDRAWN" || TERMINAL_STATUSES.includes(application.status)) return false;
+    return application.stage ? application.stage.position > 0 : application.status === "REVIEWED";
+}
+
+// Splits an availability window into back-to-back slots. A remainder shorter
+// than one slot at the end of the window is dropped.
+export function splitWindow(startsAt: Date, endsAt: Date, slotMinutes: number) {
+    const slotMs = slotMinutes * 60 * 1000;
+    const slots: { startsAt: Date; endsAt: Date }[] = [];
+    for (let start = startsAt.getTime(); start + slotMs <= endsAt.getTime(); start += slotMs) {
+        slots.push({ startsAt: new Date(start), endsAt: new Date(start + slotMs) });
+    }
+    return slots;
+}
+
+export async function findOverlappingSlots(recruiterId: string, startsAt: Date, endsAt: Date) {
+    return prisma.availabilitySlot.findMany({
+        where: { recruiterId, startsAt: { lt: endsAt }, endsAt: { gt: startsAt } },
+        orderBy: { startsAt: 'asc' },
+        select: { id: true, startsAt: true, endsAt: true }
+    });
+}
+
+// Future slots nobody has booked, offered either for this job or for all of
+// the recruiter's jobs.
+export function openSlotsWhere(recruiterId: string, jobId: string, now = new Date()): Prisma.AvailabilitySlotWhereInput {
+    return {
+        recruiterId,
+        OR: [{ jobId: null }, { jobId }],
+        startsAt: { gt: now },
+        interview: { is: null }
+    };
+}
+
+// Adds the slot times formatted in the viewer's time zone next to the UTC
+// timestamps, so clients in another zone do not have to convert them.
+export function withLocalTimes<T extends Pick<AvailabilitySlot, 'startsAt' | 'endsAt' | 'timezone'>>(slot: T, timeZone?: string) {
+    const displayTimezone = timeZone ?? slot.timezone;
+    return {
+        ...slot,
+        displayTimezone,
+        startsAtLocal: formatInTimeZone(slot.startsAt, displayTimezone),
+        endsAtLocal: formatInTimeZone(slot.endsAt, displayTimezone)
+    };
+}
+
+export const availabilitySlotSchema: SchemaObject = {
+    type: "object",
+    properties: {
+        id: { type: "string", example: "slot-id-123" },
+        recruiterId: { type: "string", example: "recruiter-id-456" },
+        jobId: { type: "string", nullable: true, example: "job-id-789", description: "null when offered for all of the recruiter's jobs" },
+        startsAt: { type: "string", format: "date-time", example: "2026-10-21T09:30:00.000Z" },
+        endsAt: { type: "string", format: "date-time", example: "2026-10-21T10:30:00.000Z" },
+        timezone: { type: "string", example: "Asia/Kolkata", description: "Zone the recruiter published the slot in" },
+        mode: { type: "string", enum: ["ONSITE", "VIDEO", "PHONE"], example: "VIDEO" },
+        location: { type: "string", nullable: true },
+        meetingLink: { type: "string", nullable: true, example: "https://meet.example.com/abc-defg-hij" },
+        displayTimezone: { type: "string", example: "Europe/Berlin" },
+        startsAtLocal: { type: "string", example: "Oct 21, 2026, 11:30 AM GMT+2" },
+        endsAtLocal: { type: "string", example: "Oct 21, 2026, 12:30 PM GMT+2" },
+        createdAt: { type: "string", format: "date-time" }
+    }
+};
@@ -0,0 +1,146 @@
+import { createHash, randomBytes } from 'crypto';
+import { Interview, PrismaClient, Role } from '@prisma/client';
+import { buildCalendar, CalendarEvent } from '../utils/ical';
+import { formatInTimeZone } from '../utils/timezone';
+import { interviewInclude, InterviewWithParticipants } from './interviewService';
+const prisma = new PrismaClient();
+
+// How far back the feed goes, so recent interviews stay visible once they are over.
+const FEED_HISTORY_DAYS = 90;
+const UID_DOMAIN = 'jobportal';
+
+const interviewStatusToEventStatus: Record<Interview['status'], CalendarEvent['status']> = {
+    SCHEDULED: 'TENTATIVE',
+    CONFIRMED: 'CONFIRMED',
+    CANCELLED: 'CANCELLED'
+};
+
+// Seconds between creation and the last update: grows on every change, which
+// is all calendar clients need from SEQUENCE to replace an older copy.
+const sequenceOf = (record: { createdAt: Date; updatedAt: Date }) =>
+    Math.max(0, Math.floor((record.updatedAt.getTime() - record.createdAt.getTime()) / 1000));
+
+export function interviewToEvent(interview: InterviewWithParticipants): CalendarEvent {
+    const { application } = interview;
+    const name = interview.title ?? `Round ${interview.round}`;
+    const description = [
+        `${name} interview with ${application.applicant.user.name} for ${application.job.title} at ${application.job.company.name}.`,
+        `Time: ${formatInTimeZone(interview.startsAt, interview.timezone)} (${interview.timezone})`,
+        `Mode: ${interview.mode}`,
+        interview.meetingLink ? `Join: ${interview.meetingLink}` : null,
+        interview.interviewers.length ? `Interviewers: ${interview.interviewers.map(interviewer => interviewer.name).join(', ')}` : null,
+        interview.instructions ? `\n${interview.instructions}` : null,
+        interview.cancellationReason ? `\nCancelled: ${interview.cancellationReason}` : null
+    ].filter(line => line !== null).join('\n');
+
+    return {
+        uid: `interview-${interview.id}@${UID_DOMAIN}`,
+        start: interview.startsAt,
+        end: interview.endsAt,
+        summary: `${name} interview: ${application.applicant.user.name} - ${application.job.title} (${application.job.company.name})`,
+        description,
+        location: interview.location ?? interview.meetingLink ?? undefined,
+        url: interview.meetingLink ?? undefined,
+        status: interviewStatusToEventStatus[interview.status],
+        sequence: sequenceOf(interview),
+        lastModified: interview.updatedAt,
+        attendees: interview.interviewers
+    };
+}
+
+type DeadlineJob = {
+    id: string;
+    title: string;
+    applicationDeadline: Date;
+    createdAt: Date;
+    updatedAt: Date;
+    company: { name: string };
+};
+
+function deadlineToEvent(job: DeadlineJob): CalendarEvent {
+    return {
+        uid: `job-deadline-${job.id}@${UID_DOMAIN}`,
+        start: job.applicationDeadline,
+        summary: `Application deadline: ${job.title} (${job.company.name})`,
+        description: `Applications for ${job.title} at ${job.company.name} close at this time.`,
+        sequence: sequenceOf(job),
+        lastModified: job.updatedAt
+    };
+}
+
+export function buildInterviewCalendar(interview: InterviewWithParticipants) {
+    return buildCalendar([interviewToEvent(interview)]);
+}
+
+// Recruiters get the interviews for their jobs and their jobs' application
+// deadlines; applicants get their own interviews. Cancelled interviews stay in
+// the feed with STATUS:CANCELLED so subscribed calendars drop them.
+// profileId is the recruiter or applicant id matching the role.
+export async function buildFeedCalendar(owner: { name: string; role: Role; profileId: string }, now = new Date()) {
+    const since = new Date(now.getTime() - FEED_HISTORY_DAYS * 24 * 60 * 60 * 1000);
+    const isRecruiter = owner.role === Role.RECRUITER;
+
+    const interviews = await prisma.interview.findMany({
+        where: {
+            startsAt: { gte: since },
+            application: isRecruiter ? { job: { recruiterId: owner.profileId } } : { applicantId: owner.profileId }
+        },
+        orderBy: { startsAt: 'asc' },
+        include: interviewInclude
+    });
+
+    const deadlineJobs = isRecruiter
+        ? await prisma.job.findMany({
+            where: { recruiterId: owner.profileId, applicationDeadline: { gte: since } },
+            orderBy: { applicationDeadline: 'asc' },
+            select: { id: true, title: true, applicationDeadline: true, createdAt: true, updatedAt: true, company: { select: { name: true } } }
+        })
+        : [];
+
+    const events = [
+        ...interviews.map(interviewToEvent),
+        ...deadlineJobs.map(job => deadlineToEvent({ ...job, applicationDeadline: job.applicationDeadline! }))
+    ];
+    return {
+        calendar: buildCalendar(events, `Interviews - ${owner.name}`, now),
+        interviewCount: interviews.length,
+        deadlineCount: deadlineJobs.length
+    };
+}
+
+// Feed tokens are only shown once, when issued. The database keeps a SHA-256
+// hash so a leaked table does not expose working feed URLs.
+export const hashFeedToken = (token: string) => createHash('sha256').update(token).digest('hex');
+
+export async function issueFeedToken(userId: string) {
+    const token = randomBytes(32).toString('base64url');
+    const tokenHash = hashFeedToken(token);
+    const feed = await prisma.calendarFeedToken.upsert({
+        where: { userId },
+        create: { userId, tokenHash },
+        update: { tokenHash, createdAt: new Date(), lastAccessedAt: null }
+    });
+    return { token, feed };
+}
+
+export async function findFeedOwner(token: string) {
+    const feed = await prisma.calendarFeedToken.findUnique({
+        where: { tokenHash: hashFeedToken(token) },
+        select: {
+            id: true,
+            user: {
+                select: {
+                    id: true,
+                    name: true,
+                    role: true,
+                    applicant: { select: { id: true } },
+                    recruiter: { select: { id: true } }
+                }
+            }
+        }
+    });
+    if (!feed) return null;
+
+    await prisma.calendarFeedToken.update({ where: { id: feed.id }, data: { lastAccessedAt: new Date() } });
+    return feed.user;
+}
@@ -0,0 +1,308 @@
+import { randomUUID } from 'crypto';
+import path from 'path';
+import { Response } from 'express';
+import { DocumentType, DocumentUpload, Prisma, PrismaClient } from '@prisma/client';
+import { SchemaObject } from '../docs/documentation';
+import logger from '../utils/logger';
+import { getEmailTransport } from './emailTransport';
+import { participantApplicationWhere } from './messageService';
+import { createNotifications, NotificationInput } from './notificationService';
+import { getResumeStorage } from './resumeStorage';
+const prisma = new PrismaClient();
+
+const APP_URL = process.env.APP_URL || 'http://localhost:3000';
+const HOUR_MS = 60 * 60 * 1000;
+
+// Reminders go out when a request is this many hours from its due date, once
+// per threshold.
+const REMINDER_HOURS_BEFORE_DUE = [72, 24];
+
+// Requests waiting on the applicant.
+export const OPEN_DOCUMENT_STATUSES = ["REQUESTED", "RESUBMISSION_REQUIRED"] as const;
+
+const documentTypeLabels: Record<DocumentType, string> = {
+    ID_PROOF: "ID proof",
+    TRANSCRIPT: "Transcripts",
+    PAYSLIP: "Payslips",
+    PORTFOLIO: "Portfolio",
+    OTHER: "Document"
+};
+
+export const documentLabel = (request: { type: DocumentType; title: string | null }) =>
+    request.title ?? documentTypeLabels[request.type];
+
+export const documentRequestInclude = {
+    requestedBy: { select: { id: true, name: true } },
+    uploads: {
+        orderBy: { createdAt: 'desc' },
+        select: { id: true, fileName: true, mimeType: true, size: true, createdAt: true }
+    }
+} satisfies Prisma.DocumentRequestInclude;
+
+const participantsSelect = {
+    id: true,
+    status: true,
+    applicantId: true,
+    applicant: { select: { userId: true, user: { select: { name: true } } } },
+    job: { select: { title: true, recruiterId: true, recruiter: { select: { userId: true } } } }
+} satisfies Prisma.ApplicationSelect;
+
+export async function findDocumentRequest(id: string, user: { userId: string; applicantId?: string; recruiterId?: string }) {
+    return prisma.documentRequest.findFirst({
+        where: { id, application: participantApplicationWhere(user) },
+        include: { ...documentRequestInclude, application: { select: participantsSelect } }
+    });
+}
+
+type DocumentRequestWithApplication = NonNullable<Awaited<ReturnType<typeof findDocumentRequest>>>;
+
+// Drops the application participants used for access checks and notifications.
+export function toDocumentRequestResponse({ application, ...request }: DocumentRequestWithApplication) {
+    return request;
+}
+
+// Stores the file before recording it, like resumes, and removes the object
+// again if the database write fails.
+export async function saveDocumentUpload(request: DocumentRequestWithApplication, file: Express.Multer.File) {
+    const storageKey = `documents/${request.applicationId}/${request.id}/${randomUUID()}${path.extname(file.originalname).toLowerCase()}`;
+    const storage = getResumeStorage();
+    await storage.put(storageKey, file.buffer, file.mimetype);
+
+    try {
+        const [upload] = await prisma.$transaction([
+            prisma.documentUpload.create({
+                data: {
+                    requestId: request.id,
+                    fileName: path.basename(file.originalname),
+                    mimeType: file.mimetype,
+                    size: file.size,
+                    storageKey
+                }
+            }),
+            prisma.documentRequest.update({
+                where: { id: request.id },
+                data: { status: "SUBMITTED", reviewNote: null, reviewedAt: null }
+            })
+        ]);
+        return upload;
+    } catch (err) {
+        await storage.delete(storageKey).catch((cleanupErr) => {
+            logger.error(`Failed to remove orphaned document object ${storageKey} - ${cleanupErr instanceof Error ? cleanupErr.message : "Unknown error"}`);
+        });
+        throw err;
+    }
+}
+
+export async function streamDocumentUpload(res: Response, upload: DocumentUpload) {
+    const stream = await getResumeStorage().getStream(upload.storageKey);
+    res.setHeader('Content-Type', upload.mimeType);
+    res.setHeader('Content-Length', upload.size.toString());
+    res.setHeader('Content-Disposition', `attachment; filename*=UTF-8''${encodeURIComponent(upload.fileName)}`);
+
+    stream.on('error', (err) => {
+        logger.error(`Error streaming document upload ${upload.id} - ${err.message}`);
+        res.destroy(err);
+    });
+    stream.pipe(res);
+}
+
+async function notify(inputs: NotificationInput[], context: string) {
+    try {
+        await createNotifications(inputs);
+        logger.info(`DOCUMENT_REQUEST notifications created - ${context}`);
+    } catch (err) {
+        logger.error(`Error creating DOCUMENT_REQUEST notifications - ${context} - ${err instanceof Error ? err.message : "Unknown error"}`);
+    }
+}
+
+export async function notifyDocumentsRequested(application: { id: string; applicant: { userId: string }; job: { title: string } }, requests: { type: DocumentType; title: string | null }[]) {
+    await notify([{
+        userId: application.applicant.userId,
+        notificationType: "DOCUMENT_REQUEST",
+        title: "Documents requested",
+        message: `The recruiter for ${application.job.title} asked for: ${requests.map(documentLabel).join(', ')}.`,
+        link: `/applications/me/${application.id}/documents`
+    }], `applicationId: ${application.id}`);
+}
+
+export async function notifyDocumentSubmitted(request: DocumentRequestWithApplication) {
+    const { application } = request;
+    await notify([{
+        userId: application.job.recruiter.userId,
+        notificationType: "DOCUMENT_REQUEST",
+        title: "Document submitted",
+        message: `${application.applicant.user.name} uploaded ${documentLabel(request)} for ${application.job.title}.`,
+        link: `/applications/${application.id}/documents`
+    }], `requestId: ${request.id}`);
+}
+
+export async function notifyDocumentReviewed(request: DocumentRequestWithApplication) {
+    const { application } = request;
+    const accepted = request.status === "ACCEPTED";
+    await notify([{
+        userId: application.applicant.userId,
+        notificationType: "DOCUMENT_REQUEST",
+        title: accepted ? "Document accepted" : "Document needs resubmission",
+        message: (accepted
+            ? `Your ${documentLabel(request)} for ${application.job.title} was accepted.`
+            : `Please upload your ${documentLabel(request)} for ${application.job.title} again by ${request.dueAt.toUTCString()}.`)
+            + (request.reviewNote ? ` Note: "${request.reviewNote}"` : ''),
+        link: `/applications/me/${application.id}/documents`
+    }], `requestId: ${request.id}`);
+}
+
+// The threshold a request has crossed, e.g. 24 when it is due within a day.
+export function currentReminderThreshold(dueAt: Date, now: Date) {
+    const hoursLeft = (dueAt.getTime() - now.getTime()) / HOUR_MS;
+    const crossed = REMINDER_HOURS_BEFORE_DUE.filter(hours => hoursLeft <= hours);
+    return crossed.length ? Math.min(...crossed) : null;
+}
+
+// True once a request crosses a threshold it has not been reminded about yet.
+export function isDueForReminder(request: { dueAt: Date; lastReminderAt: Date | null }, now: Date) {
+    const threshold = currentReminderThreshold(request.dueAt, now);
+    return threshold !== null
+        && (!request.lastReminderAt || request.lastReminderAt.getTime() < request.dueAt.getTime() - threshold * HOUR_MS);
+}
+
+async function findRequestsDueForReminder(now: Date) {
+    const candidates = await prisma.documentRequest.findMany({
+        where: {
+            status: { in: [...OPEN_DOCUMENT_STATUSES] },
+            dueAt: { gt: now, lte: new Date(now.getTime() + Math.max(...REMINDER_HOURS_BEFORE_DUE) * HOUR_MS) },
+            application: { status: { in: ["PENDING", "REVIEWED"] } }
+        },
+        include: {
+            application: {
+                select: {
+                    id: true,
+                    applicant: { select: { user: { select: { id: true, name: true, email: true } } } },
+                    job: { select: { title: true, company: { select: { name: true } } } }
+                }
+            }
+        }
+    });
+    return candidates.filter(request => isDueForReminder(request, now));
+}
+
+// Same claim-before-send approach as the job alert digests, so two instances
+// never remind about the same request twice.
+async function claimReminder(request: { id: string; lastReminderAt: Date | null }, now: Date) {
+    const result = await prisma.documentRequest.updateMany({
+        where: { id: request.id, lastReminderAt: request.lastReminderAt },
+        data: { lastReminderAt: now }
+    });
+    return result.count === 1;
+}
+
+export async function runDocumentReminders(now = new Date()) {
+    const dueRequests = await findRequestsDueForReminder(now);
+    logger.info(`Document reminder run - ${dueRequests.length} requests due for a reminder`);
+
+    let reminded = 0;
+    for (const request of dueRequests) {
+        try {
+            if (!(await claimReminder(request, now))) {
+                logger.debug(`Document reminder already claimed by another run - requestId: ${request.id}`);
+                continue;
+            }
+            const { application } = request;
+            const user = application.applicant.user;
+            const label = documentLabel(request);
+            const dueText = request.dueAt.toUTCString();
+
+            await notify([{
+                userId: user.id,
+                notificationType: "DOCUMENT_REQUEST",
+                title: `${label} due soon`,
+                message: `Your ${label} for ${application.job.title} at ${application.job.company.name} is due by ${dueText}.`,
+                link: `/applications/me/${application.id}/documents`
+            }], `reminder for requestId: ${request.id}`);
+
+            await getEmailTransport().send({
+                to: user.email,
+                subject: `Reminder: ${label} for ${application.job.title} is due soon`,
+                text: [
+                    `Hi ${user.name},`,
+                    '',
+                    `The recruiter for ${application.job.title} at ${application.job.company.name} is still waiting for your ${label}. It is due by ${dueText}.`,
+                    '',
+                    `Upload it here: ${APP_URL}/applications/me/${application.id}/documents`
+                ].join('\n')
+            });
+            reminded++;
+        } catch (err) {
+            logger.error(`Error sending document reminder for requestId: ${request.id} - ${err instanceof Error ? err.message : "Unknown error"}`);
+        }
+    }
+
+    logger.info(`Document reminder run complete - ${reminded} reminders sent`);
+    return { due: dueRequests.length, reminded };
+}
+
+// Checks every DOCUMENT_REMINDER_CHECK_INTERVAL_MINUTES (default 60).
+export function startDocumentReminderScheduler() {
+    if (process.env.DOCUMENT_REMINDERS_ENABLED === 'false') {
+        logger.info(`Document reminder scheduler disabled`);
+        return () => {};
+    }
+
+    const intervalMs = (Number(process.env.DOCUMENT_REMINDER_CHECK_INTERVAL_MINUTES) || 60) * 60 * 1000;
+    let running = false;
+    const tick = async () => {
+        if (running) return;
+        running = true;
+        try {
+            await runDocumentReminders();
+        } catch (err) {
+            logger.error(`Document reminder run failed - ${err instanceof Error ? err.message : "Unknown error"}`);
+        } finally {
+            running = false;
+        }
+    };
+
+    const timer = setInterval(tick, intervalMs);
+    timer.unref();
+    void tick();
+    logger.info(`Document reminder scheduler started - checking every ${intervalMs / 60000} minutes`);
+    return () => clearInterval(timer);
+}
+
+export const documentRequestSchema: SchemaObject = {
+    type: "object",
+    properties: {
+        id: { type: "string", example: "document-request-id-123" },
+        applicationId: { type: "string", example: "application-id-456" },
+        type: { type: "string", enum: Object.values(DocumentType), example: "PAYSLIP" },
+        title: { type: "string", nullable: true, example: "Last 3 months' payslips" },
+        instructions: { type: "string", nullable: true, example: "A single PDF is fine" },
+        dueAt: { type: "string", format: "date-time", example: "2026-10-25T18:30:00.000Z" },
+        status: { type: "string", enum: ["REQUESTED", "SUBMITTED", "ACCEPTED", "RESUBMISSION_REQUIRED"], example: "REQUESTED" },
+        reviewNote: { type: "string", nullable: true, example: "The scan is cut off; please upload all pages" },
+        reviewedAt: { type: "string", format: "date-time", nullable: true },
+        lastReminderAt: { type: "string", format: "date-time", nullable: true },
+        requestedBy: {
+            type: "object",
+            properties: {
+                id: { type: "string", example: "user-id-789" },
+                name: { type: "string", example: "Recruiter Jane" }
+            }
+        },
+        uploads: {
+            type: "array",
+            description: "Newest first",
+            items: {
+                type: "object",
+                properties: {
+                    id: { type: "string", example: "upload-id-1" },
+                    fileName: { type: "string", example: "payslips-jul-sep.pdf" },
+                    mimeType: { type: "string", example: "application/pdf" },
+                    size: { type: "integer", example: 248013 },
+                    createdAt: { type: "string", format: "date-time" }
+                }
+            }
+        },
+        createdAt: { type: "string", format: "date-time" },
+        updatedAt: { type: "string", format: "date-time" }
+    }
+};
@@ -0,0 +1,78 @@
+import { mkdir, writeFile } from 'fs/promises';
+import path from 'path';
+import nodemailer, { Transporter } from 'nodemailer';
+import logger from '../utils/logger';
+
+export interface EmailMessage {
+    to: string;
+    subject: string;
+    text: string;
+    html?: string;
+}
+
+// Outgoing email. The console and file transports are for local development;
+// set EMAIL_TRANSPORT=smtp to actually deliver mail.
+export interface EmailTransport {
+    send(message: EmailMessage): Promise<void>;
+}
+
+class ConsoleEmailTransport implements EmailTransport {
+    async send(message: EmailMessage) {
+        logger.info(`Email (console transport) - to: ${message.to}, subject: ${message.subject}\n${message.text}`);
+    }
+}
+
+class FileEmailTransport implements EmailTransport {
+    constructor(private outboxDir: string) {}
+
+    async send(message: EmailMessage) {
+        await mkdir(this.outboxDir, { recursive: true });
+        const fileName = `${new Date().toISOString().replace(/[:.]/g, '-')}-${message.to.replace(/[^A-Za-z0-9@._-]/g, '_')}.json`;
+        await writeFile(path.join(this.outboxDir, fileName), JSON.stringify(message, null, 2));
+        logger.debug(`Email written to outbox - to: ${message.to}, file: ${fileName}`);
+    }
+}
+
+class SmtpEmailTransport implements EmailTransport {
+    private transporter: Transporter;
+
+    constructor(private from: string) {
+        this.transporter = nodemailer.createTransport({
+            host: process.env.SMTP_HOST,
+            port: Number(process.env.SMTP_PORT) || 587,
+            secure: process.env.SMTP_SECURE === 'true',
+            auth: process.env.SMTP_USER ? { user: process.env.SMTP_USER, pass: process.env.SMTP_PASSWORD } : undefined
+        });
+    }
+
+    async send(message: EmailMessage) {
+        await this.transporter.sendMail({ from: this.from, ...message });
+    }
+}
+
+function createEmailTransport(): EmailTransport {
+    const driver = process.env.EMAIL_TRANSPORT || 'console';
+    if (driver === 'smtp') {
+        if (!process.env.SMTP_HOST) {
+            throw new Error("SMTP_HOST must be set when EMAIL_TRANSPORT is 'smtp'");
+        }
+        return new SmtpEmailTransport(process.env.EMAIL_FROM || 'no-reply@localhost');
+    }
+    if (driver === 'file') {
+        return new FileEmailTransport(process.env.EMAIL_OUTBOX_DIR || path.join(process.cwd(), 'uploads', 'outbox'));
+    }
+    return new ConsoleEmailTransport();
+}
+
+let transport: EmailTransport | null = null;
+
+export function getEmailTransport() {
+    if (!transport) {
+        transport = createEmailTransport();
+    }
+    return transport;
+}
+
+export function setEmailTransport(nextTransport: EmailTransport) {
+    transport = nextTransport;
+}
@@ -0,0 +1,225 @@
+import { Interview, NotificationType, Prisma, PrismaClient } from '@prisma/client';
+import { SchemaObject } from '../docs/documentation';
+import logger from '../utils/logger';
+import { formatInTimeZone, isValidTimeZone } from '../utils/timezone';
+import { createNotifications } from './notificationService';
+const prisma = new PrismaClient();
+
+export const interviewInclude = {
+    interviewers: { select: { id: true, name: true, email: true } },
+    scheduledBy: { select: { id: true, name: true } },
+    application: {
+        select: {
+            id: true,
+            applicantId: true,
+            status: true,
+            applicant: { select: { userId: true, user: { select: { name: true } } } },
+            job: {
+                select: {
+                    id: true,
+                    title: true,
+                    recruiterId: true,
+                    recruiter: { select: { userId: true } },
+                    company: { select: { id: true, name: true } }
+                }
+            }
+        }
+    }
+} satisfies Prisma.InterviewInclude;
+
+export type InterviewWithParticipants = Prisma.InterviewGetPayload<{ include: typeof interviewInclude }>;
+
+// Interviews that are still going ahead. Cancelled ones are kept for history.
+export const ACTIVE_INTERVIEW_STATUSES = ["SCHEDULED", "CONFIRMED"] as const;
+
+export function isInterviewParticipant(interview: InterviewWithParticipants, user: { applicantId?: string; recruiterId?: string }) {
+    return (!!user.recruiterId && interview.application.job.recruiterId === user.recruiterId)
+        || (!!user.applicantId && interview.application.applicantId === user.applicantId);
+}
+
+// Drops the nested participant ids used for access checks from API responses.
+export function toInterviewResponse({ application, ...interview }: InterviewWithParticipants) {
+    return {
+        ...interview,
+        application: {
+            id: application.id,
+            status: application.status,
+            applicant: { id: application.applicantId, name: application.applicant.user.name },
+            job: { id: application.job.id, title: application.job.title, company: application.job.company }
+        }
+    };
+}
+
+// Catches mistyped dates (e.g. the wrong day) before anyone is notified.
+const MAX_INTERVIEW_HOURS = 8;
+
+export function validateInterviewTimes({ startsAt, endsAt, timezone }: { startsAt: Date; endsAt: Date; timezone: string }, now = new Date()) {
+    if (!isValidTimeZone(timezone)) return `Unknown time zone: ${timezone}`;
+    if (endsAt <= startsAt) return "endsAt must be after startsAt";
+    if (startsAt <= now) return "Interviews must be scheduled in the future";
+    if (endsAt.getTime() - startsAt.getTime() > MAX_INTERVIEW_HOURS * 60 * 60 * 1000) {
+        return `Interviews cannot be longer than ${MAX_INTERVIEW_HOURS} hours`;
+    }
+    return null;
+}
+
+export async function nextInterviewRound(applicationId: string) {
+    const last = await prisma.interview.findFirst({
+        where: { applicationId, status: { not: "CANCELLED" } },
+        orderBy: { round: 'desc' },
+        select: { round: true }
+    });
+    return (last?.round ?? 0) + 1;
+}
+
+// Upcoming interviews stop making sense once the application is closed.
+// Booked availability slots are released along with them.
+export function cancelUpcomingInterviewsOperation(applicationId: string, reason: string, now = new Date()) {
+    return prisma.interview.updateMany({
+        where: { applicationId, status: { in: [...ACTIVE_INTERVIEW_STATUSES] }, startsAt: { gt: now } },
+        data: { status: "CANCELLED", cancelledAt: now, cancellationReason: reason, slotId: null }
+    });
+}
+
+const describeInterview = (interview: Pick<Interview, 'round' | 'title'>, jobTitle: string) =>
+    `${interview.title ?? `Round ${interview.round}`} interview for ${jobTitle}`;
+
+type InterviewNotice = {
+    type: NotificationType;
+    title: string;
+    message: string;
+};
+
+async function notifyInterview(interview: InterviewWithParticipants, recipient: 'applicant' | 'recruiter', notice: InterviewNotice) {
+    try {
+        const isApplicant = recipient === 'applicant';
+        await createNotifications([{
+            userId: isApplicant ? interview.application.applicant.userId : interview.application.job.recruiter.userId,
+            notificationType: notice.type,
+            title: notice.title,
+            message: notice.message,
+            link: isApplicant ? `/applications/me/${interview.applicationId}` : `/applications/${interview.applicationId}`
+        }]);
+        logger.info(`${notice.type} notification created for interviewId: ${interview.id}`);
+    } catch (err) {
+        logger.error(`Error creating ${notice.type} notification for interviewId: ${interview.id} - ${err instanceof Error ? err.message : "Unknown error"}`);
+    }
+}
+
+export async function notifyInterviewScheduled(interview: InterviewWithParticipants) {
+    const when = formatInTimeZone(interview.startsAt, interview.timezone);
+    await notifyInterview(interview, 'applicant', {
+        type: "INTERVIEW_SCHEDULED",
+        title: "Interview scheduled",
+        message: `${describeInterview(interview, interview.application.job.title)} at ${interview.application.job.company.name} is scheduled for ${when}. Please confirm.`
+    });
+}
+
+export async function notifyInterviewRescheduled(interview: InterviewWithParticipants, previousStartsAt: Date) {
+    const before = formatInTimeZone(previousStartsAt, interview.timezone);
+    const when = formatInTimeZone(interview.startsAt, interview.timezone);
+    await notifyInterview(interview, 'applicant', {
+        type: "INTERVIEW_RESCHEDULED",
+        title: "Interview rescheduled",
+        message: `${describeInterview(interview, interview.application.job.title)} has moved from ${before} to ${when}. Please confirm the new time.`
+    });
+}
+
+export async function notifyInterviewCancelled(interview: InterviewWithParticipants, cancelledBy: 'applicant' | 'recruiter') {
+    const when = formatInTimeZone(interview.startsAt, interview.timezone);
+    const subject = describeInterview(interview, interview.application.job.title);
+    await notifyInterview(interview, cancelledBy === 'recruiter' ? 'applicant' : 'recruiter', {
+        type: "INTERVIEW_CANCELLED",
+        title: "Interview cancelled",
+        message: (cancelledBy === 'recruiter'
+            ? `${subject} on ${when} has been cancelled.`
+            : `${interview.application.applicant.user.name} cancelled the ${subject} on ${when}.`)
+            + (interview.cancellationReason ? ` Reason: "${interview.cancellationReason}"` : '')
+    });
+}
+
+export async function notifyInterviewBooked(interview: InterviewWithParticipants) {
+    const when = formatInTimeZone(interview.startsAt, interview.timezone);
+    await notifyInterview(interview, 'recruiter', {
+        type: "INTERVIEW_SCHEDULED",
+        title: "Interview slot booked",
+        message: `${interview.application.applicant.user.name} booked the ${describeInterview(interview, interview.application.job.title)} for ${when}.`
+    });
+}
+
+export async function notifyInterviewConfirmed(interview: InterviewWithParticipants) {
+    const when = formatInTimeZone(interview.startsAt, interview.timezone);
+    await notifyInterview(interview, 'recruiter', {
+        type: "INTERVIEW_CONFIRMED",
+        title: "Interview confirmed",
+        message: `${interview.application.applicant.user.name} confirmed the ${describeInterview(interview, interview.application.job.title)} on ${when}.`
+    });
+}
+
+export const interviewSchema: SchemaObject = {
+    type: "object",
+    properties: {
+        id: { type: "string", example: "interview-id-123" },
+        applicationId: { type: "string", example: "application-id-456" },
+        round: { type: "integer", example: 2 },
+        title: { type: "string", nullable: true, example: "Tech Round 1" },
+        startsAt: { type: "string", format: "date-time", example: "2026-10-21T10:00:00.000Z" },
+        endsAt: { type: "string", format: "date-time", example: "2026-10-21T11:00:00.000Z" },
+        timezone: { type: "string", example: "Asia/Kolkata" },
+        mode: { type: "string", enum: ["ONSITE", "VIDEO", "PHONE"], example: "VIDEO" },
+        location: { type: "string", nullable: true, example: "4th floor, Acme HQ, Bangalore" },
+        meetingLink: { type: "string", nullable: true, example: "https://meet.example.com/abc-defg-hij" },
+        instructions: { type: "string", nullable: true, example: "Have an IDE ready to share your screen" },
+        status: { type: "string", enum: ["SCHEDULED", "CONFIRMED", "CANCELLED"], example: "SCHEDULED" },
+        confirmedAt: { type: "string", format: "date-time", nullable: true },
+        cancelledAt: { type: "string", format: "date-time", nullable: true },
+        cancellationReason: { type: "string", nullable: true },
+        slotId: { type: "string", nullable: true, example: "slot-id-123", description: "Availability slot the applicant booked, if any" },
+        interviewers: {
+            type: "array",
+            items: {
+                type: "object",
+                properties: {
+                    id: { type: "string", example: "interviewer-id-1" },
+                    name: { type: "string", example: "Priya Sharma" },
+                    email: { type: "string", format: "email", example: "priya@acme.com" }
+                }
+            }
+        },
+        scheduledBy: {
+            type: "object",
+            properties: {
+                id: { type: "string", example: "user-id-789" },
+                name: { type: "string", example: "Recruiter Jane" }
+            }
+        },
+        application: {
+            type: "object",
+            properties: {
+                id: { type: "string", example: "application-id-456" },
+                status: { type: "string", example: "REVIEWED" },
+                applicant: {
+                    type: "object",
+                    properties: {
+                        id: { type: "string", example: "applicant-id-321" },
+                        name: { type: "string", example: "John Doe" }
+                    }
+                },
+                job: {
+                    type: "object",
+                    properties: {
+                        id: { type: "string", example: "job-id-654" },
+                        title: { type: "string", example: "Frontend Developer" },
+                        company: {
+                            type: "object",
+                            properties: {
+                                id: { type: "string", example: "company-id-987" },
+                                name: { type: "string", example: "Acme Corp" }
+                            }
+                        }
+                    }
+                }
+            }
+        }
+    }
+};
@@ -0,0 +1,209 @@
+import { DigestFrequency, Prisma, PrismaClient, SavedSearch } from '@prisma/client';
+import logger from '../utils/logger';
+import { getEmailTransport } from './emailTransport';
+import { createNotifications, NotificationInput } from './notificationService';
+const prisma = new PrismaClient();
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const digestIntervalMs: Record<DigestFrequency, number> = {
+    DAILY: DAY_MS,
+    WEEKLY: 7 * DAY_MS,
+};
+
+const MAX_JOBS_PER_DIGEST = 20;
+const APP_URL = process.env.APP_URL || 'http://localhost:3000';
+
+type SearchFilters = Pick<SavedSearch, 'roles' | 'skills' | 'jobTypes' | 'locations' | 'departments' | 'salaryMin' | 'salaryMax' | 'companyTypes'>;
+
+// Same semantics as the GET /jobs filters: values within a filter are OR-ed,
+// filters are AND-ed, and the salary bounds only need to overlap the CTC range.
+export function savedSearchWhere(search: SearchFilters): Prisma.JobWhereInput {
+    const conditions: Prisma.JobWhereInput[] = [];
+    if (search.roles.length) conditions.push({ role: { in: search.roles } });
+    if (search.skills.length) conditions.push({ skills: { hasSome: search.skills } });
+    if (search.jobTypes.length) conditions.push({ jobType: { in: search.jobTypes } });
+    if (search.departments.length) conditions.push({ department: { in: search.departments } });
+    if (search.companyTypes.length) conditions.push({ company: { companyType: { in: search.companyTypes } } });
+    if (search.locations.length) {
+        conditions.push({ OR: search.locations.map(location => ({ location: { contains: location, mode: 'insensitive' as const } })) });
+    }
+    if (search.salaryMin !== null) conditions.push({ maxCTC: { gte: search.salaryMin } });
+    if (search.salaryMax !== null) conditions.push({ minCTC: { lte: search.salaryMax } });
+    return { AND: conditions };
+}
+
+type DueSearch = Prisma.SavedSearchGetPayload<{
+    include: { applicant: { select: { user: { select: { id: true; name: true; email: true } } } } }
+}>;
+
+interface SearchDigest {
+    search: DueSearch;
+    total: number;
+    jobs: { id: string; title: string; location: string; company: { name: string } }[];
+}
+
+async function findDueSearches(now: Date) {
+    return prisma.savedSearch.findMany({
+        where: {
+            isActive: true,
+            OR: Object.entries(digestIntervalMs).map(([frequency, interval]) => ({
+                frequency: frequency as DigestFrequency,
+                lastDigestAt: { lte: new Date(now.getTime() - interval) }
+            }))
+        },
+        include: { applicant: { select: { user: { select: { id: true, name: true, email: true } } } } }
+    });
+}
+
+// Advancing lastDigestAt before delivery means two instances running the
+// scheduler never send the same digest twice; a crash mid-delivery drops that
+// digest instead of repeating it.
+async function claimSearch(search: DueSearch, now: Date) {
+    const result = await prisma.savedSearch.updateMany({
+        where: { id: search.id, lastDigestAt: search.lastDigestAt },
+        data: { lastDigestAt: now }
+    });
+    return result.count === 1;
+}
+
+async function buildSearchDigest(search: DueSearch, now: Date): Promise<SearchDigest> {
+    const where: Prisma.JobWhereInput = {
+        AND: [
+            savedSearchWhere(search),
+            { createdAt: { gt: search.lastDigestAt, lte: now } }
+        ],
+        NOT: [
+            { applications: { some: { applicantId: search.applicantId } } },
+            { hiddenJobs: { some: { applicantId: search.applicantId } } }
+        ]
+    };
+    const [jobs, total] = await Promise.all([
+        prisma.job.findMany({
+            where,
+            orderBy: [{ createdAt: 'desc' }, { id: 'desc' }],
+            take: MAX_JOBS_PER_DIGEST,
+            select: { id: true, title: true, location: true, company: { select: { name: true } } }
+        }),
+        prisma.job.count({ where })
+    ]);
+    return { search, total, jobs };
+}
+
+const jobCount = (count: number) => `${count} new job${count === 1 ? '' : 's'}`;
+
+const escapeHtml = (value: string) => value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+
+function buildDigestEmail(name: string, digests: SearchDigest[]) {
+    const text = [
+        `Hi ${name},`,
+        '',
+        ...digests.flatMap(({ search, total, jobs }) => [
+            `${jobCount(total)} for "${search.name}":`,
+            ...jobs.map(job => `- ${job.title} at ${job.company.name} (${job.location}): ${APP_URL}/jobs/${job.id}`),
+            ...(total > jobs.length ? [`...and ${total - jobs.length} more: ${APP_URL}/applicants/me/saved-searches/${search.id}/jobs`] : []),
+            ''
+        ]),
+        `You are receiving this because you turned on alerts for these saved searches.`
+    ].join('\n');
+
+    const html = [
+        `<p>Hi ${escapeHtml(name)},</p>`,
+        ...digests.map(({ search, total, jobs }) => [
+            `<h3>${jobCount(total)} for &quot;${escapeHtml(search.name)}&quot;</h3>`,
+            '<ul>',
+            ...jobs.map(job => `<li><a href="${APP_URL}/jobs/${job.id}">${escapeHtml(job.title)}</a> at ${escapeHtml(job.company.name)} (${escapeHtml(job.location)})</li>`),
+            '</ul>',
+            ...(total > jobs.length ? [`<p><a href="${APP_URL}/applicants/me/saved-searches/${search.id}/jobs">See all ${total} jobs</a></p>`] : [])
+        ].join('')),
+        `<p>You are receiving this because you turned on alerts for these saved searches.</p>`
+    ].join('');
+
+    const total = digests.reduce((sum, digest) => sum + digest.total, 0);
+    return { subject: `${jobCount(total)} matching your saved searches`, text, html };
+}
+
+// Sends one notification per saved search with new matches and one email per
+// applicant covering all of their searches that were due.
+export async function runJobAlertDigests(now = new Date()) {
+    const dueSearches = await findDueSearches(now);
+    logger.info(`Job alert digest run - ${dueSearches.length} saved searches due`);
+
+    const digestsByUser = new Map<string, SearchDigest[]>();
+    for (const search of dueSearches) {
+        try {
+            if (!(await claimSearch(search, now))) {
+                logger.debug(`Saved search already claimed by another run - savedSearchId: ${search.id}`);
+                continue;
+            }
+            const digest = await buildSearchDigest(search, now);
+            logger.debug(`Saved search ${search.id} matched ${digest.total} new jobs`);
+            if (!digest.total) continue;
+
+            const userId = search.applicant.user.id;
+            digestsByUser.set(userId, [...(digestsByUser.get(userId) ?? []), digest]);
+        } catch (err) {
+            logger.error(`Error evaluating saved search ${search.id} - ${err instanceof Error ? err.message : "Unknown error"}`);
+        }
+    }
+
+    let emailsSent = 0;
+    for (const [userId, digests] of digestsByUser) {
+        const user = digests[0].search.applicant.user;
+        try {
+            const notifications: NotificationInput[] = digests.map(({ search, total }) => ({
+                userId,
+                notificationType: "JOB_ALERT",
+                title: `New jobs for "${search.name}"`,
+                message: `${jobCount(total)} match your saved search "${search.name}".`,
+                link: `/applicants/me/saved-searches/${search.id}/jobs`
+            }));
+            await createNotifications(notifications);
+        } catch (err) {
+            logger.error(`Error creating job alert notifications for userId: ${userId} - ${err instanceof Error ? err.message : "Unknown error"}`);
+        }
+
+        try {
+            await getEmailTransport().send({ to: user.email, ...buildDigestEmail(user.name, digests) });
+            emailsSent++;
+        } catch (err) {
+            logger.error(`Error sending job alert email to userId: ${userId} - ${err instanceof Error ? err.message : "Unknown error"}`);
+        }
+    }
+
+    logger.info(`Job alert digest run complete - ${digestsByUser.size} digests, ${emailsSent} emails sent`);
+    return { searches: dueSearches.length, digests: digestsByUser.size, emailsSent };
+}
+
+// Checks for due saved searches every JOB_ALERT_CHECK_INTERVAL_MINUTES
+// (default 60). A search is only due once a day or week has passed since its
+// last digest, so the check interval only bounds how late a digest can be.
+export function startJobAlertScheduler() {
+    if (process.env.JOB_ALERTS_ENABLED === 'false') {
+        logger.info(`Job alert scheduler disabled`);
+        return () => {};
+    }
+
+    const intervalMs = (Number(process.env.JOB_ALERT_CHECK_INTERVAL_MINUTES) || 60) * 60 * 1000;
+    let running = false;
+    const tick = async () => {
+        if (running) return;
+        running = true;
+        try {
+            await runJobAlertDigests();
+        } catch (err) {
+            logger.error(`Job alert digest run failed - ${err instanceof Error ? err.message : "Unknown error"}`);
+        } finally {
+            running = false;
+        }
+    };
+
+    const timer = setInterval(tick, intervalMs);
+    timer.unref();
+    void tick();
+    logger.info(`Job alert scheduler started - checking every ${intervalMs / 60000} minutes`);
+    return () => clearInterval(timer);
+}
@@ -0,0 +1,220 @@
+import { JobRole, Prisma, PrismaClient } from '@prisma/client';
+import { Pagination } from '../utils/pagination';
+import {
+    computeMatchScore,
+    getSkillOverlap,
+    isLocationMatch,
+    MatchApplicant,
+    matchApplicantSelect,
+    matchJobSelect,
+    MAX_MATCH_CANDIDATES
+} from './matchScoreService';
+const prisma = new PrismaClient();
+
+export type RecommendationReasonCode =
+    | 'SKILLS_MATCH'
+    | 'PREFERRED_LOCATION'
+    | 'REMOTE'
+    | 'EXPERIENCE_FIT'
+    | 'PREFERRED_ROLE'
+    | 'SALARY_FIT'
+    | 'SIMILAR_TO_SAVED'
+    | 'SIMILAR_TO_APPLIED'
+    | 'FAMILIAR_COMPANY';
+
+export interface RecommendationReason {
+    code: RecommendationReasonCode;
+    message: string;
+}
+
+const interactionJobSelect = {
+    role: true,
+    companyId: true,
+    skills: true,
+} satisfies Prisma.JobSelect;
+
+type InteractionJob = Prisma.JobGetPayload<{ select: typeof interactionJobSelect }>;
+
+const candidateJobSelect = {
+    id: true,
+    role: true,
+    companyId: true,
+    ...matchJobSelect,
+} satisfies Prisma.JobSelect;
+
+type CandidateJob = Prisma.JobGetPayload<{ select: typeof candidateJobSelect }>;
+
+interface Signals {
+    savedRoles: Set<JobRole>;
+    appliedRoles: Set<JobRole>;
+    hiddenRoles: Map<JobRole, number>;
+    likedCompanies: Set<string>;
+    hiddenCompanies: Set<string>;
+    likedSkills: Set<string>;
+}
+
+const normalize = (value: string) => value.trim().toLowerCase();
+
+function buildSignals(saved: InteractionJob[], applied: InteractionJob[], hidden: InteractionJob[]): Signals {
+    const hiddenRoles = new Map<JobRole, number>();
+    hidden.forEach(job => hiddenRoles.set(job.role, (hiddenRoles.get(job.role) ?? 0) + 1));
+    return {
+        savedRoles: new Set(saved.map(job => job.role)),
+        appliedRoles: new Set(applied.map(job => job.role)),
+        hiddenRoles,
+        likedCompanies: new Set([...saved, ...applied].map(job => job.companyId)),
+        hiddenCompanies: new Set(hidden.map(job => job.companyId)),
+        likedSkills: new Set([...saved, ...applied].flatMap(job => job.skills.map(normalize))),
+    };
+}
+
+// The profile match makes up most of the score; saved, applied and hidden
+// jobs nudge it towards (or away from) similar roles, companies and skills.
+function scoreCandidate(applicant: MatchApplicant, job: CandidateJob, signals: Signals) {
+    const { matchScore, breakdown } = computeMatchScore(applicant, job);
+    const reasons: RecommendationReason[] = [];
+    const factor = (key: string) => breakdown.find(entry => entry.factor === key)?.score ?? null;
+
+    const { matched } = getSkillOverlap(applicant.skills, job.skills);
+    if (matched.length) {
+        reasons.push({ code: 'SKILLS_MATCH', message: `Matches ${matched.length} of your skills` });
+    }
+    if (job.jobType === 'REMOTE') {
+        reasons.push({ code: 'REMOTE', message: "Remote job" });
+    } else if (isLocationMatch([applicant.location, ...applicant.preferredLocations], job.location)) {
+        reasons.push({ code: 'PREFERRED_LOCATION', message: "In your preferred location" });
+    }
+    if (factor('experience') === 1) {
+        reasons.push({ code: 'EXPERIENCE_FIT', message: "Fits your experience" });
+    }
+    if (factor('role') === 1) {
+        reasons.push({ code: 'PREFERRED_ROLE', message: "Matches your preferred role type" });
+    }
+    if (factor('salary') === 1) {
+        reasons.push({ code: 'SALARY_FIT', message: "Pays within your salary expectations" });
+    }
+
+    let behaviour = 0;
+    if (signals.appliedRoles.has(job.role)) {
+        behaviour += 10;
+        reasons.push({ code: 'SIMILAR_TO_APPLIED', message: "Similar to jobs you applied to" });
+    } else if (signals.savedRoles.has(job.role)) {
+        behaviour += 8;
+        reasons.push({ code: 'SIMILAR_TO_SAVED', message: "Similar to jobs you saved" });
+    }
+    if (signals.likedCompanies.has(job.companyId)) {
+        behaviour += 8;
+        reasons.push({ code: 'FAMILIAR_COMPANY', message: "From a company you saved or applied to" });
+    }
+    if (job.skills.length && signals.likedSkills.size) {
+        const shared = job.skills.filter(skill => signals.likedSkills.has(normalize(skill))).length;
+        behaviour += Math.round(12 * shared / job.skills.length);
+    }
+    if (signals.hiddenCompanies.has(job.companyId)) {
+        behaviour -= 15;
+    }
+    behaviour -= 5 * Math.min(signals.hiddenRoles.get(job.role) ?? 0, 3);
+
+    const score = Math.min(Math.max(Math.round(matchScore * 0.7 + behaviour), 0), 100);
+    return { score, matchScore, reasons };
+}
+
+// Ranks open jobs the applicant has not applied to or hidden. Scoring happens
+// in memory over the newest MAX_MATCH_CANDIDATES open jobs, so only page
+// pagination is supported.
+export async function getRecommendedJobs(applicantId: string, pagination: Pagination) {
+    const now = new Date();
+    const [applicant, saved, applied, hidden] = await Promise.all([
+        prisma.applicant.findUniqueOrThrow({ where: { id: applicantId }, select: matchApplicantSelect }),
+        prisma.savedJob.findMany({ where: { applicantId }, select: { job: { select: interactionJobSelect } } }),
+        prisma.application.findMany({ where: { applicantId }, select: { job: { select: interactionJobSelect } } }),
+        prisma.hiddenJob.findMany({ where: { applicantId }, select: { job: { select: interactionJobSelect } } }),
+    ]);
+    const signals = buildSignals(saved.map(entry => entry.job), applied.map(entry => entry.job), hidden.map(entry => entry.job));
+
+    const candidates = await prisma.job.findMany({
+        where: {
+            OR: [{ applicationDeadline: null }, { applicationDeadline: { gt: now } }],
+            NOT: [
+                { applications: { some: { applicantId } } },
+                { hiddenJobs: { some: { applicantId } } }
+            ]
+        },
+        orderBy: [{ createdAt: 'desc' }, { id: 'desc' }],
+        take: MAX_MATCH_CANDIDATES,
+        select: candidateJobSelect
+    });
+
+    const ranked = candidates
+        .map(job => ({ id: job.id, ...scoreCandidate(applicant, job, signals) }))
+        .sort((a, b) => b.score - a.score);
+    const pageEntries = ranked.slice(pagination.skip, pagination.skip + pagination.limit + 1);
+
+    const jobs = await prisma.job.findMany({
+        where: { id: { in: pageEntries.map(entry => entry.id) } },
+        include: {
+            company: true,
+            recruiter: {
+                select: {
+                    id: true,
+                    user: { select: { name: true } },
+                    positionTitle: true
+                }
+            }
+        }
+    });
+
+    const rows = pageEntries.flatMap(({ id, score, matchScore, reasons }) => jobs
+        .filter(job => job.id === id)
+        .map(job => ({ ...job, recommendation: { score, matchScore, reasons } })));
+    return { rows, total: ranked.length };
+}
+
+// Below this match score an applicant is not suggested for a job at all.
+export const MIN_CANDIDATE_MATCH_SCORE = 50;
+
+const candidateApplicantSelect = {
+    id: true,
+    bio: true,
+    isProfileComplete: true,
+    createdAt: true,
+    ...matchApplicantSelect,
+    user: { select: { name: true, profilePicture: true, email: true, phoneNumber: true } },
+} satisfies Prisma.ApplicantSelect;
+
+// Reverse of getRecommendedJobs: applicants who have not applied to the job,
+// share at least one of its skills and score at least
+// MIN_CANDIDATE_MATCH_SCORE. The database pre-filter keeps the in-memory
+// scoring to the MAX_MATCH_CANDIDATES newest matching profiles.
+export async function getRecommendedCandidates(jobId: string, pagination: Pagination) {
+    const job = await prisma.job.findUniqueOrThrow({ where: { id: jobId }, select: matchJobSelect });
+
+    const applicants = await prisma.applicant.findMany({
+        where: {
+            applications: { none: { jobId } },
+            OR: [
+                { skills: { hasSome: job.skills } },
+                { yearsOfExperience: { gte: Math.floor(job.minExperience), lte: Math.ceil(job.maxExperience) } }
+            ]
+        },
+        orderBy: [{ createdAt: 'desc' }, { id: 'desc' }],
+        take: MAX_MATCH_CANDIDATES,
+        select: { ...candidateApplicantSelect, invitations: { where: { jobId }, select: { createdAt: true } } }
+    });
+
+    const ranked = applicants
+        .filter(applicant => getSkillOverlap(applicant.skills, job.skills).matched.length > 0)
+        .map(applicant => ({ applicant, ...computeMatchScore(applicant, job) }))
+        .filter(entry => entry.matchScore >= MIN_CANDIDATE_MATCH_SCORE)
+        .sort((a, b) => b.matchScore - a.matchScore);
+
+    const rows = ranked
+        .slice(pagination.skip, pagination.skip + pagination.limit + 1)
+        .map(({ applicant: { invitations, expectedSalary, salaryCurrency, isWillingToRelocate, ...applicant }, matchScore, breakdown }) => ({
+            ...applicant,
+            invitedAt: invitations[0]?.createdAt ?? null,
+            matchScore,
+            matchBreakdown: breakdown
+        }));
+    return { rows, total: ranked.length };
+}
@@ -0,0 +1,82 @@
+import { Prisma, PrismaClient } from '@prisma/client';
+const prisma = new PrismaClient();
+
+// Upper bound on ranked matches considered per search. Other filters and
+// pagination are applied to this set, so very broad queries only page through
+// the most relevant results.
+export const MAX_SEARCH_MATCHES = 1000;
+
+export interface JobSearchMatch {
+    id: string;
+    rank: number;
+}
+
+export interface JobSearchHighlights {
+    id: string;
+    title: string;
+    description: string;
+    company: string;
+    skills: string[];
+}
+
+// Terms are OR-ed rather than AND-ed so "react remote fintech" still returns
+// jobs that match only some of the words; ts_rank puts the ones matching more
+// (and matching in the title) first.
+const searchQuery = (q: string) =>
+    Prisma.sql`replace(plainto_tsquery('english'::regconfig, ${q})::text, ' & ', ' | ')::tsquery`;
+
+const jobDocument = Prisma.sql`"public"."job_search_document"(j."title", j."skills", j."location", j."description")`;
+
+const highlightOptions = 'StartSel=<mark>, StopSel=</mark>, HighlightAll=true';
+const snippetOptions = 'StartSel=<mark>, StopSel=</mark>, MaxFragments=2, MaxWords=25, MinWords=10, FragmentDelimiter=" … "';
+
+export async function findJobSearchMatches(q: string) {
+    return prisma.$queryRaw<JobSearchMatch[]>`
+        SELECT j."id",
+            ts_rank(${jobDocument} || setweight(to_tsvector('english'::regconfig, c."name"), 'B'), s."query") AS "rank"
+        FROM "public"."Job" j
+        JOIN "public"."Company" c ON c."id" = j."companyId"
+        CROSS JOIN (SELECT ${searchQuery(q)} AS "query") s
+        WHERE ${jobDocument} @@ s."query"
+            OR to_tsvector('english'::regconfig, c."name") @@ s."query"
+        ORDER BY "rank" DESC
+        LIMIT ${MAX_SEARCH_MATCHES}
+    `;
+}
+
+// Job text is user-supplied, so highlights are HTML-escaped and only the
+// <mark> tags added by ts_headline are left as markup.
+function escapeHighlight(value: string) {
+    return value
+        .replace(/&/g, '&amp;')
+        .replace(/</g, '&lt;')
+        .replace(/>/g, '&gt;')
+        .replace(/"/g, '&quot;')
+        .replace(/&lt;(\/?)mark&gt;/g, '<$1mark>');
+}
+
+// ts_headline re-parses the source text, so it is only run for the jobs on the
+// page being returned.
+export async function getJobSearchHighlights(q: string, jobIds: string[]) {
+    if (!jobIds.length) return [];
+    const highlights = await prisma.$queryRaw<JobSearchHighlights[]>`
+        SELECT j."id",
+            ts_headline('english'::regconfig, j."title", s."query", ${highlightOptions}) AS "title",
+            ts_headline('english'::regconfig, j."description", s."query", ${snippetOptions}) AS "description",
+            ts_headline('english'::regconfig, c."name", s."query", ${highlightOptions}) AS "company",
+            ARRAY(
+                SELECT skill FROM unnest(j."skills") AS skill
+                WHERE to_tsvector('english'::regconfig, skill) @@ s."query"
+            ) AS "skills"
+        FROM "public"."Job" j
+        JOIN "public"."Company" c ON c."id" = j."companyId"
+        CROSS JOIN (SELECT ${searchQuery(q)} AS "query") s
+        WHERE j."id" = ANY(${jobIds}::uuid[])
+    `;
+    return highlights.map(highlight => ({
+        ...highlight,
+        title: escapeHighlight(highlight.title),
+        description: escapeHighlight(highlight.description),
+        company: escapeHighlight(highlight.company)
+    }));
+}
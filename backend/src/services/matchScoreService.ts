@@ -0,0 +1,246 @@
+import { Availability, EmploymentType, NoticePeriod, PreferredRole, Prisma } from '@prisma/client';
+import { SchemaObject } from '../docs/documentation';
+import { convertCurrency } from '../utils/currency';
+
+// Upper bound on jobs scored when a list is sorted by match score. Scores are
+// computed in memory, so only the newest jobs matching the other filters are
+// considered.
+export const MAX_MATCH_CANDIDATES = 1000;
+
+export const matchApplicantSelect = {
+    skills: true,
+    yearsOfExperience: true,
+    location: true,
+    preferredLocations: true,
+    isWillingToRelocate: true,
+    preferredRole: true,
+    expectedSalary: true,
+    salaryCurrency: true,
+    availability: true,
+} satisfies Prisma.ApplicantSelect;
+
+export const matchJobSelect = {
+    skills: true,
+    minExperience: true,
+    maxExperience: true,
+    location: true,
+    jobType: true,
+    employmentType: true,
+    ctcType: true,
+    minCTC: true,
+    maxCTC: true,
+    currency: true,
+    noticePeriod: true,
+} satisfies Prisma.JobSelect;
+
+export type MatchApplicant = Prisma.ApplicantGetPayload<{ select: typeof matchApplicantSelect }>;
+export type MatchJob = Prisma.JobGetPayload<{ select: typeof matchJobSelect }>;
+
+export type MatchFactorKey = 'skills' | 'experience' | 'location' | 'role' | 'salary' | 'availability';
+
+export interface MatchFactor {
+    factor: MatchFactorKey;
+    weight: number;
+    // 0-1, or null when the profile or job does not have the data to compare.
+    score: number | null;
+    detail: string;
+}
+
+export interface MatchResult {
+    matchScore: number;
+    breakdown: MatchFactor[];
+}
+
+const factorWeights: Record<MatchFactorKey, number> = {
+    skills: 40,
+    experience: 20,
+    location: 15,
+    role: 10,
+    salary: 10,
+    availability: 5,
+};
+
+// What a scorer returns. jobDataMissing marks a null score caused by the job
+// rather than the profile.
+type FactorScore = Omit<MatchFactor, 'factor' | 'weight'> & { jobDataMissing?: boolean };
+
+const normalize = (value: string) => value.trim().toLowerCase();
+const clamp = (value: number) => Math.min(Math.max(value, 0), 1);
+
+export function getSkillOverlap(applicantSkills: string[], jobSkills: string[]) {
+    const skills = new Set(applicantSkills.map(normalize));
+    const matched = jobSkills.filter(skill => skills.has(normalize(skill)));
+    const missing = jobSkills.filter(skill => !skills.has(normalize(skill)));
+    return { matched, missing };
+}
+
+function scoreSkills(applicant: MatchApplicant, job: MatchJob): FactorScore {
+    if (!job.skills.length) {
+        return { score: null, detail: "Job lists no skills", jobDataMissing: true };
+    }
+    const { matched, missing } = getSkillOverlap(applicant.skills, job.skills);
+    const detail = `Matches ${matched.length} of ${job.skills.length} required skills`
+        + (missing.length ? ` (missing: ${missing.join(', ')})` : '');
+    return { score: matched.length / job.skills.length, detail };
+}
+
+// Each year short of the minimum costs a third of the factor; being over the
+// band is penalised more gently since overqualified candidates can still fit.
+function scoreExperience(applicant: MatchApplicant, job: MatchJob): FactorScore {
+    const years = applicant.yearsOfExperience;
+    const band = `${job.minExperience}-${job.maxExperience} years`;
+    if (years === null) {
+        return { score: null, detail: "Years of experience not set on profile" };
+    }
+    if (years < job.minExperience) {
+        return { score: clamp(1 - (job.minExperience - years) / 3), detail: `${years} years of experience, below the ${band} band` };
+    }
+    if (years > job.maxExperience) {
+        return { score: clamp(1 - (years - job.maxExperience) / 10), detail: `${years} years of experience, above the ${band} band` };
+    }
+    return { score: 1, detail: `${years} years of experience, within the ${band} band` };
+}
+
+export function isLocationMatch(candidates: (string | null)[], jobLocation: string) {
+    const location = normalize(jobLocation);
+    return candidates.some(candidate => {
+        if (!candidate) return false;
+        const value = normalize(candidate);
+        return !!value && (location.includes(value) || value.includes(location));
+    });
+}
+
+function scoreLocation(applicant: MatchApplicant, job: MatchJob): FactorScore {
+    if (job.jobType === 'REMOTE') {
+        return { score: 1, detail: "Remote job" };
+    }
+    if (isLocationMatch([applicant.location, ...applicant.preferredLocations], job.location)) {
+        return { score: 1, detail: `${job.location} matches the profile location or a preferred location` };
+    }
+    if (applicant.isWillingToRelocate) {
+        return { score: 0.5, detail: `Requires relocating to ${job.location}` };
+    }
+    if (!applicant.location && !applicant.preferredLocations.length) {
+        return { score: null, detail: "Location not set on profile" };
+    }
+    return { score: 0, detail: `${job.location} is not a preferred location` };
+}
+
+const compatibleRoles: Partial<Record<PreferredRole, EmploymentType[]>> = {
+    FREELANCE: ["CONTRACT"],
+    TEMPORARY: ["CONTRACT"],
+};
+
+function scoreRole(applicant: MatchApplicant, job: MatchJob): FactorScore {
+    if (!applicant.preferredRole) {
+        return { score: null, detail: "Preferred role not set on profile" };
+    }
+    if (applicant.preferredRole === job.employmentType) {
+        return { score: 1, detail: `${job.employmentType} matches the preferred role` };
+    }
+    if (compatibleRoles[applicant.preferredRole]?.includes(job.employmentType)) {
+        return { score: 0.5, detail: `${job.employmentType} is close to the preferred role (${applicant.preferredRole})` };
+    }
+    return { score: 0, detail: `${job.employmentType} does not match the preferred role (${applicant.preferredRole})` };
+}
+
+// Expectations are converted into the job's currency. Asking for more than the
+// top of the range loses the factor linearly, reaching 0 at 50% above it.
+function scoreSalary(applicant: MatchApplicant, job: MatchJob): FactorScore {
+    if (applicant.expectedSalary === null) {
+        return { score: null, detail: "Expected salary not set on profile" };
+    }
+    if (job.ctcType !== 'RANGE' || job.maxCTC === null) {
+        return { score: null, detail: "Job does not disclose a salary range", jobDataMissing: true };
+    }
+    const expected = convertCurrency(applicant.expectedSalary.toNumber(), applicant.salaryCurrency, job.currency);
+    const rounded = Math.round(expected);
+    if (expected <= job.maxCTC) {
+        return { score: 1, detail: `Expected salary (${rounded} ${job.currency}) is within the offered range` };
+    }
+    return {
+        score: clamp(1 - (expected - job.maxCTC) / (job.maxCTC * 0.5)),
+        detail: `Expected salary (${rounded} ${job.currency}) is above the offered maximum of ${job.maxCTC} ${job.currency}`
+    };
+}
+
+const availabilityDays: Record<Availability, number | null> = {
+    IMMEDIATELY: 0,
+    ONE_WEEK: 7,
+    TWO_WEEKS: 14,
+    ONE_MONTH: 30,
+    FLEXIBLE: null,
+};
+
+const noticePeriodDays: Record<NoticePeriod, number | null> = {
+    IMMEDIATE: 0,
+    WITHIN_15_DAYS: 15,
+    WITHIN_30_DAYS: 30,
+    FLEXIBLE: null,
+};
+
+function scoreAvailability(applicant: MatchApplicant, job: MatchJob): FactorScore {
+    if (!applicant.availability) {
+        return { score: null, detail: "Availability not set on profile" };
+    }
+    if (!job.noticePeriod) {
+        return { score: null, detail: "Job does not specify a notice period", jobDataMissing: true };
+    }
+    const available = availabilityDays[applicant.availability];
+    const required = noticePeriodDays[job.noticePeriod];
+    if (available === null || required === null || available <= required) {
+        return { score: 1, detail: `Availability (${applicant.availability}) fits the notice period (${job.noticePeriod})` };
+    }
+    return {
+        score: clamp(1 - (available - required) / 30),
+        detail: `Availability (${applicant.availability}) is later than the notice period (${job.noticePeriod})`
+    };
+}
+
+const scorers: Record<MatchFactorKey, (applicant: MatchApplicant, job: MatchJob) => FactorScore> = {
+    skills: scoreSkills,
+    experience: scoreExperience,
+    location: scoreLocation,
+    role: scoreRole,
+    salary: scoreSalary,
+    availability: scoreAvailability,
+};
+
+// Weighted average as a 0-100 integer. A factor the profile has no data for
+// counts as a miss, so filling in one matching field does not outrank a
+// complete profile. Factors the job gives nothing to compare against are left
+// out, since no applicant could score on them.
+export function computeMatchScore(applicant: MatchApplicant, job: MatchJob): MatchResult {
+    let totalWeight = 0;
+    let weightedScore = 0;
+    const breakdown = (Object.keys(scorers) as MatchFactorKey[]).map(factor => {
+        const { score, detail, jobDataMissing } = scorers[factor](applicant, job);
+        const weight = factorWeights[factor];
+        if (!jobDataMissing) {
+            totalWeight += weight;
+            weightedScore += weight * (score ?? 0);
+        }
+        return {
+            factor,
+            weight,
+            score: score === null ? null : Math.round(score * 100) / 100,
+            detail
+        };
+    });
+
+    const matchScore = totalWeight ? Math.round(weightedScore / totalWeight * 100) : 0;
+    return { matchScore, breakdown };
+}
+
+export const matchBreakdownSchema: SchemaObject = {
+    type: "array",
+    items: {
+        type: "object",
+        properties: {
+            factor: { type: "string", enum: Object.keys(factorWeights), example: "skills" },
+            weight: { type: "integer", example: 40 },
+            score: { type: "number", nullable: true, example: 0.75, description: "0-1, null when there is not enough data to compare. Missing profile data counts as 0 in matchScore; missing job data is left out." },
+            detail: { type: "string", example: "Matches 3 of 4 required skills (missing: Kubernetes)" },
+        }
+    }
+};
@@ -0,0 +1,98 @@
+import { Prisma, PrismaClient } from '@prisma/client';
+import { SchemaObject } from '../docs/documentation';
+import logger from '../utils/logger';
+import { createNotifications } from './notificationService';
+const prisma = new PrismaClient();
+
+export const MAX_MESSAGE_LENGTH = 5000;
+const PREVIEW_LENGTH = 140;
+
+type Participant = { userId: string; applicantId?: string; recruiterId?: string };
+
+// Only the job's recruiter and the applicant can see or post in a thread.
+export function participantApplicationWhere(user: Participant): Prisma.ApplicationWhereInput {
+    return user.recruiterId ? { job: { recruiterId: user.recruiterId } } : { applicantId: user.applicantId };
+}
+
+export async function findMessageThread(applicationId: string, user: Participant) {
+    return prisma.application.findFirst({
+        where: { id: applicationId, ...participantApplicationWhere(user) },
+        select: {
+            id: true,
+            status: true,
+            applicant: { select: { userId: true, user: { select: { name: true } } } },
+            job: { select: { title: true, recruiter: { select: { userId: true, user: { select: { name: true } } } } } },
+            conversation: { select: { id: true } }
+        }
+    });
+}
+
+export type MessageThread = NonNullable<Awaited<ReturnType<typeof findMessageThread>>>;
+
+// Messages sent to the user that they have not read yet.
+export function unreadMessagesWhere(user: Participant): Prisma.MessageWhereInput {
+    return {
+        senderId: { not: user.userId },
+        readAt: null,
+        conversation: { application: participantApplicationWhere(user) }
+    };
+}
+
+export const messageSelect = {
+    id: true,
+    body: true,
+    readAt: true,
+    createdAt: true,
+    sender: { select: { id: true, name: true, role: true } }
+} satisfies Prisma.MessageSelect;
+
+export async function sendMessage(thread: MessageThread, senderId: string, body: string) {
+    const now = new Date();
+    return prisma.$transaction(async (tx) => {
+        const conversation = await tx.conversation.upsert({
+            where: { applicationId: thread.id },
+            create: { applicationId: thread.id, lastMessageAt: now },
+            update: { lastMessageAt: now }
+        });
+        return tx.message.create({
+            data: { conversationId: conversation.id, senderId, body, createdAt: now },
+            select: messageSelect
+        });
+    });
+}
+
+export async function notifyMessageReceived(thread: MessageThread, senderId: string, body: string) {
+    const toApplicant = senderId !== thread.applicant.userId;
+    const senderName = toApplicant ? thread.job.recruiter.user.name : thread.applicant.user.name;
+    const preview = body.length > PREVIEW_LENGTH ? `${body.slice(0, PREVIEW_LENGTH - 1)}…` : body;
+    try {
+        await createNotifications([{
+            userId: toApplicant ? thread.applicant.userId : thread.job.recruiter.userId,
+            notificationType: "MESSAGE_RECEIVED",
+            title: `New message from ${senderName}`,
+            message: `${thread.job.title}: ${preview}`,
+            link: toApplicant ? `/applications/me/${thread.id}/messages` : `/applications/${thread.id}/messages`
+        }]);
+        logger.info(`MESSAGE_RECEIVED notification created for applicationId: ${thread.id}`);
+    } catch (err) {
+        logger.error(`Error creating MESSAGE_RECEIVED notification for applicationId: ${thread.id} - ${err instanceof Error ? err.message : "Unknown error"}`);
+    }
+}
+
+export const messageSchema: SchemaObject = {
+    type: "object",
+    properties: {
+        id: { type: "string", example: "message-id-123" },
+        body: { type: "string", example: "Could you share your notice period?" },
+        readAt: { type: "string", format: "date-time", nullable: true, description: "When the other participant read the message" },
+        createdAt: { type: "string", format: "date-time" },
+        sender: {
+            type: "object",
+            properties: {
+                id: { type: "string", example: "user-id-456" },
+                name: { type: "string", example: "Recruiter Jane" },
+                role: { type: "string", enum: ["APPLICANT", "RECRUITER"], example: "RECRUITER" }
+            }
+        }
+    }
+};
@@ -0,0 +1,42 @@
+import { EventEmitter } from 'events';
+import { Notification } from '@prisma/client';
+
+export type NotificationListener = (notification: Notification) => void;
+
+// Transport used to fan notifications out to connected clients. The in-process
+// implementation only reaches clients connected to this server instance; a
+// Redis pub/sub implementation of the same interface can replace it when the
+// API runs on more than one instance.
+export interface NotificationBus {
+    publish(notification: Notification): void;
+    subscribe(userId: string, listener: NotificationListener): () => void;
+}
+
+class InMemoryNotificationBus implements NotificationBus {
+    private emitter = new EventEmitter();
+
+    constructor() {
+        this.emitter.setMaxListeners(0);
+    }
+
+    publish(notification: Notification) {
+        this.emitter.emit(notification.userId, notification);
+    }
+
+    subscribe(userId: string, listener: NotificationListener) {
+        this.emitter.on(userId, listener);
+        return () => {
+            this.emitter.off(userId, listener);
+        };
+    }
+}
+
+let bus: NotificationBus = new InMemoryNotificationBus();
+
+export function getNotificationBus() {
+    return bus;
+}
+
+export function setNotificationBus(nextBus: NotificationBus) {
+    bus = nextBus;
+}
@@ -0,0 +1,152 @@
+import { NotificationCategory, NotificationType, PrismaClient } from '@prisma/client';
+import logger from '../utils/logger';
+import { getNotificationBus } from './notificationBus';
+const prisma = new PrismaClient();
+
+const categoryByType: Record<NotificationType, NotificationCategory> = {
+    APPLICATION_SUBMITTED: "APPLICATION",
+    APPLICATION_REJECTED: "APPLICATION",
+    APPLICATION_VIEWED: "APPLICATION",
+    APPLICATION_ACCEPTED: "APPLICATION",
+    NEW_APPLICATION: "APPLICATION",
+    APPLICATION_WITHDRAWN: "APPLICATION",
+    DOCUMENT_REQUEST: "APPLICATION",
+    INTERVIEW_SCHEDULED: "INTERVIEW",
+    INTERVIEW_RESCHEDULED: "INTERVIEW",
+    INTERVIEW_CANCELLED: "INTERVIEW",
+    INTERVIEW_CONFIRMED: "INTERVIEW",
+    PROFILE_INCOMPLETE: "ACCOUNT",
+    SYSTEM_UPDATE: "SYSTEM",
+    MESSAGE_RECEIVED: "MESSAGE",
+    FEATURE_ANNOUNCEMENT: "ENGAGEMENT",
+    JOB_ALERT: "ENGAGEMENT",
+    JOB_INVITATION: "APPLICATION",
+};
+
+export type NotificationInput = {
+    userId: string;
+    title: string;
+    message: string;
+    notificationType: NotificationType;
+    notificationCategory?: NotificationCategory;
+    link?: string | null;
+};
+
+export type NotificationFilters = {
+    category?: NotificationCategory;
+    isRead?: boolean;
+    page: number;
+    limit: number;
+};
+
+function toCreateData(input: NotificationInput) {
+    return {
+        userId: input.userId,
+        title: input.title,
+        message: input.message,
+        link: input.link ?? null,
+        notificationType: input.notificationType,
+        notificationCategory: input.notificationCategory ?? categoryByType[input.notificationType],
+    };
+}
+
+export async function createNotification(input: NotificationInput) {
+    logger.debug(`DB Insert - Creating ${input.notificationType} notification for userId: ${input.userId}`);
+    const notification = await prisma.notification.create({
+        data: toCreateData(input)
+    });
+    getNotificationBus().publish(notification);
+    return notification;
+}
+
+export async function createNotifications(inputs: NotificationInput[]) {
+    if (!inputs.length) return [];
+    logger.debug(`DB Insert - Creating ${inputs.length} notifications`);
+    const notifications = await prisma.$transaction(
+        inputs.map(input => prisma.notification.create({ data: toCreateData(input) }))
+    );
+    notifications.forEach(notification => getNotificationBus().publish(notification));
+    return notifications;
+}
+
+export async function listNotifications(userId: string, filters: NotificationFilters) {
+    const where = {
+        userId,
+        ...(filters.category ? { notificationCategory: filters.category } : {}),
+        ...(filters.isRead !== undefined ? { isRead: filters.isRead } : {}),
+    };
+    const skip = (filters.page - 1) * filters.limit;
+
+    const [notifications, total] = await Promise.all([
+        prisma.notification.findMany({
+            where,
+            orderBy: { createdAt: 'desc' },
+            skip,
+            take: filters.limit,
+        }),
+        prisma.notification.count({ where }),
+    ]);
+
+    return { notifications, total };
+}
+
+export async function listNotificationsSince(userId: string, lastNotificationId: string, limit: number) {
+    const lastNotification = await prisma.notification.findFirst({
+        where: { id: lastNotificationId, userId },
+        select: { createdAt: true }
+    });
+
+    if (!lastNotification) return [];
+
+    return prisma.notification.findMany({
+        where: {
+            userId,
+            createdAt: { gt: lastNotification.createdAt }
+        },
+        orderBy: { createdAt: 'asc' },
+        take: limit,
+    });
+}
+
+export async function getUnreadCount(userId: string, category?: NotificationCategory) {
+    return prisma.notification.count({
+        where: {
+            userId,
+            isRead: false,
+            ...(category ? { notificationCategory: category } : {}),
+        }
+    });
+}
+
+export async function markAsRead(userId: string, notificationId: string) {
+    const notification = await prisma.notification.findFirst({
+        where: { id: notificationId, userId }
+    });
+
+    if (!notification) return null;
+    if (notification.isRead) return notification;
+
+    return prisma.notification.update({
+        where: { id: notificationId },
+        data: { isRead: true, readAt: new Date() }
+    });
+}
+
+export async function markAllAsRead(userId: string, category?: NotificationCategory) {
+    const result = await prisma.notification.updateMany({
+        where: {
+            userId,
+            isRead: false,
+            ...(category ? { notificationCategory: category } : {}),
+        },
+        data: { isRead: true, readAt: new Date() }
+    });
+    return result.count;
+}
+
+export async function deleteNotification(userId: string, notificationId: string) {
+    const result = await prisma.notification.deleteMany({
+        where: { id: notificationId, userId }
+    });
+    return result.count > 0;
+}
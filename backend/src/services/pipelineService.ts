@@ -0,0 +1,186 @@
+import { ApplicationStatus, Prisma, PrismaClient } from '@prisma/client';
+import { statusChangeOperations } from './applicationHistoryService';
+const prisma = new PrismaClient();
+
+// WITHDRAWN is set by the applicant, so a stage can only map onto the others.
+export const STAGE_STATUSES = ["PENDING", "REVIEWED", "ACCEPTED", "REJECTED"] as const satisfies readonly ApplicationStatus[];
+
+// Applications in a stage mapped to one of these statuses cannot move any further.
+export const TERMINAL_STATUSES: ApplicationStatus[] = ["ACCEPTED", "REJECTED"];
+
+export interface PipelineStageInput {
+    name: string;
+    status: typeof STAGE_STATUSES[number];
+    next?: string[];
+}
+
+const isTerminal = (status: ApplicationStatus) => TERMINAL_STATUSES.includes(status);
+
+// Stage names are compared case-insensitively, both for duplicates and for
+// `next` references.
+const stageKey = (name: string) => name.toLowerCase();
+
+const findStage = (stages: PipelineStageInput[], name: string) =>
+    stages.find(stage => stageKey(stage.name) === stageKey(name));
+
+// Returns a message describing the first problem found, or null when the
+// stages form a valid pipeline.
+export function validatePipeline(stages: PipelineStageInput[]) {
+    const names = new Set<string>();
+    for (const stage of stages) {
+        const key = stageKey(stage.name);
+        if (names.has(key)) return `Duplicate stage name: ${stage.name}`;
+        names.add(key);
+    }
+    if (stages.length && isTerminal(stages[0].status)) {
+        return "The first stage cannot be a terminal (ACCEPTED or REJECTED) stage";
+    }
+    for (const stage of stages) {
+        if (!stage.next?.length) continue;
+        if (isTerminal(stage.status)) return `Terminal stage ${stage.name} cannot have next stages`;
+        const unknown = stage.next.find(name => !findStage(stages, name));
+        if (unknown) return `Stage ${stage.name} lists unknown next stage: ${unknown}`;
+        if (stage.next.some(name => stageKey(name) === stageKey(stage.name))) return `Stage ${stage.name} cannot transition to itself`;
+    }
+    return null;
+}
+
+// Stages without an explicit `next` list advance to the following stage and
+// can be sent to any REJECTED stage. Terminal stages have no way out. `next`
+// references are resolved to the stages' own spelling.
+export function resolveTransitions(stages: PipelineStageInput[]) {
+    const rejectedStages = stages.filter(stage => stage.status === "REJECTED").map(stage => stage.name);
+    return new Map(stages.map((stage, index) => {
+        if (isTerminal(stage.status)) return [stage.name, []];
+        if (stage.next) return [stage.name, [...new Set(stage.next.map(name => findStage(stages, name)?.name ?? name))]];
+        const following = stages[index + 1]?.name;
+        const defaults = [...(following ? [following] : []), ...rejectedStages];
+        return [stage.name, [...new Set(defaults)].filter(name => name !== stage.name)];
+    }));
+}
+
+const pipelineStageInclude = {
+    transitionsFrom: { select: { toStageId: true } },
+    _count: { select: { applications: true } }
+} satisfies Prisma.PipelineStageInclude;
+
+type PipelineStageWithTransitions = Prisma.PipelineStageGetPayload<{ include: typeof pipelineStageInclude }>;
+
+function formatStage({ transitionsFrom, _count, ...stage }: PipelineStageWithTransitions) {
+    return {
+        ...stage,
+        isTerminal: isTerminal(stage.status),
+        nextStageIds: transitionsFrom.map(transition => transition.toStageId),
+        applicationCount: _count.applications
+    };
+}
+
+export async function getPipeline(jobId: string) {
+    const stages = await prisma.pipelineStage.findMany({
+        where: { jobId },
+        orderBy: { position: 'asc' },
+        include: pipelineStageInclude
+    });
+    return stages.map(formatStage);
+}
+
+// Saving a pipeline would strand applications if a stage they sit in were
+// removed or started reporting a different status, so those edits are refused.
+export async function findBlockedStageChanges(jobId: string, stages: PipelineStageInput[]) {
+    const occupied = await prisma.pipelineStage.findMany({
+        where: { jobId, applications: { some: {} } },
+        select: { name: true, status: true }
+    });
+    return occupied
+        .filter(existing => {
+            const next = stages.find(stage => stage.name === existing.name);
+            return !next || next.status !== existing.status;
+        })
+        .map(existing => existing.name);
+}
+
+// Stages are matched to the existing ones by name, so renaming a stage is the
+// same as removing it and adding a new one.
+export async function savePipeline(jobId: string, stages: PipelineStageInput[]) {
+    const transitions = resolveTransitions(stages);
+    await prisma.$transaction(async (tx) => {
+        await tx.pipelineStage.deleteMany({
+            where: { jobId, name: { notIn: stages.map(stage => stage.name) } }
+        });
+
+        const stageIds = new Map<string, string>();
+        for (const [position, stage] of stages.entries()) {
+            const saved = await tx.pipelineStage.upsert({
+                where: { jobId_name: { jobId, name: stage.name } },
+                create: { jobId, name: stage.name, position, status: stage.status },
+                update: { position, status: stage.status },
+                select: { id: true }
+            });
+            stageIds.set(stage.name, saved.id);
+        }
+
+        await tx.pipelineTransition.deleteMany({ where: { fromStage: { jobId } } });
+        await tx.pipelineTransition.createMany({
+            data: [...transitions].flatMap(([from, targets]) => targets.map(to => ({
+                fromStageId: stageIds.get(from)!,
+                toStageId: stageIds.get(to)!
+            })))
+        });
+    });
+    return getPipeline(jobId);
+}
+
+export async function findEntryStage(jobId: string) {
+    return prisma.pipelineStage.findFirst({
+        where: { jobId },
+        orderBy: { position: 'asc' },
+        select: { id: true, name: true, status: true }
+    });
+}
+
+export async function jobHasPipeline(jobId: string) {
+    return (await prisma.pipelineStage.count({ where: { jobId } })) > 0;
+}
+
+interface StageMove {
+    application: { id: string; status: ApplicationStatus; eviewedAt: Date | null };
+    fromStage: { id: string; name: string } | null;
+    toStage: { id: string; name: string; status: ApplicationStatus };
+    actorId: string;
+    note?: string;
+}
+
+// Moves the application and records who moved it. The application takes on
+// the status mapped to the new stage, which is recorded as a status change too.
+// The transition was checked against the stage and status the caller read, so
+// the write only matches while both are unchanged; otherwise the whole move is
+// rolled back and null is returned.
+export async function moveApplicationToStage({ application, fromStage, toStage, actorId, note }: StageMove) {
+    let move;
+    try {
+        [, move] = await prisma.$transaction([
+            prisma.application.update({
+                where: { id: application.id, stageId: fromStage?.id ?? null, status: application.status },
+                data: { stageId: toStage.id }
+            }),
+            prisma.applicationStageMove.create({
+                data: {
+                    applicationId: application.id,
+                    fromStageId: fromStage?.id,
+                    fromStageName: fromStage?.name,
+                    toStageId: toStage.id,
+                    toStageName: toStage.name,
+                    actorId,
+                    note
+                },
+                include: { actor: { select: { id: true, name: true } } }
+            }),
+            ...statusChangeOperations({ application, toStatus: toStage.status, actorId, note })
+        ]);
+    } catch (err) {
+        if (err instanceof Prisma.PrismaClientKnownRequestError && err.code === "P2025") return null;
+        throw err;
+    }
+    const updatedApplication = await prisma.application.findUniqueOrThrow({ where: { id: application.id } });
+    return { application: updatedApplication, move };
+}
@@ -0,0 +1,249 @@
+import mammoth from 'mammoth';
+import { PDFParse } from 'pdf-parse';
+import { skillsDictionary } from '../utils/skillsDictionary';
+
+export interface ParsedExperience {
+    jobTitle: string;
+    companyName: string;
+    startDate: string;
+    endDate: string | null;
+    location: string | null;
+    description: string | null;
+}
+
+export interface ParsedEducation {
+    schoolName: string;
+    degree: string;
+    fieldOfStudy: string;
+    startDate: string;
+    endDate: string | null;
+    grade: string | null;
+    description: string | null;
+}
+
+export interface ParsedResume {
+    email: string | null;
+    phone: string | null;
+    skills: string[];
+    experience: ParsedExperience[];
+    education: ParsedEducation[];
+}
+
+export async function extractResumeText(buffer: Buffer, mimeType: string) {
+    if (mimeType === 'application/pdf') {
+        const parser = new PDFParse({ data: buffer });
+        try {
+            const result = await parser.getText();
+            return result.text;
+        } finally {
+            await parser.destroy();
+        }
+    }
+    const result = await mammoth.extractRawText({ buffer });
+    return result.value;
+}
+
+// ---------- Contact details ----------
+
+const emailPattern = /[A-Za-z0-9._%+-]+@[A-Za-z0-9.-]+\.[A-Za-z]{2,}/;
+const phonePattern = /\+?\d[\d\s().-]{7,}\d/g;
+
+function findPhone(text: string) {
+    for (const match of text.match(phonePattern) ?? []) {
+        const digits = match.replace(/\D/g, '');
+        // Skip date ranges such as "2019 - 2021" that look like numbers.
+        if (digits.length >= 10 && digits.length <= 15 && !/^\d{4}\s*[-–]\s*\d{4}$/.test(match.trim())) {
+            return match.trim();
+        }
+    }
+    return null;
+}
+
+// ---------- Skills ----------
+
+const escapeRegExp = (value: string) => value.replace(/[.*+?^${}()|[\]\\/]/g, '\\$&');
+
+// Terms of three characters or fewer ("Go", "JS", "AWS") are matched
+// case-sensitively so ordinary words do not count as skills.
+const skillMatchers = Object.entries(skillsDictionary).map(([skill, aliases]) => ({
+    skill,
+    patterns: [skill, ...aliases].map(term => new RegExp(
+        `(?<![A-Za-z0-9+#.])${escapeRegExp(term)}(?![A-Za-z0-9+#])`,
+        term.length <= 3 ? '' : 'i'
+    ))
+}));
+
+function findSkills(text: string) {
+    return skillMatchers
+        .filter(({ patterns }) => patterns.some(pattern => pattern.test(text)))
+        .map(({ skill }) => skill);
+}
+
+// ---------- Sections ----------
+
+type SectionName = 'experience' | 'education' | 'other';
+
+const sectionHeadings: [SectionName, RegExp][] = [
+    ['experience', /^(work |professional |employment |relevant )?(experience|history)$|^employment$/i],
+    ['education', /^(education|academic (background|qualifications)|qualifications)$/i],
+    ['other', /^(skills|technical skills|projects|certifications|summary|profile|objective|achievements|awards|languages|interests|hobbies|publications|references|contact|volunteering)$/i],
+];
+
+function splitSections(lines: string[]) {
+    const sections: Record<SectionName, string[]> = { experience: [], education: [], other: [] };
+    let current: SectionName = 'other';
+    for (const line of lines) {
+        const heading = line.replace(/[:\s]+$/, '');
+        const match = heading.length <= 40 ? sectionHeadings.find(([, pattern]) => pattern.test(heading)) : undefined;
+        if (match) {
+            current = match[0];
+            continue;
+        }
+        sections[current].push(line);
+    }
+    return sections;
+}
+
+// ---------- Date ranges ----------
+
+const months = ['jan', 'feb', 'mar', 'apr', 'may', 'jun', 'jul', 'aug', 'sep', 'oct', 'nov', 'dec'];
+const dateToken = `(?:(?:${months.join('|')})[a-z]*\\.?\\s+\\d{4}|\\d{1,2}\\/\\d{4}|\\d{4})`;
+const dateRangePattern = new RegExp(`\\(?(${dateToken})\\s*(?:-|–|—|to)\\s*(${dateToken}|present|current|now|till date|today)\\)?`, 'i');
+
+function parseDateToken(token: string) {
+    const value = token.toLowerCase().trim();
+    const numeric = value.match(/^(\d{1,2})\/(\d{4})$/);
+    if (numeric) {
+        return new Date(Date.UTC(Number(numeric[2]), Number(numeric[1]) - 1, 1));
+    }
+    const named = value.match(/^([a-z]+)\.?\s+(\d{4})$/);
+    if (named) {
+        const month = months.indexOf(named[1].slice(0, 3));
+        return new Date(Date.UTC(Number(named[2]), Math.max(month, 0), 1));
+    }
+    const year = value.match(/^\d{4}$/);
+    return year ? new Date(Date.UTC(Number(value), 0, 1)) : null;
+}
+
+const toDateString = (date: Date) => date.toISOString().slice(0, 10);
+
+interface DatedBlock {
+    header: string[];
+    startDate: string;
+    endDate: string | null;
+    body: string[];
+}
+
+const isBullet = (line: string) => /^[•\-*▪◦●]/.test(line);
+
+// Groups a section into entries anchored on lines that contain a date range.
+// The text around the dates, plus the line right above when it looks like a
+// title, becomes the entry header; the lines that follow are its body.
+function splitDatedBlocks(lines: string[]) {
+    const blocks: DatedBlock[] = [];
+    lines.forEach((line, index) => {
+        const match = line.match(dateRangePattern);
+        const start = match ? parseDateToken(match[1]) : null;
+        if (!match || !start) {
+            blocks[blocks.length - 1]?.body.push(line);
+            return;
+        }
+
+        const end = parseDateToken(match[2]);
+        const header = [line.replace(match[0], '').replace(/^[\s,|·•\-–—]+|[\s,|·•\-–—]+$/g, '')].filter(Boolean);
+        const previous = lines[index - 1];
+        const previousBlock = blocks[blocks.length - 1];
+        if (previous && !isBullet(previous) && previous.length <= 80 && !dateRangePattern.test(previous)) {
+            header.unshift(previous);
+            if (previousBlock?.body[previousBlock.body.length - 1] === previous) {
+                previousBlock.body.pop();
+            }
+        }
+
+        blocks.push({
+            header,
+            startDate: toDateString(start),
+            endDate: end ? toDateString(end) : null,
+            body: []
+        });
+    });
+    return blocks;
+}
+
+const toDescription = (body: string[]) => {
+    const description = body.map(line => line.replace(/^[•\-*▪◦●]\s*/, '')).join('\n').trim();
+    return description ? description.slice(0, 2000) : null;
+};
+
+const headerPieces = (header: string[]) => header
+    .flatMap(part => part.split(/\s+(?:at|@)\s+|\s*[|·]\s*|\s+[-–—]\s+|,\s+/i))
+    .map(piece => piece.trim())
+    .filter(Boolean);
+
+// ---------- Experience ----------
+
+const companyHint = /\b(inc|ltd|llc|llp|corp|corporation|company|co|gmbh|pvt|private limited|technologies|solutions|labs|systems|group|software)\b\.?/i;
+const titleHint = /\b(engineer|developer|manager|intern|analyst|designer|lead|consultant|architect|scientist|specialist|associate|director|officer|administrator|executive|head|founder|programmer)\b/i;
+
+function parseExperience(lines: string[]): ParsedExperience[] {
+    return splitDatedBlocks(lines).map(block => {
+        const pieces = headerPieces(block.header);
+        const jobTitle = pieces.find(piece => titleHint.test(piece)) ?? pieces[0] ?? '';
+        const companyName = pieces.find(piece => piece !== jobTitle && companyHint.test(piece))
+            ?? pieces.find(piece => piece !== jobTitle)
+            ?? '';
+        return {
+            jobTitle,
+            companyName,
+            startDate: block.startDate,
+            endDate: block.endDate,
+            location: null,
+            description: toDescription(block.body)
+        };
+    });
+}
+
+// ---------- Education ----------
+
+const degreeHint = /\b(bachelor|master|b\.?\s?tech|m\.?\s?tech|b\.?\s?e|m\.?\s?e|b\.?\s?sc|m\.?\s?sc|b\.?\s?s|m\.?\s?s|b\.?\s?a|m\.?\s?a|b\.?\s?com|m\.?\s?com|bca|mca|mba|ph\.?\s?d|doctorate|diploma|associate|high school|secondary|hsc|ssc)\b/i;
+const schoolHint = /\b(university|college|institute|school|academy|polytechnic|iit|nit)\b/i;
+const gradePattern = /\b(c?gpa|grade|percentage|score)\s*[:\-]?\s*([\d.]+\s*(?:\/\s*[\d.]+|%)?)/i;
+
+function parseEducation(lines: string[]): ParsedEducation[] {
+    return splitDatedBlocks(lines).map(block => {
+        const pieces = headerPieces(block.header);
+        const degreePiece = pieces.find(piece => degreeHint.test(piece)) ?? pieces[0] ?? '';
+        const schoolName = pieces.find(piece => piece !== degreePiece && schoolHint.test(piece))
+            ?? pieces.find(piece => piece !== degreePiece)
+            ?? '';
+        const [degree, fieldOfStudy = ''] = degreePiece.split(/\s+in\s+|\s*\(\s*|\s*\)\s*/i).map(part => part.trim());
+        const gradeMatch = [...block.header, ...block.body].join(' ').match(gradePattern);
+        return {
+            schoolName,
+            degree: degree ?? '',
+            fieldOfStudy,
+            startDate: block.startDate,
+            endDate: block.endDate,
+            grade: gradeMatch ? gradeMatch[2].trim() : null,
+            description: toDescription(block.body.filter(line => !gradePattern.test(line)))
+        };
+    });
+}
+
+// Best-effort, local-only parsing. Every field is a suggestion the applicant
+// reviews before anything is written to their profile.
+export function parseResumeText(text: string): ParsedResume {
+    const lines = text
+        .split(/\r?\n/)
+        .map(line => line.replace(/\s+/g, ' ').trim())
+        .filter(Boolean);
+    const sections = splitSections(lines);
+
+    return {
+        email: text.match(emailPattern)?.[0] ?? null,
+        phone: findPhone(text),
+        skills: findSkills(text),
+        experience: parseExperience(sections.experience),
+        education: parseEducation(sections.education)
+    };
+}
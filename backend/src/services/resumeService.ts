@@ -0,0 +1,106 @@
+import { randomUUID } from 'crypto';
+import path from 'path';
+import { Response } from 'express';
+import { Readable } from 'stream';
+import { Prisma, PrismaClient, Resume } from '@prisma/client';
+import logger from '../utils/logger';
+import { getResumeStorage } from './resumeStorage';
+import { extractResumeText, ParsedResume, parseResumeText } from './resumeParserService';
+const prisma = new PrismaClient();
+
+export async function findLatestResume(applicantId: string) {
+    return prisma.resume.findFirst({
+        where: { applicantId },
+        orderBy: { version: 'desc' }
+    });
+}
+
+// Concurrent uploads can read the same latest version; the loser of the
+// unique (applicantId, version) race retries with the next number.
+const MAX_VERSION_ATTEMPTS = 3;
+
+const isVersionConflict = (err: unknown) =>
+    err instanceof Prisma.PrismaClientKnownRequestError && err.code === "P2002";
+
+// Writes the file to storage first and only then records the new version, so
+// a row never points at a missing object. The object is removed again if the
+// insert fails.
+export async function saveResume(applicantId: string, file: Express.Multer.File) {
+    const storageKey = `${applicantId}/${randomUUID()}${path.extname(file.originalname).toLowerCase()}`;
+    const storage = getResumeStorage();
+    await storage.put(storageKey, file.buffer, file.mimetype);
+
+    try {
+        for (let attempt = 1; ; attempt++) {
+            const latest = await findLatestResume(applicantId);
+            try {
+                return await prisma.resume.create({
+                    data: {
+                        applicantId,
+                        version: (latest?.version ?? 0) + 1,
+                        fileName: path.basename(file.originalname),
+                        mimeType: file.mimetype,
+                        size: file.size,
+                        storageKey
+                    }
+                });
+            } catch (err) {
+                if (!isVersionConflict(err) || attempt >= MAX_VERSION_ATTEMPTS) throw err;
+                logger.warn(`Resume version ${(latest?.version ?? 0) + 1} taken for applicantId: ${applicantId}, retrying (attempt ${attempt})`);
+            }
+        }
+    } catch (err) {
+        await storage.delete(storageKey).catch((cleanupErr) => {
+            logger.error(`Failed to remove orphaned resume object ${storageKey} - ${cleanupErr instanceof Error ? cleanupErr.message : "Unknown error"}`);
+        });
+        throw err;
+    }
+}
+
+export async function deleteResume(resume: Resume) {
+    await prisma.resume.delete({ where: { id: resume.id } });
+    await getResumeStorage().delete(resume.storageKey);
+}
+
+export async function streamResume(res: Response, resume: Resume) {
+    const stream = await getResumeStorage().getStream(resume.storageKey);
+    res.setHeader('Content-Type', resume.mimeType);
+    res.setHeader('Content-Length', resume.size.toString());
+    res.setHeader('Content-Disposition', `attachment; filename*=UTF-8''${encodeURIComponent(resume.fileName)}`);
+
+    stream.on('error', (err) => {
+        logger.error(`Error streaming resume ${resume.id} - ${err.message}`);
+        res.destroy(err);
+    });
+    stream.pipe(res);
+}
+
+async function readResume(resume: Resume) {
+    const chunks: Buffer[] = [];
+    for await (const chunk of (await getResumeStorage().getStream(resume.storageKey)) as Readable) {
+        chunks.push(Buffer.isBuffer(chunk) ? chunk : Buffer.from(chunk));
+    }
+    return Buffer.concat(chunks);
+}
+
+export async function parseAndStoreResume(resume: Resume, buffer?: Buffer) {
+    const text = await extractResumeText(buffer ?? await readResume(resume), resume.mimeType);
+    const parsed = parseResumeText(text);
+    // Postgres text columns cannot hold NUL characters, which PDF extraction
+    // occasionally produces.
+    return prisma.resume.update({
+        where: { id: resume.id },
+        data: {
+            extractedText: text.replace(/\u0000/g, ''),
+            parsedData: parsed as unknown as Prisma.InputJsonValue,
+            parsedAt: new Date()
+        }
+    });
+}
+
+// Resumes uploaded before parsing existed, or whose parse failed, are parsed
+// on first request.
+export async function getParsedResume(resume: Resume) {
+    const parsedResume = resume.parsedAt ? resume : await parseAndStoreResume(resume);
+    return parsedResume.parsedData as unknown as ParsedResume;
+}
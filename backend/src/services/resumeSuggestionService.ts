@@ -0,0 +1,95 @@
+import { PrismaClient } from '@prisma/client';
+import { getMissingProfileFields } from './applicantProfileService';
+import { ParsedEducation, ParsedExperience, ParsedResume } from './resumeParserService';
+const prisma = new PrismaClient();
+
+export interface ProfileSuggestions {
+    skills: string[];
+    phoneNumber: string | null;
+    experience: ParsedExperience[];
+    education: ParsedEducation[];
+    detected: { email: string | null; phone: string | null };
+}
+
+export interface AcceptedSuggestions {
+    skills?: string[];
+    phoneNumber?: string;
+    experience?: (Omit<ParsedExperience, "startDate" | "endDate"> & { startDate: Date; endDate?: Date | null })[];
+    education?: (Omit<ParsedEducation, "startDate" | "endDate"> & { startDate: Date; endDate?: Date | null })[];
+}
+
+const normalize = (value: string) => value.trim().toLowerCase();
+
+// Drops everything the profile already has, so the suggestion only contains
+// what accepting it would add.
+export async function buildProfileSuggestions(applicantId: string, parsed: ParsedResume): Promise<ProfileSuggestions> {
+    const applicant = await prisma.applicant.findUniqueOrThrow({
+        where: { id: applicantId },
+        select: {
+            skills: true,
+            user: { select: { phoneNumber: true } },
+            experience: { select: { jobTitle: true, companyName: true } },
+            education: { select: { schoolName: true, degree: true } }
+        }
+    });
+
+    const existingSkills = new Set(applicant.skills.map(normalize));
+    const existingExperience = new Set(applicant.experience.map(entry => `${normalize(entry.jobTitle)}|${normalize(entry.companyName)}`));
+    const existingEducation = new Set(applicant.education.map(entry => `${normalize(entry.schoolName)}|${normalize(entry.degree)}`));
+
+    return {
+        skills: parsed.skills.filter(skill => !existingSkills.has(normalize(skill))),
+        phoneNumber: applicant.user.phoneNumber ? null : parsed.phone,
+        experience: parsed.experience.filter(entry => !existingExperience.has(`${normalize(entry.jobTitle)}|${normalize(entry.companyName)}`)),
+        education: parsed.education.filter(entry => !existingEducation.has(`${normalize(entry.schoolName)}|${normalize(entry.degree)}`)),
+        detected: { email: parsed.email, phone: parsed.phone }
+    };
+}
+
+// Writes the parts of a suggestion the applicant accepted (possibly edited) in
+// one transaction. New entries are appended after the existing ones.
+export async function applyProfileSuggestions(applicantId: string, accepted: AcceptedSuggestions) {
+    return prisma.$transaction(async (tx) => {
+        const applicant = await tx.applicant.findUniqueOrThrow({ where: { id: applicantId } });
+
+        const skills = [...applicant.skills];
+        for (const skill of accepted.skills ?? []) {
+            if (!skills.some(existing => normalize(existing) === normalize(skill))) {
+                skills.push(skill);
+            }
+        }
+
+        if (accepted.phoneNumber) {
+            await tx.user.update({
+                where: { id: applicant.userId },
+                data: { phoneNumber: accepted.phoneNumber }
+            });
+        }
+
+        const [{ _max: experienceMax }, { _max: educationMax }] = await Promise.all([
+            tx.experience.aggregate({ where: { applicantId }, _max: { position: true } }),
+            tx.education.aggregate({ where: { applicantId }, _max: { position: true } })
+        ]);
+        const nextExperience = experienceMax.position === null ? 0 : experienceMax.position + 1;
+        const nextEducation = educationMax.position === null ? 0 : educationMax.position + 1;
+
+        await tx.experience.createMany({
+            data: (accepted.experience ?? []).map((entry, index) => ({ ...entry, applicantId, position: nextExperience + index }))
+        });
+        await tx.education.createMany({
+            data: (accepted.education ?? []).map((entry, index) => ({ ...entry, applicantId, position: nextEducation + index }))
+        });
+
+        const missingFields = getMissingProfileFields({ ...applicant, skills });
+        const profile = await tx.applicant.update({
+            where: { id: applicantId },
+            data: { skills, isProfileComplete: missingFields.length === 0 },
+            include: {
+                experience: { orderBy: [{ position: 'asc' }, { startDate: 'desc' }] },
+                education: { orderBy: [{ position: 'asc' }, { startDate: 'desc' }] }
+            }
+        });
+
+        return { profile, missingFields };
+    });
+}
@@ -0,0 +1,70 @@
+import { PrismaClient, Role } from '@prisma/client';
+import logger from '../utils/logger';
+const prisma = new PrismaClient();
+
+// Nested write for prisma.user.create so the role-specific profile row is
+// created in the same transaction as the user.
+export function roleProfileCreateInput(role: Role) {
+    return role === Role.RECRUITER
+        ? { recruiter: { create: {} } }
+        : { applicant: { create: {} } };
+}
+
+export async function ensureRoleProfile(userId: string, role: Role) {
+    if (role === Role.RECRUITER) {
+        await prisma.recruiter.upsert({
+            where: { userId },
+            create: { userId },
+            update: {}
+        });
+    } else {
+        await prisma.applicant.upsert({
+            where: { userId },
+            create: { userId },
+            update: {}
+        });
+    }
+}
+
+export async function findApplicantId(userId: string) {
+    const applicant = await prisma.applicant.findUnique({
+        where: { userId },
+        select: { id: true }
+    });
+    return applicant?.id ?? null;
+}
+
+export async function findRecruiterId(userId: string) {
+    const recruiter = await prisma.recruiter.findUnique({
+        where: { userId },
+        select: { id: true }
+    });
+    return recruiter?.id ?? null;
+}
+
+export async function backfillRoleProfiles() {
+    const [applicantUsers, recruiterUsers] = await Promise.all([
+        prisma.user.findMany({
+            where: { role: Role.APPLICANT, applicant: null },
+            select: { id: true }
+        }),
+        prisma.user.findMany({
+            where: { role: Role.RECRUITER, recruiter: null },
+            select: { id: true }
+        }),
+    ]);
+    logger.info(`Backfill - ${applicantUsers.length} applicants and ${recruiterUsers.length} recruiters missing a profile`);
+
+    const [applicants, recruiters] = await prisma.$transaction([
+        prisma.applicant.createMany({
+            data: applicantUsers.map(user => ({ userId: user.id })),
+            skipDuplicates: true
+        }),
+        prisma.recruiter.createMany({
+            data: recruiterUsers.map(user => ({ userId: user.id })),
+            skipDuplicates: true
+        }),
+    ]);
+
+    return { applicants: applicants.count, recruiters: recruiters.count };
+}
@@ -0,0 +1,32 @@
+import { PrismaClient } from '@prisma/client';
+const prisma = new PrismaClient();
+
+// A recruiter only sees an applicant's email and phone number once the
+// applicant has applied to one of the recruiter's jobs.
+export function seekerUserSelect(hasApplication: boolean) {
+    return {
+        name: true,
+        profilePicture: true,
+        email: hasApplication,
+        phoneNumber: hasApplication,
+    };
+}
+
+export async function findLinkedApplicantIds(recruiterId: string, applicantIds: string[]) {
+    if (!applicantIds.length) return new Set<string>();
+    const applications = await prisma.application.findMany({
+        where: {
+            applicantId: { in: applicantIds },
+            job: { recruiterId },
+        },
+        select: { applicantId: true },
+        distinct: ['applicantId'],
+    });
+    return new Set(applications.map(application => application.applicantId));
+}
+
+export function redactContactInfo<T extends { email: string; phoneNumber: string | null }>(user: T, hasApplication: boolean) {
+    if (hasApplication) return user;
+    const { email, phoneNumber, ...rest } = user;
+    return rest;
+}
@@ -3,7 +3,10 @@ import { Role } from "../../generated/prisma";
 
 declare global {
     namespace Express {
-        interface User extends UserPayload {}
+        interface User extends UserPayload {
+            applicantId?: string;
+            recruiterId?: string;
+        }
     }
 }
 
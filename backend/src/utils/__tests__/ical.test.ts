@@ -0,0 +1,92 @@
+import { buildCalendar, escapeICalText, foldLine, formatICalDate } from '../ical';
+
+describe('formatICalDate', () => {
+    it('writes UTC basic format without milliseconds', () => {
+        expect(formatICalDate(new Date('2026-10-20T09:30:15.250Z'))).toBe('20261020T093015Z');
+    });
+});
+
+describe('escapeICalText', () => {
+    it('escapes backslashes, separators and newlines', () => {
+        expect(escapeICalText('Room 4; floor 2, east\\west\r\nBring ID')).toBe('Room 4\\; floor 2\\, east\\\\west\\nBring ID');
+    });
+});
+
+describe('foldLine', () => {
+    it('leaves lines of up to 75 octets alone', () => {
+        const line = 'a'.repeat(75);
+        expect(foldLine(line)).toBe(line);
+    });
+
+    it('folds longer lines with a leading space on each continuation', () => {
+        const folded = foldLine('a'.repeat(75) + 'b'.repeat(80));
+        expect(folded).toBe(`${'a'.repeat(75)}\r\n ${'b'.repeat(74)}\r\n ${'b'.repeat(6)}`);
+        expect(folded.split('\r\n').map(line => Buffer.byteLength(line)).every(octets => octets <= 75)).toBe(true);
+    });
+
+    it('never splits a multi-byte character', () => {
+        const folded = foldLine('SUMMARY:' + 'é'.repeat(40));
+        const [first, second] = folded.split('\r\n');
+        expect(Buffer.byteLength(first)).toBe(74);
+        expect(first + second.slice(1)).toBe('SUMMARY:' + 'é'.repeat(40));
+    });
+});
+
+describe('buildCalendar', () => {
+    const now = new Date('2026-10-19T12:00:00Z');
+
+    it('writes an empty named calendar', () => {
+        expect(buildCalendar([], 'Interviews, Acme', now)).toBe([
+            'BEGIN:VCALENDAR',
+            'VERSION:2.0',
+            'PRODID:-//Job Portal//Interviews//EN',
+            'CALSCALE:GREGORIAN',
+            'METHOD:PUBLISH',
+            'NAME:Interviews\\, Acme',
+            'X-WR-CALNAME:Interviews\\, Acme',
+            'END:VCALENDAR',
+            ''
+        ].join('\r\n'));
+    });
+
+    it('writes only the event properties that are set', () => {
+        const calendar = buildCalendar([
+            {
+                uid: 'interview-1@jobportal',
+                start: new Date('2026-10-20T09:00:00Z'),
+                end: new Date('2026-10-20T09:45:00Z'),
+                summary: 'Round 1 interview',
+                status: 'CONFIRMED',
+                sequence: 2,
+                attendees: [{ name: 'Jane "JD" Doe', email: 'jane@example.com' }]
+            },
+            { uid: 'deadline-1@jobportal', start: new Date('2026-10-31T18:30:00Z'), summary: 'Application deadline' }
+        ], undefined, now);
+
+        expect(calendar.split('\r\n').slice(5, -2)).toEqual([
+            'BEGIN:VEVENT',
+            'UID:interview-1@jobportal',
+            'DTSTAMP:20261019T120000Z',
+            'DTSTART:20261020T090000Z',
+            'DTEND:20261020T094500Z',
+            'SUMMARY:Round 1 interview',
+            'STATUS:CONFIRMED',
+            'SEQUENCE:2',
+            "ATTENDEE;CN=\"Jane 'JD' Doe\";ROLE=REQ-PARTICIPANT:mailto:jane@example.com",
+            'END:VEVENT',
+            'BEGIN:VEVENT',
+            'UID:deadline-1@jobportal',
+            'DTSTAMP:20261019T120000Z',
+            'DTSTART:20261031T183000Z',
+            'SUMMARY:Application deadline',
+            'END:VEVENT'
+        ]);
+    });
+
+    it('folds long property lines', () => {
+        const calendar = buildCalendar([
+            { uid: 'interview-2@jobportal', start: now, summary: 'Interview', description: 'x'.repeat(200) }
+        ], undefined, now);
+        expect(calendar).toContain(`DESCRIPTION:${'x'.repeat(63)}\r\n ${'x'.repeat(74)}\r\n ${'x'.repeat(63)}\r\n`);
+    });
+});
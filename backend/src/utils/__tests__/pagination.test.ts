@@ -0,0 +1,113 @@
+import { buildPage, encodeCursor, pageArgs, parsePagination, Pagination } from '../pagination';
+
+const parse = (query: Record<string, string>, options?: { defaultLimit?: number; maxLimit?: number }) => {
+    const result = parsePagination(query, options);
+    if (!result.success) throw new Error(result.message);
+    return result.data;
+};
+
+const row = (id: string, createdAt: string) => ({ id, createdAt: new Date(createdAt) });
+
+describe('parsePagination', () => {
+    it('defaults to the first page', () => {
+        expect(parse({})).toEqual({ mode: 'page', limit: 10, page: 1, skip: 0, cursor: null });
+    });
+
+    it('computes skip from page and limit', () => {
+        expect(parse({ page: '3', limit: '20' })).toMatchObject({ page: 3, limit: 20, skip: 40 });
+    });
+
+    it('clamps the limit and falls back on unusable values', () => {
+        expect(parse({ limit: '500' }).limit).toBe(100);
+        expect(parse({ limit: '500' }, { maxLimit: 50 }).limit).toBe(50);
+        expect(parse({ limit: '-5' }).limit).toBe(1);
+        expect(parse({ limit: 'abc', page: '0' })).toMatchObject({ limit: 10, page: 1 });
+    });
+
+    it('switches to cursor mode and ignores page', () => {
+        const cursor = encodeCursor(row('job-2', '2026-10-01T10:00:00.000Z'));
+        expect(parse({ cursor, page: '4' })).toEqual({
+            mode: 'cursor',
+            limit: 10,
+            page: 1,
+            skip: 0,
+            cursor: { id: 'job-2', createdAt: new Date('2026-10-01T10:00:00.000Z') }
+        });
+    });
+
+    it('rejects cursors it did not issue', () => {
+        expect(parsePagination({ cursor: 'not-a-cursor' })).toEqual({ success: false, message: "Invalid cursor" });
+        const wrongShape = Buffer.from(JSON.stringify(['yesterday', 7])).toString('base64url');
+        expect(parsePagination({ cursor: wrongShape }).success).toBe(false);
+    });
+});
+
+describe('pageArgs', () => {
+    it('fetches one extra row ordered by createdAt and id', () => {
+        expect(pageArgs({ jobId: 'job-1' }, parse({ page: '2', limit: '5' }))).toEqual({
+            where: { jobId: 'job-1' },
+            orderBy: [{ createdAt: 'desc' }, { id: 'desc' }],
+            skip: 5,
+            take: 6
+        });
+    });
+
+    it('continues after the cursor in the requested order', () => {
+        const cursor = encodeCursor(row('job-2', '2026-10-01T10:00:00.000Z'));
+        const args = pageArgs({ jobId: 'job-1' }, parse({ cursor }), 'asc');
+        expect(args.where).toEqual({
+            AND: [
+                { jobId: 'job-1' },
+                {
+                    OR: [
+                        { createdAt: { gt: new Date('2026-10-01T10:00:00.000Z') } },
+                        { createdAt: new Date('2026-10-01T10:00:00.000Z'), id: { gt: 'job-2' } }
+                    ]
+                }
+            ]
+        });
+        expect(args.orderBy).toEqual([{ createdAt: 'asc' }, { id: 'asc' }]);
+    });
+});
+
+describe('buildPage', () => {
+    const rows = [
+        row('c', '2026-10-03T00:00:00.000Z'),
+        row('b', '2026-10-02T00:00:00.000Z'),
+        row('a', '2026-10-01T00:00:00.000Z')
+    ];
+
+    it('trims the extra row and reports the next page', () => {
+        const page = buildPage(rows, parse({ limit: '2' }), 3);
+        expect(page.items.map(item => item.id)).toEqual(['c', 'b']);
+        expect(page.pagination).toEqual({
+            mode: 'page',
+            limit: 2,
+            page: 1,
+            total: 3,
+            totalPages: 2,
+            hasNextPage: true,
+            hasPrevPage: false,
+            nextCursor: encodeCursor(rows[1])
+        });
+    });
+
+    it('has no next page or cursor on the last page', () => {
+        const page = buildPage(rows.slice(2), parse({ limit: '2', page: '2' }), 3);
+        expect(page.pagination).toMatchObject({ page: 2, hasNextPage: false, hasPrevPage: true, nextCursor: null });
+    });
+
+    it('leaves page counts out in cursor mode', () => {
+        const pagination: Pagination = parse({ cursor: encodeCursor(rows[0]), limit: '1' });
+        expect(buildPage(rows.slice(1), pagination, 3).pagination).toEqual({
+            mode: 'cursor',
+            limit: 1,
+            page: null,
+            total: null,
+            totalPages: null,
+            hasNextPage: true,
+            hasPrevPage: true,
+            nextCursor: encodeCursor(rows[1])
+        });
+    });
+});
@@ -0,0 +1,14 @@
+import { Currency } from '@prisma/client';
+
+// Approximate INR value of one unit of each currency. Only used to compare
+// salary expectations against job CTC ranges, so it does not need live rates.
+const inrPerUnit: Record<Currency, number> = {
+    INR: 1,
+    USD: 83,
+    EUR: 90,
+};
+
+export function convertCurrency(amount: number, from: Currency, to: Currency) {
+    if (from === to) return amount;
+    return amount * inrPerUnit[from] / inrPerUnit[to];
+}
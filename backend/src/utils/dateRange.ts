@@ -0,0 +1,5 @@
+// A missing endDate means the entry is still ongoing (current role or ongoing studies).
+export function isValidDateRange(startDate: Date, endDate?: Date | null) {
+    if (!endDate) return true;
+    return endDate > startDate;
+}
@@ -0,0 +1,93 @@
+// Minimal RFC 5545 (iCalendar) writer for the events this API publishes.
+// Times are always written in UTC, so no VTIMEZONE components are needed.
+
+export interface CalendarEvent {
+    uid: string;
+    start: Date;
+    // Omitted for instants such as deadlines; the event then ends at its start.
+    end?: Date;
+    summary: string;
+    description?: string;
+    location?: string;
+    url?: string;
+    status?: 'TENTATIVE' | 'CONFIRMED' | 'CANCELLED';
+    // Must grow whenever the event changes so clients replace their copy.
+    sequence?: number;
+    lastModified?: Date;
+    attendees?: { name: string; email: string }[];
+}
+
+const PRODUCT_ID = '-//Job Portal//Interviews//EN';
+const MAX_LINE_OCTETS = 75;
+
+export function formatICalDate(date: Date) {
+    return date.toISOString().replace(/[-:]/g, '').replace(/\.\d{3}/, '');
+}
+
+export function escapeICalText(value: string) {
+    return value
+        .replace(/\\/g, '\\\\')
+        .replace(/;/g, '\\;')
+        .replace(/,/g, '\\,')
+        .replace(/\r?\n/g, '\\n');
+}
+
+// Lines longer than 75 octets are split, each continuation starting with a space.
+export function foldLine(line: string) {
+    const lines: string[] = [];
+    let current = '';
+    let octets = 0;
+    for (const char of line) {
+        const size = Buffer.byteLength(char);
+        const limit = lines.length ? MAX_LINE_OCTETS - 1 : MAX_LINE_OCTETS;
+        if (octets + size > limit) {
+            lines.push(current);
+            current = '';
+            octets = 0;
+        }
+        current += char;
+        octets += size;
+    }
+    lines.push(current);
+    return lines.join('\r\n ');
+}
+
+function eventLines(event: CalendarEvent, stamp: Date) {
+    const lines = [
+        'BEGIN:VEVENT',
+        `UID:${event.uid}`,
+        `DTSTAMP:${formatICalDate(stamp)}`,
+        `DTSTART:${formatICalDate(event.start)}`
+    ];
+    if (event.end) lines.push(`DTEND:${formatICalDate(event.end)}`);
+    lines.push(`SUMMARY:${escapeICalText(event.summary)}`);
+    if (event.description) lines.push(`DESCRIPTION:${escapeICalText(event.description)}`);
+    if (event.location) lines.push(`LOCATION:${escapeICalText(event.location)}`);
+    if (event.url) lines.push(`URL:${event.url}`);
+    if (event.status) lines.push(`STATUS:${event.status}`);
+    if (event.sequence !== undefined) lines.push(`SEQUENCE:${event.sequence}`);
+    if (event.lastModified) lines.push(`LAST-MODIFIED:${formatICalDate(event.lastModified)}`);
+    for (const attendee of event.attendees ?? []) {
+        lines.push(`ATTENDEE;CN="${attendee.name.replace(/"/g, "'")}";ROLE=REQ-PARTICIPANT:mailto:${attendee.email}`);
+    }
+    lines.push('END:VEVENT');
+    return lines;
+}
+
+export function buildCalendar(events: CalendarEvent[], name?: string, now = new Date()) {
+    const lines = [
+        'BEGIN:VCALENDAR',
+        'VERSION:2.0',
+        `PRODID:${PRODUCT_ID}`,
+        'CALSCALE:GREGORIAN',
+        'METHOD:PUBLISH'
+    ];
+    if (name) {
+        lines.push(`NAME:${escapeICalText(name)}`, `X-WR-CALNAME:${escapeICalText(name)}`);
+    }
+    for (const event of events) {
+        lines.push(...eventLines(event, now));
+    }
+    lines.push('END:VCALENDAR');
+    return lines.map(foldLine).join('\r\n') + '\r\n';
+}
@@ -0,0 +1,114 @@
+import { Request } from 'express';
+import { IRequestParameter, SchemaObject } from '../docs/documentation';
+
+export type SortOrder = 'asc' | 'desc';
+
+interface Cursor {
+    createdAt: Date;
+    id: string;
+}
+
+export interface Pagination {
+    mode: 'page' | 'cursor';
+    limit: number;
+    page: number;
+    skip: number;
+    cursor: Cursor | null;
+}
+
+type PaginationResult =
+    | { success: true; data: Pagination }
+    | { success: false; message: string };
+
+export function encodeCursor(item: { createdAt: Date; id: string }) {
+    return Buffer.from(JSON.stringify([item.createdAt.toISOString(), item.id])).toString('base64url');
+}
+
+function decodeCursor(value: string): Cursor | null {
+    try {
+        const [createdAt, id] = JSON.parse(Buffer.from(value, 'base64url').toString('utf8'));
+        const date = new Date(createdAt);
+        if (typeof id !== 'string' || isNaN(date.getTime())) return null;
+        return { createdAt: date, id };
+    } catch {
+        return null;
+    }
+}
+
+// Reads `page`/`limit`/`cursor` from the query string. Passing `cursor`
+// switches to keyset pagination on (createdAt, id); `page` is ignored then.
+export function parsePagination(query: Request['query'], { defaultLimit = 10, maxLimit = 100 } = {}): PaginationResult {
+    const limit = Math.min(Math.max(parseInt(query.limit as string, 10) || defaultLimit, 1), maxLimit);
+
+    if (query.cursor !== undefined) {
+        const cursor = typeof query.cursor === 'string' ? decodeCursor(query.cursor) : null;
+        if (!cursor) {
+            return { success: false, message: "Invalid cursor" };
+        }
+        return { success: true, data: { mode: 'cursor', limit, page: 1, skip: 0, cursor } };
+    }
+
+    const page = Math.max(parseInt(query.page as string, 10) || 1, 1);
+    return { success: true, data: { mode: 'page', limit, page, skip: (page - 1) * limit, cursor: null } };
+}
+
+// Prisma arguments for one page. One extra row is fetched so buildPage can
+// tell whether there is a next page without a count query.
+export function pageArgs<W extends object>(where: W, pagination: Pagination, order: SortOrder = 'desc') {
+    const { cursor } = pagination;
+    let cursorWhere = {};
+    if (cursor) {
+        cursorWhere = order === 'desc'
+            ? { OR: [{ createdAt: { lt: cursor.createdAt } }, { createdAt: cursor.createdAt, id: { lt: cursor.id } }] }
+            : { OR: [{ createdAt: { gt: cursor.createdAt } }, { createdAt: cursor.createdAt, id: { gt: cursor.id } }] };
+    }
+
+    return {
+        where: (cursor ? { AND: [where, cursorWhere] } : where) as W,
+        orderBy: [{ createdAt: order }, { id: order }],
+        skip: pagination.skip,
+        take: pagination.limit + 1
+    };
+}
+
+// `total` is only counted in page mode; cursor mode exists to avoid scanning
+// the whole table, so total/page/totalPages are null there.
+export function buildPage<T extends { createdAt: Date; id: string }>(rows: T[], pagination: Pagination, total: number | null = null) {
+    const items = rows.slice(0, pagination.limit);
+    const hasNextPage = rows.length > pagination.limit;
+    const last = items[items.length - 1];
+
+    return {
+        items,
+        pagination: {
+            mode: pagination.mode,
+            limit: pagination.limit,
+            page: pagination.mode === 'page' ? pagination.page : null,
+            total: pagination.mode === 'page' ? total : null,
+            totalPages: pagination.mode === 'page' && total !== null ? Math.ceil(total / pagination.limit) : null,
+            hasNextPage,
+            hasPrevPage: pagination.mode === 'cursor' || pagination.page > 1,
+            nextCursor: hasNextPage && last ? encodeCursor(last) : null
+        }
+    };
+}
+
+export const paginationParameters: IRequestParameter[] = [
+    { in: "query", name: "page", required: false, schema: { type: "integer", example: 1 }, description: "Page number (page mode). Ignored when cursor is given." },
+    { in: "query", name: "limit", required: false, schema: { type: "integer", example: 10 }, description: "Items per page, at most 100" },
+    { in: "query", name: "cursor", required: false, schema: { type: "string" }, description: "Opaque cursor from pagination.nextCursor. Switches to cursor mode." },
+];
+
+export const paginationSchema: SchemaObject = {
+    type: "object",
+    properties: {
+        mode: { type: "string", enum: ["page", "cursor"], example: "page" },
+        limit: { type: "integer", example: 10 },
+        page: { type: "integer", nullable: true, example: 1, description: "null in cursor mode" },
+        total: { type: "integer", nullable: true, example: 120, description: "null in cursor mode" },
+        totalPages: { type: "integer", nullable: true, example: 12, description: "null in cursor mode" },
+        hasNextPage: { type: "boolean", example: true },
+        hasPrevPage: { type: "boolean", example: false },
+        nextCursor: { type: "string", nullable: true, example: "WyIyMDI1LTEwLTAxVDEwOjAwOjAwLjAwMFoiLCJqb2ItaWQiXQ" },
+    }
+};
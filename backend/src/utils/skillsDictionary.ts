@@ -0,0 +1,94 @@
+// Canonical skill name -> extra spellings that should be recognised in resume
+// text. The canonical name itself is always matched, case-insensitively.
+export const skillsDictionary: Record<string, string[]> = {
+    "JavaScript": ["JS", "ECMAScript"],
+    "TypeScript": ["TS"],
+    "Python": [],
+    "Java": [],
+    "Kotlin": [],
+    "Swift": [],
+    "Go": ["Golang"],
+    "Rust": [],
+    "C++": ["CPP"],
+    "C#": ["CSharp"],
+    "PHP": [],
+    "Ruby": [],
+    "Scala": [],
+    "SQL": [],
+    "HTML": ["HTML5"],
+    "CSS": ["CSS3"],
+    "Sass": ["SCSS"],
+    "Tailwind CSS": ["Tailwind", "TailwindCSS"],
+    "React": ["React.js", "ReactJS"],
+    "React Native": [],
+    "Next.js": ["NextJS"],
+    "Vue.js": ["Vue", "VueJS"],
+    "Angular": ["AngularJS"],
+    "Svelte": [],
+    "Redux": [],
+    "Node.js": ["Node", "NodeJS"],
+    "Express": ["Express.js", "ExpressJS"],
+    "NestJS": [],
+    "Django": [],
+    "Flask": [],
+    "FastAPI": [],
+    "Spring Boot": ["Spring"],
+    "Ruby on Rails": ["Rails"],
+    "Laravel": [],
+    ".NET": ["ASP.NET", "dotnet"],
+    "GraphQL": [],
+    "REST APIs": ["REST", "RESTful"],
+    "gRPC": [],
+    "PostgreSQL": ["Postgres"],
+    "MySQL": [],
+    "MongoDB": ["Mongo"],
+    "Redis": [],
+    "Elasticsearch": [],
+    "SQLite": [],
+    "DynamoDB": [],
+    "Prisma": [],
+    "Kafka": ["Apache Kafka"],
+    "RabbitMQ": [],
+    "Docker": [],
+    "Kubernetes": ["K8s"],
+    "Terraform": [],
+    "Ansible": [],
+    "AWS": ["Amazon Web Services"],
+    "GCP": ["Google Cloud", "Google Cloud Platform"],
+    "Azure": ["Microsoft Azure"],
+    "Linux": [],
+    "Git": [],
+    "CI/CD": ["Continuous Integration"],
+    "Jenkins": [],
+    "GitHub Actions": [],
+    "Jest": [],
+    "Cypress": [],
+    "Playwright": [],
+    "Selenium": [],
+    "Machine Learning": ["ML"],
+    "Deep Learning": [],
+    "TensorFlow": [],
+    "PyTorch": [],
+    "Pandas": [],
+    "NumPy": [],
+    "scikit-learn": ["sklearn"],
+    "Data Analysis": [],
+    "Power BI": ["PowerBI"],
+    "Tableau": [],
+    "Excel": ["Microsoft Excel"],
+    "Figma": [],
+    "Adobe XD": [],
+    "Photoshop": ["Adobe Photoshop"],
+    "UI/UX Design": ["UI/UX", "UX Design", "UI Design"],
+    "Agile": ["Scrum"],
+    "Jira": [],
+    "Project Management": [],
+    "Product Management": [],
+    "SEO": [],
+    "Digital Marketing": [],
+    "Salesforce": [],
+    "Android": [],
+    "iOS": [],
+    "Flutter": [],
+    "Unity": [],
+};
@@ -0,0 +1,23 @@
+// Accepts IANA zone names such as "Asia/Kolkata" or "Europe/Berlin".
+export function isValidTimeZone(timeZone: string) {
+    try {
+        new Intl.DateTimeFormat('en-US', { timeZone });
+        return true;
+    } catch {
+        return false;
+    }
+}
+
+// e.g. "Oct 21, 2026, 3:30 PM GMT+5:30"
+export function formatInTimeZone(date: Date, timeZone: string) {
+    return new Intl.DateTimeFormat('en-US', {
+        timeZone,
+        dateStyle: 'medium',
+        timeStyle: 'short',
+    }).format(date) + ` ${timeZoneLabel(date, timeZone)}`;
+}
+
+function timeZoneLabel(date: Date, timeZone: string) {
+    const parts = new Intl.DateTimeFormat('en-US', { timeZone, timeZoneName: 'shortOffset' }).formatToParts(date);
+    return parts.find(part => part.type === 'timeZoneName')?.value ?? timeZone;
+}
@@ -1,5 +1,5 @@
 "use client"
-import React from 'react'
+import React, { useEffect, useState } from 'react'
 import NotificationIcon from '../icons/NotificationIcon'
 import { Button } from '../ui/button';
 import Link from 'next/link';
@@ -13,10 +13,28 @@ const user = {
   role: 'employer', // Change to 'applicant' or null to test
 };
 
+const API_URL = process.env.NEXT_PUBLIC_API_URL ?? 'http://localhost:8000/api/v1';
+
 const Navbar = () => {
     const isLoggedIn = !!user;
     const isEmployer = user?.role === 'employer';
     const router = useRouter();
+    const [unreadCount, setUnreadCount] = useState(0);
+
+    useEffect(() => {
+        if (!isLoggedIn) return;
+
+        fetch(`${API_URL}/notifications/unread-count`, { credentials: 'include' })
+            .then(res => res.ok ? res.json() : { count: 0 })
+            .then(data => setUnreadCount(data.count ?? 0))
+            .catch(() => setUnreadCount(0));
+
+        const stream = new EventSource(`${API_URL}/notifications/stream`, { withCredentials: true });
+        stream.addEventListener('notification', () => setUnreadCount(count => count + 1));
+
+        return () => stream.close();
+    }, [isLoggedIn]);
+
     return (
         <nav id='navbar' className='w-full flex justify-between items-center px-8 py-3 border-b'>
             <h2 className="text-2xl font-semibold text-primary cursor-pointer select-none">
@@ -55,7 +73,9 @@ const Navbar = () => {
                 {isLoggedIn && (
                     <button className="relative">
                         <NotificationIcon />
-                        <span className="absolute top-0 right-0 h-2 w-2 bg-red-500 rounded-full border border-white" />
+                        {unreadCount > 0 && (
+                            <span className="absolute top-0 right-0 h-2 w-2 bg-red-500 rounded-full border border-white" />
+                        )}
                     </button>
                 )}
 